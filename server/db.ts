@@ -47,15 +47,145 @@ db.exec(`
   CREATE INDEX IF NOT EXISTS idx_created_at ON tournaments(created_at);
 `);
 
+// Add rated flag column (only archives saved with the club admin key count towards ratings)
+const tournamentColumns = db.prepare(`PRAGMA table_info(tournaments)`).all() as Array<{ name: string }>;
+if (!tournamentColumns.some(col => col.name === 'rated')) {
+  db.exec(`ALTER TABLE tournaments ADD COLUMN rated INTEGER NOT NULL DEFAULT 0`);
+}
+
+// Add public flag column (opt-in listing in the archive browser)
+if (!tournamentColumns.some(col => col.name === 'is_public')) {
+  db.exec(`ALTER TABLE tournaments ADD COLUMN is_public INTEGER NOT NULL DEFAULT 0`);
+}
+db.exec(`CREATE INDEX IF NOT EXISTS idx_public_created_at ON tournaments(is_public, created_at)`);
+
+// Create live rooms table (write-through copy of in-memory rooms, survives restarts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS live_rooms (
+    code TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    action_log TEXT,
+    player_claims TEXT,
+    host_access TEXT,
+    round_timer TEXT,
+    created_at INTEGER NOT NULL,
+    last_activity INTEGER NOT NULL
+  );
+`);
+
+// Add action log column to live rooms tables created before it existed
+const liveRoomColumns = db.prepare(`PRAGMA table_info(live_rooms)`).all() as Array<{ name: string }>;
+if (!liveRoomColumns.some(col => col.name === 'action_log')) {
+  db.exec(`ALTER TABLE live_rooms ADD COLUMN action_log TEXT`);
+}
+
+// Add player join token column (kept out of tournament data so it's never broadcast)
+if (!liveRoomColumns.some(col => col.name === 'player_claims')) {
+  db.exec(`ALTER TABLE live_rooms ADD COLUMN player_claims TEXT`);
+}
+
+// Add host secret / co-director column (also kept out of tournament data)
+if (!liveRoomColumns.some(col => col.name === 'host_access')) {
+  db.exec(`ALTER TABLE live_rooms ADD COLUMN host_access TEXT`);
+}
+
+// Add round clock column (so a running clock survives a restart)
+if (!liveRoomColumns.some(col => col.name === 'round_timer')) {
+  db.exec(`ALTER TABLE live_rooms ADD COLUMN round_timer TEXT`);
+}
+
+// Create club player registry (identities that carry across tournaments)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS registry_players (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    aliases TEXT NOT NULL DEFAULT '[]',
+    merged_into TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`);
+
+// Link each archived tournament's players to their registry identity
+db.exec(`
+  CREATE TABLE IF NOT EXISTS archive_players (
+    code TEXT NOT NULL,
+    player_id TEXT NOT NULL,
+    registry_id TEXT NOT NULL,
+    player_name TEXT NOT NULL,
+    PRIMARY KEY (code, player_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_archive_players_registry ON archive_players(registry_id);
+`);
+
+// Create club ratings (rebuilt from the archives whenever they change)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS player_ratings (
+    registry_id TEXT PRIMARY KEY,
+    rating REAL NOT NULL,
+    peak REAL NOT NULL,
+    games INTEGER NOT NULL,
+    wins INTEGER NOT NULL,
+    losses INTEGER NOT NULL,
+    ties INTEGER NOT NULL,
+    tournaments INTEGER NOT NULL,
+    last_played_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS rating_history (
+    registry_id TEXT NOT NULL,
+    code TEXT NOT NULL,
+    tournament_name TEXT NOT NULL,
+    archived_at INTEGER NOT NULL,
+    rating_before REAL NOT NULL,
+    rating_after REAL NOT NULL,
+    games INTEGER NOT NULL,
+    PRIMARY KEY (registry_id, code)
+  );
+`);
+
+// Create seasons (league series of archived tournaments)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS seasons (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    rules TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS season_tournaments (
+    season_id TEXT NOT NULL,
+    code TEXT NOT NULL,
+    added_at INTEGER NOT NULL,
+    PRIMARY KEY (season_id, code)
+  );
+  CREATE INDEX IF NOT EXISTS idx_season_tournaments_code ON season_tournaments(code);
+`);
+
 console.log('✅ Database initialized');
 
+// Shared WHERE clause for browsing public archives. A player matches by the
+// name they played under or their current club registry name.
+const PUBLIC_ARCHIVE_FILTERS = `
+  t.is_public = 1 AND t.expires_at > @now
+  AND (@name IS NULL OR t.name LIKE @name ESCAPE '\\')
+  AND (@status IS NULL OR t.status = @status)
+  AND (@from IS NULL OR t.created_at >= @from)
+  AND (@to IS NULL OR t.created_at < @to)
+  AND (@player IS NULL OR EXISTS (
+    SELECT 1 FROM archive_players a
+    LEFT JOIN registry_players p ON p.id = a.registry_id
+    WHERE a.code = t.code
+    AND (a.player_name LIKE @player ESCAPE '\\' OR p.name LIKE @player ESCAPE '\\')
+  ))
+`;
+
 // Prepared statements for common operations
 export const queries = {
   // Insert or replace tournament
   saveTournament: db.prepare(`
     INSERT OR REPLACE INTO tournaments 
-    (code, name, data, created_at, expires_at, archived_by_ip, size_bytes, player_count, status)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    (code, name, data, created_at, expires_at, archived_by_ip, size_bytes, player_count, status, is_public)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `),
 
   // Get tournament by code
@@ -99,12 +229,199 @@ export const queries = {
     FROM tournaments
   `),
 
+  // Public archives matching the browse filters, newest first. Unused
+  // filters are passed as null; name filters are LIKE patterns.
+  searchPublicTournaments: db.prepare(`
+    SELECT code, name, created_at, expires_at, player_count, status
+    FROM tournaments t
+    WHERE ${PUBLIC_ARCHIVE_FILTERS}
+    ORDER BY created_at DESC
+    LIMIT @limit OFFSET @offset
+  `),
+
+  countPublicTournaments: db.prepare(`
+    SELECT COUNT(*) as count FROM tournaments t
+    WHERE ${PUBLIC_ARCHIVE_FILTERS}
+  `),
+
   // Count archives by IP in last 24 hours
   countRecentByIP: db.prepare(`
     SELECT COUNT(*) as count 
     FROM tournaments 
     WHERE archived_by_ip = ? 
     AND created_at > ?
+  `),
+
+  // Insert or replace a live room
+  saveLiveRoom: db.prepare(`
+    INSERT OR REPLACE INTO live_rooms
+    (code, data, action_log, player_claims, host_access, round_timer, created_at, last_activity)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `),
+
+  // Update live room activity without rewriting tournament data
+  touchLiveRoom: db.prepare(`
+    UPDATE live_rooms SET last_activity = ? WHERE code = ?
+  `),
+
+  // Get all live rooms (for rehydration on boot)
+  getLiveRooms: db.prepare(`
+    SELECT * FROM live_rooms
+  `),
+
+  // Delete a live room
+  deleteLiveRoom: db.prepare(`
+    DELETE FROM live_rooms WHERE code = ?
+  `),
+
+  // Get all registered players (merged records included, so old links resolve)
+  getRegistryPlayers: db.prepare(`
+    SELECT * FROM registry_players ORDER BY name COLLATE NOCASE
+  `),
+
+  // Get a registered player by ID
+  getRegistryPlayer: db.prepare(`
+    SELECT * FROM registry_players WHERE id = ?
+  `),
+
+  // Insert or replace a registered player
+  saveRegistryPlayer: db.prepare(`
+    INSERT OR REPLACE INTO registry_players
+    (id, name, aliases, merged_into, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `),
+
+  // Replace an archive's player links
+  deleteArchivePlayers: db.prepare(`
+    DELETE FROM archive_players WHERE code = ?
+  `),
+
+  saveArchivePlayer: db.prepare(`
+    INSERT OR REPLACE INTO archive_players
+    (code, player_id, registry_id, player_name)
+    VALUES (?, ?, ?, ?)
+  `),
+
+  // Point a merged player's archive links at the player they were merged into
+  reassignArchivePlayers: db.prepare(`
+    UPDATE archive_players SET registry_id = ? WHERE registry_id = ?
+  `),
+
+  // Archived tournaments a registered player took part in, newest first
+  getRegistryPlayerResults: db.prepare(`
+    SELECT a.code, t.name AS tournament_name, t.created_at, a.player_name
+    FROM archive_players a
+    JOIN tournaments t ON t.code = a.code
+    WHERE a.registry_id = ? AND t.expires_at > ?
+    ORDER BY t.created_at DESC
+  `),
+
+  // Mark an archive as counting towards club ratings
+  setTournamentRated: db.prepare(`
+    UPDATE tournaments SET rated = ? WHERE code = ?
+  `),
+
+  // Archives to rate, oldest first
+  getRatedTournaments: db.prepare(`
+    SELECT code, data, created_at FROM tournaments
+    WHERE expires_at > ? AND rated = 1
+    ORDER BY created_at ASC
+  `),
+
+  getArchivePlayerLinks: db.prepare(`
+    SELECT code, player_id, registry_id FROM archive_players
+  `),
+
+  clearRatings: db.prepare(`
+    DELETE FROM player_ratings
+  `),
+
+  clearRatingHistory: db.prepare(`
+    DELETE FROM rating_history
+  `),
+
+  saveRating: db.prepare(`
+    INSERT INTO player_ratings
+    (registry_id, rating, peak, games, wins, losses, ties, tournaments, last_played_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `),
+
+  saveRatingHistory: db.prepare(`
+    INSERT INTO rating_history
+    (registry_id, code, tournament_name, archived_at, rating_before, rating_after, games)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `),
+
+  // Club ratings with player names, highest first
+  getRatings: db.prepare(`
+    SELECT r.*, p.name FROM player_ratings r
+    JOIN registry_players p ON p.id = r.registry_id
+    ORDER BY r.rating DESC
+  `),
+
+  getRating: db.prepare(`
+    SELECT r.*, p.name FROM player_ratings r
+    JOIN registry_players p ON p.id = r.registry_id
+    WHERE r.registry_id = ?
+  `),
+
+  // A player's rating after each tournament, oldest first
+  getRatingHistory: db.prepare(`
+    SELECT * FROM rating_history WHERE registry_id = ? ORDER BY archived_at ASC
+  `),
+
+  // Seasons, newest first
+  getSeasons: db.prepare(`
+    SELECT * FROM seasons ORDER BY created_at DESC
+  `),
+
+  getSeason: db.prepare(`
+    SELECT * FROM seasons WHERE id = ?
+  `),
+
+  saveSeason: db.prepare(`
+    INSERT OR REPLACE INTO seasons
+    (id, name, rules, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?)
+  `),
+
+  // A season's archived tournaments, oldest first (expired archives left out)
+  getSeasonTournaments: db.prepare(`
+    SELECT t.code, t.name, t.created_at
+    FROM season_tournaments s
+    JOIN tournaments t ON t.code = s.code
+    WHERE s.season_id = ? AND t.expires_at > ?
+    ORDER BY t.created_at ASC
+  `),
+
+  getSeasonArchives: db.prepare(`
+    SELECT t.code, t.data, t.created_at
+    FROM season_tournaments s
+    JOIN tournaments t ON t.code = s.code
+    WHERE s.season_id = ? AND t.expires_at > ?
+    ORDER BY t.created_at ASC
+  `),
+
+  addSeasonTournament: db.prepare(`
+    INSERT OR IGNORE INTO season_tournaments (season_id, code, added_at) VALUES (?, ?, ?)
+  `),
+
+  removeSeasonTournament: db.prepare(`
+    DELETE FROM season_tournaments WHERE season_id = ? AND code = ?
+  `),
+
+  // Seasons an archive counts towards
+  getTournamentSeasons: db.prepare(`
+    SELECT season_id FROM season_tournaments WHERE code = ?
+  `),
+
+  // Keep a season's archives until the season is over
+  extendExpiry: db.prepare(`
+    UPDATE tournaments SET expires_at = MAX(expires_at, ?) WHERE code = ?
+  `),
+
+  getArchivePlayerLinksByCode: db.prepare(`
+    SELECT player_id, registry_id FROM archive_players WHERE code = ?
   `)
 };
 
@@ -2,7 +2,7 @@
 
 import express from 'express';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
+import { Server, type Socket } from 'socket.io';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -11,12 +11,18 @@ import type {
   ServerToClientEvents, 
   InterServerEvents, 
   SocketData,
-  TournamentRoom 
+  TournamentRoom,
+  CoDirector
 } from './types.js';
+import type { ActionActor, DirectorPermission, GameScore } from '../src/types.js';
 import { ROOM_CONFIG } from './types.js';
 import * as RoomManager from './roomManager.js';
+import * as Engine from '../src/engine/index.js';
 import archiveRoutes from './routes/archive.js';
 import tournamentRoutes from './routes/tournament.js';
+import playerRoutes from './routes/players.js';
+import ratingRoutes from './routes/ratings.js';
+import seasonRoutes from './routes/seasons.js';
 import { startCleanupSchedule } from './utils/cleanup.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -39,6 +45,9 @@ const io = new Server<
   },
 });
 
+// A connected client, typed like the server above
+type TournamentSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
 // Server start time for uptime calculation
 const serverStartTime = Date.now();
 
@@ -157,6 +166,9 @@ app.use(express.json({ limit: '1mb' }));
 // Archive API routes
 app.use('/api', archiveRoutes);
 app.use('/api', tournamentRoutes);
+app.use('/api', playerRoutes);
+app.use('/api', ratingRoutes);
+app.use('/api', seasonRoutes);
 
 // ============================================
 // Static file serving (AFTER API routes)
@@ -186,6 +198,7 @@ io.on('connection', (socket) => {
   socket.data.playerName = '';
   socket.data.playerId = null;
   socket.data.isHost = false;
+  socket.data.directorId = null;
   
   // ----------------------------------------
   // Room Management
@@ -214,6 +227,8 @@ io.on('connection', (socket) => {
       code: room.code,
       tournament: room.tournament,
     });
+    sendActionHistory(room.code);
+    sendHostAccess(room.code);
     
     console.log(`[Create] Tournament created with code: ${room.code}`);
   });
@@ -244,6 +259,8 @@ io.on('connection', (socket) => {
       code: room.code,
       tournament: room.tournament,
     });
+    sendActionHistory(room.code);
+    sendHostAccess(room.code);
     
     console.log(`[Create] Tournament "${tournament.name}" loaded with code: ${room.code}`);
   });
@@ -263,12 +280,24 @@ io.on('connection', (socket) => {
       return;
     }
     
-    // Add as connected player (will try to match to existing player)
+    // Host rights come from the host secret (or a handoff code), co-director rights from their own secret
+    const role = authenticateRole(socket, normalizedCode, data);
+    
+    // A player identity only comes from a join token issued by the host
+    const playerId = role.isHost ? null : redeemPlayerToken(socket, normalizedCode, data);
+    const displayName = playerName
+      || room.tournament.players.find(p => p.id === playerId)?.name
+      || role.director?.name
+      || (role.isHost ? 'Host' : '');
+    
     const connectedPlayer = RoomManager.addConnectedPlayer(
       normalizedCode, 
       socket.id, 
-      playerName, 
-      false
+      displayName, 
+      role.isHost,
+      playerId,
+      data.deviceId ?? null,
+      role.director?.id ?? null
     );
     
     if (!connectedPlayer) {
@@ -281,24 +310,36 @@ io.on('connection', (socket) => {
     // Join socket to room
     socket.join(normalizedCode);
     socket.data.roomCode = normalizedCode;
-    socket.data.playerName = playerName;
+    socket.data.playerName = displayName;
     socket.data.playerId = connectedPlayer.playerId;
-    socket.data.isHost = false;
+    socket.data.isHost = role.isHost;
+    socket.data.directorId = role.director?.id ?? null;
+    
+    if (role.isHost) {
+      takeOverHost(socket, normalizedCode);
+    }
     
     // Send tournament state to joining player
     socket.emit('tournament_joined', {
       tournament: room.tournament,
       playerId: connectedPlayer.playerId,
-      isHost: false,
+      isHost: role.isHost || role.director !== null,
+      directorPermissions: role.director?.permissions ?? null,
     });
+    sendRoundTimer(socket, normalizedCode);
+    if (role.isHost) {
+      sendActionHistory(normalizedCode);
+    }
     
     // Notify others in the room
     socket.to(normalizedCode).emit('player_connected', {
-      playerName,
+      playerName: displayName,
       connectedCount: RoomManager.getConnectedCount(normalizedCode),
     });
+    sendPlayerClaims(normalizedCode);
+    sendHostAccess(normalizedCode);
     
-    console.log(`[Join] "${playerName}" joined ${normalizedCode}${connectedPlayer.playerId ? ` as player ${connectedPlayer.playerId}` : ' as spectator'}`);
+    console.log(`[Join] "${displayName}" joined ${normalizedCode} as ${describeRole(role, connectedPlayer.playerId)}`);
   });
   
   socket.on('leave_tournament', () => {
@@ -307,10 +348,10 @@ io.on('connection', (socket) => {
   
   // Handle reconnection - rejoin tournament after socket disconnect/reconnect
   socket.on('rejoin_tournament', (data) => {
-    const { code, playerName, isHost } = data;
+    const { code, playerName } = data;
     const normalizedCode = code.toUpperCase().trim();
     
-    console.log(`[Rejoin] "${playerName}" attempting to rejoin ${normalizedCode} as ${isHost ? 'host' : 'player'}`);
+    console.log(`[Rejoin] "${playerName}" attempting to rejoin ${normalizedCode}`);
     
     const room = RoomManager.getRoom(normalizedCode);
     
@@ -322,24 +363,20 @@ io.on('connection', (socket) => {
       return;
     }
     
-    // For host rejoin, verify they were the original host
-    let actuallyHost = isHost;
-    if (isHost) {
-      // Check if there's currently no host connected, or the host name matches
-      const existingHost = Array.from(room.connectedPlayers.values()).find(p => p.isHost);
-      if (existingHost && existingHost.socketId !== socket.id) {
-        // There's already a different host connected - join as regular player
-        console.log(`[Rejoin] Host already connected, joining as player`);
-        actuallyHost = false;
-      }
-    }
+    // Host rights are only restored with the host secret - never from the client's say-so
+    const role = authenticateRole(socket, normalizedCode, data);
+    
+    // Players get their identity back by presenting their join token again
+    const playerId = role.isHost ? null : redeemPlayerToken(socket, normalizedCode, data);
     
-    // Add as connected player
     const connectedPlayer = RoomManager.addConnectedPlayer(
       normalizedCode, 
       socket.id, 
       playerName, 
-      actuallyHost
+      role.isHost,
+      playerId,
+      data.deviceId ?? null,
+      role.director?.id ?? null
     );
     
     if (!connectedPlayer) {
@@ -349,32 +386,39 @@ io.on('connection', (socket) => {
       return;
     }
     
-    // Update host socket ID if rejoining as host
-    if (actuallyHost) {
-      room.hostSocketId = socket.id;
-    }
-    
     // Join socket to room
     socket.join(normalizedCode);
     socket.data.roomCode = normalizedCode;
     socket.data.playerName = playerName;
     socket.data.playerId = connectedPlayer.playerId;
-    socket.data.isHost = actuallyHost;
+    socket.data.isHost = role.isHost;
+    socket.data.directorId = role.director?.id ?? null;
+    
+    if (role.isHost) {
+      takeOverHost(socket, normalizedCode);
+    }
     
     // Send tournament state to rejoining player
     socket.emit('tournament_joined', {
       tournament: room.tournament,
       playerId: connectedPlayer.playerId,
-      isHost: actuallyHost,
+      isHost: role.isHost || role.director !== null,
+      directorPermissions: role.director?.permissions ?? null,
     });
+    sendRoundTimer(socket, normalizedCode);
+    if (role.isHost) {
+      sendActionHistory(normalizedCode);
+    }
     
     // Notify others in the room
     socket.to(normalizedCode).emit('player_connected', {
       playerName,
       connectedCount: RoomManager.getConnectedCount(normalizedCode),
     });
+    sendPlayerClaims(normalizedCode);
+    sendHostAccess(normalizedCode);
     
-    console.log(`[Rejoin] "${playerName}" rejoined ${normalizedCode} as ${actuallyHost ? 'host' : 'player'}`);
+    console.log(`[Rejoin] "${playerName}" rejoined ${normalizedCode} as ${describeRole(role, connectedPlayer.playerId)}`);
   });
   
   socket.on('keep_alive', () => {
@@ -383,84 +427,246 @@ io.on('connection', (socket) => {
     }
   });
   
+  socket.on('sync_clock', (data) => {
+    socket.emit('clock_sync', {
+      clientTime: data.clientTime,
+      serverTime: Date.now(),
+    });
+  });
+  
   // ----------------------------------------
   // Tournament Setup (Host Only)
   // ----------------------------------------
   
   socket.on('add_player', (data) => {
-    if (!socket.data.roomCode || !socket.data.isHost) {
+    if (!socket.data.roomCode || !canDirect(socket, 'roster')) {
       socket.emit('action_error', { action: 'add_player', message: 'Not authorized' });
       return;
     }
     
-    const player = RoomManager.addPlayer(socket.data.roomCode, data.name);
+    const player = RoomManager.addPlayer(socket.data.roomCode, data.name, actorFor(socket), data.registryId);
     if (player) {
       broadcastState(socket.data.roomCode);
     }
   });
   
   socket.on('remove_player', (data) => {
-    if (!socket.data.roomCode || !socket.data.isHost) {
+    if (!socket.data.roomCode || !canDirect(socket, 'roster')) {
       socket.emit('action_error', { action: 'remove_player', message: 'Not authorized' });
       return;
     }
     
-    if (RoomManager.removePlayer(socket.data.roomCode, data.playerId)) {
+    if (RoomManager.removePlayer(socket.data.roomCode, data.playerId, actorFor(socket))) {
+      broadcastState(socket.data.roomCode);
+    }
+  });
+  
+  socket.on('add_team', (data) => {
+    if (!socket.data.roomCode || !canDirect(socket, 'roster')) {
+      socket.emit('action_error', { action: 'add_team', message: 'Not authorized' });
+      return;
+    }
+    
+    const team = RoomManager.addTeam(socket.data.roomCode, data.player1Name, data.player2Name, data.teamName, actorFor(socket));
+    if (team) {
+      broadcastState(socket.data.roomCode);
+    }
+  });
+  
+  socket.on('remove_team', (data) => {
+    if (!socket.data.roomCode || !canDirect(socket, 'roster')) {
+      socket.emit('action_error', { action: 'remove_team', message: 'Not authorized' });
+      return;
+    }
+    
+    if (RoomManager.removeTeam(socket.data.roomCode, data.teamId, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
     }
   });
   
   socket.on('update_player', (data) => {
-    if (!socket.data.roomCode || !socket.data.isHost) {
+    if (!socket.data.roomCode || !canDirect(socket, 'roster')) {
       socket.emit('action_error', { action: 'update_player', message: 'Not authorized' });
       return;
     }
     
-    if (RoomManager.updatePlayer(socket.data.roomCode, data.playerId, data.updates)) {
+    if (RoomManager.updatePlayer(socket.data.roomCode, data.playerId, data.updates, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
     }
   });
   
-  socket.on('add_table', (data) => {
+  socket.on('withdraw_player', (data) => {
+    if (!socket.data.roomCode || !canDirect(socket, 'roster')) {
+      socket.emit('action_error', { action: 'withdraw_player', message: 'Not authorized' });
+      return;
+    }
+    
+    if (RoomManager.withdrawPlayer(socket.data.roomCode, data.playerId, actorFor(socket))) {
+      broadcastState(socket.data.roomCode);
+    } else {
+      socket.emit('action_error', { action: 'withdraw_player', message: 'Players can only be withdrawn during Swiss rounds' });
+    }
+  });
+  
+  socket.on('reinstate_player', (data) => {
+    if (!socket.data.roomCode || !canDirect(socket, 'roster')) {
+      socket.emit('action_error', { action: 'reinstate_player', message: 'Not authorized' });
+      return;
+    }
+    
+    if (RoomManager.reinstatePlayer(socket.data.roomCode, data.playerId, actorFor(socket))) {
+      broadcastState(socket.data.roomCode);
+    } else {
+      socket.emit('action_error', { action: 'reinstate_player', message: 'Players can only be reinstated during Swiss rounds' });
+    }
+  });
+  
+  // ----------------------------------------
+  // Player Identity (Host Only)
+  // ----------------------------------------
+  
+  socket.on('issue_player_token', (data) => {
+    if (!socket.data.roomCode || !socket.data.isHost) {
+      socket.emit('action_error', { action: 'issue_player_token', message: 'Not authorized' });
+      return;
+    }
+    
+    const code = socket.data.roomCode;
+    const releasedSockets = socketsHoldingPlayer(code, data.playerId);
+    
+    if (RoomManager.issuePlayerToken(code, data.playerId)) {
+      // A reissued token invalidates whichever device held the old one
+      notifyIdentityRevoked(releasedSockets);
+      sendPlayerClaims(code);
+    }
+  });
+  
+  socket.on('revoke_player_claim', (data) => {
+    if (!socket.data.roomCode || !socket.data.isHost) {
+      socket.emit('action_error', { action: 'revoke_player_claim', message: 'Not authorized' });
+      return;
+    }
+    
+    const code = socket.data.roomCode;
+    notifyIdentityRevoked(RoomManager.revokePlayerClaim(code, data.playerId));
+    sendPlayerClaims(code);
+  });
+  
+  // ----------------------------------------
+  // Host Access (Host Only)
+  // ----------------------------------------
+  
+  socket.on('start_host_handoff', () => {
+    if (!socket.data.roomCode || !socket.data.isHost) {
+      socket.emit('action_error', { action: 'start_host_handoff', message: 'Not authorized' });
+      return;
+    }
+    
+    RoomManager.startHostHandoff(socket.data.roomCode);
+    sendHostAccess(socket.data.roomCode);
+  });
+  
+  socket.on('cancel_host_handoff', () => {
+    if (!socket.data.roomCode || !socket.data.isHost) {
+      socket.emit('action_error', { action: 'cancel_host_handoff', message: 'Not authorized' });
+      return;
+    }
+    
+    RoomManager.cancelHostHandoff(socket.data.roomCode);
+    sendHostAccess(socket.data.roomCode);
+  });
+  
+  socket.on('rotate_host_secret', () => {
+    if (!socket.data.roomCode || !socket.data.isHost) {
+      socket.emit('action_error', { action: 'rotate_host_secret', message: 'Not authorized' });
+      return;
+    }
+    
+    if (RoomManager.rotateHostSecret(socket.data.roomCode)) {
+      sendHostAccess(socket.data.roomCode);
+      console.log(`[Host] Recovery code regenerated in ${socket.data.roomCode}`);
+    }
+  });
+  
+  socket.on('add_co_director', (data) => {
+    if (!socket.data.roomCode || !socket.data.isHost) {
+      socket.emit('action_error', { action: 'add_co_director', message: 'Not authorized' });
+      return;
+    }
+    
+    if (RoomManager.addCoDirector(socket.data.roomCode, data.name, data.permissions)) {
+      sendHostAccess(socket.data.roomCode);
+    } else {
+      socket.emit('action_error', { action: 'add_co_director', message: 'Co-director needs a name' });
+    }
+  });
+  
+  socket.on('update_co_director', (data) => {
     if (!socket.data.roomCode || !socket.data.isHost) {
+      socket.emit('action_error', { action: 'update_co_director', message: 'Not authorized' });
+      return;
+    }
+    
+    const code = socket.data.roomCode;
+    for (const socketId of RoomManager.updateCoDirector(code, data.directorId, data.permissions)) {
+      notifyRoleChanged(socketId, data.permissions, 'The host changed your co-director permissions.');
+    }
+    sendHostAccess(code);
+  });
+  
+  socket.on('remove_co_director', (data) => {
+    if (!socket.data.roomCode || !socket.data.isHost) {
+      socket.emit('action_error', { action: 'remove_co_director', message: 'Not authorized' });
+      return;
+    }
+    
+    const code = socket.data.roomCode;
+    for (const socketId of RoomManager.removeCoDirector(code, data.directorId)) {
+      notifyRoleChanged(socketId, null, 'The host removed you as a co-director. You can keep watching as a spectator.');
+    }
+    sendHostAccess(code);
+  });
+  
+  socket.on('add_table', (data) => {
+    if (!socket.data.roomCode || !canDirect(socket, 'roster')) {
       socket.emit('action_error', { action: 'add_table', message: 'Not authorized' });
       return;
     }
     
-    if (RoomManager.addTable(socket.data.roomCode, data.name)) {
+    if (RoomManager.addTable(socket.data.roomCode, data.name, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
     }
   });
   
   socket.on('remove_table', (data) => {
-    if (!socket.data.roomCode || !socket.data.isHost) {
+    if (!socket.data.roomCode || !canDirect(socket, 'roster')) {
       socket.emit('action_error', { action: 'remove_table', message: 'Not authorized' });
       return;
     }
     
-    if (RoomManager.removeTable(socket.data.roomCode, data.tableId)) {
+    if (RoomManager.removeTable(socket.data.roomCode, data.tableId, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
     }
   });
   
   socket.on('update_table', (data) => {
-    if (!socket.data.roomCode || !socket.data.isHost) {
+    if (!socket.data.roomCode || !canDirect(socket, 'roster')) {
       socket.emit('action_error', { action: 'update_table', message: 'Not authorized' });
       return;
     }
     
-    if (RoomManager.updateTable(socket.data.roomCode, data.tableId, data.name)) {
+    if (RoomManager.updateTable(socket.data.roomCode, data.tableId, data.name, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
     }
   });
   
   socket.on('reorder_tables', (data) => {
-    if (!socket.data.roomCode || !socket.data.isHost) {
+    if (!socket.data.roomCode || !canDirect(socket, 'roster')) {
       socket.emit('action_error', { action: 'reorder_tables', message: 'Not authorized' });
       return;
     }
     
-    if (RoomManager.reorderTables(socket.data.roomCode, data.tables)) {
+    if (RoomManager.reorderTables(socket.data.roomCode, data.tables, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
     }
   });
@@ -471,7 +677,7 @@ io.on('connection', (socket) => {
       return;
     }
     
-    if (RoomManager.updateSettings(socket.data.roomCode, data.settings)) {
+    if (RoomManager.updateSettings(socket.data.roomCode, data.settings, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
     }
   });
@@ -482,7 +688,7 @@ io.on('connection', (socket) => {
       return;
     }
     
-    if (RoomManager.updateTournamentName(socket.data.roomCode, data.name)) {
+    if (RoomManager.updateTournamentName(socket.data.roomCode, data.name, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
     }
   });
@@ -493,7 +699,7 @@ io.on('connection', (socket) => {
       return;
     }
     
-    if (RoomManager.updateTotalRounds(socket.data.roomCode, data.rounds)) {
+    if (RoomManager.updateTotalRounds(socket.data.roomCode, data.rounds, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
     }
   });
@@ -503,13 +709,14 @@ io.on('connection', (socket) => {
   // ----------------------------------------
   
   socket.on('start_tournament', () => {
-    if (!socket.data.roomCode || !socket.data.isHost) {
+    if (!socket.data.roomCode || !canDirect(socket, 'rounds')) {
       socket.emit('action_error', { action: 'start_tournament', message: 'Not authorized' });
       return;
     }
     
-    if (RoomManager.startTournament(socket.data.roomCode)) {
+    if (RoomManager.startTournament(socket.data.roomCode, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
+      updateRoundTimer(socket.data.roomCode);
       console.log(`[Tournament] Started: ${socket.data.roomCode}`);
     } else {
       socket.emit('action_error', { action: 'start_tournament', message: 'Cannot start tournament. Need at least 4 players.' });
@@ -517,13 +724,14 @@ io.on('connection', (socket) => {
   });
   
   socket.on('generate_next_round', () => {
-    if (!socket.data.roomCode || !socket.data.isHost) {
+    if (!socket.data.roomCode || !canDirect(socket, 'rounds')) {
       socket.emit('action_error', { action: 'generate_next_round', message: 'Not authorized' });
       return;
     }
     
-    if (RoomManager.generateNextRound(socket.data.roomCode)) {
+    if (RoomManager.generateNextRound(socket.data.roomCode, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
+      updateRoundTimer(socket.data.roomCode);
       console.log(`[Tournament] Next round generated: ${socket.data.roomCode}`);
     } else {
       socket.emit('action_error', { action: 'generate_next_round', message: 'Cannot generate next round. Complete all current matches first.' });
@@ -531,13 +739,14 @@ io.on('connection', (socket) => {
   });
   
   socket.on('complete_tournament', () => {
-    if (!socket.data.roomCode || !socket.data.isHost) {
+    if (!socket.data.roomCode || !canDirect(socket, 'rounds')) {
       socket.emit('action_error', { action: 'complete_tournament', message: 'Not authorized' });
       return;
     }
     
-    if (RoomManager.completeTournament(socket.data.roomCode)) {
+    if (RoomManager.completeTournament(socket.data.roomCode, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
+      updateRoundTimer(socket.data.roomCode);
       console.log(`[Tournament] Completed: ${socket.data.roomCode}`);
     }
   });
@@ -548,12 +757,75 @@ io.on('connection', (socket) => {
       return;
     }
     
-    if (RoomManager.resetTournament(socket.data.roomCode)) {
+    if (RoomManager.resetTournament(socket.data.roomCode, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
+      updateRoundTimer(socket.data.roomCode);
       console.log(`[Tournament] Reset: ${socket.data.roomCode}`);
     }
   });
   
+  // ----------------------------------------
+  // Round Timer (Host Only)
+  // ----------------------------------------
+  
+  socket.on('start_round_timer', () => {
+    if (!socket.data.roomCode || !canDirect(socket, 'rounds')) {
+      socket.emit('action_error', { action: 'start_round_timer', message: 'Not authorized' });
+      return;
+    }
+    
+    if (RoomManager.startRoundTimer(socket.data.roomCode)) {
+      updateRoundTimer(socket.data.roomCode);
+      console.log(`[Timer] Started: ${socket.data.roomCode}`);
+    } else {
+      socket.emit('action_error', { action: 'start_round_timer', message: 'The round clock can only run during Swiss rounds' });
+    }
+  });
+  
+  socket.on('pause_round_timer', () => {
+    if (!socket.data.roomCode || !canDirect(socket, 'rounds')) {
+      socket.emit('action_error', { action: 'pause_round_timer', message: 'Not authorized' });
+      return;
+    }
+    
+    if (RoomManager.pauseRoundTimer(socket.data.roomCode)) {
+      updateRoundTimer(socket.data.roomCode);
+      console.log(`[Timer] Paused: ${socket.data.roomCode}`);
+    }
+  });
+  
+  socket.on('extend_round_timer', (data) => {
+    if (!socket.data.roomCode || !canDirect(socket, 'rounds')) {
+      socket.emit('action_error', { action: 'extend_round_timer', message: 'Not authorized' });
+      return;
+    }
+    if (!Number.isFinite(data.minutes) || data.minutes <= 0) {
+      socket.emit('action_error', { action: 'extend_round_timer', message: 'Extension must be a positive number of minutes' });
+      return;
+    }
+    
+    if (RoomManager.extendRoundTimer(socket.data.roomCode, data.minutes)) {
+      updateRoundTimer(socket.data.roomCode);
+      console.log(`[Timer] Extended by ${data.minutes} min: ${socket.data.roomCode}`);
+    }
+  });
+  
+  socket.on('reset_round_timer', (data) => {
+    if (!socket.data.roomCode || !canDirect(socket, 'rounds')) {
+      socket.emit('action_error', { action: 'reset_round_timer', message: 'Not authorized' });
+      return;
+    }
+    if (data.minutes !== undefined && (!Number.isFinite(data.minutes) || data.minutes <= 0)) {
+      socket.emit('action_error', { action: 'reset_round_timer', message: 'Round length must be a positive number of minutes' });
+      return;
+    }
+    
+    if (RoomManager.resetRoundTimer(socket.data.roomCode, data.minutes)) {
+      updateRoundTimer(socket.data.roomCode);
+      console.log(`[Timer] Reset: ${socket.data.roomCode}`);
+    }
+  });
+  
   // ----------------------------------------
   // Score Submission (Host or Match Players)
   // ----------------------------------------
@@ -570,13 +842,22 @@ io.on('connection', (socket) => {
       return;
     }
     
+    // With score confirmation on, a player's score is a report the other team must confirm
+    if (RoomManager.requiresScoreConfirmation(socket.data.roomCode, socket.id)) {
+      handleScoreReport(socket, 'submit_score', data);
+      return;
+    }
+    
     if (RoomManager.submitScore(
       socket.data.roomCode,
       data.matchId,
       data.score1,
       data.score2,
       data.twenties1,
-      data.twenties2
+      data.twenties2,
+      actorFor(socket),
+      data.games,
+      data.playerTwenties
     )) {
       broadcastState(socket.data.roomCode);
       
@@ -584,6 +865,7 @@ io.on('connection', (socket) => {
       io.to(socket.data.roomCode).emit('score_submitted', {
         matchId: data.matchId,
         submittedBy: socket.data.playerName,
+        status: null,
       });
       
       console.log(`[Score] Submitted by "${socket.data.playerName}" for match ${data.matchId}`);
@@ -602,19 +884,217 @@ io.on('connection', (socket) => {
       return;
     }
     
+    if (RoomManager.requiresScoreConfirmation(socket.data.roomCode, socket.id)) {
+      handleScoreReport(socket, 'edit_score', data);
+      return;
+    }
+    
     if (RoomManager.editScore(
       socket.data.roomCode,
       data.matchId,
       data.score1,
       data.score2,
       data.twenties1,
-      data.twenties2
+      data.twenties2,
+      actorFor(socket),
+      data.games,
+      data.playerTwenties
     )) {
       broadcastState(socket.data.roomCode);
       console.log(`[Score] Edited by "${socket.data.playerName}" for match ${data.matchId}`);
     }
   });
   
+  // ----------------------------------------
+  // Round-Robin Stages
+  // ----------------------------------------
+  
+  socket.on('complete_stage', () => {
+    if (!socket.data.roomCode || !canDirect(socket, 'rounds')) {
+      socket.emit('action_error', { action: 'complete_stage', message: 'Not authorized' });
+      return;
+    }
+    
+    if (RoomManager.completeStage(socket.data.roomCode, actorFor(socket))) {
+      broadcastState(socket.data.roomCode);
+      console.log(`[Stage] Completed: ${socket.data.roomCode}`);
+    } else {
+      const room = RoomManager.getRoom(socket.data.roomCode);
+      const stage = room ? Engine.getCurrentStage(room.tournament) : null;
+      const unplayed = stage ? Engine.getUnplayedStageMatches(stage).length : 0;
+      socket.emit('action_error', {
+        action: 'complete_stage',
+        message: unplayed > 0
+          ? `Finish every match in this stage first (${unplayed} still to play)`
+          : 'No round-robin stage is in progress',
+      });
+    }
+  });
+  
+  socket.on('submit_stage_score', (data) => {
+    if (!socket.data.roomCode) {
+      socket.emit('action_error', { action: 'submit_stage_score', message: 'Not in a tournament' });
+      return;
+    }
+    
+    if (!RoomManager.canSubmitStageScore(socket.data.roomCode, socket.id, data.stageId, data.matchId)) {
+      socket.emit('action_error', { action: 'submit_stage_score', message: 'You can only submit scores for matches you are playing in' });
+      return;
+    }
+    
+    // With score confirmation on, a player's score is a report the other team must confirm
+    if (RoomManager.requiresScoreConfirmation(socket.data.roomCode, socket.id)) {
+      handleScoreReport(socket, 'submit_stage_score', data);
+      return;
+    }
+    
+    if (RoomManager.submitStageScore(
+      socket.data.roomCode,
+      data.stageId,
+      data.matchId,
+      data.score1,
+      data.score2,
+      data.twenties1,
+      data.twenties2,
+      actorFor(socket),
+      data.games,
+      data.playerTwenties
+    )) {
+      broadcastState(socket.data.roomCode);
+      
+      io.to(socket.data.roomCode).emit('score_submitted', {
+        matchId: data.matchId,
+        submittedBy: socket.data.playerName,
+        status: null,
+      });
+      
+      console.log(`[Stage] Score submitted by "${socket.data.playerName}" for match ${data.matchId}`);
+    } else {
+      socket.emit('action_error', { action: 'submit_stage_score', message: 'Invalid score, or this stage is no longer taking scores' });
+    }
+  });
+  
+  // ----------------------------------------
+  // Finals Brackets
+  // ----------------------------------------
+  
+  socket.on('configure_finals', (data) => {
+    if (!socket.data.roomCode || !canDirect(socket, 'finals')) {
+      socket.emit('action_error', { action: 'configure_finals', message: 'Not authorized' });
+      return;
+    }
+    
+    if (RoomManager.configureFinals(socket.data.roomCode, data.poolConfigs, actorFor(socket))) {
+      broadcastState(socket.data.roomCode);
+      console.log(`[Finals] Configured: ${socket.data.roomCode}`);
+    } else {
+      socket.emit('action_error', { action: 'configure_finals', message: 'Finals can only be configured after Swiss rounds are complete' });
+    }
+  });
+  
+  socket.on('generate_brackets', (data) => {
+    if (!socket.data.roomCode || !canDirect(socket, 'finals')) {
+      socket.emit('action_error', { action: 'generate_brackets', message: 'Not authorized' });
+      return;
+    }
+    
+    if (RoomManager.generateBrackets(socket.data.roomCode, data.poolConfigs, actorFor(socket))) {
+      broadcastState(socket.data.roomCode);
+      console.log(`[Finals] Brackets generated: ${socket.data.roomCode}`);
+    } else {
+      socket.emit('action_error', { action: 'generate_brackets', message: 'Cannot generate brackets. Complete Swiss rounds and configure at least one pool.' });
+    }
+  });
+  
+  socket.on('complete_finals', () => {
+    if (!socket.data.roomCode || !canDirect(socket, 'finals')) {
+      socket.emit('action_error', { action: 'complete_finals', message: 'Not authorized' });
+      return;
+    }
+    
+    if (RoomManager.completeFinals(socket.data.roomCode, actorFor(socket))) {
+      broadcastState(socket.data.roomCode);
+      console.log(`[Finals] Completed: ${socket.data.roomCode}`);
+    }
+  });
+  
+  socket.on('submit_bracket_score', (data) => {
+    if (!socket.data.roomCode) {
+      socket.emit('action_error', { action: 'submit_bracket_score', message: 'Not in a tournament' });
+      return;
+    }
+    
+    // Check permission
+    if (!RoomManager.canSubmitBracketScore(socket.data.roomCode, socket.id, data.matchId)) {
+      socket.emit('action_error', { action: 'submit_bracket_score', message: 'You can only submit scores for matches you are playing in' });
+      return;
+    }
+    
+    const scoreError = Engine.validateBracketScore(data.score1, data.score2, RoomManager.getRoom(socket.data.roomCode)?.tournament.settings);
+    if (scoreError) {
+      socket.emit('action_error', { action: 'submit_bracket_score', message: scoreError });
+      return;
+    }
+    
+    if (RoomManager.submitBracketScore(
+      socket.data.roomCode,
+      data.matchId,
+      data.score1,
+      data.score2,
+      data.twenties1,
+      data.twenties2,
+      actorFor(socket),
+      data.playerTwenties
+    )) {
+      broadcastState(socket.data.roomCode);
+      
+      io.to(socket.data.roomCode).emit('score_submitted', {
+        matchId: data.matchId,
+        submittedBy: socket.data.playerName,
+        status: null,
+      });
+      
+      console.log(`[Finals] Score submitted by "${socket.data.playerName}" for bracket match ${data.matchId}`);
+    } else {
+      socket.emit('action_error', { action: 'submit_bracket_score', message: 'Cannot submit score. Both teams must be set and the match not yet played.' });
+    }
+  });
+  
+  socket.on('edit_bracket_score', (data) => {
+    if (!socket.data.roomCode) {
+      socket.emit('action_error', { action: 'edit_bracket_score', message: 'Not in a tournament' });
+      return;
+    }
+    
+    // Check permission (same as submit)
+    if (!RoomManager.canSubmitBracketScore(socket.data.roomCode, socket.id, data.matchId)) {
+      socket.emit('action_error', { action: 'edit_bracket_score', message: 'You can only edit scores for matches you are playing in' });
+      return;
+    }
+    
+    const scoreError = Engine.validateBracketScore(data.score1, data.score2, RoomManager.getRoom(socket.data.roomCode)?.tournament.settings);
+    if (scoreError) {
+      socket.emit('action_error', { action: 'edit_bracket_score', message: scoreError });
+      return;
+    }
+    
+    if (RoomManager.editBracketScore(
+      socket.data.roomCode,
+      data.matchId,
+      data.score1,
+      data.score2,
+      data.twenties1,
+      data.twenties2,
+      actorFor(socket),
+      data.playerTwenties
+    )) {
+      broadcastState(socket.data.roomCode);
+      console.log(`[Finals] Score edited by "${socket.data.playerName}" for bracket match ${data.matchId}`);
+    } else {
+      socket.emit('action_error', { action: 'edit_bracket_score', message: 'Cannot edit score once the next bracket match has been played' });
+    }
+  });
+  
   // ----------------------------------------
   // Manual Tournament Update (for hosts only)
   // ----------------------------------------
@@ -625,7 +1105,7 @@ io.on('connection', (socket) => {
       return;
     }
     
-    if (RoomManager.updateTournamentState(socket.data.roomCode, tournament)) {
+    if (RoomManager.updateTournamentState(socket.data.roomCode, tournament, actorFor(socket))) {
       broadcastState(socket.data.roomCode);
       console.log(`[Tournament] Manual update by "${socket.data.playerName}" - ${tournament.matches?.length || 0} matches`);
     } else {
@@ -633,6 +1113,38 @@ io.on('connection', (socket) => {
     }
   });
   
+  // ----------------------------------------
+  // Undo / Redo (host only)
+  // ----------------------------------------
+  
+  socket.on('undo_action', () => {
+    if (!socket.data.roomCode || !socket.data.isHost) {
+      socket.emit('action_error', { action: 'undo_action', message: 'Not authorized' });
+      return;
+    }
+    
+    if (RoomManager.undoAction(socket.data.roomCode, actorFor(socket))) {
+      broadcastState(socket.data.roomCode);
+      console.log(`[Tournament] Undo by "${socket.data.playerName}" in ${socket.data.roomCode}`);
+    } else {
+      socket.emit('action_error', { action: 'undo_action', message: 'Nothing to undo' });
+    }
+  });
+  
+  socket.on('redo_action', () => {
+    if (!socket.data.roomCode || !socket.data.isHost) {
+      socket.emit('action_error', { action: 'redo_action', message: 'Not authorized' });
+      return;
+    }
+    
+    if (RoomManager.redoAction(socket.data.roomCode, actorFor(socket))) {
+      broadcastState(socket.data.roomCode);
+      console.log(`[Tournament] Redo by "${socket.data.playerName}" in ${socket.data.roomCode}`);
+    } else {
+      socket.emit('action_error', { action: 'redo_action', message: 'Nothing to redo' });
+    }
+  });
+  
   // ----------------------------------------
   // Disconnect
   // ----------------------------------------
@@ -647,7 +1159,7 @@ io.on('connection', (socket) => {
 // Helper Functions
 // ============================================
 
-function leaveCurrentRoom(socket: any) {
+function leaveCurrentRoom(socket: TournamentSocket) {
   if (!socket.data.roomCode) return;
   
   const code = socket.data.roomCode;
@@ -661,16 +1173,34 @@ function leaveCurrentRoom(socket: any) {
     playerName,
     connectedCount: RoomManager.getConnectedCount(code),
   });
+  sendPlayerClaims(code);
   
   // Clear socket data
   socket.data.roomCode = null;
   socket.data.playerName = '';
   socket.data.playerId = null;
   socket.data.isHost = false;
+  socket.data.directorId = null;
+  
+  sendHostAccess(code);
   
   console.log(`[Leave] "${playerName}" left ${code}`);
 }
 
+// Host, or a co-director granted this permission
+function canDirect(socket: TournamentSocket, permission: DirectorPermission): boolean {
+  const code = socket.data.roomCode;
+  return code !== null && RoomManager.hasPermission(code, socket.id, permission);
+}
+
+// Who performed an action, for the room's action log
+function actorFor(socket: TournamentSocket): ActionActor {
+  return {
+    name: socket.data.playerName || 'Unknown',
+    socketId: socket.id,
+  };
+}
+
 function broadcastState(code: string) {
   const room = RoomManager.getRoom(code);
   if (!room) return;
@@ -679,6 +1209,227 @@ function broadcastState(code: string) {
     tournament: room.tournament,
     connectedCount: room.connectedPlayers.size,
   });
+  
+  sendActionHistory(code);
+}
+
+// Record a player's score report (score confirmation mode) and tell the room.
+// Stage matches carry their stage ID.
+function handleScoreReport(
+  socket: TournamentSocket,
+  action: 'submit_score' | 'edit_score' | 'submit_stage_score',
+  data: { stageId?: string; matchId: string; score1: number; score2: number; twenties1: number; twenties2: number; games?: GameScore[]; playerTwenties?: Record<string, number> }
+) {
+  const code = socket.data.roomCode;
+  if (!code) return;
+  
+  const match = data.stageId
+    ? RoomManager.reportStageScore(
+      code,
+      socket.id,
+      data.stageId,
+      data.matchId,
+      data.score1,
+      data.score2,
+      data.twenties1,
+      data.twenties2,
+      actorFor(socket),
+      data.games,
+      data.playerTwenties
+    )
+    : RoomManager.reportScore(
+      code,
+      socket.id,
+      data.matchId,
+      data.score1,
+      data.score2,
+      data.twenties1,
+      data.twenties2,
+      actorFor(socket),
+      data.games,
+      data.playerTwenties
+    );
+  
+  if (!match) {
+    socket.emit('action_error', { action, message: 'This match already has a confirmed result. Ask the host to change it.' });
+    return;
+  }
+  
+  broadcastState(code);
+  io.to(code).emit('score_submitted', {
+    matchId: data.matchId,
+    submittedBy: socket.data.playerName,
+    status: match.scoreStatus ?? null,
+  });
+  
+  console.log(`[Score] Reported by "${socket.data.playerName}" for match ${data.matchId} (${match.scoreStatus})`);
+}
+
+// Send the undo/redo summary to the host only
+function sendActionHistory(code: string) {
+  const room = RoomManager.getRoom(code);
+  const history = RoomManager.getRoomActionHistory(code);
+  if (!room || !history || !room.hostSocketId) return;
+  
+  io.to(room.hostSocketId).emit('action_history', history);
+}
+
+// Send issued join tokens and claimed devices to the host only
+function sendPlayerClaims(code: string) {
+  const room = RoomManager.getRoom(code);
+  if (!room || !room.hostSocketId) return;
+  
+  io.to(room.hostSocketId).emit('player_claims', RoomManager.getPlayerClaims(code));
+}
+
+// Send the host secret, pending handoff and co-directors to the host only
+function sendHostAccess(code: string) {
+  const room = RoomManager.getRoom(code);
+  const access = RoomManager.getHostAccess(code);
+  if (!room || !access || !room.hostSocketId) return;
+  
+  io.to(room.hostSocketId).emit('host_access', access);
+}
+
+// Check the host/co-director secrets sent with join/rejoin
+function authenticateRole(
+  socket: TournamentSocket,
+  code: string,
+  data: { hostSecret?: string; directorSecret?: string }
+): { isHost: boolean; director: CoDirector | null } {
+  if (data.hostSecret) {
+    if (RoomManager.authenticateHost(code, data.hostSecret).ok) {
+      return { isHost: true, director: null };
+    }
+    socket.emit('action_error', { action: 'claim_host', message: 'This host recovery code is not valid for this tournament.' });
+  }
+  
+  if (data.directorSecret) {
+    const director = RoomManager.authenticateDirector(code, data.directorSecret);
+    if (director) return { isHost: false, director };
+    socket.emit('action_error', { action: 'claim_director', message: 'This co-director link is no longer valid.' });
+  }
+  
+  return { isHost: false, director: null };
+}
+
+// The authenticated device becomes host; any other device holding host rights is demoted
+function takeOverHost(socket: TournamentSocket, code: string) {
+  const previousHost = RoomManager.setHostSocket(code, socket.id);
+  if (previousHost) {
+    notifyRoleChanged(previousHost, null, 'Host rights moved to another device.');
+  }
+}
+
+function describeRole(role: { isHost: boolean; director: CoDirector | null }, playerId: string | null): string {
+  if (role.isHost) return 'host';
+  if (role.director) return `co-director "${role.director.name}"`;
+  return playerId ? `player ${playerId}` : 'spectator';
+}
+
+// Tell a demoted host or a co-director that their rights changed
+// (null permissions means they are now a spectator)
+function notifyRoleChanged(socketId: string, directorPermissions: DirectorPermission[] | null, message: string) {
+  const target = io.sockets.sockets.get(socketId);
+  if (!target) return;
+  target.data.isHost = false;
+  if (!directorPermissions) target.data.directorId = null;
+  target.emit('role_changed', {
+    isHost: directorPermissions !== null,
+    directorPermissions,
+    message,
+  });
+}
+
+// Redeem the join token sent with join/rejoin - the only way a socket can act as a player
+function redeemPlayerToken(
+  socket: TournamentSocket,
+  code: string,
+  data: { token?: string; deviceId?: string; deviceLabel?: string }
+): string | null {
+  if (!data.token || !data.deviceId) return null;
+  
+  const result = RoomManager.claimPlayer(code, data.token, data.deviceId, data.deviceLabel ?? '');
+  if (result.error) {
+    socket.emit('action_error', { action: 'claim_player', message: result.error });
+  }
+  return result.playerId;
+}
+
+// Sockets currently acting as the given player
+function socketsHoldingPlayer(code: string, playerId: string): string[] {
+  const room = RoomManager.getRoom(code);
+  if (!room) return [];
+  return Array.from(room.connectedPlayers.values())
+    .filter(cp => cp.playerId === playerId)
+    .map(cp => cp.socketId);
+}
+
+// Tell devices their player identity is gone (they stay connected as spectators)
+function notifyIdentityRevoked(socketIds: string[]) {
+  for (const socketId of socketIds) {
+    const target = io.sockets.sockets.get(socketId);
+    if (!target) continue;
+    target.data.playerId = null;
+    target.emit('identity_revoked', {
+      message: 'The host revoked this device\'s player link. You can keep watching as a spectator.',
+    });
+  }
+}
+
+// ============================================
+// Round Timer
+// ============================================
+
+// Pending expiry for each room with a running clock
+const roundTimerTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Actions taken by the clock itself are logged under this name
+const ROUND_TIMER_ACTOR: ActionActor = { name: 'Round timer', socketId: null };
+
+function sendRoundTimer(socket: TournamentSocket, code: string) {
+  socket.emit('round_timer', {
+    timer: RoomManager.getRoundTimer(code),
+    serverTime: Date.now(),
+  });
+}
+
+// (Re)arm the expiry for a room's clock to match its current state
+function scheduleRoundTimer(code: string) {
+  const pending = roundTimerTimeouts.get(code);
+  if (pending) {
+    clearTimeout(pending);
+    roundTimerTimeouts.delete(code);
+  }
+  
+  const timer = RoomManager.getRoundTimer(code);
+  if (!timer || !Engine.isTimerRunning(timer)) return;
+  
+  const remaining = Engine.getRemainingMs(timer, Date.now());
+  roundTimerTimeouts.set(code, setTimeout(() => handleRoundTimerExpired(code), remaining));
+}
+
+// Reschedule and tell the room after the clock changes
+function updateRoundTimer(code: string) {
+  scheduleRoundTimer(code);
+  io.to(code).emit('round_timer', {
+    timer: RoomManager.getRoundTimer(code),
+    serverTime: Date.now(),
+  });
+}
+
+function handleRoundTimerExpired(code: string) {
+  roundTimerTimeouts.delete(code);
+  
+  const flagged = RoomManager.expireRoundTimer(code, ROUND_TIMER_ACTOR);
+  if (flagged === null) return;
+  
+  if (flagged.length > 0) {
+    broadcastState(code);
+  }
+  updateRoundTimer(code);
+  
+  console.log(`[Timer] Time called in ${code}: ${flagged.length} unfinished match(es) flagged`);
 }
 
 // ============================================
@@ -702,6 +1453,11 @@ function cleanupInactiveRooms() {
         reason: 'inactivity',
       });
       
+      const pendingTimer = roundTimerTimeouts.get(code);
+      if (pendingTimer) {
+        clearTimeout(pendingTimer);
+        roundTimerTimeouts.delete(code);
+      }
       RoomManager.deleteRoom(code);
     }
     // Check if warning should be sent
@@ -727,6 +1483,17 @@ function cleanupInactiveRooms() {
 // Run cleanup every 5 minutes
 setInterval(cleanupInactiveRooms, ROOM_CONFIG.CLEANUP_INTERVAL);
 
+// Restore live rooms persisted before the last restart
+const restoredRooms = RoomManager.restoreRooms();
+if (restoredRooms > 0) {
+  console.log(`♻️  Restored ${restoredRooms} live room(s) from database`);
+  
+  // Resume clocks that were running (ones that ran out while down expire immediately)
+  for (const code of RoomManager.getAllRooms().keys()) {
+    scheduleRoundTimer(code);
+  }
+}
+
 // Start tournament archive cleanup schedule
 startCleanupSchedule();
 
@@ -0,0 +1,36 @@
+import type { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+
+// Club admin key for changes to shared club data (player registry, seasons).
+// With no key configured, those changes are refused outright.
+const CLUB_ADMIN_KEY = process.env.CLUB_ADMIN_KEY || '';
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Whether the request carries the club admin key (X-Admin-Key header)
+ */
+export function isClubAdmin(req: Request): boolean {
+  const key = req.get('X-Admin-Key');
+  if (!CLUB_ADMIN_KEY || !key) return false;
+  // Compare digests so the check takes the same time whatever the key's length
+  return timingSafeEqual(digest(key), digest(CLUB_ADMIN_KEY));
+}
+
+export function requireClubAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!CLUB_ADMIN_KEY) {
+    return res.status(503).json({
+      success: false,
+      message: 'Club admin changes are disabled: no CLUB_ADMIN_KEY is configured on the server'
+    });
+  }
+
+  if (!isClubAdmin(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'A valid club admin key is required'
+    });
+  }
+
+  next();
+}
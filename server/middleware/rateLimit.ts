@@ -23,3 +23,27 @@ export const viewRateLimit = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
 });
+
+// Rate limiter for player registry changes - 200 requests per hour per IP
+export const registryRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 200,
+  message: {
+    success: false,
+    message: 'Too many registry changes. Please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Rate limiter for season changes - 200 requests per hour per IP
+export const seasonRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 200,
+  message: {
+    success: false,
+    message: 'Too many season changes. Please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
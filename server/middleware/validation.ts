@@ -90,8 +90,128 @@ export function validateArchiveRequest(req: Request, res: Response, next: NextFu
     });
   }
 
+  // Validate season if provided
+  if (req.body.seasonId !== undefined && (typeof req.body.seasonId !== 'string' || !req.body.seasonId)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid season'
+    });
+  }
+
   // Attach size to request for later use
   req.tournamentSize = sizeValidation.size;
 
   next();
 }
+
+const MAX_PLAYER_NAME_LENGTH = 60;
+const MAX_PLAYER_ALIASES = 20;
+
+// Registry player create/update: a name (required on create) and a list of aliases
+export function validateRegistryPlayer(req: Request, res: Response, next: NextFunction) {
+  const { name, aliases } = req.body ?? {};
+  const isCreate = req.method === 'POST';
+
+  const badName = (n: unknown) => typeof n !== 'string' || !n.trim() || n.trim().length > MAX_PLAYER_NAME_LENGTH;
+
+  if ((isCreate || name !== undefined) && badName(name)) {
+    return res.status(400).json({
+      success: false,
+      message: `Player name must be 1-${MAX_PLAYER_NAME_LENGTH} characters`
+    });
+  }
+
+  if (aliases !== undefined && (!Array.isArray(aliases) || aliases.length > MAX_PLAYER_ALIASES || aliases.some(badName))) {
+    return res.status(400).json({
+      success: false,
+      message: `Aliases must be a list of up to ${MAX_PLAYER_ALIASES} names`
+    });
+  }
+
+  next();
+}
+
+const MAX_SEASON_NAME_LENGTH = 60;
+const MAX_POINTS_POSITIONS = 64;
+const MAX_DROP_WORST = 52;
+
+// Validate season create/update requests (rules are optional on update)
+export function validateSeason(req: Request, res: Response, next: NextFunction) {
+  const { name, pointsTable, participationPoints, dropWorst } = req.body ?? {};
+  const isCreate = req.method === 'POST';
+
+  const badPoints = (p: unknown) => typeof p !== 'number' || !Number.isFinite(p) || p < 0;
+
+  if ((isCreate || name !== undefined) && (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_SEASON_NAME_LENGTH)) {
+    return res.status(400).json({
+      success: false,
+      message: `Season name must be 1-${MAX_SEASON_NAME_LENGTH} characters`
+    });
+  }
+
+  if (pointsTable !== undefined && (!Array.isArray(pointsTable) || pointsTable.length === 0 || pointsTable.length > MAX_POINTS_POSITIONS || pointsTable.some(badPoints))) {
+    return res.status(400).json({
+      success: false,
+      message: `Points table must list 1-${MAX_POINTS_POSITIONS} non-negative point values`
+    });
+  }
+
+  if (participationPoints !== undefined && badPoints(participationPoints)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Participation points must be a non-negative number'
+    });
+  }
+
+  if (dropWorst !== undefined && (!Number.isInteger(dropWorst) || dropWorst < 0 || dropWorst > MAX_DROP_WORST)) {
+    return res.status(400).json({
+      success: false,
+      message: `Dropped results must be a whole number from 0 to ${MAX_DROP_WORST}`
+    });
+  }
+
+  next();
+}
+
+const MAX_SEARCH_LENGTH = 60;
+const MAX_PAGE_SIZE = 50;
+const ARCHIVE_STATUSES = ['setup', 'active', 'stage_active', 'finals_setup', 'finals_active', 'completed'];
+
+// Validate archive browse filters (all optional query parameters)
+export function validateArchiveSearch(req: Request, res: Response, next: NextFunction) {
+  const { q, player, status, from, to, page, pageSize } = req.query;
+
+  const badText = (t: unknown) => t !== undefined && (typeof t !== 'string' || t.length > MAX_SEARCH_LENGTH);
+  if (badText(q) || badText(player)) {
+    return res.status(400).json({
+      success: false,
+      message: `Search text must be at most ${MAX_SEARCH_LENGTH} characters`
+    });
+  }
+
+  if (status !== undefined && !ARCHIVE_STATUSES.includes(String(status))) {
+    return res.status(400).json({
+      success: false,
+      message: `Status must be one of: ${ARCHIVE_STATUSES.join(', ')}`
+    });
+  }
+
+  const badDate = (d: unknown) => d !== undefined && (typeof d !== 'string' || Number.isNaN(Date.parse(d)));
+  if (badDate(from) || badDate(to)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Dates must be in YYYY-MM-DD format'
+    });
+  }
+
+  const badCount = (n: unknown, max: number) =>
+    n !== undefined && (!/^\d+$/.test(String(n)) || Number(n) < 1 || Number(n) > max);
+  if (badCount(page, 10000) || badCount(pageSize, MAX_PAGE_SIZE)) {
+    return res.status(400).json({
+      success: false,
+      message: `Page must be a positive whole number and page size 1-${MAX_PAGE_SIZE}`
+    });
+  }
+
+  next();
+}
@@ -0,0 +1,141 @@
+// Club player registry stored in SQLite. Archived tournaments are linked to
+// registered players so results follow the same person from event to event.
+
+import { nanoid } from 'nanoid';
+import { db, queries } from './db.js';
+import * as Engine from '../src/engine/index.js';
+import type { Player, RegisteredPlayer, RegisteredPlayerResult, Tournament } from '../src/types.js';
+
+interface RegistryPlayerRow {
+  id: string;
+  name: string;
+  aliases: string;
+  merged_into: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+function fromRow(row: RegistryPlayerRow): RegisteredPlayer {
+  return {
+    id: row.id,
+    name: row.name,
+    aliases: JSON.parse(row.aliases || '[]'),
+    ...(row.merged_into ? { mergedInto: row.merged_into } : {}),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function save(player: RegisteredPlayer): void {
+  queries.saveRegistryPlayer.run(
+    player.id,
+    player.name,
+    JSON.stringify(player.aliases),
+    player.mergedInto ?? null,
+    player.createdAt,
+    player.updatedAt
+  );
+}
+
+export function getRegisteredPlayers(): RegisteredPlayer[] {
+  return (queries.getRegistryPlayers.all() as RegistryPlayerRow[]).map(fromRow);
+}
+
+export function getRegisteredPlayer(id: string): RegisteredPlayer | null {
+  const row = queries.getRegistryPlayer.get(id) as RegistryPlayerRow | undefined;
+  return row ? fromRow(row) : null;
+}
+
+function newRegisteredPlayer(name: string, now: number, aliases: string[] = []): RegisteredPlayer {
+  return { id: nanoid(10), name: name.trim(), aliases, createdAt: now, updatedAt: now };
+}
+
+export function createRegisteredPlayer(name: string, aliases: string[] = []): RegisteredPlayer {
+  const player = newRegisteredPlayer(name, Date.now(), aliases);
+  save(player);
+  return player;
+}
+
+export function updateRegisteredPlayer(id: string, updates: { name?: string; aliases?: string[] }): RegisteredPlayer | null {
+  const player = getRegisteredPlayer(id);
+  if (!player || player.mergedInto) return null;
+
+  const updated: RegisteredPlayer = {
+    ...player,
+    ...(updates.name?.trim() ? { name: updates.name.trim() } : {}),
+    ...(updates.aliases ? { aliases: updates.aliases.map((a) => a.trim()).filter(Boolean) } : {}),
+    updatedAt: Date.now(),
+  };
+  save(updated);
+  return updated;
+}
+
+/**
+ * Fold a duplicate record into another player. The duplicate is kept (marked
+ * merged) so links to its old ID still resolve.
+ */
+export function mergeRegisteredPlayers(targetId: string, sourceId: string): RegisteredPlayer | null {
+  if (targetId === sourceId) return null;
+  const target = getRegisteredPlayer(targetId);
+  const source = getRegisteredPlayer(sourceId);
+  if (!target || !source || target.mergedInto || source.mergedInto) return null;
+
+  const now = Date.now();
+  const merged = Engine.mergeRegisteredPlayers(target, source, now);
+  db.transaction(() => {
+    save(merged);
+    save({ ...source, mergedInto: target.id, updatedAt: now });
+    queries.reassignArchivePlayers.run(target.id, source.id);
+  })();
+  return merged;
+}
+
+export function getRegisteredPlayerResults(id: string): RegisteredPlayerResult[] {
+  const rows = queries.getRegistryPlayerResults.all(id, Date.now()) as Array<{
+    code: string;
+    tournament_name: string;
+    created_at: number;
+    player_name: string;
+  }>;
+  return rows.map((row) => ({
+    code: row.code,
+    tournamentName: row.tournament_name,
+    archivedAt: row.created_at,
+    playerName: row.player_name,
+  }));
+}
+
+/**
+ * Give every player in an archived tournament a registry identity: the one
+ * they were registered with, else the player with their name or alias, else
+ * a new record. Untrusted archives (no club admin key) can't pick identities
+ * or add to the registry: their players are matched by name only, and left
+ * unlinked if nobody matches. Returns the tournament with registryIds filled in.
+ */
+export function linkArchivedTournament(code: string, tournament: Tournament, trusted: boolean): Tournament {
+  const registry = getRegisteredPlayers();
+  const created: RegisteredPlayer[] = [];
+  const now = Date.now();
+
+  const players = tournament.players.map(({ registryId, ...player }): Player => {
+    const registered = (trusted && registryId && Engine.resolveRegisteredPlayer(registry, registryId))
+      || Engine.findRegisteredPlayer(registry, player.name)
+      || (trusted ? newRegisteredPlayer(player.name, now) : null);
+    if (!registered) return player;
+    if (!registry.includes(registered)) {
+      registry.push(registered);
+      created.push(registered);
+    }
+    return { ...player, registryId: registered.id };
+  });
+
+  db.transaction(() => {
+    created.forEach(save);
+    queries.deleteArchivePlayers.run(code);
+    players.forEach((player) => {
+      if (player.registryId) queries.saveArchivePlayer.run(code, player.id, player.registryId, player.name);
+    });
+  })();
+
+  return { ...tournament, players };
+}
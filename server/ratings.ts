@@ -0,0 +1,112 @@
+// Club ratings kept in SQLite. They are rebuilt from every rated archive at
+// once (oldest first) so a new archive, merge or expiry always gives the same
+// ratings as rating from scratch. Only archives saved with the club admin key
+// are rated, so anonymous archives can't move anyone's rating.
+
+import { db, queries } from './db.js';
+import * as Engine from '../src/engine/index.js';
+import type { ClubRatingEntry, RatingHistoryEntry, Tournament } from '../src/types.js';
+
+interface RatingRow {
+  registry_id: string;
+  name: string;
+  rating: number;
+  peak: number;
+  games: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  tournaments: number;
+  last_played_at: number;
+}
+
+interface RatingHistoryRow {
+  registry_id: string;
+  code: string;
+  tournament_name: string;
+  archived_at: number;
+  rating_before: number;
+  rating_after: number;
+  games: number;
+}
+
+function fromRow(row: RatingRow): ClubRatingEntry {
+  return {
+    registryId: row.registry_id,
+    name: row.name,
+    rating: row.rating,
+    peak: row.peak,
+    games: row.games,
+    wins: row.wins,
+    losses: row.losses,
+    ties: row.ties,
+    tournaments: row.tournaments,
+    lastPlayedAt: row.last_played_at,
+  };
+}
+
+export function recalculateRatings(): void {
+  try {
+    rebuildRatings();
+  } catch (error) {
+    console.error('❌ Ratings error:', error);
+  }
+}
+
+function rebuildRatings(): void {
+  const links = queries.getArchivePlayerLinks.all() as Array<{ code: string; player_id: string; registry_id: string }>;
+  const registryIds = new Map<string, Record<string, string>>();
+  links.forEach((link) => {
+    const ids = registryIds.get(link.code) ?? {};
+    ids[link.player_id] = link.registry_id;
+    registryIds.set(link.code, ids);
+  });
+
+  const rows = queries.getRatedTournaments.all(Date.now()) as Array<{ code: string; data: string; created_at: number }>;
+  const archives: Engine.LinkedArchive[] = [];
+  rows.forEach((row) => {
+    const ids = registryIds.get(row.code);
+    if (!ids) return; // Archived before the player registry: nobody to rate
+    try {
+      archives.push({ code: row.code, archivedAt: row.created_at, tournament: JSON.parse(row.data) as Tournament, registryIds: ids });
+    } catch (error) {
+      console.error(`❌ Skipping unreadable archive ${row.code} in ratings:`, error);
+    }
+  });
+
+  const { ratings, history } = Engine.calculateClubRatings(archives);
+
+  db.transaction(() => {
+    queries.clearRatings.run();
+    queries.clearRatingHistory.run();
+    ratings.forEach((r) => {
+      queries.saveRating.run(r.registryId, r.rating, r.peak, r.games, r.wins, r.losses, r.ties, r.tournaments, r.lastPlayedAt);
+    });
+    history.forEach((h) => {
+      queries.saveRatingHistory.run(h.registryId, h.code, h.tournamentName, h.archivedAt, h.ratingBefore, h.ratingAfter, h.games);
+    });
+  })();
+
+  console.log(`📈 Rated ${ratings.length} players from ${archives.length} archived tournaments`);
+}
+
+export function getClubRatings(): ClubRatingEntry[] {
+  return (queries.getRatings.all() as RatingRow[]).map(fromRow);
+}
+
+export function getClubRating(registryId: string): ClubRatingEntry | null {
+  const row = queries.getRating.get(registryId) as RatingRow | undefined;
+  return row ? fromRow(row) : null;
+}
+
+export function getRatingHistory(registryId: string): RatingHistoryEntry[] {
+  return (queries.getRatingHistory.all(registryId) as RatingHistoryRow[]).map((row) => ({
+    registryId: row.registry_id,
+    code: row.code,
+    tournamentName: row.tournament_name,
+    archivedAt: row.archived_at,
+    ratingBefore: row.rating_before,
+    ratingAfter: row.rating_after,
+    games: row.games,
+  }));
+}
@@ -1,13 +1,58 @@
 // Room management for tournament sessions
 
-import type { Tournament, Player, Table, TournamentSettings, Match } from '../src/types.js';
-import { TournamentRoom, ConnectedPlayer, ROOM_CONFIG } from './types.js';
-import { generateRoundPairings } from '../src/utils/pairingAlgorithm.js';
-import { getPairingLogs } from '../src/utils/pairingLog.js';
+import { randomBytes } from 'crypto';
+import type {
+  Tournament,
+  Player,
+  FixedTeam,
+  Table,
+  TournamentSettings,
+  Match,
+  PoolBracketConfig,
+  TournamentAction,
+  ActionActor,
+  ActionLog,
+  ActionHistory,
+  PlayerClaimInfo,
+  DirectorPermission,
+  HostAccessInfo,
+  ScoreReport,
+  GameScore,
+  RoundTimer,
+} from '../src/types.js';
+import { TournamentRoom, ConnectedPlayer, PlayerClaim, CoDirector, ROOM_CONFIG } from './types.js';
+import { queries } from './db.js';
+import * as Engine from '../src/engine/index.js';
+import {
+  createActionLog,
+  recordAction,
+  applyAction,
+  replayActionLog,
+  undoLastAction,
+  redoLastAction,
+  getActionHistory,
+} from '../src/utils/actionLog.js';
 
-// In-memory room storage
+// In-memory room storage (written through to SQLite so rooms survive a restart)
 const rooms = new Map<string, TournamentRoom>();
 
+interface LiveRoomRow {
+  code: string;
+  data: string;
+  action_log: string | null;
+  player_claims: string | null;
+  host_access: string | null;
+  round_timer: string | null;
+  created_at: number;
+  last_activity: number;
+}
+
+// Persisted form of a room's host secret and co-directors
+interface StoredHostAccess {
+  hostSecret: string;
+  coDirectors: CoDirector[];
+}
+
 // Generate a unique room code
 export function generateRoomCode(): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Removed confusing chars (0, O, 1, I)
@@ -28,11 +73,94 @@ export function generateRoomCode(): string {
   throw new Error('Failed to generate unique room code');
 }
 
+// Write a room's tournament state through to SQLite
+function persistRoom(room: TournamentRoom): void {
+  try {
+    queries.saveLiveRoom.run(
+      room.code,
+      JSON.stringify(room.tournament),
+      JSON.stringify(room.actionLog),
+      JSON.stringify(Array.from(room.playerClaims.values())),
+      JSON.stringify({
+        hostSecret: room.hostSecret,
+        coDirectors: Array.from(room.coDirectors.values()),
+      } satisfies StoredHostAccess),
+      room.roundTimer ? JSON.stringify(room.roundTimer) : null,
+      room.createdAt,
+      room.lastActivity
+    );
+  } catch (error) {
+    console.error(`❌ Failed to persist room ${room.code}:`, error);
+  }
+}
+
+// Rehydrate rooms persisted before the last shutdown/crash
+// Connections are not restored - hosts and players come back via rejoin_tournament
+export function restoreRooms(): number {
+  const now = Date.now();
+  let restored = 0;
+  
+  try {
+    const rows = queries.getLiveRooms.all() as LiveRoomRow[];
+    
+    for (const row of rows) {
+      // Drop rooms that would already have been cleaned up for inactivity
+      if (now - row.last_activity >= ROOM_CONFIG.INACTIVITY_TIMEOUT) {
+        queries.deleteLiveRoom.run(row.code);
+        continue;
+      }
+      
+      try {
+        const tournament = JSON.parse(row.data) as Tournament;
+        // Rooms saved before the action log existed start a fresh log from their current state
+        const actionLog = row.action_log
+          ? JSON.parse(row.action_log) as ActionLog
+          : createActionLog(tournament);
+        const playerClaims = row.player_claims
+          ? JSON.parse(row.player_claims) as PlayerClaim[]
+          : [];
+        // Rooms saved before host secrets existed get a new one (the old host can't recover it)
+        const hostAccess: StoredHostAccess = row.host_access
+          ? JSON.parse(row.host_access) as StoredHostAccess
+          : { hostSecret: generateSecret(), coDirectors: [] };
+        rooms.set(row.code, {
+          code: row.code,
+          tournament,
+          actionLog,
+          hostSocketId: '',  // No host connected until they rejoin
+          hostSecret: hostAccess.hostSecret,
+          hostHandoffCode: null,
+          coDirectors: new Map(hostAccess.coDirectors.map(d => [d.id, d])),
+          connectedPlayers: new Map(),
+          playerClaims: new Map(playerClaims.map(c => [c.playerId, c])),
+          roundTimer: row.round_timer ? JSON.parse(row.round_timer) as RoundTimer : null,
+          createdAt: row.created_at,
+          lastActivity: row.last_activity,
+          warningsSent: false,
+        });
+        restored++;
+      } catch (error) {
+        console.error(`❌ Failed to restore room ${row.code}:`, error);
+        queries.deleteLiveRoom.run(row.code);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Failed to load persisted rooms:', error);
+  }
+  
+  return restored;
+}
+
 // Generate unique ID
 function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2, 9);
 }
 
+// Unguessable secret for join tokens and host/co-director credentials
+function generateSecret(): string {
+  return randomBytes(18).toString('base64url');
+}
+
 // Create a new tournament with default state
 export function createTournament(name: string, totalRounds: number): Tournament {
   const now = Date.now();
@@ -54,6 +182,8 @@ export function createTournament(name: string, totalRounds: number): Tournament
       finalsEnabled: false,
       byeGameMode: 'byes_only',
       allowViewerScoreEntry: false,  // Default: only host can enter scores
+      tiebreakers: [...Engine.DEFAULT_TIEBREAKERS],
+      pairingWeights: { ...Engine.DEFAULT_PAIRING_WEIGHTS },
     },
     shareCode: '',  // Will be set when room is created
     createdAt: now,
@@ -69,14 +199,21 @@ export function createRoom(tournament: Tournament, hostSocketId: string): Tourna
   const room: TournamentRoom = {
     code,
     tournament,
+    actionLog: createActionLog(tournament),
     hostSocketId,
+    hostSecret: generateSecret(),
+    hostHandoffCode: null,
+    coDirectors: new Map(),
     connectedPlayers: new Map(),
+    playerClaims: new Map(),
+    roundTimer: null,
     createdAt: Date.now(),
     lastActivity: Date.now(),
     warningsSent: false,
   };
   
   rooms.set(code, room);
+  persistRoom(room);
   return room;
 }
 
@@ -94,14 +231,21 @@ export function createRoomWithTournament(tournament: Tournament, hostSocketId: s
   const room: TournamentRoom = {
     code,
     tournament: updatedTournament,
+    actionLog: createActionLog(updatedTournament),
     hostSocketId,
+    hostSecret: generateSecret(),
+    hostHandoffCode: null,
+    coDirectors: new Map(),
     connectedPlayers: new Map(),
+    playerClaims: new Map(),
+    roundTimer: null,
     createdAt: Date.now(),
     lastActivity: Date.now(),
     warningsSent: false,
   };
   
   rooms.set(code, room);
+  persistRoom(room);
   return room;
 }
 
@@ -110,6 +254,7 @@ export function recalculateStats(code: string): boolean {
   const room = getRoom(code);
   if (!room) return false;
   recalculatePlayerStats(room);
+  persistRoom(room);
   return true;
 }
 
@@ -129,35 +274,35 @@ export function touchRoom(code: string): void {
   if (room) {
     room.lastActivity = Date.now();
     room.warningsSent = false;
+    try {
+      queries.touchLiveRoom.run(room.lastActivity, room.code);
+    } catch (error) {
+      console.error(`❌ Failed to update activity for room ${room.code}:`, error);
+    }
   }
 }
 
 // Add a connected player to a room
+// playerId comes from a redeemed join token (see claimPlayer), never from the name
 export function addConnectedPlayer(
   code: string, 
   socketId: string, 
   playerName: string, 
-  isHost: boolean
+  isHost: boolean,
+  playerId: string | null = null,
+  deviceId: string | null = null,
+  directorId: string | null = null
 ): ConnectedPlayer | null {
   const room = getRoom(code);
   if (!room) return null;
   
-  // Try to match to an existing player by name
-  let matchedPlayerId: string | null = null;
-  const normalizedName = playerName.toLowerCase().trim();
-  
-  for (const player of room.tournament.players) {
-    if (player.name.toLowerCase().trim() === normalizedName) {
-      matchedPlayerId = player.id;
-      break;
-    }
-  }
-  
   const connectedPlayer: ConnectedPlayer = {
     socketId,
-    playerId: matchedPlayerId,
+    playerId,
     playerName,
     isHost,
+    deviceId,
+    directorId,
     joinedAt: Date.now(),
   };
   
@@ -188,24 +333,324 @@ export function isSocketHost(code: string, socketId: string): boolean {
   return room.hostSocketId === socketId;
 }
 
+// ============================================
+// Host Access (host secret, handoff, co-directors)
+// ============================================
+
+// Check a host secret sent on join/rejoin. A handoff code is single use and
+// rotates the host secret, so the previous host's recovery code stops working.
+export function authenticateHost(code: string, secret: string): { ok: boolean; handoff: boolean } {
+  const room = getRoom(code);
+  if (!room) return { ok: false, handoff: false };
+  
+  if (room.hostHandoffCode && secret === room.hostHandoffCode) {
+    room.hostSecret = generateSecret();
+    room.hostHandoffCode = null;
+    persistRoom(room);
+    return { ok: true, handoff: true };
+  }
+  
+  return { ok: secret === room.hostSecret, handoff: false };
+}
+
+// Make a socket the host. Returns the previous host's socket if it was a different, still-connected one.
+export function setHostSocket(code: string, socketId: string): string | null {
+  const room = getRoom(code);
+  if (!room) return null;
+  
+  const previous = room.hostSocketId !== socketId ? room.connectedPlayers.get(room.hostSocketId) : undefined;
+  if (previous) previous.isHost = false;
+  
+  room.hostSocketId = socketId;
+  touchRoom(code);
+  
+  return previous ? previous.socketId : null;
+}
+
+export function startHostHandoff(code: string): string | null {
+  const room = getRoom(code);
+  if (!room) return null;
+  
+  room.hostHandoffCode = generateSecret();
+  return room.hostHandoffCode;
+}
+
+export function cancelHostHandoff(code: string): void {
+  const room = getRoom(code);
+  if (room) room.hostHandoffCode = null;
+}
+
+// Issue a new host secret (e.g. if the recovery code was shared by mistake)
+export function rotateHostSecret(code: string): boolean {
+  const room = getRoom(code);
+  if (!room) return false;
+  
+  room.hostSecret = generateSecret();
+  persistRoom(room);
+  return true;
+}
+
+export function addCoDirector(code: string, name: string, permissions: DirectorPermission[]): CoDirector | null {
+  const room = getRoom(code);
+  if (!room || !name.trim()) return null;
+  
+  const director: CoDirector = {
+    id: generateId(),
+    name: name.trim(),
+    secret: generateSecret(),
+    permissions,
+    createdAt: Date.now(),
+  };
+  
+  room.coDirectors.set(director.id, director);
+  persistRoom(room);
+  
+  return director;
+}
+
+// Change a co-director's permissions. Returns their connected sockets.
+export function updateCoDirector(code: string, directorId: string, permissions: DirectorPermission[]): string[] {
+  const room = getRoom(code);
+  const director = room?.coDirectors.get(directorId);
+  if (!room || !director) return [];
+  
+  director.permissions = permissions;
+  persistRoom(room);
+  
+  return getDirectorSockets(room, directorId);
+}
+
+// Remove a co-director. Returns the sockets that lost their director rights.
+export function removeCoDirector(code: string, directorId: string): string[] {
+  const room = getRoom(code);
+  if (!room || !room.coDirectors.has(directorId)) return [];
+  
+  const socketIds = getDirectorSockets(room, directorId);
+  for (const socketId of socketIds) {
+    room.connectedPlayers.get(socketId)!.directorId = null;
+  }
+  
+  room.coDirectors.delete(directorId);
+  persistRoom(room);
+  
+  return socketIds;
+}
+
+export function authenticateDirector(code: string, secret: string): CoDirector | null {
+  const room = getRoom(code);
+  if (!room) return null;
+  return Array.from(room.coDirectors.values()).find(d => d.secret === secret) ?? null;
+}
+
+export function getDirectorPermissions(code: string, socketId: string): DirectorPermission[] | null {
+  const room = getRoom(code);
+  const directorId = room?.connectedPlayers.get(socketId)?.directorId;
+  if (!room || !directorId) return null;
+  return room.coDirectors.get(directorId)?.permissions ?? null;
+}
+
+// Check if a socket may perform a director action (host can do everything)
+export function hasPermission(code: string, socketId: string, permission: DirectorPermission): boolean {
+  const room = getRoom(code);
+  if (!room) return false;
+  if (room.hostSocketId === socketId) return true;
+  return getDirectorPermissions(code, socketId)?.includes(permission) ?? false;
+}
+
+// Host view of their secret, pending handoff and co-directors
+export function getHostAccess(code: string): HostAccessInfo | null {
+  const room = getRoom(code);
+  if (!room) return null;
+  
+  return {
+    hostSecret: room.hostSecret,
+    handoffCode: room.hostHandoffCode,
+    coDirectors: Array.from(room.coDirectors.values()).map(director => ({
+      ...director,
+      connected: getDirectorSockets(room, director.id).length > 0,
+    })),
+  };
+}
+
+function getDirectorSockets(room: TournamentRoom, directorId: string): string[] {
+  return Array.from(room.connectedPlayers.values())
+    .filter(cp => cp.directorId === directorId)
+    .map(cp => cp.socketId);
+}
+
+// ============================================
+// Player Identity (join tokens)
+// ============================================
+
+// Issue a new join token for a player, replacing (and revoking) any previous one
+export function issuePlayerToken(code: string, playerId: string): PlayerClaim | null {
+  const room = getRoom(code);
+  if (!room) return null;
+  if (!room.tournament.players.some(p => p.id === playerId)) return null;
+  
+  const claim: PlayerClaim = {
+    playerId,
+    token: generateSecret(),
+    issuedAt: Date.now(),
+    deviceId: null,
+    deviceLabel: null,
+    claimedAt: null,
+  };
+  
+  releaseConnectedPlayer(room, playerId);
+  room.playerClaims.set(playerId, claim);
+  persistRoom(room);
+  
+  return claim;
+}
+
+// Redeem a join token on a device. The first device to use a token claims the player;
+// the same device can rejoin with it, any other device is refused until the host revokes.
+export function claimPlayer(
+  code: string,
+  token: string,
+  deviceId: string,
+  deviceLabel: string
+): { playerId: string | null; error?: string } {
+  const room = getRoom(code);
+  if (!room) return { playerId: null, error: 'Tournament not found' };
+  
+  const claim = Array.from(room.playerClaims.values()).find(c => c.token === token);
+  if (!claim) {
+    return { playerId: null, error: 'This player link is no longer valid. Ask the host for a new one.' };
+  }
+  
+  if (claim.deviceId && claim.deviceId !== deviceId) {
+    return { playerId: null, error: 'This player is already claimed on another device. Ask the host to revoke it.' };
+  }
+  
+  if (!claim.deviceId) {
+    claim.deviceId = deviceId;
+    claim.deviceLabel = deviceLabel || 'Unknown device';
+    claim.claimedAt = Date.now();
+    persistRoom(room);
+  }
+  
+  return { playerId: claim.playerId };
+}
+
+// Revoke a player's token and device claim. Returns the sockets that lost their identity.
+export function revokePlayerClaim(code: string, playerId: string): string[] {
+  const room = getRoom(code);
+  if (!room || !room.playerClaims.has(playerId)) return [];
+  
+  room.playerClaims.delete(playerId);
+  persistRoom(room);
+  
+  return releaseConnectedPlayer(room, playerId);
+}
+
+// Detach a player identity from any connected sockets (they stay connected as spectators)
+function releaseConnectedPlayer(room: TournamentRoom, playerId: string): string[] {
+  const released: string[] = [];
+  for (const cp of room.connectedPlayers.values()) {
+    if (cp.playerId === playerId) {
+      cp.playerId = null;
+      released.push(cp.socketId);
+    }
+  }
+  return released;
+}
+
+// Host view of issued tokens and which device holds each player
+export function getPlayerClaims(code: string): PlayerClaimInfo[] {
+  const room = getRoom(code);
+  if (!room) return [];
+  
+  const connectedPlayerIds = new Set(
+    Array.from(room.connectedPlayers.values()).map(cp => cp.playerId).filter(Boolean)
+  );
+  
+  return Array.from(room.playerClaims.values()).map(claim => ({
+    playerId: claim.playerId,
+    token: claim.token,
+    issuedAt: claim.issuedAt,
+    deviceLabel: claim.deviceLabel,
+    claimedAt: claim.claimedAt,
+    connected: connectedPlayerIds.has(claim.playerId),
+  }));
+}
+
+// Player ID a socket may act as - its claim must still be held by the same device
+function getClaimedPlayerId(room: TournamentRoom, socketId: string): string | null {
+  const connectedPlayer = room.connectedPlayers.get(socketId);
+  if (!connectedPlayer || !connectedPlayer.playerId) return null;
+  
+  const claim = room.playerClaims.get(connectedPlayer.playerId);
+  if (!claim || !claim.deviceId || claim.deviceId !== connectedPlayer.deviceId) return null;
+  
+  return connectedPlayer.playerId;
+}
+
 // Check if a socket can submit score for a match
 export function canSubmitScore(code: string, socketId: string, matchId: string): boolean {
   const room = getRoom(code);
   if (!room) return false;
   
-  // Host can always submit
-  if (room.hostSocketId === socketId) return true;
+  // Host and co-directors with score permission can always submit
+  if (hasPermission(code, socketId, 'scores')) return true;
   
   // Find the match
   const match = room.tournament.matches.find(m => m.id === matchId);
   if (!match) return false;
   
-  // Find the connected player
-  const connectedPlayer = room.connectedPlayers.get(socketId);
-  if (!connectedPlayer || !connectedPlayer.playerId) return false;
+  // Find the player this socket holds a valid join token for
+  const playerId = getClaimedPlayerId(room, socketId);
+  if (!playerId) return false;
   
   // Check if player is in this match
-  const playerId = connectedPlayer.playerId;
+  const inTeam1 = match.team1.includes(playerId);
+  const inTeam2 = match.team2?.includes(playerId) || false;
+  
+  return inTeam1 || inTeam2;
+}
+
+// Check if a socket can submit score for a bracket (playoff) match
+export function canSubmitBracketScore(code: string, socketId: string, matchId: string): boolean {
+  const room = getRoom(code);
+  if (!room) return false;
+  
+  // Host and co-directors with score permission can always submit
+  if (hasPermission(code, socketId, 'scores')) return true;
+  
+  // Find the bracket match
+  const match = room.tournament.bracketMatches.find(m => m.id === matchId);
+  if (!match) return false;
+  
+  // Find the player this socket holds a valid join token for
+  const playerId = getClaimedPlayerId(room, socketId);
+  if (!playerId) return false;
+  
+  // Check if player is on either team
+  const inTeam1 = match.team1?.includes(playerId) || false;
+  const inTeam2 = match.team2?.includes(playerId) || false;
+  
+  return inTeam1 || inTeam2;
+}
+
+// Check if a socket can submit score for a round-robin stage match
+export function canSubmitStageScore(code: string, socketId: string, stageId: string, matchId: string): boolean {
+  const room = getRoom(code);
+  if (!room) return false;
+  
+  // Host and co-directors with score permission can always submit
+  if (hasPermission(code, socketId, 'scores')) return true;
+  
+  // Find the stage match
+  const stage = room.tournament.stages?.find(s => s.id === stageId);
+  const match = stage?.matches?.find(m => m.id === matchId);
+  if (!match) return false;
+  
+  // Find the player this socket holds a valid join token for
+  const playerId = getClaimedPlayerId(room, socketId);
+  if (!playerId) return false;
+  
+  // Check if player is on either team
   const inTeam1 = match.team1.includes(playerId);
   const inTeam2 = match.team2?.includes(playerId) || false;
   
@@ -214,7 +659,13 @@ export function canSubmitScore(code: string, socketId: string, matchId: string):
 
 // Delete a room
 export function deleteRoom(code: string): void {
-  rooms.delete(code.toUpperCase());
+  const normalizedCode = code.toUpperCase();
+  rooms.delete(normalizedCode);
+  try {
+    queries.deleteLiveRoom.run(normalizedCode);
+  } catch (error) {
+    console.error(`❌ Failed to delete persisted room ${normalizedCode}:`, error);
+  }
 }
 
 // Get all rooms (for cleanup)
@@ -226,9 +677,19 @@ export function getAllRooms(): Map<string, TournamentRoom> {
 // Tournament Actions (modify room state)
 // ============================================
 
-export function addPlayer(code: string, name: string): Player | null {
+// Record an action in the room's log and apply it to the tournament
+function dispatch(room: TournamentRoom, action: TournamentAction, actor: ActionActor): void {
+  const timestamp = Date.now();
+  room.actionLog = recordAction(room.actionLog, action, actor, timestamp);
+  room.tournament = applyAction(room.tournament, action, timestamp);
+  touchRoom(room.code);
+  persistRoom(room);
+}
+
+export function addPlayer(code: string, name: string, actor: ActionActor, registryId?: string): Player | null {
   const room = getRoom(code);
-  if (!room || room.tournament.status !== 'setup') return null;
+  // Late arrivals can still be added during Swiss rounds
+  if (!room || (room.tournament.status !== 'setup' && room.tournament.status !== 'active')) return null;
   
   const player: Player = {
     id: generateId(),
@@ -242,43 +703,117 @@ export function addPlayer(code: string, name: string): Player | null {
     byeCount: 0,
     active: true,
   };
+  if (registryId) player.registryId = registryId;
   
-  room.tournament.players.push(player);
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  const joinedRound = Engine.getLateEntryRound(room.tournament, player.id);
+  if (joinedRound) player.joinedRound = joinedRound;
+  
+  dispatch(room, { type: 'add_player', player }, actor);
   
   return player;
 }
 
-export function removePlayer(code: string, playerId: string): boolean {
+// Fixed-partner teams register both players at once
+export function addTeam(code: string, player1Name: string, player2Name: string, teamName: string | undefined, actor: ActionActor): FixedTeam | null {
+  const room = getRoom(code);
+  if (!room || (room.tournament.status !== 'setup' && room.tournament.status !== 'active')) return null;
+  
+  const names = [player1Name.trim(), player2Name.trim()];
+  if (!names[0] || !names[1]) return null;
+  
+  const players: Player[] = names.map(name => ({
+    id: generateId(),
+    name,
+    wins: 0,
+    losses: 0,
+    ties: 0,
+    pointsFor: 0,
+    pointsAgainst: 0,
+    twenties: 0,
+    byeCount: 0,
+    active: true,
+  }));
+  
+  const joinedRound = Engine.getLateEntryRound(room.tournament, players[0].id);
+  if (joinedRound) players.forEach(p => { p.joinedRound = joinedRound; });
+  
+  const team: FixedTeam = {
+    id: generateId(),
+    name: teamName?.trim() || `${names[0]} & ${names[1]}`,
+    playerIds: [players[0].id, players[1].id],
+  };
+  
+  dispatch(room, { type: 'add_team', team, players }, actor);
+  
+  return team;
+}
+
+export function removeTeam(code: string, teamId: string, actor: ActionActor): boolean {
   const room = getRoom(code);
   if (!room || room.tournament.status !== 'setup') return false;
   
-  const index = room.tournament.players.findIndex(p => p.id === playerId);
-  if (index === -1) return false;
+  const team = room.tournament.teams?.find(t => t.id === teamId);
+  if (!team) return false;
   
-  room.tournament.players.splice(index, 1);
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  dispatch(room, { type: 'remove_team', teamId }, actor);
+  team.playerIds.forEach(playerId => revokePlayerClaim(code, playerId));
+  
+  return true;
+}
+
+export function removePlayer(code: string, playerId: string, actor: ActionActor): boolean {
+  const room = getRoom(code);
+  if (!room || room.tournament.status !== 'setup') return false;
+  
+  if (!room.tournament.players.some(p => p.id === playerId)) return false;
+  
+  dispatch(room, { type: 'remove_player', playerId }, actor);
+  revokePlayerClaim(code, playerId);
   
   return true;
 }
 
-export function updatePlayer(code: string, playerId: string, updates: Partial<Player>): boolean {
+export function updatePlayer(code: string, playerId: string, updates: Partial<Player>, actor: ActionActor): boolean {
   const room = getRoom(code);
   if (!room) return false;
   
-  const player = room.tournament.players.find(p => p.id === playerId);
-  if (!player) return false;
+  if (!room.tournament.players.some(p => p.id === playerId)) return false;
   
-  Object.assign(player, updates);
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  dispatch(room, { type: 'update_player', playerId, updates }, actor);
   
   return true;
 }
 
-export function addTable(code: string, name: string): Table | null {
+// Withdrawn players keep their results but are no longer paired
+export function withdrawPlayer(code: string, playerId: string, actor: ActionActor): boolean {
+  const room = getRoom(code);
+  if (!room || !Engine.canChangeRoster(room.tournament, playerId, true)) return false;
+  
+  dispatch(room, {
+    type: 'withdraw_player',
+    playerId,
+    afterRound: room.tournament.currentRound,
+  }, actor);
+  
+  return true;
+}
+
+// Reinstated players are paired again from the next round; a player who
+// never played (e.g. missed check-in) joins as a late entrant
+export function reinstatePlayer(code: string, playerId: string, actor: ActionActor): boolean {
+  const room = getRoom(code);
+  if (!room || !Engine.canChangeRoster(room.tournament, playerId, false)) return false;
+  
+  dispatch(room, {
+    type: 'reinstate_player',
+    playerId,
+    joinedRound: Engine.getLateEntryRound(room.tournament, playerId),
+  }, actor);
+  
+  return true;
+}
+
+export function addTable(code: string, name: string, actor: ActionActor): Table | null {
   const room = getRoom(code);
   if (!room) return null;
   
@@ -288,174 +823,103 @@ export function addTable(code: string, name: string): Table | null {
     order: room.tournament.tables.length,
   };
   
-  room.tournament.tables.push(table);
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  dispatch(room, { type: 'add_table', table }, actor);
   
   return table;
 }
 
-export function removeTable(code: string, tableId: string): boolean {
+export function removeTable(code: string, tableId: string, actor: ActionActor): boolean {
   const room = getRoom(code);
   if (!room) return false;
   
-  const index = room.tournament.tables.findIndex(t => t.id === tableId);
-  if (index === -1) return false;
+  if (!room.tournament.tables.some(t => t.id === tableId)) return false;
   
-  room.tournament.tables.splice(index, 1);
-  // Reorder remaining tables
-  room.tournament.tables.forEach((t, i) => { t.order = i; });
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  dispatch(room, { type: 'remove_table', tableId }, actor);
   
   return true;
 }
 
-export function updateTable(code: string, tableId: string, name: string): boolean {
+export function updateTable(code: string, tableId: string, name: string, actor: ActionActor): boolean {
   const room = getRoom(code);
   if (!room) return false;
   
-  const table = room.tournament.tables.find(t => t.id === tableId);
-  if (!table) return false;
+  if (!room.tournament.tables.some(t => t.id === tableId)) return false;
   
-  table.name = name.trim();
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  dispatch(room, { type: 'update_table', tableId, name: name.trim() }, actor);
   
   return true;
 }
 
-export function reorderTables(code: string, tables: Table[]): boolean {
+export function reorderTables(code: string, tables: Table[], actor: ActionActor): boolean {
   const room = getRoom(code);
   if (!room) return false;
   
-  room.tournament.tables = tables;
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  dispatch(room, { type: 'reorder_tables', tables }, actor);
   
   return true;
 }
 
-export function updateSettings(code: string, settings: Partial<TournamentSettings>): boolean {
+export function updateSettings(code: string, settings: Partial<TournamentSettings>, actor: ActionActor): boolean {
   const room = getRoom(code);
   if (!room) return false;
   
-  Object.assign(room.tournament.settings, settings);
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  dispatch(room, { type: 'update_settings', settings }, actor);
   
   return true;
 }
 
-export function updateTournamentName(code: string, name: string): boolean {
+export function updateTournamentName(code: string, name: string, actor: ActionActor): boolean {
   const room = getRoom(code);
   if (!room) return false;
   
-  room.tournament.name = name.trim();
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  dispatch(room, { type: 'update_tournament_name', name: name.trim() }, actor);
   
   return true;
 }
 
-export function updateTotalRounds(code: string, rounds: number): boolean {
+export function updateTotalRounds(code: string, rounds: number, actor: ActionActor): boolean {
   const room = getRoom(code);
   if (!room || room.tournament.status !== 'setup') return false;
   
-  room.tournament.totalRounds = Math.max(1, Math.min(20, rounds));
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  dispatch(room, { type: 'update_total_rounds', rounds: Math.max(1, Math.min(20, rounds)) }, actor);
   
   return true;
 }
 
-export function startTournament(code: string): boolean {
+export function startTournament(code: string, actor: ActionActor): boolean {
   const room = getRoom(code);
   if (!room) return false;
   if (room.tournament.status !== 'setup') return false;
-  if (room.tournament.players.length < 4) return false;
+  if (Engine.validateStageDefinitions(Engine.getStageDefinitions(room.tournament), room.tournament.settings.format)) return false;
   
-  room.tournament.status = 'active';
-  room.tournament.currentRound = 1;
+  // Players who didn't check in sit out Round 1
+  const players = Engine.applyCheckIn(room.tournament);
+  if (players.filter(p => p.active).length < Engine.getMinimumPlayers(room.tournament)) return false;
   
   // Generate first round pairings
-  const result = generateRoundPairings(
-    room.tournament.players,
-    room.tournament.matches,
-    1,
-    room.tournament.tables,
-    room.tournament.settings.tableAssignment,
-    room.tournament.settings.byeGameMode
-  );
+  const result = Engine.generateRound({ ...room.tournament, players }, 1);
   
-  room.tournament.matches = result.matches;
-  room.tournament.pairingLogs = getPairingLogs(); // Store logs for client access
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  room.roundTimer = null;
+  dispatch(room, {
+    type: 'start_tournament',
+    players,
+    matches: result.matches,
+    pairingLogs: result.pairingLogs, // Store logs for client access
+    stages: Engine.createInitialStages(room.tournament, players),
+  }, actor);
   
   return true;
 }
 
-// Recalculate player stats from match data
-// This ensures bye selection has accurate standings
+// Recalculate stored player stats from match data using the shared engine
 function recalculatePlayerStats(room: TournamentRoom): void {
-  const matches = room.tournament.matches;
-  
-  // Reset all player stats
-  room.tournament.players.forEach(player => {
-    player.wins = 0;
-    player.losses = 0;
-    player.ties = 0;
-    player.pointsFor = 0;
-    player.pointsAgainst = 0;
-    player.twenties = 0;
-    player.byeCount = 0;
-  });
-  
-  // Recalculate from completed matches
-  matches.forEach(match => {
-    if (!match.completed) return;
-    
-    if (match.isBye) {
-      const player = room.tournament.players.find(p => p.id === match.team1[0]);
-      if (player) {
-        // Bye is always a tie (1 point) with 4-4 score
-        player.ties += 1;
-        player.pointsFor += match.score1 ?? 4;
-        player.pointsAgainst += match.score2 ?? 4; // 4 points against for bye
-        player.twenties += match.twenties1 ?? 0;
-        player.byeCount += 1;
-      }
-    } else if (match.score1 !== null && match.score2 !== null) {
-      // Team 1
-      match.team1.forEach(playerId => {
-        const player = room.tournament.players.find(p => p.id === playerId);
-        if (player) {
-          player.pointsFor += match.score1!;
-          player.pointsAgainst += match.score2!;
-          player.twenties += match.twenties1 ?? 0;
-          if (match.score1! > match.score2!) player.wins += 1;
-          else if (match.score1! < match.score2!) player.losses += 1;
-          else player.ties += 1;
-        }
-      });
-      // Team 2
-      match.team2?.forEach(playerId => {
-        const player = room.tournament.players.find(p => p.id === playerId);
-        if (player) {
-          player.pointsFor += match.score2!;
-          player.pointsAgainst += match.score1!;
-          player.twenties += match.twenties2 ?? 0;
-          if (match.score2! > match.score1!) player.wins += 1;
-          else if (match.score2! < match.score1!) player.losses += 1;
-          else player.ties += 1;
-        }
-      });
-    }
-  });
+  room.tournament = {
+    ...room.tournament,
+    players: Engine.recalculatePlayerStats(room.tournament.players, room.tournament.matches, room.tournament.settings),
+  };
 }
 
-export function generateNextRound(code: string): boolean {
+export function generateNextRound(code: string, actor: ActionActor): boolean {
   const room = getRoom(code);
   if (!room) return false;
   if (room.tournament.status !== 'active') return false;
@@ -473,36 +937,72 @@ export function generateNextRound(code: string): boolean {
     return false;
   }
   
-  // IMPORTANT: Recalculate player stats from match data before generating pairings
-  // This ensures bye selection uses accurate standings
-  recalculatePlayerStats(room);
+  const nextRound = room.tournament.currentRound + 1;
   
-  room.tournament.currentRound++;
+  // The engine recalculates player stats from match data before pairing,
+  // so bye selection uses accurate standings
+  const result = Engine.generateRound(room.tournament, nextRound);
   
-  const result = generateRoundPairings(
-    room.tournament.players,
-    room.tournament.matches,
-    room.tournament.currentRound,
-    room.tournament.tables,
-    room.tournament.settings.tableAssignment,
-    room.tournament.settings.byeGameMode
-  );
-  
-  room.tournament.matches.push(...result.matches);
-  room.tournament.pairingLogs = getPairingLogs(); // Store logs for client access
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  room.roundTimer = null;  // Each round gets a fresh clock
+  dispatch(room, {
+    type: 'generate_next_round',
+    round: nextRound,
+    matches: result.matches,
+    players: result.players,
+    pairingLogs: result.pairingLogs, // Store logs for client access
+  }, actor);
   
   return true;
 }
 
+// A score as a client sent it: match points and 20s, or the games they come from
+interface ScoreInput {
+  score1: number;
+  score2: number;
+  twenties1: number;
+  twenties2: number;
+  games?: GameScore[];
+  playerTwenties?: Record<string, number>;
+}
+
+/**
+ * Check a submitted score against the tournament's settings and work out what
+ * to record: with games, match points and 20s always come from the games
+ * themselves; otherwise team 20s always match the individual counts.
+ */
+function normalizeScoreInput(
+  match: Match,
+  input: ScoreInput,
+  settings: TournamentSettings
+): { score: Engine.ConvertedScore } | { error: string } {
+  const { score1, score2, twenties1, twenties2, games, playerTwenties } = input;
+  let score: Engine.ConvertedScore = { score1, score2, twenties1, twenties2 };
+  
+  if (games) {
+    const gamesError = Engine.validateGames(games, settings);
+    if (gamesError) return { error: gamesError };
+    score = Engine.convertGames(match, games, settings);
+  } else if (playerTwenties) {
+    score = { ...score, ...Engine.sumTeamTwenties(match, playerTwenties) };
+  }
+  
+  // Games and totals both have to make a valid match score
+  const scoreError = Engine.validateMatchScore(score.score1, score.score2, settings);
+  if (scoreError) return { error: scoreError };
+  
+  return { score };
+}
+
 export function submitScore(
   code: string,
   matchId: string,
   score1: number,
   score2: number,
   twenties1: number,
-  twenties2: number
+  twenties2: number,
+  actor: ActionActor,
+  games?: GameScore[],
+  playerTwenties?: Record<string, number>
 ): boolean {
   const room = getRoom(code);
   if (!room) return false;
@@ -510,14 +1010,11 @@ export function submitScore(
   const match = room.tournament.matches.find(m => m.id === matchId);
   if (!match || match.completed) return false;
   
-  match.score1 = score1;
-  match.score2 = score2;
-  match.twenties1 = twenties1;
-  match.twenties2 = twenties2;
-  match.completed = true;
+  const normalized = normalizeScoreInput(match, { score1, score2, twenties1, twenties2, games, playerTwenties }, room.tournament.settings);
+  if ('error' in normalized) return false;
+  ({ score1, score2, twenties1, twenties2 } = normalized.score);
   
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  dispatch(room, { type: 'submit_score', matchId, score1, score2, twenties1, twenties2, games, playerTwenties }, actor);
   
   return true;
 }
@@ -528,7 +1025,10 @@ export function editScore(
   score1: number,
   score2: number,
   twenties1: number,
-  twenties2: number
+  twenties2: number,
+  actor: ActionActor,
+  games?: GameScore[],
+  playerTwenties?: Record<string, number>
 ): boolean {
   const room = getRoom(code);
   if (!room) return false;
@@ -536,70 +1036,444 @@ export function editScore(
   const match = room.tournament.matches.find(m => m.id === matchId);
   if (!match) return false;
   
-  match.score1 = score1;
-  match.score2 = score2;
-  match.twenties1 = twenties1;
-  match.twenties2 = twenties2;
-  match.completed = true;
+  const normalized = normalizeScoreInput(match, { score1, score2, twenties1, twenties2, games, playerTwenties }, room.tournament.settings);
+  if ('error' in normalized) return false;
+  ({ score1, score2, twenties1, twenties2 } = normalized.score);
   
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  dispatch(room, { type: 'edit_score', matchId, score1, score2, twenties1, twenties2, games, playerTwenties }, actor);
   
   return true;
 }
 
+// Whether a socket's scores need the opposing team's confirmation
+// (only players - a director's score always counts immediately)
+export function requiresScoreConfirmation(code: string, socketId: string): boolean {
+  const room = getRoom(code);
+  if (!room || !room.tournament.settings.scoreConfirmation) return false;
+  return !hasPermission(code, socketId, 'scores');
+}
+
+// Record a player's score report for their match. Returns the updated match.
+export function reportScore(
+  code: string,
+  socketId: string,
+  matchId: string,
+  score1: number,
+  score2: number,
+  twenties1: number,
+  twenties2: number,
+  actor: ActionActor,
+  games?: GameScore[],
+  playerTwenties?: Record<string, number>
+): Match | null {
+  const room = getRoom(code);
+  if (!room) return null;
+  
+  const match = room.tournament.matches.find(m => m.id === matchId);
+  if (!match || match.completed) return null;
+  
+  const normalized = normalizeScoreInput(match, { score1, score2, twenties1, twenties2, games, playerTwenties }, room.tournament.settings);
+  if ('error' in normalized) return null;
+  ({ score1, score2, twenties1, twenties2 } = normalized.score);
+  
+  const playerId = getClaimedPlayerId(room, socketId);
+  const side = playerId ? Engine.getPlayerSide(match, playerId) : null;
+  if (!playerId || !side) return null;
+  
+  const report: ScoreReport = {
+    side,
+    playerId,
+    score1,
+    score2,
+    twenties1,
+    twenties2,
+    games,
+    playerTwenties,
+    reportedAt: Date.now(),
+  };
+  const updated = Engine.applyScoreReport(match, report);
+  
+  dispatch(room, { type: 'report_score', report, match: updated }, actor);
+  
+  return updated;
+}
+
 // Manual tournament state update (for hosts restoring from backup or manual entry)
-export function updateTournamentState(code: string, tournamentData: Tournament): boolean {
+export function updateTournamentState(code: string, tournamentData: Tournament, actor: ActionActor): boolean {
   const room = getRoom(code);
   if (!room) return false;
   
-  // Preserve the room code and id
-  room.tournament = {
-    ...tournamentData,
-    id: room.tournament.id,
-    shareCode: room.tournament.shareCode,
-    updatedAt: Date.now(),
-  };
+  // The action preserves the room code and id
+  dispatch(room, { type: 'manual_update_tournament', tournament: tournamentData }, actor);
   
   // Recalculate player stats from the imported matches
   recalculatePlayerStats(room);
-  
-  touchRoom(code);
+  persistRoom(room);
   
   return true;
 }
 
-export function completeTournament(code: string): boolean {
+export function completeTournament(code: string, actor: ActionActor): boolean {
   const room = getRoom(code);
   if (!room) return false;
   if (room.tournament.status !== 'active') return false;
   
-  room.tournament.status = 'completed';
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  // Move on to the next stage (round robin or finals setup), otherwise complete
+  const players = Engine.recalculatePlayerStats(room.tournament.players, room.tournament.matches, room.tournament.settings);
+  const completion = Engine.completeStage({ ...room.tournament, players });
+  
+  room.roundTimer = null;
+  dispatch(room, {
+    type: 'complete_tournament',
+    status: completion?.status ?? 'completed',
+    players,
+    stages: completion?.stages,
+  }, actor);
   
   return true;
 }
 
-export function resetTournament(code: string): boolean {
+export function resetTournament(code: string, actor: ActionActor): boolean {
   const room = getRoom(code);
   if (!room) return false;
   
-  room.tournament.matches = [];
-  room.tournament.currentRound = 0;
-  room.tournament.status = 'setup';
-  room.tournament.players.forEach(p => {
-    p.wins = 0;
-    p.losses = 0;
-    p.ties = 0;
-    p.pointsFor = 0;
-    p.pointsAgainst = 0;
-    p.twenties = 0;
-    p.byeCount = 0;
-  });
-  room.tournament.updatedAt = Date.now();
-  touchRoom(code);
+  room.roundTimer = null;
+  dispatch(room, { type: 'reset_tournament' }, actor);
+  
+  return true;
+}
+
+// ============================================
+// Round Timer
+// ============================================
+
+export function getRoundTimer(code: string): RoundTimer | null {
+  return getRoom(code)?.roundTimer ?? null;
+}
+
+// Replace the room's clock (no action log entry - the clock isn't tournament data)
+function setRoundTimer(room: TournamentRoom, timer: RoundTimer | null): RoundTimer | null {
+  room.roundTimer = timer;
+  touchRoom(room.code);
+  persistRoom(room);
+  return timer;
+}
+
+// Start or resume the clock, creating one for the current round if needed
+export function startRoundTimer(code: string): RoundTimer | null {
+  const room = getRoom(code);
+  if (!room || room.tournament.status !== 'active') return null;
+  
+  const timer = room.roundTimer?.round === room.tournament.currentRound
+    ? room.roundTimer
+    : Engine.createRoundTimer(room.tournament.currentRound, room.tournament.settings);
+  return setRoundTimer(room, Engine.startTimer(timer, Date.now()));
+}
+
+export function pauseRoundTimer(code: string): RoundTimer | null {
+  const room = getRoom(code);
+  if (!room || !room.roundTimer) return null;
+  return setRoundTimer(room, Engine.pauseTimer(room.roundTimer, Date.now()));
+}
+
+export function extendRoundTimer(code: string, minutes: number): RoundTimer | null {
+  const room = getRoom(code);
+  if (!room || !room.roundTimer) return null;
+  return setRoundTimer(room, Engine.extendTimer(room.roundTimer, minutes, Date.now()));
+}
+
+// Put a fresh, paused clock on the current round
+export function resetRoundTimer(code: string, minutes?: number): RoundTimer | null {
+  const room = getRoom(code);
+  if (!room || room.tournament.status !== 'active') return null;
+  return setRoundTimer(room, Engine.createRoundTimer(room.tournament.currentRound, room.tournament.settings, minutes));
+}
+
+// Stop the clock at zero and, if enabled, flag the round's unfinished matches
+// Returns the flagged match IDs, or null if there was no running clock to expire
+export function expireRoundTimer(code: string, actor: ActionActor): string[] | null {
+  const room = getRoom(code);
+  if (!room || !room.roundTimer || room.roundTimer.expired) return null;
+  
+  const timer = Engine.expireTimer(room.roundTimer);
+  const matchIds = room.tournament.settings.adjudicateOnTimeout
+    ? Engine.getUnfinishedMatchIds(room.tournament.matches, timer.round)
+    : [];
+  
+  room.roundTimer = timer;
+  if (matchIds.length > 0) {
+    dispatch(room, { type: 'flag_unfinished_matches', round: timer.round, matchIds }, actor);
+  } else {
+    persistRoom(room);
+  }
+  
+  return matchIds;
+}
+
+// ============================================
+// Round-Robin Stages
+// ============================================
+
+// A match in the current round-robin stage (only the current stage takes scores)
+function getCurrentStageMatch(room: TournamentRoom, stageId: string, matchId: string): Match | null {
+  if (room.tournament.status !== 'stage_active') return null;
+  const stage = Engine.getCurrentStage(room.tournament);
+  if (!stage || stage.id !== stageId) return null;
+  return stage.matches?.find(m => m.id === matchId) ?? null;
+}
+
+export function submitStageScore(
+  code: string,
+  stageId: string,
+  matchId: string,
+  score1: number,
+  score2: number,
+  twenties1: number,
+  twenties2: number,
+  actor: ActionActor,
+  games?: GameScore[],
+  playerTwenties?: Record<string, number>
+): boolean {
+  const room = getRoom(code);
+  if (!room) return false;
+  
+  const match = getCurrentStageMatch(room, stageId, matchId);
+  if (!match) return false;
+  
+  const normalized = normalizeScoreInput(match, { score1, score2, twenties1, twenties2, games, playerTwenties }, room.tournament.settings);
+  if ('error' in normalized) return false;
+  ({ score1, score2, twenties1, twenties2 } = normalized.score);
+  
+  dispatch(room, { type: 'submit_stage_score', stageId, matchId, score1, score2, twenties1, twenties2, games, playerTwenties }, actor);
   
   return true;
 }
 
+// Record a player's score report for their stage match. Returns the updated match.
+export function reportStageScore(
+  code: string,
+  socketId: string,
+  stageId: string,
+  matchId: string,
+  score1: number,
+  score2: number,
+  twenties1: number,
+  twenties2: number,
+  actor: ActionActor,
+  games?: GameScore[],
+  playerTwenties?: Record<string, number>
+): Match | null {
+  const room = getRoom(code);
+  if (!room) return null;
+  
+  const match = getCurrentStageMatch(room, stageId, matchId);
+  if (!match || match.completed) return null;
+  
+  const normalized = normalizeScoreInput(match, { score1, score2, twenties1, twenties2, games, playerTwenties }, room.tournament.settings);
+  if ('error' in normalized) return null;
+  ({ score1, score2, twenties1, twenties2 } = normalized.score);
+  
+  const playerId = getClaimedPlayerId(room, socketId);
+  const side = playerId ? Engine.getPlayerSide(match, playerId) : null;
+  if (!playerId || !side) return null;
+  
+  const report: ScoreReport = {
+    side,
+    playerId,
+    score1,
+    score2,
+    twenties1,
+    twenties2,
+    games,
+    playerTwenties,
+    reportedAt: Date.now(),
+  };
+  const updated = Engine.applyScoreReport(match, report);
+  
+  dispatch(room, { type: 'report_stage_score', stageId, report, match: updated }, actor);
+  
+  return updated;
+}
+
+// Finish the current round-robin stage and start the next one
+export function completeStage(code: string, actor: ActionActor): boolean {
+  const room = getRoom(code);
+  if (!room) return false;
+  if (room.tournament.status !== 'stage_active') return false;
+  
+  const completion = Engine.completeStage(room.tournament);
+  if (!completion) return false;
+  
+  dispatch(room, {
+    type: 'complete_tournament',
+    status: completion.status,
+    stages: completion.stages,
+  }, actor);
+  
+  return true;
+}
+
+// ============================================
+// Finals Brackets
+// ============================================
+
+export function configureFinals(code: string, poolConfigs: PoolBracketConfig[], actor: ActionActor): boolean {
+  const room = getRoom(code);
+  if (!room) return false;
+  if (room.tournament.status !== 'finals_setup' && room.tournament.status !== 'finals_active') return false;
+  
+  dispatch(room, {
+    type: 'update_finals',
+    finalsConfig: {
+      enabled: true,
+      poolConfigs,
+      configured: true,
+    },
+    bracketMatches: room.tournament.bracketMatches,
+    status: room.tournament.status,
+  }, actor);
+  
+  return true;
+}
+
+// Generate brackets from the given pool configs (or the saved finals config)
+export function generateBrackets(code: string, poolConfigs: PoolBracketConfig[] | undefined, actor: ActionActor): boolean {
+  const room = getRoom(code);
+  if (!room) return false;
+  if (room.tournament.status !== 'finals_setup' && room.tournament.status !== 'finals_active') return false;
+  
+  const configs = poolConfigs ?? room.tournament.finalsConfig?.poolConfigs ?? [];
+  if (!configs.some(c => c.bracketType !== 'none')) return false;
+  
+  dispatch(room, {
+    type: 'update_finals',
+    finalsConfig: poolConfigs
+      ? { enabled: true, poolConfigs, configured: true }
+      : room.tournament.finalsConfig,
+    bracketMatches: Engine.generateBracketMatches(room.tournament, configs),
+    status: 'finals_active',
+  }, actor);
+  
+  return true;
+}
+
+export function submitBracketScore(
+  code: string,
+  matchId: string,
+  score1: number,
+  score2: number,
+  twenties1: number,
+  twenties2: number,
+  actor: ActionActor,
+  playerTwenties?: Record<string, number>
+): boolean {
+  const room = getRoom(code);
+  if (!room) return false;
+  if (room.tournament.status !== 'finals_active') return false;
+  
+  const match = room.tournament.bracketMatches.find(m => m.id === matchId);
+  if (!match || match.completed) return false;
+  if (!match.team1 || !match.team2) return false;
+  
+  // Whole, in-range scores with a winner (ties are not allowed in bracket matches)
+  if (Engine.validateBracketScore(score1, score2, room.tournament.settings)) return false;
+  
+  if (playerTwenties) {
+    ({ twenties1, twenties2 } = Engine.sumTeamTwenties(match, playerTwenties));
+  }
+  
+  const bracketMatches = Engine.applyBracketScore(room.tournament.bracketMatches, matchId, score1, score2, twenties1, twenties2, playerTwenties);
+  if (!bracketMatches) return false;
+  
+  dispatch(room, { type: 'update_finals', bracketMatches, status: room.tournament.status }, actor);
+  
+  return true;
+}
+
+export function editBracketScore(
+  code: string,
+  matchId: string,
+  score1: number,
+  score2: number,
+  twenties1: number,
+  twenties2: number,
+  actor: ActionActor,
+  playerTwenties?: Record<string, number>
+): boolean {
+  const room = getRoom(code);
+  if (!room) return false;
+  if (room.tournament.status !== 'finals_active') return false;
+  
+  const match = room.tournament.bracketMatches.find(m => m.id === matchId);
+  if (!match || Engine.validateBracketScore(score1, score2, room.tournament.settings)) return false;
+  
+  // Don't rewrite a result that has already been played on from
+  if (!Engine.canEditBracketScore(room.tournament.bracketMatches, matchId)) return false;
+  
+  if (playerTwenties) {
+    ({ twenties1, twenties2 } = Engine.sumTeamTwenties(match, playerTwenties));
+  }
+  
+  const bracketMatches = Engine.applyBracketScore(room.tournament.bracketMatches, matchId, score1, score2, twenties1, twenties2, playerTwenties);
+  if (!bracketMatches) return false;
+  
+  dispatch(room, { type: 'update_finals', bracketMatches, status: room.tournament.status }, actor);
+  
+  return true;
+}
+
+export function completeFinals(code: string, actor: ActionActor): boolean {
+  const room = getRoom(code);
+  if (!room) return false;
+  if (room.tournament.status !== 'finals_active') return false;
+  
+  const completion = Engine.completeStage(room.tournament);
+  dispatch(room, { type: 'complete_tournament', status: 'completed', stages: completion?.stages }, actor);
+  
+  return true;
+}
+
+// ============================================
+// Undo / Redo (host only)
+// ============================================
+
+// Rebuild the tournament from the log after undo/redo
+function replayRoom(room: TournamentRoom): void {
+  room.tournament = replayActionLog(room.actionLog);
+  recalculatePlayerStats(room);
+  touchRoom(room.code);
+  persistRoom(room);
+}
+
+export function undoAction(code: string, actor: ActionActor): boolean {
+  const room = getRoom(code);
+  if (!room) return false;
+  
+  const log = undoLastAction(room.actionLog, actor);
+  if (!log) return false;
+  
+  room.actionLog = log;
+  replayRoom(room);
+  
+  return true;
+}
+
+export function redoAction(code: string, actor: ActionActor): boolean {
+  const room = getRoom(code);
+  if (!room) return false;
+  
+  const log = redoLastAction(room.actionLog, actor);
+  if (!log) return false;
+  
+  room.actionLog = log;
+  replayRoom(room);
+  
+  return true;
+}
+
+// Recent actions with undo/redo availability (sent to the host)
+export function getRoomActionHistory(code: string): ActionHistory | null {
+  const room = getRoom(code);
+  if (!room) return null;
+  return getActionHistory(room.actionLog);
+}
@@ -1,6 +1,10 @@
 import express, { type Request, type Response } from 'express';
 import { queries } from '../db.js';
+import { linkArchivedTournament } from '../playerRegistry.js';
+import { recalculateRatings } from '../ratings.js';
+import { addSeasonTournament, getSeason, isSeasonTournament, keepSeasonTournament } from '../seasons.js';
 import { archiveRateLimit } from '../middleware/rateLimit.js';
+import { isClubAdmin } from '../middleware/adminAuth.js';
 import { validateArchiveRequest } from '../middleware/validation.js';
 import { nanoid } from 'nanoid';
 
@@ -11,9 +15,24 @@ const TOURNAMENT_EXPIRATION_DAYS = parseInt(process.env.TOURNAMENT_EXPIRATION_DA
 
 router.post('/archive', archiveRateLimit, validateArchiveRequest, async (req: Request, res: Response) => {
   try {
-    const { tournament, code } = req.body;
+    const { code, seasonId, isPublic } = req.body;
     const ip = req.ip || req.socket.remoteAddress || 'unknown';
     
+    // Adding to a season, or re-archiving a season event, changes the club
+    // standings, so it needs the admin key
+    if ((seasonId || (code && isSeasonTournament(code))) && !isClubAdmin(req)) {
+      return res.status(403).json({
+        success: false,
+        message: 'A valid club admin key is required to archive a season tournament'
+      });
+    }
+    if (seasonId && !getSeason(seasonId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Season not found'
+      });
+    }
+    
     // Check global tournament limit
     const countResult = queries.getCount.get() as { count: number };
     if (countResult.count >= MAX_TOTAL_TOURNAMENTS) {
@@ -26,15 +45,21 @@ router.post('/archive', archiveRateLimit, validateArchiveRequest, async (req: Re
     // Generate or use provided code
     const tournamentCode = code || nanoid(6).toUpperCase();
     
+    // Link players to the club registry so their results follow them. Only the
+    // club admin may choose identities or add players to the registry.
+    const admin = isClubAdmin(req);
+    const tournament = linkArchivedTournament(tournamentCode, req.body.tournament, admin);
+    
     // Calculate expiration (90 days from now)
     const now = Date.now();
-    const expiresAt = now + (TOURNAMENT_EXPIRATION_DAYS * 24 * 60 * 60 * 1000);
+    let expiresAt = now + (TOURNAMENT_EXPIRATION_DAYS * 24 * 60 * 60 * 1000);
     
     // Prepare tournament data
     const tournamentData = JSON.stringify(tournament);
     const sizeBytes = req.tournamentSize || 0; // Set by validation middleware
     const playerCount = tournament.players?.length || 0;
     const status = tournament.status || 'unknown';
+    const listed = isPublic === true; // Only opted-in archives appear in the archive browser
     
     // Save to database
     queries.saveTournament.run(
@@ -46,8 +71,22 @@ router.post('/archive', archiveRateLimit, validateArchiveRequest, async (req: Re
       ip,
       sizeBytes,
       playerCount,
-      status
+      status,
+      listed ? 1 : 0
     );
+    // Only archives the club admin vouches for change the ratings
+    queries.setTournamentRated.run(admin ? 1 : 0, tournamentCode);
+    recalculateRatings();
+    
+    // Season archives are kept until the season is over
+    expiresAt = keepSeasonTournament(tournamentCode, expiresAt);
+    if (seasonId) {
+      const season = addSeasonTournament(seasonId, tournamentCode);
+      if (season) {
+        expiresAt = (queries.getTournament.get(tournamentCode) as { expires_at: number }).expires_at;
+        console.log(`🏆 Added ${tournamentCode} to season ${season.name} (${season.id})`);
+      }
+    }
     
     // Generate shareable URL
     // In development, use the Vite dev server port (5177)
@@ -61,13 +100,14 @@ router.post('/archive', archiveRateLimit, validateArchiveRequest, async (req: Re
     }
     const url = `${baseUrl}/view/${tournamentCode}`;
     
-    console.log(`📦 Archived tournament: ${tournament.name} (${tournamentCode}) - ${(sizeBytes / 1024).toFixed(2)}KB`);
+    console.log(`📦 Archived ${listed ? 'public' : 'unlisted'} tournament: ${tournament.name} (${tournamentCode}) - ${(sizeBytes / 1024).toFixed(2)}KB`);
     
     res.json({
       success: true,
       code: tournamentCode,
       url,
       expiresAt,
+      isPublic: listed,
       message: 'Tournament archived successfully'
     });
     
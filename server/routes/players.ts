@@ -0,0 +1,80 @@
+import express, { type Request, type Response } from 'express';
+import { viewRateLimit, registryRateLimit } from '../middleware/rateLimit.js';
+import { validateRegistryPlayer } from '../middleware/validation.js';
+import { requireClubAdmin } from '../middleware/adminAuth.js';
+import * as Registry from '../playerRegistry.js';
+import { recalculateRatings } from '../ratings.js';
+
+const router = express.Router();
+
+// All registered players, merged records included so old IDs still resolve
+router.get('/players', viewRateLimit, (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, players: Registry.getRegisteredPlayers() });
+  } catch (error) {
+    console.error('❌ Registry list error:', error);
+    res.status(500).json({ success: false, message: 'Failed to load players' });
+  }
+});
+
+router.post('/players', registryRateLimit, requireClubAdmin, validateRegistryPlayer, (req: Request, res: Response) => {
+  try {
+    const player = Registry.createRegisteredPlayer(req.body.name, req.body.aliases ?? []);
+    console.log(`🧑 Registered player: ${player.name} (${player.id})`);
+    res.json({ success: true, player });
+  } catch (error) {
+    console.error('❌ Registry create error:', error);
+    res.status(500).json({ success: false, message: 'Failed to register player' });
+  }
+});
+
+// Rename a player or replace their aliases
+router.patch('/players/:id', registryRateLimit, requireClubAdmin, validateRegistryPlayer, (req: Request, res: Response) => {
+  try {
+    const player = Registry.updateRegisteredPlayer(String(req.params.id), req.body);
+    if (!player) {
+      return res.status(404).json({ success: false, message: 'Player not found' });
+    }
+    res.json({ success: true, player });
+  } catch (error) {
+    console.error('❌ Registry update error:', error);
+    res.status(500).json({ success: false, message: 'Failed to update player' });
+  }
+});
+
+// Fold a duplicate (sourceId) into this player
+router.post('/players/:id/merge', registryRateLimit, requireClubAdmin, (req: Request, res: Response) => {
+  try {
+    const { sourceId } = req.body ?? {};
+    if (typeof sourceId !== 'string') {
+      return res.status(400).json({ success: false, message: 'sourceId is required' });
+    }
+
+    const player = Registry.mergeRegisteredPlayers(String(req.params.id), sourceId);
+    if (!player) {
+      return res.status(400).json({ success: false, message: 'Players could not be merged' });
+    }
+    console.log(`🔗 Merged player ${sourceId} into ${player.name} (${player.id})`);
+    recalculateRatings();
+    res.json({ success: true, player });
+  } catch (error) {
+    console.error('❌ Registry merge error:', error);
+    res.status(500).json({ success: false, message: 'Failed to merge players' });
+  }
+});
+
+// Archived tournaments a player took part in
+router.get('/players/:id/results', viewRateLimit, (req: Request, res: Response) => {
+  try {
+    const player = Registry.getRegisteredPlayer(String(req.params.id));
+    if (!player) {
+      return res.status(404).json({ success: false, message: 'Player not found' });
+    }
+    res.json({ success: true, player, results: Registry.getRegisteredPlayerResults(player.id) });
+  } catch (error) {
+    console.error('❌ Registry results error:', error);
+    res.status(500).json({ success: false, message: 'Failed to load results' });
+  }
+});
+
+export default router;
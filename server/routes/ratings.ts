@@ -0,0 +1,35 @@
+import express, { type Request, type Response } from 'express';
+import { viewRateLimit } from '../middleware/rateLimit.js';
+import * as Registry from '../playerRegistry.js';
+import * as Ratings from '../ratings.js';
+import * as Engine from '../../src/engine/index.js';
+
+const router = express.Router();
+
+// Club ratings, highest first
+router.get('/ratings', viewRateLimit, (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, ratings: Ratings.getClubRatings() });
+  } catch (error) {
+    console.error('❌ Ratings list error:', error);
+    res.status(500).json({ success: false, message: 'Failed to load ratings' });
+  }
+});
+
+// One player's rating and how it moved tournament by tournament
+router.get('/ratings/:id', viewRateLimit, (req: Request, res: Response) => {
+  try {
+    // Old IDs of merged players lead to the player they were merged into
+    const player = Engine.resolveRegisteredPlayer(Registry.getRegisteredPlayers(), String(req.params.id));
+    const rating = player && Ratings.getClubRating(player.id);
+    if (!player || !rating) {
+      return res.status(404).json({ success: false, message: 'No rating for this player yet' });
+    }
+    res.json({ success: true, rating, history: Ratings.getRatingHistory(player.id) });
+  } catch (error) {
+    console.error('❌ Rating history error:', error);
+    res.status(500).json({ success: false, message: 'Failed to load rating history' });
+  }
+});
+
+export default router;
@@ -0,0 +1,96 @@
+import express, { type Request, type Response } from 'express';
+import { viewRateLimit, seasonRateLimit } from '../middleware/rateLimit.js';
+import { validateSeason, validateTournamentCode } from '../middleware/validation.js';
+import { requireClubAdmin } from '../middleware/adminAuth.js';
+import * as Seasons from '../seasons.js';
+
+const router = express.Router();
+
+// All seasons, newest first
+router.get('/seasons', viewRateLimit, (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, seasons: Seasons.getSeasons() });
+  } catch (error) {
+    console.error('❌ Season list error:', error);
+    res.status(500).json({ success: false, message: 'Failed to load seasons' });
+  }
+});
+
+router.post('/seasons', seasonRateLimit, requireClubAdmin, validateSeason, (req: Request, res: Response) => {
+  try {
+    const { name, pointsTable, participationPoints, dropWorst } = req.body;
+    const season = Seasons.createSeason(name, {
+      ...(pointsTable !== undefined ? { pointsTable } : {}),
+      ...(participationPoints !== undefined ? { participationPoints } : {}),
+      ...(dropWorst !== undefined ? { dropWorst } : {}),
+    });
+    console.log(`🏆 Created season: ${season.name} (${season.id})`);
+    res.json({ success: true, season });
+  } catch (error) {
+    console.error('❌ Season create error:', error);
+    res.status(500).json({ success: false, message: 'Failed to create season' });
+  }
+});
+
+// Rename a season or change its league rules
+router.patch('/seasons/:id', seasonRateLimit, requireClubAdmin, validateSeason, (req: Request, res: Response) => {
+  try {
+    const season = Seasons.updateSeason(String(req.params.id), req.body);
+    if (!season) {
+      return res.status(404).json({ success: false, message: 'Season not found' });
+    }
+    res.json({ success: true, season });
+  } catch (error) {
+    console.error('❌ Season update error:', error);
+    res.status(500).json({ success: false, message: 'Failed to update season' });
+  }
+});
+
+// Count an archived tournament towards the season
+router.post('/seasons/:id/tournaments', seasonRateLimit, requireClubAdmin, (req: Request, res: Response) => {
+  try {
+    const code = String(req.body?.code ?? '').toUpperCase();
+    if (!validateTournamentCode(code)) {
+      return res.status(400).json({ success: false, message: 'Invalid tournament code format. Must be 6 alphanumeric characters.' });
+    }
+
+    const season = Seasons.addSeasonTournament(String(req.params.id), code);
+    if (!season) {
+      return res.status(404).json({ success: false, message: 'Season or archived tournament not found' });
+    }
+    console.log(`🏆 Added ${code} to season ${season.name} (${season.id})`);
+    res.json({ success: true, season });
+  } catch (error) {
+    console.error('❌ Season add error:', error);
+    res.status(500).json({ success: false, message: 'Failed to add tournament to season' });
+  }
+});
+
+router.delete('/seasons/:id/tournaments/:code', seasonRateLimit, requireClubAdmin, (req: Request, res: Response) => {
+  try {
+    const season = Seasons.removeSeasonTournament(String(req.params.id), String(req.params.code).toUpperCase());
+    if (!season) {
+      return res.status(404).json({ success: false, message: 'Season not found' });
+    }
+    res.json({ success: true, season });
+  } catch (error) {
+    console.error('❌ Season remove error:', error);
+    res.status(500).json({ success: false, message: 'Failed to remove tournament from season' });
+  }
+});
+
+// Season table: cumulative league points with each player's results by event
+router.get('/seasons/:id/standings', viewRateLimit, (req: Request, res: Response) => {
+  try {
+    const result = Seasons.getSeasonStandings(String(req.params.id));
+    if (!result) {
+      return res.status(404).json({ success: false, message: 'Season not found' });
+    }
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('❌ Season standings error:', error);
+    res.status(500).json({ success: false, message: 'Failed to load season standings' });
+  }
+});
+
+export default router;
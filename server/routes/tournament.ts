@@ -1,10 +1,64 @@
 import express, { type Request, type Response } from 'express';
 import { queries } from '../db.js';
 import { viewRateLimit } from '../middleware/rateLimit.js';
-import { validateTournamentCode } from '../middleware/validation.js';
+import { validateTournamentCode, validateArchiveSearch } from '../middleware/validation.js';
+import type { ArchiveSummary } from '../../src/types.js';
 
 const router = express.Router();
 
+const DEFAULT_PAGE_SIZE = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Substring match for LIKE, with the user's own % and _ taken literally
+function toLikePattern(text: unknown): string | null {
+  const trimmed = typeof text === 'string' ? text.trim() : '';
+  return trimmed ? `%${trimmed.replace(/[\\%_]/g, (c) => `\\${c}`)}%` : null;
+}
+
+// Browse public archives: filter by name (q), player, status and archive
+// date range (from/to, inclusive YYYY-MM-DD), a page at a time
+router.get('/tournaments', viewRateLimit, validateArchiveSearch, (req: Request, res: Response) => {
+  try {
+    const page = Number(req.query.page ?? 1);
+    const pageSize = Number(req.query.pageSize ?? DEFAULT_PAGE_SIZE);
+    const filters = {
+      now: Date.now(),
+      name: toLikePattern(req.query.q),
+      player: toLikePattern(req.query.player),
+      status: req.query.status ? String(req.query.status) : null,
+      from: req.query.from ? Date.parse(String(req.query.from)) : null,
+      to: req.query.to ? Date.parse(String(req.query.to)) + DAY_MS : null,
+    };
+
+    const rows = queries.searchPublicTournaments.all({ ...filters, limit: pageSize, offset: (page - 1) * pageSize }) as Array<{
+      code: string;
+      name: string;
+      created_at: number;
+      expires_at: number;
+      player_count: number;
+      status: string;
+    }>;
+    const { count } = queries.countPublicTournaments.get(filters) as { count: number };
+
+    const tournaments: ArchiveSummary[] = rows.map((row) => ({
+      code: row.code,
+      name: row.name,
+      archivedAt: row.created_at,
+      expiresAt: row.expires_at,
+      playerCount: row.player_count,
+      status: row.status,
+    }));
+
+    res.json({ success: true, tournaments, total: count, page, pageSize });
+  } catch (error) {
+    console.error('❌ Archive search error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to search tournaments'
+    });
+  }
+});
+
 router.get('/tournament/:code', viewRateLimit, (req: Request, res: Response) => {
   try {
     const { code } = req.params;
@@ -26,6 +80,7 @@ router.get('/tournament/:code', viewRateLimit, (req: Request, res: Response) =>
       expires_at: number;
       player_count: number;
       status: string;
+      is_public: number;
     } | undefined;
     
     if (!row) {
@@ -60,7 +115,8 @@ router.get('/tournament/:code', viewRateLimit, (req: Request, res: Response) =>
         archivedAt: row.created_at,
         expiresAt: row.expires_at,
         playerCount: row.player_count,
-        status: row.status
+        status: row.status,
+        isPublic: row.is_public === 1
       }
     });
     
@@ -0,0 +1,148 @@
+// Seasons stored in SQLite: a named set of league rules plus the archived
+// tournaments that count towards it. Standings are worked out on request
+// from the archives, so merges and rule changes apply straight away.
+
+import { nanoid } from 'nanoid';
+import { queries } from './db.js';
+import { getRegisteredPlayers } from './playerRegistry.js';
+import * as Engine from '../src/engine/index.js';
+import type { Season, SeasonEvent, SeasonRules, SeasonStanding, Tournament } from '../src/types.js';
+
+// Archives in a season are kept at least this long, so a year-long season doesn't lose its early events
+const SEASON_EXPIRATION_DAYS = parseInt(process.env.SEASON_EXPIRATION_DAYS || '400');
+
+interface SeasonRow {
+  id: string;
+  name: string;
+  rules: string;
+  created_at: number;
+  updated_at: number;
+}
+
+function getEvents(seasonId: string): SeasonEvent[] {
+  const rows = queries.getSeasonTournaments.all(seasonId, Date.now()) as Array<{ code: string; name: string; created_at: number }>;
+  return rows.map((row) => ({ code: row.code, tournamentName: row.name, archivedAt: row.created_at }));
+}
+
+function fromRow(row: SeasonRow): Season {
+  return {
+    ...Engine.DEFAULT_SEASON_RULES,
+    ...JSON.parse(row.rules || '{}'),
+    id: row.id,
+    name: row.name,
+    events: getEvents(row.id),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function save(season: Season): void {
+  const rules: SeasonRules = {
+    pointsTable: season.pointsTable,
+    participationPoints: season.participationPoints,
+    dropWorst: season.dropWorst,
+  };
+  queries.saveSeason.run(season.id, season.name, JSON.stringify(rules), season.createdAt, season.updatedAt);
+}
+
+export function getSeasons(): Season[] {
+  return (queries.getSeasons.all() as SeasonRow[]).map(fromRow);
+}
+
+export function getSeason(id: string): Season | null {
+  const row = queries.getSeason.get(id) as SeasonRow | undefined;
+  return row ? fromRow(row) : null;
+}
+
+export function createSeason(name: string, rules: Partial<SeasonRules> = {}): Season {
+  const now = Date.now();
+  const season: Season = {
+    ...Engine.DEFAULT_SEASON_RULES,
+    ...rules,
+    id: nanoid(10),
+    name: name.trim(),
+    events: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  save(season);
+  return season;
+}
+
+export function updateSeason(id: string, updates: Partial<SeasonRules> & { name?: string }): Season | null {
+  const season = getSeason(id);
+  if (!season) return null;
+
+  const updated: Season = {
+    ...season,
+    ...(updates.name?.trim() ? { name: updates.name.trim() } : {}),
+    ...(updates.pointsTable ? { pointsTable: updates.pointsTable } : {}),
+    ...(updates.participationPoints !== undefined ? { participationPoints: updates.participationPoints } : {}),
+    ...(updates.dropWorst !== undefined ? { dropWorst: updates.dropWorst } : {}),
+    updatedAt: Date.now(),
+  };
+  save(updated);
+  return updated;
+}
+
+function seasonExpiry(now: number): number {
+  return now + SEASON_EXPIRATION_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Count an archived tournament towards a season and keep the archive for the
+ * rest of the season. Returns null if either doesn't exist.
+ */
+export function addSeasonTournament(seasonId: string, code: string): Season | null {
+  if (!queries.getSeason.get(seasonId) || !queries.getTournament.get(code)) return null;
+  const now = Date.now();
+  queries.addSeasonTournament.run(seasonId, code, now);
+  queries.extendExpiry.run(seasonExpiry(now), code);
+  return getSeason(seasonId);
+}
+
+export function removeSeasonTournament(seasonId: string, code: string): Season | null {
+  if (!queries.getSeason.get(seasonId)) return null;
+  queries.removeSeasonTournament.run(seasonId, code);
+  return getSeason(seasonId);
+}
+
+export function isSeasonTournament(code: string): boolean {
+  return (queries.getTournamentSeasons.all(code) as unknown[]).length > 0;
+}
+
+/**
+ * Re-archiving resets an archive's expiry; put the season expiry back if the
+ * tournament counts towards any season. Returns the archive's expiry.
+ */
+export function keepSeasonTournament(code: string, expiresAt: number): number {
+  if (!isSeasonTournament(code)) return expiresAt;
+  const kept = Math.max(expiresAt, seasonExpiry(Date.now()));
+  queries.extendExpiry.run(kept, code);
+  return kept;
+}
+
+export function getSeasonStandings(id: string): { season: Season; standings: SeasonStanding[] } | null {
+  const season = getSeason(id);
+  if (!season) return null;
+
+  const rows = queries.getSeasonArchives.all(id, Date.now()) as Array<{ code: string; data: string; created_at: number }>;
+  const archives: Engine.LinkedArchive[] = [];
+  rows.forEach((row) => {
+    const links = queries.getArchivePlayerLinksByCode.all(row.code) as Array<{ player_id: string; registry_id: string }>;
+    try {
+      archives.push({
+        code: row.code,
+        archivedAt: row.created_at,
+        tournament: JSON.parse(row.data) as Tournament,
+        registryIds: Object.fromEntries(links.map((link) => [link.player_id, link.registry_id])),
+      });
+    } catch (error) {
+      console.error(`❌ Skipping unreadable archive ${row.code} in season ${id}:`, error);
+    }
+  });
+
+  const names = Object.fromEntries(getRegisteredPlayers().map((p) => [p.id, p.name]));
+  const { events, standings } = Engine.calculateSeasonStandings(season, archives, names);
+  return { season: { ...season, events }, standings };
+}
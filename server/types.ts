@@ -1,6 +1,20 @@
 // Shared types for Socket.IO communication
 
-import type { Tournament, Player, Table, TournamentSettings } from '../src/types.js';
+import type {
+  Tournament,
+  Player,
+  Table,
+  TournamentSettings,
+  PoolBracketConfig,
+  ActionLog,
+  ActionHistory,
+  PlayerClaimInfo,
+  DirectorPermission,
+  HostAccessInfo,
+  ScoreStatus,
+  RoundTimer,
+  GameScore,
+} from '../src/types.js';
 
 // Room/Session types
 export interface ConnectedPlayer {
@@ -8,14 +22,42 @@ export interface ConnectedPlayer {
   playerId: string | null;  // null if spectator/host not matched to player
   playerName: string;
   isHost: boolean;
+  deviceId: string | null;  // Client-generated device ID (persisted in the browser)
+  directorId: string | null;  // Co-director this socket authenticated as
   joinedAt: number;
 }
 
+// Per-player join token issued by the host
+// The first device to use the token claims the player; only that device can act as them
+export interface PlayerClaim {
+  playerId: string;
+  token: string;
+  issuedAt: number;
+  deviceId: string | null;     // null until the token is first used
+  deviceLabel: string | null;  // Short description of the claiming device for the host
+  claimedAt: number | null;
+}
+
+// Co-director added by the host; joins with their own secret and has limited permissions
+export interface CoDirector {
+  id: string;
+  name: string;
+  secret: string;
+  permissions: DirectorPermission[];
+  createdAt: number;
+}
+
 export interface TournamentRoom {
   code: string;
   tournament: Tournament;
+  actionLog: ActionLog;     // Append-only log of every mutation (for undo/redo and replay)
   hostSocketId: string;
+  hostSecret: string;                              // Required to regain host rights on rejoin
+  hostHandoffCode: string | null;                  // One-time code for moving host to another device
+  coDirectors: Map<string, CoDirector>;            // directorId -> co-director
   connectedPlayers: Map<string, ConnectedPlayer>;  // socketId -> player info
+  playerClaims: Map<string, PlayerClaim>;          // playerId -> join token/claim
+  roundTimer: RoundTimer | null;                   // Clock for the current round (server time)
   createdAt: number;
   lastActivity: number;
   warningsSent: boolean;
@@ -37,12 +79,21 @@ export interface ClientToServerEvents {
   join_tournament: (data: { 
     code: string; 
     playerName: string;
+    token?: string;       // Per-player join token (from the player's link/QR)
+    hostSecret?: string;  // Host secret or handoff code
+    directorSecret?: string;
+    deviceId?: string;
+    deviceLabel?: string;
   }) => void;
   
   rejoin_tournament: (data: {
     code: string;
     playerName: string;
-    isHost: boolean;
+    token?: string;
+    hostSecret?: string;
+    directorSecret?: string;
+    deviceId?: string;
+    deviceLabel?: string;
   }) => void;
   
   leave_tournament: () => void;
@@ -50,9 +101,25 @@ export interface ClientToServerEvents {
   keep_alive: () => void;
   
   // Tournament setup (host only)
-  add_player: (data: { name: string }) => void;
+  add_player: (data: { name: string; registryId?: string }) => void;
   remove_player: (data: { playerId: string }) => void;
+  add_team: (data: { player1Name: string; player2Name: string; teamName?: string }) => void;
+  remove_team: (data: { teamId: string }) => void;
   update_player: (data: { playerId: string; updates: Partial<Player> }) => void;
+  withdraw_player: (data: { playerId: string }) => void;
+  reinstate_player: (data: { playerId: string }) => void;
+  
+  // Player identity (host only)
+  issue_player_token: (data: { playerId: string }) => void;
+  revoke_player_claim: (data: { playerId: string }) => void;
+  
+  // Host access (host only)
+  start_host_handoff: () => void;
+  cancel_host_handoff: () => void;
+  rotate_host_secret: () => void;
+  add_co_director: (data: { name: string; permissions: DirectorPermission[] }) => void;
+  update_co_director: (data: { directorId: string; permissions: DirectorPermission[] }) => void;
+  remove_co_director: (data: { directorId: string }) => void;
   
   add_table: (data: { name: string }) => void;
   remove_table: (data: { tableId: string }) => void;
@@ -68,7 +135,19 @@ export interface ClientToServerEvents {
   generate_next_round: () => void;
   complete_tournament: () => void;
   reset_tournament: () => void;
+  
+  // Round clock (host or co-directors who run rounds)
+  start_round_timer: () => void;
+  pause_round_timer: () => void;
+  extend_round_timer: (data: { minutes: number }) => void;
+  reset_round_timer: (data: { minutes?: number }) => void;
+  
+  // Clock sync (anyone) - answered with clock_sync so the client can measure its offset
+  sync_clock: (data: { clientTime: number }) => void;
+  
   manual_update_tournament: (tournament: Tournament) => void;
+  undo_action: () => void;
+  redo_action: () => void;
   
   // Score submission (host or players in match)
   submit_score: (data: { 
@@ -77,6 +156,8 @@ export interface ClientToServerEvents {
     score2: number;
     twenties1: number;
     twenties2: number;
+    games?: GameScore[];
+    playerTwenties?: Record<string, number>;
   }) => void;
   
   edit_score: (data: { 
@@ -85,6 +166,45 @@ export interface ClientToServerEvents {
     score2: number;
     twenties1: number;
     twenties2: number;
+    games?: GameScore[];
+    playerTwenties?: Record<string, number>;
+  }) => void;
+  
+  // Round-robin stages
+  complete_stage: () => void;
+  submit_stage_score: (data: {
+    stageId: string;
+    matchId: string;
+    score1: number;
+    score2: number;
+    twenties1: number;
+    twenties2: number;
+    games?: GameScore[];
+    playerTwenties?: Record<string, number>;
+  }) => void;
+  
+  // Finals brackets (host only)
+  configure_finals: (data: { poolConfigs: PoolBracketConfig[] }) => void;
+  generate_brackets: (data: { poolConfigs?: PoolBracketConfig[] }) => void;
+  complete_finals: () => void;
+  
+  // Bracket score submission (host or players in bracket match)
+  submit_bracket_score: (data: {
+    matchId: string;
+    score1: number;
+    score2: number;
+    twenties1: number;
+    twenties2: number;
+    playerTwenties?: Record<string, number>;
+  }) => void;
+  
+  edit_bracket_score: (data: {
+    matchId: string;
+    score1: number;
+    score2: number;
+    twenties1: number;
+    twenties2: number;
+    playerTwenties?: Record<string, number>;
   }) => void;
 }
 
@@ -99,7 +219,8 @@ export interface ServerToClientEvents {
   tournament_joined: (data: { 
     tournament: Tournament;
     playerId: string | null;  // The player ID this user is matched to
-    isHost: boolean;
+    isHost: boolean;          // Host or co-director (can use the director screens)
+    directorPermissions: DirectorPermission[] | null;  // Set for co-directors only
   }) => void;
   
   join_error: (data: { 
@@ -140,10 +261,44 @@ export interface ServerToClientEvents {
     message: string;
   }) => void;
   
+  // Action log summary (sent to host after every change)
+  action_history: (data: ActionHistory) => void;
+  
+  // Player join tokens and claimed devices (sent to host only)
+  player_claims: (data: PlayerClaimInfo[]) => void;
+  
+  // This device's player identity was revoked by the host
+  identity_revoked: (data: {
+    message: string;
+  }) => void;
+  
+  // Host secret, handoff code and co-directors (sent to host only)
+  host_access: (data: HostAccessInfo) => void;
+  
+  // This device's host/co-director rights changed (handoff, removal or new permissions)
+  role_changed: (data: {
+    isHost: boolean;          // Same meaning as in tournament_joined
+    directorPermissions: DirectorPermission[] | null;
+    message: string;
+  }) => void;
+  
+  // Round clock changed (sent to the whole room, and to each socket on join)
+  round_timer: (data: {
+    timer: RoundTimer | null;
+    serverTime: number;
+  }) => void;
+  
+  // Reply to sync_clock
+  clock_sync: (data: {
+    clientTime: number;  // Echoed from the request
+    serverTime: number;
+  }) => void;
+  
   // Score submission feedback
   score_submitted: (data: {
     matchId: string;
     submittedBy: string;
+    status: ScoreStatus | null;  // Confirmation state for player reports, null for a director's score
   }) => void;
 }
 
@@ -158,6 +313,7 @@ export interface SocketData {
   playerName: string;
   playerId: string | null;
   isHost: boolean;
+  directorId: string | null;
 }
 
 // Room configuration
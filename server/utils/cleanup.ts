@@ -1,4 +1,5 @@
 import { db, queries } from '../db.js';
+import { recalculateRatings } from '../ratings.js';
 
 const MAX_TOTAL_TOURNAMENTS = parseInt(process.env.MAX_TOTAL_TOURNAMENTS || '1000');
 
@@ -28,6 +29,11 @@ export function cleanupExpiredTournaments() {
       console.log(`🗑️  Deleted ${toDelete} oldest tournaments to enforce limit (max: ${MAX_TOTAL_TOURNAMENTS})`);
     }
     
+    // Ratings only count archives that are still kept
+    if (result.changes > 0 || count > MAX_TOTAL_TOURNAMENTS) {
+      recalculateRatings();
+    }
+    
     return { success: true, deleted: result.changes };
   } catch (error) {
     console.error('❌ Cleanup error:', error);
@@ -39,8 +45,9 @@ export function cleanupExpiredTournaments() {
 export function startCleanupSchedule() {
   console.log('🕐 Starting cleanup schedule (runs every hour)');
   
-  // Run immediately on startup
+  // Run immediately on startup, then rate any archives added while ratings didn't exist
   cleanupExpiredTournaments();
+  recalculateRatings();
   
   // Then run every hour
   setInterval(cleanupExpiredTournaments, 60 * 60 * 1000);
@@ -11,12 +11,16 @@ import { Schedule } from './components/schedule/Schedule';
 import { AdminPanel } from './components/admin/AdminPanel';
 import { FinalsConfig } from './components/finals/FinalsConfig';
 import { BracketView } from './components/bracket/BracketView';
+import { StageView } from './components/stages/StageView';
 import { LandingPage } from './components/landing/LandingPage';
 import { ViewTournament } from './pages/ViewTournament';
 import { JoinTournament } from './pages/JoinTournament';
+import { Ratings } from './pages/Ratings';
+import { Seasons } from './pages/Seasons';
+import { BrowseArchives } from './pages/BrowseArchives';
 import { useTournamentStore } from './store/tournamentStore';
 import { useSocket } from './hooks/useSocket';
-import type { Tournament } from './types';
+import type { Tournament, ActionHistory, PlayerClaimInfo, DirectorPermission, HostAccessInfo } from './types';
 
 type AppMode = 'landing' | 'local' | 'online';
 
@@ -36,20 +40,32 @@ function App() {
   const [joinError, setJoinError] = useState<string | null>(null);
   const [connectedCount, setConnectedCount] = useState(0);
   const [showQRCode, setShowQRCode] = useState(true);
+  const [actionHistory, setActionHistory] = useState<ActionHistory | null>(null);
+  const [playerClaims, setPlayerClaims] = useState<PlayerClaimInfo[]>([]);
+  const [hostAccess, setHostAccess] = useState<HostAccessInfo | null>(null);
+  const [directorPermissions, setDirectorPermissions] = useState<DirectorPermission[] | null>(null);
 
   // Socket callbacks
   const handleTournamentCreated = useCallback((code: string, newTournament: Tournament) => {
     console.log('[App] Tournament created:', code);
     setTournament(newTournament);
     setIsHost(true);
+    setDirectorPermissions(null);
     setOnlineMode(true);
     setAppMode('online');
   }, [setTournament, setIsHost, setOnlineMode]);
 
-  const handleTournamentJoined = useCallback((newTournament: Tournament, playerId: string | null, isHostFlag: boolean) => {
+  const handleTournamentJoined = useCallback((
+    newTournament: Tournament,
+    playerId: string | null,
+    isHostFlag: boolean,
+    permissions: DirectorPermission[] | null
+  ) => {
     console.log('[App] Tournament joined, playerId:', playerId, 'status:', newTournament.status);
     setTournament(newTournament);
     setIsHost(isHostFlag);
+    setDirectorPermissions(permissions);
+    if (!isHostFlag || permissions) setHostAccess(null);
     setConnectedPlayerId(playerId);
     setOnlineMode(true);
     setJoinError(null);
@@ -58,8 +74,12 @@ function App() {
     // Navigate to appropriate page based on tournament status
     if (newTournament.status === 'active') {
       setViewMode('history'); // Go to Matches page
-    } else if (newTournament.status === 'completed') {
+    } else if (newTournament.status === 'stage_active') {
+      setViewMode('stages'); // Go to the round-robin pools
+    } else if (newTournament.status === 'completed' || newTournament.status === 'finals_setup') {
       setViewMode('standings'); // Go to Standings page
+    } else if (newTournament.status === 'finals_active') {
+      setViewMode('bracket'); // Go to playoff brackets
     }
     // If status is 'setup', stay on setup (default)
   }, [setTournament, setIsHost, setConnectedPlayerId, setOnlineMode, setViewMode]);
@@ -85,9 +105,25 @@ function App() {
     }
 
     // Navigate to Standings when tournament completes
-    if (prevTournament?.status === 'active' && updatedTournament.status === 'completed') {
+    if ((prevTournament?.status === 'active' || prevTournament?.status === 'stage_active' || prevTournament?.status === 'finals_active') &&
+      updatedTournament.status === 'completed') {
       setViewMode('standings');
     }
+
+    // Navigate to the pools when a round-robin stage starts
+    if (prevTournament && prevTournament.status !== 'stage_active' && updatedTournament.status === 'stage_active') {
+      setViewMode('stages');
+    }
+
+    // Earlier stages done with Finals Mode on - host configures brackets, everyone else sees standings
+    if ((prevTournament?.status === 'active' || prevTournament?.status === 'stage_active') && updatedTournament.status === 'finals_setup') {
+      setViewMode(useTournamentStore.getState().isHost ? 'finals_config' : 'standings');
+    }
+
+    // Navigate to the brackets once they're generated
+    if (prevTournament?.status === 'finals_setup' && updatedTournament.status === 'finals_active') {
+      setViewMode('bracket');
+    }
   }, [setTournament, setViewMode]);
 
   const handlePlayerConnected = useCallback((playerName: string, count: number) => {
@@ -118,6 +154,31 @@ function App() {
     // Could show a toast notification here
   }, []);
 
+  const handleActionHistory = useCallback((history: ActionHistory) => {
+    setActionHistory(history);
+  }, []);
+
+  const handlePlayerClaims = useCallback((claims: PlayerClaimInfo[]) => {
+    setPlayerClaims(claims);
+  }, []);
+
+  const handleIdentityRevoked = useCallback((message: string) => {
+    console.warn('[App] Identity revoked:', message);
+    setConnectedPlayerId(null);
+  }, [setConnectedPlayerId]);
+
+  const handleHostAccess = useCallback((access: HostAccessInfo) => {
+    setHostAccess(access);
+  }, []);
+
+  const handleRoleChanged = useCallback((isHostFlag: boolean, permissions: DirectorPermission[] | null, message: string) => {
+    console.warn('[App] Role changed:', message);
+    setIsHost(isHostFlag);
+    setDirectorPermissions(permissions);
+    setHostAccess(null);
+    setActionHistory(null);
+  }, [setIsHost]);
+
   // Initialize socket
   const socket = useSocket({
     onTournamentCreated: handleTournamentCreated,
@@ -129,6 +190,11 @@ function App() {
     onRoomWarning: handleRoomWarning,
     onRoomClosed: handleRoomClosed,
     onActionError: handleActionError,
+    onActionHistory: handleActionHistory,
+    onPlayerClaims: handlePlayerClaims,
+    onIdentityRevoked: handleIdentityRevoked,
+    onHostAccess: handleHostAccess,
+    onRoleChanged: handleRoleChanged,
   });
 
   // Handle local mode
@@ -144,9 +210,10 @@ function App() {
   }, [socket]);
 
   // Handle join tournament
-  const handleJoinTournament = useCallback((code: string, playerName: string) => {
+  // A host recovery code regains host rights on this device
+  const handleJoinTournament = useCallback((code: string, playerName: string, hostSecret?: string) => {
     setJoinError(null);
-    socket.joinTournament(code, playerName);
+    socket.joinTournament(code, playerName, { hostSecret });
   }, [socket]);
 
   // Handle loading a tournament from JSON file (goes to local/offline mode)
@@ -160,6 +227,8 @@ function App() {
       setViewMode('setup');
     } else if (loadedTournament.status === 'completed') {
       setViewMode('standings');
+    } else if (loadedTournament.status === 'stage_active') {
+      setViewMode('stages');
     } else {
       setViewMode('history'); // Show match history for active tournaments
     }
@@ -177,6 +246,8 @@ function App() {
       setViewMode('setup');
     } else if (loadedTournament.status === 'completed') {
       setViewMode('standings');
+    } else if (loadedTournament.status === 'stage_active') {
+      setViewMode('stages');
     } else {
       setViewMode('schedule'); // Show schedule for active tournaments
     }
@@ -202,12 +273,18 @@ function App() {
       case 'analysis':
         return <SwissAnalysis />;
       case 'finals_config':
-        return <FinalsConfig />;
+        return <FinalsConfig socket={appMode === 'online' ? socket : undefined} />;
       case 'bracket':
-        return <BracketView />;
+        return <BracketView socket={appMode === 'online' ? socket : undefined} />;
+      case 'stages':
+        return <StageView socket={appMode === 'online' ? socket : undefined} />;
       case 'admin':
         return <AdminPanel
           socket={appMode === 'online' ? socket : undefined}
+          actionHistory={actionHistory}
+          playerClaims={playerClaims}
+          hostAccess={hostAccess}
+          directorPermissions={directorPermissions}
           showQRCode={showQRCode}
           onToggleQRCode={() => setShowQRCode(!showQRCode)}
         />;
@@ -262,6 +339,16 @@ function App() {
       {/* Public archive viewer route */}
       <Route path="/view/:code" element={<ViewTournament />} />
       
+      {/* Browse and search public archives */}
+      <Route path="/archives" element={<BrowseArchives />} />
+      
+      {/* Club ratings from archived tournaments */}
+      <Route path="/ratings" element={<Ratings />} />
+      
+      {/* Season standings (league points across archived tournaments) */}
+      <Route path="/seasons" element={<Seasons />} />
+      <Route path="/seasons/:id" element={<Seasons />} />
+      
       {/* Live tournament viewer route */}
       <Route path="/join/:code" element={<JoinTournament />} />
       
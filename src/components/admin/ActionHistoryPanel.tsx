@@ -0,0 +1,71 @@
+import type { ActionHistory } from '../../types';
+
+interface ActionHistoryPanelProps {
+  history: ActionHistory | null;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export function ActionHistoryPanel({ history, onUndo, onRedo }: ActionHistoryPanelProps) {
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  const items = history?.items ?? [];
+
+  return (
+    <section className="card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-display font-semibold">Action Log</h3>
+          <p className="text-sm text-[var(--color-text-muted)]">
+            Every change is recorded. Undo a mistaken score or round and redo it if needed.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onUndo}
+            disabled={!history?.canUndo}
+            className="btn btn-secondary text-sm"
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!history?.canRedo}
+            className="btn btn-secondary text-sm"
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-[var(--color-text-muted)] italic">
+          No actions recorded yet.
+        </p>
+      ) : (
+        <div className="space-y-1 max-h-[300px] overflow-y-auto">
+          {items.map((item) => (
+            <div
+              key={item.id}
+              className={`flex items-center justify-between gap-4 px-3 py-2 rounded text-sm ${item.undone
+                ? 'text-[var(--color-text-muted)] line-through'
+                : 'bg-[var(--color-bg-tertiary)] text-[var(--color-text-primary)]'
+                }`}
+            >
+              <span className="truncate">{item.description}</span>
+              <span className="text-xs text-[var(--color-text-muted)] whitespace-nowrap">
+                {item.actorName} | {formatTime(item.timestamp)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,36 +1,86 @@
 import { useState } from 'react';
 import { useTournamentStore } from '../../store/tournamentStore';
+import { usePlayerRegistryStore } from '../../store/playerRegistryStore';
+import { useSeasonStore } from '../../store/seasonStore';
+import { getClubAdminHeaders } from '../../store/clubAdminStore';
 import { QRCodeSVG } from 'qrcode.react';
 import { Scorecard } from './Scorecard';
 import { ManualRoundEntry } from './ManualRoundEntry';
+import { ActionHistoryPanel } from './ActionHistoryPanel';
+import { PlayerClaimsPanel } from './PlayerClaimsPanel';
+import { HostAccessPanel } from './HostAccessPanel';
+import { ClubAdminKeyPanel } from './ClubAdminKeyPanel';
+import { PlayerRegistryPanel } from './PlayerRegistryPanel';
+import { SeasonPanel } from './SeasonPanel';
 import { downloadLog, generateLogText } from '../../utils/pairingLog';
+import { getActionHistory } from '../../utils/actionLog';
+import { getResultPoints, findRegisteredPlayer, getPlayersPerSide, MAX_BRACKET_TEAMS } from '../../engine';
+import type { ActionHistory, PlayerClaimInfo, DirectorPermission, HostAccessInfo } from '../../types';
 
 interface AdminPanelProps {
   socket?: {
     socket: ReturnType<typeof import('socket.io-client').io> | null;
-    addPlayer: (name: string) => void;
+    addPlayer: (name: string, registryId?: string) => void;
     updateSettings: (settings: any) => void;
     resetTournament: () => void;
+    completeTournament: () => void;
+    completeFinals: () => void;
+    undoAction: () => void;
+    redoAction: () => void;
+    issuePlayerToken: (playerId: string) => void;
+    revokePlayerClaim: (playerId: string) => void;
+    startHostHandoff: () => void;
+    cancelHostHandoff: () => void;
+    rotateHostSecret: () => void;
+    addCoDirector: (name: string, permissions: DirectorPermission[]) => void;
+    updateCoDirector: (directorId: string, permissions: DirectorPermission[]) => void;
+    removeCoDirector: (directorId: string) => void;
   };
+  actionHistory?: ActionHistory | null; // Online mode: sent by the server
+  playerClaims?: PlayerClaimInfo[];     // Online mode: sent by the server
+  hostAccess?: HostAccessInfo | null;   // Online mode: sent to the host only
+  directorPermissions?: DirectorPermission[] | null; // Online mode: set when this device is a co-director
   showQRCode?: boolean;
   onToggleQRCode?: () => void;
 }
 
-export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelProps) {
+export function AdminPanel({
+  socket,
+  actionHistory,
+  playerClaims,
+  hostAccess,
+  directorPermissions,
+  showQRCode,
+  onToggleQRCode,
+}: AdminPanelProps) {
   const {
     tournament,
     resetTournament: localResetTournament,
+    completeTournament: localCompleteTournament,
+    completeFinals: localCompleteFinals,
+    setViewMode,
     addPlayer: localAddPlayer,
     updateSettings: localUpdateSettings,
     saveTournament,
     loadTournament,
     deleteSavedTournament,
-    getSavedTournamentSummaries
+    getSavedTournamentSummaries,
+    actionLog,
+    undoAction: localUndoAction,
+    redoAction: localRedoAction,
   } = useTournamentStore();
+  const { players: registry, sync: syncRegistry } = usePlayerRegistryStore();
 
   const addPlayer = socket ? socket.addPlayer : localAddPlayer;
   const updateSettings = socket ? socket.updateSettings : localUpdateSettings;
   const resetTournament = socket ? socket.resetTournament : localResetTournament;
+  const completeTournament = socket ? socket.completeTournament : localCompleteTournament;
+  const completeFinals = socket ? socket.completeFinals : localCompleteFinals;
+  const undoAction = socket ? socket.undoAction : localUndoAction;
+  const redoAction = socket ? socket.redoAction : localRedoAction;
+  const history = socket
+    ? actionHistory ?? null
+    : actionLog ? getActionHistory(actionLog) : null;
 
   const [showResetConfirm, setShowResetConfirm] = useState(false);
   const [newPlayerName, setNewPlayerName] = useState('');
@@ -46,6 +96,9 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
   const [archiveUrl, setArchiveUrl] = useState<string>('');
   const [archiveError, setArchiveError] = useState<string>('');
   const [expiresAt, setExpiresAt] = useState<number>(0);
+  const [archiveSeasonId, setArchiveSeasonId] = useState('');
+  const [archivePublic, setArchivePublic] = useState(false);
+  const { seasons, sync: syncSeasons } = useSeasonStore();
 
   const savedTournaments = getSavedTournamentSummaries();
 
@@ -85,7 +138,7 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
 
   const handleAddPlayer = () => {
     if (newPlayerName.trim()) {
-      addPlayer(newPlayerName.trim());
+      addPlayer(newPlayerName.trim(), findRegisteredPlayer(registry, newPlayerName)?.id);
       setNewPlayerName('');
     }
   };
@@ -95,6 +148,9 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
     setShowResetConfirm(false);
   };
 
+  // A pool can hold the largest bracket
+  const maxPoolSize = MAX_BRACKET_TEAMS * getPlayersPerSide(tournament);
+
   const shareUrl = typeof window !== 'undefined'
     ? `${window.location.origin}/join/${tournament.shareCode}`
     : '';
@@ -106,10 +162,13 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
     try {
       const response = await fetch('/api/archive', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        // Registry links, ratings and season archives need the club admin key
+        headers: { 'Content-Type': 'application/json', ...getClubAdminHeaders() },
         body: JSON.stringify({
           tournament,
-          code: tournament.shareCode
+          code: tournament.shareCode,
+          isPublic: archivePublic,
+          ...(archiveSeasonId ? { seasonId: archiveSeasonId } : {})
         })
       });
       
@@ -119,6 +178,8 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
         setArchiveStatus('success');
         setArchiveUrl(data.url);
         setExpiresAt(data.expiresAt);
+        syncRegistry(); // Archiving adds new players to the club roster
+        if (archiveSeasonId) syncSeasons();
       } else {
         setArchiveStatus('error');
         setArchiveError(data.message || 'Failed to archive tournament');
@@ -191,12 +252,7 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
           </p>
           <button
             onClick={() => {
-              const { setTournament, setViewMode } = useTournamentStore.getState();
-              setTournament({
-                ...tournament,
-                status: 'completed',
-                updatedAt: Date.now(),
-              });
+              completeFinals();
               setViewMode('admin'); // Stay on admin to see archive button
             }}
             className="btn btn-primary"
@@ -218,12 +274,12 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
           <input
             type="number"
             min="2"
-            max="32"
+            max={maxPoolSize}
             defaultValue={tournament.settings.poolSize || 8}
             onBlur={(e) => {
               const value = parseInt(e.target.value);
               if (!isNaN(value)) {
-                updateSettings({ poolSize: Math.max(2, Math.min(32, value)) });
+                updateSettings({ poolSize: Math.max(2, Math.min(maxPoolSize, value)) });
               } else {
                 e.target.value = String(tournament.settings.poolSize || 8);
               }
@@ -304,6 +360,44 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
         )}
       </section>
 
+      {/* Co-director notice */}
+      {socket && directorPermissions && (
+        <section className="card p-6">
+          <h3 className="text-lg font-display font-semibold mb-2">Co-Director</h3>
+          <p className="text-sm text-[var(--color-text-secondary)]">
+            You are a co-director. The host has allowed you to manage:{' '}
+            {directorPermissions.length > 0 ? directorPermissions.join(', ') : 'nothing yet'}.
+            Other actions are reserved for the host.
+          </p>
+        </section>
+      )}
+
+      {/* Host Access (online only - recovery code, handoff and co-directors) */}
+      {socket && hostAccess && (
+        <HostAccessPanel
+          roomCode={tournament.shareCode}
+          tournamentName={tournament.name}
+          access={hostAccess}
+          onStartHandoff={socket.startHostHandoff}
+          onCancelHandoff={socket.cancelHostHandoff}
+          onRotateSecret={socket.rotateHostSecret}
+          onAddCoDirector={socket.addCoDirector}
+          onUpdateCoDirector={socket.updateCoDirector}
+          onRemoveCoDirector={socket.removeCoDirector}
+        />
+      )}
+
+      {/* Player Links (online only - score permission by join token) */}
+      {socket && !directorPermissions && (
+        <PlayerClaimsPanel
+          roomCode={tournament.shareCode}
+          players={tournament.players}
+          claims={playerClaims ?? []}
+          onIssueToken={socket.issuePlayerToken}
+          onRevoke={socket.revokePlayerClaim}
+        />
+      )}
+
       {/* Add Player Mid-Tournament */}
       {tournament.status === 'active' && (
         <section className="card p-6">
@@ -401,7 +495,7 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
                     });
                   }
                   
-                  const newScore = (wins * 2) + ties;
+                  const newScore = getResultPoints({ wins, ties, losses }, tournament.settings);
                   const finalRank = rankMap.get(s.player.id) ?? s.rank;
                   
                   return {
@@ -455,8 +549,8 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
                     (m.team1?.includes(playerId) || m.team2?.includes(playerId)) && m.completed && m.score1 !== null && m.score2 !== null
                   );
                   
-                  const roundOrder: Record<string, number> = { 'quarterfinal': 1, 'semifinal': 2, 'third_place': 3, 'final': 4 };
-                  relevant.sort((a, b) => (roundOrder[a.round] || 0) - (roundOrder[b.round] || 0));
+                  // Bracket matches are numbered in playing order
+                  relevant.sort((a, b) => a.matchNumber - b.matchNumber);
                   
                   for (const m of relevant) {
                     const isTeam1 = m.team1?.includes(playerId);
@@ -501,7 +595,7 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
           >
             Export Standings CSV
           </button>
-          <Scorecard />
+          <Scorecard singles={tournament.settings.format === 'singles'} />
         </div>
         <p className="text-xs text-[var(--color-text-muted)] mt-3">
           Saving stores the tournament in your browser for later review. Export creates a downloadable file.
@@ -514,16 +608,39 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
           <h3 className="text-lg font-bold mb-2">📦 Archive & Share</h3>
           <p className="text-sm text-[var(--color-text-muted)] mb-4">
             Archive this tournament to share read-only results with others.
-            Archives expire after 90 days.
+            Archives expire after 90 days, or are kept for the season if they count towards one.
           </p>
           
           {archiveStatus === 'idle' && (
-            <button
-              onClick={handleArchive}
-              className="btn btn-primary"
-            >
-              📦 Archive & Get Shareable Link
-            </button>
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                onClick={handleArchive}
+                className="btn btn-primary"
+              >
+                📦 Archive & Get Shareable Link
+              </button>
+              {seasons.length > 0 && (
+                <select
+                  value={archiveSeasonId}
+                  onChange={(e) => setArchiveSeasonId(e.target.value)}
+                  className="input text-sm"
+                >
+                  <option value="">Not part of a season</option>
+                  {seasons.map((season) => (
+                    <option key={season.id} value={season.id}>Count towards {season.name}</option>
+                  ))}
+                </select>
+              )}
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={archivePublic}
+                  onChange={(e) => setArchivePublic(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                List publicly in the archive browser
+              </label>
+            </div>
           )}
           
           {archiveStatus === 'loading' && (
@@ -580,6 +697,22 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
         </section>
       )}
 
+      {/* Club admin key (needed for club data changes) */}
+      <ClubAdminKeyPanel />
+
+      {/* Club player registry (rename, aliases, merge duplicates) */}
+      <PlayerRegistryPanel />
+
+      {/* Seasons (league points across archived tournaments) */}
+      <SeasonPanel />
+
+      {/* Action Log (Undo/Redo) */}
+      <ActionHistoryPanel
+        history={history}
+        onUndo={undoAction}
+        onRedo={redoAction}
+      />
+
       {/* Pairing Log */}
       <section className="card p-6">
         <div className="flex items-center justify-between mb-4">
@@ -762,7 +895,7 @@ export function AdminPanel({ socket, showQRCode, onToggleQRCode }: AdminPanelPro
           <div className="flex gap-3">
             {tournament.status === 'active' && (
               <button
-                onClick={() => useTournamentStore.getState().completeTournament()}
+                onClick={() => completeTournament()}
                 className="btn btn-primary"
               >
                 Complete Swiss Rounds
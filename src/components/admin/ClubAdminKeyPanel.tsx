@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { useClubAdminStore } from '../../store/clubAdminStore';
+
+export function ClubAdminKeyPanel() {
+  const { adminKey, setAdminKey } = useClubAdminStore();
+  const [draft, setDraft] = useState(adminKey);
+
+  return (
+    <section className="card p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-display font-semibold">Club Admin Key</h3>
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Changing club players or seasons, or adding new players from an archive, needs the admin key set on the server. It is kept in this browser only.
+        </p>
+      </div>
+
+      <div className="flex gap-3">
+        <input
+          type="password"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Club admin key"
+          autoComplete="off"
+          className="input text-sm flex-1"
+        />
+        <button
+          onClick={() => setAdminKey(draft)}
+          disabled={draft.trim() === adminKey}
+          className="btn btn-secondary text-sm"
+        >
+          Save
+        </button>
+        {adminKey && (
+          <button
+            onClick={() => { setAdminKey(''); setDraft(''); }}
+            className="btn btn-secondary text-sm"
+          >
+            Forget
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}
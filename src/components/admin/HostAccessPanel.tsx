@@ -0,0 +1,271 @@
+import { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import {
+  formatRecoveryCode,
+  getHostHandoffUrl,
+  getDirectorJoinUrl,
+} from '../../utils/playerIdentity';
+import type { DirectorPermission, HostAccessInfo } from '../../types';
+
+const PERMISSION_LABELS: Record<DirectorPermission, string> = {
+  scores: 'Enter and edit any score',
+  roster: 'Manage players and tables',
+  rounds: 'Start, pair and complete rounds',
+  finals: 'Configure and run finals brackets',
+};
+
+const ALL_PERMISSIONS = Object.keys(PERMISSION_LABELS) as DirectorPermission[];
+
+interface HostAccessPanelProps {
+  roomCode: string;
+  tournamentName: string;
+  access: HostAccessInfo | null;
+  onStartHandoff: () => void;
+  onCancelHandoff: () => void;
+  onRotateSecret: () => void;
+  onAddCoDirector: (name: string, permissions: DirectorPermission[]) => void;
+  onUpdateCoDirector: (directorId: string, permissions: DirectorPermission[]) => void;
+  onRemoveCoDirector: (directorId: string) => void;
+}
+
+export function HostAccessPanel({
+  roomCode,
+  tournamentName,
+  access,
+  onStartHandoff,
+  onCancelHandoff,
+  onRotateSecret,
+  onAddCoDirector,
+  onUpdateCoDirector,
+  onRemoveCoDirector,
+}: HostAccessPanelProps) {
+  const [showRotateConfirm, setShowRotateConfirm] = useState(false);
+  const [newDirectorName, setNewDirectorName] = useState('');
+  const [newDirectorPermissions, setNewDirectorPermissions] = useState<DirectorPermission[]>(['scores']);
+
+  if (!access) return null;
+
+  const recoveryCode = formatRecoveryCode(roomCode, access.hostSecret);
+  const handoffUrl = access.handoffCode ? getHostHandoffUrl(roomCode, access.handoffCode) : null;
+
+  const togglePermission = (permissions: DirectorPermission[], permission: DirectorPermission) =>
+    permissions.includes(permission)
+      ? permissions.filter((p) => p !== permission)
+      : [...permissions, permission];
+
+  const handleDownloadRecoveryCode = () => {
+    const text = [
+      `Tournament: ${tournamentName}`,
+      `Room code: ${roomCode}`,
+      `Host recovery code: ${recoveryCode}`,
+      '',
+      'To regain host rights on any device, choose Join Room and enter this recovery code.',
+    ].join('\n');
+    const blob = new Blob([text], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `host-recovery-${roomCode}.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleAddCoDirector = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newDirectorName.trim()) return;
+    onAddCoDirector(newDirectorName.trim(), newDirectorPermissions);
+    setNewDirectorName('');
+  };
+
+  return (
+    <section className="card p-6">
+      <h3 className="text-lg font-display font-semibold mb-4">Host Access</h3>
+
+      {/* Recovery code */}
+      <div className="mb-6">
+        <h4 className="font-medium mb-1">Recovery Code</h4>
+        <p className="text-sm text-[var(--color-text-muted)] mb-3">
+          This browser remembers that you're the host. Keep this code somewhere safe to regain host rights
+          from another device (Join Room → enter the recovery code).
+        </p>
+        <div className="flex items-center gap-3">
+          <input
+            type="text"
+            value={recoveryCode}
+            readOnly
+            className="input flex-1 font-mono text-sm"
+          />
+          <button
+            onClick={() => navigator.clipboard.writeText(recoveryCode)}
+            className="btn btn-secondary"
+          >
+            Copy
+          </button>
+          <button
+            onClick={handleDownloadRecoveryCode}
+            className="btn btn-secondary"
+          >
+            Download
+          </button>
+        </div>
+        {showRotateConfirm ? (
+          <div className="mt-3 flex items-center gap-3 text-sm">
+            <span className="text-[var(--color-text-secondary)]">
+              The current code will stop working. Continue?
+            </span>
+            <button
+              onClick={() => {
+                onRotateSecret();
+                setShowRotateConfirm(false);
+              }}
+              className="btn btn-danger text-sm"
+            >
+              Regenerate
+            </button>
+            <button
+              onClick={() => setShowRotateConfirm(false)}
+              className="btn btn-secondary text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setShowRotateConfirm(true)}
+            className="mt-3 text-sm text-[var(--color-text-muted)] hover:text-[var(--color-text-secondary)] underline"
+          >
+            Regenerate recovery code
+          </button>
+        )}
+      </div>
+
+      {/* Host handoff */}
+      <div className="mb-6">
+        <h4 className="font-medium mb-1">Hand Off Host</h4>
+        <p className="text-sm text-[var(--color-text-muted)] mb-3">
+          Open the handoff link on another device to make it the host. This device becomes a spectator
+          and the recovery code above is replaced.
+        </p>
+        {handoffUrl ? (
+          <>
+            <div className="flex items-center gap-3">
+              <input
+                type="text"
+                value={handoffUrl}
+                readOnly
+                className="input flex-1 font-mono text-sm"
+              />
+              <button
+                onClick={() => navigator.clipboard.writeText(handoffUrl)}
+                className="btn btn-secondary"
+              >
+                Copy
+              </button>
+              <button
+                onClick={onCancelHandoff}
+                className="btn btn-secondary"
+              >
+                Cancel
+              </button>
+            </div>
+            <div className="mt-4 flex justify-center p-6 bg-white rounded-lg">
+              <QRCodeSVG value={handoffUrl} size={180} />
+            </div>
+          </>
+        ) : (
+          <button onClick={onStartHandoff} className="btn btn-secondary">
+            Create Handoff Link
+          </button>
+        )}
+      </div>
+
+      {/* Co-directors */}
+      <div>
+        <h4 className="font-medium mb-1">Co-Directors</h4>
+        <p className="text-sm text-[var(--color-text-muted)] mb-3">
+          Co-directors join with their own link and can only do what you allow. Settings, undo/redo,
+          player links and host access stay with you.
+        </p>
+
+        {access.coDirectors.length > 0 && (
+          <div className="space-y-2 mb-4">
+            {access.coDirectors.map((director) => (
+              <div
+                key={director.id}
+                className="px-3 py-3 rounded bg-[var(--color-bg-tertiary)] text-sm"
+              >
+                <div className="flex items-center justify-between gap-4 mb-2">
+                  <div>
+                    <span className="font-medium">{director.name}</span>
+                    <span className={`ml-2 text-xs ${director.connected ? 'text-green-400' : 'text-[var(--color-text-muted)]'}`}>
+                      {director.connected ? '● Online' : '○ Offline'}
+                    </span>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => navigator.clipboard.writeText(getDirectorJoinUrl(roomCode, director.secret))}
+                      className="btn btn-secondary text-xs"
+                    >
+                      Copy Link
+                    </button>
+                    <button
+                      onClick={() => onRemoveCoDirector(director.id)}
+                      className="btn btn-danger text-xs"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {ALL_PERMISSIONS.map((permission) => (
+                    <label key={permission} className="flex items-center gap-2 text-xs text-[var(--color-text-secondary)]">
+                      <input
+                        type="checkbox"
+                        checked={director.permissions.includes(permission)}
+                        onChange={() => onUpdateCoDirector(director.id, togglePermission(director.permissions, permission))}
+                      />
+                      {PERMISSION_LABELS[permission]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleAddCoDirector} className="space-y-3">
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={newDirectorName}
+              onChange={(e) => setNewDirectorName(e.target.value)}
+              placeholder="Co-director name"
+              className="input flex-1"
+            />
+            <button
+              type="submit"
+              disabled={!newDirectorName.trim()}
+              className="btn btn-primary"
+            >
+              Add
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {ALL_PERMISSIONS.map((permission) => (
+              <label key={permission} className="flex items-center gap-2 text-xs text-[var(--color-text-secondary)]">
+                <input
+                  type="checkbox"
+                  checked={newDirectorPermissions.includes(permission)}
+                  onChange={() => setNewDirectorPermissions(togglePermission(newDirectorPermissions, permission))}
+                />
+                {PERMISSION_LABELS[permission]}
+              </label>
+            ))}
+          </div>
+        </form>
+      </div>
+    </section>
+  );
+}
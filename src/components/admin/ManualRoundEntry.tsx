@@ -1,6 +1,7 @@
 import { useState, useMemo, useRef } from 'react';
 import { useTournamentStore } from '../../store/tournamentStore';
 import type { Player, Match, Tournament } from '../../types';
+import { getByePoints, describeByeValue, getMatchTotal, isFixedTotal, validateMatchScore } from '../../engine';
 import { nanoid } from 'nanoid';
 import type { Socket } from 'socket.io-client';
 
@@ -35,10 +36,16 @@ export function ManualRoundEntry({ onClose, socket }: ManualRoundEntryProps) {
     [tournament?.players]
   );
 
-  // Calculate how many matches are needed (players / 4, rounded down)
-  const matchCount = Math.floor(activePlayers.length / 4);
+  // Singles matches have one player a side
+  const isSingles = tournament?.settings.format === 'singles';
+  const playersPerMatch = isSingles ? 2 : 4;
+  const pointsPerMatch = getMatchTotal(tournament?.settings);
+  const fixedTotal = isFixedTotal(tournament?.settings);
+
+  // Calculate how many matches are needed (players / players per match, rounded down)
+  const matchCount = Math.floor(activePlayers.length / playersPerMatch);
   // Calculate how many players get a bye
-  const byeCount = activePlayers.length % 4;
+  const byeCount = activePlayers.length % playersPerMatch;
 
   // Get existing matches for a round
   const getExistingMatches = (round: number): Match[] => {
@@ -103,16 +110,16 @@ export function ManualRoundEntry({ onClose, socket }: ManualRoundEntryProps) {
 
       const updates: Partial<MatchEntry> = { [field]: value };
 
-      // Auto-calculate complementary score (scores must add to 8)
-      if (field === 'score1' && value !== '') {
+      // Auto-calculate complementary score (when scores must add to pointsPerMatch)
+      if (fixedTotal && field === 'score1' && value !== '') {
         const num = parseInt(value);
-        if (!isNaN(num) && num >= 0 && num <= 8) {
-          updates.score2 = String(8 - num);
+        if (!isNaN(num) && num >= 0 && num <= pointsPerMatch) {
+          updates.score2 = String(pointsPerMatch - num);
         }
-      } else if (field === 'score2' && value !== '') {
+      } else if (fixedTotal && field === 'score2' && value !== '') {
         const num = parseInt(value);
-        if (!isNaN(num) && num >= 0 && num <= 8) {
-          updates.score1 = String(8 - num);
+        if (!isNaN(num) && num >= 0 && num <= pointsPerMatch) {
+          updates.score1 = String(pointsPerMatch - num);
         }
       }
 
@@ -219,8 +226,8 @@ export function ManualRoundEntry({ onClose, socket }: ManualRoundEntryProps) {
     // Validate all matches have complete data
     for (let i = 0; i < matches.length; i++) {
       const match = matches[i];
-      if (!match.team1Player1 || !match.team1Player2 || !match.team2Player1 || !match.team2Player2) {
-        setError(`Match ${i + 1}: Please select all 4 players`);
+      if (!match.team1Player1 || !match.team2Player1 || (!isSingles && (!match.team1Player2 || !match.team2Player2))) {
+        setError(`Match ${i + 1}: Please select all ${playersPerMatch} players`);
         return;
       }
       if (!match.score1 || !match.score2) {
@@ -233,8 +240,9 @@ export function ManualRoundEntry({ onClose, socket }: ManualRoundEntryProps) {
         setError(`Match ${i + 1}: Scores must be valid positive numbers`);
         return;
       }
-      if (s1 + s2 !== 8) {
-        setError(`Match ${i + 1}: Scores must add up to 8 (got ${s1} + ${s2} = ${s1 + s2})`);
+      const scoreError = validateMatchScore(s1, s2, tournament.settings);
+      if (scoreError) {
+        setError(`Match ${i + 1}: ${scoreError} (got ${s1} + ${s2} = ${s1 + s2})`);
         return;
       }
     }
@@ -246,8 +254,8 @@ export function ManualRoundEntry({ onClose, socket }: ManualRoundEntryProps) {
     const newMatches: Match[] = matches.map(m => ({
       id: nanoid(8),
       round: selectedRound,
-      team1: [m.team1Player1, m.team1Player2] as [string, string],
-      team2: [m.team2Player1, m.team2Player2] as [string, string],
+      team1: isSingles ? [m.team1Player1] : [m.team1Player1, m.team1Player2],
+      team2: isSingles ? [m.team2Player1] : [m.team2Player1, m.team2Player2],
       score1: parseInt(m.score1),
       score2: parseInt(m.score2),
       twenties1: m.twenties1 ? parseInt(m.twenties1) : 0,
@@ -255,6 +263,7 @@ export function ManualRoundEntry({ onClose, socket }: ManualRoundEntryProps) {
       tableId: null,
       completed: true,
       isBye: false,
+      matchType: isSingles ? '1v1' : 'doubles',
     }));
 
     // Create bye matches for remaining players
@@ -262,13 +271,14 @@ export function ManualRoundEntry({ onClose, socket }: ManualRoundEntryProps) {
     const avgTwenties = getAverageTwenties();
 
     byePlayers.forEach(player => {
+      const { pointsFor, pointsAgainst } = getByePoints(player.id, selectedRound, otherMatches, tournament.settings);
       newMatches.push({
         id: nanoid(8),
         round: selectedRound,
         team1: [player.id] as [string],
         team2: null,
-        score1: 4,
-        score2: 4,
+        score1: pointsFor,
+        score2: pointsAgainst,
         twenties1: avgTwenties,
         twenties2: 0,
         tableId: null,
@@ -535,18 +545,20 @@ export function ManualRoundEntry({ onClose, socket }: ManualRoundEntryProps) {
                             <option key={p.id} value={p.id}>{p.name}</option>
                           ))}
                         </select>
-                        <select
-                          value={match.team1Player2}
-                          onChange={(e) => updateMatch(match.id, 'team1Player2', e.target.value)}
-                          className="input flex-1"
-                        >
-                          <option value="">Player 2...</option>
-                          {[...getAvailablePlayers(match.id, 'team1Player2'),
-                          ...(match.team1Player2 ? [activePlayers.find(p => p.id === match.team1Player2)!].filter(Boolean) : [])
-                          ].map(p => (
-                            <option key={p.id} value={p.id}>{p.name}</option>
-                          ))}
-                        </select>
+                        {!isSingles && (
+                          <select
+                            value={match.team1Player2}
+                            onChange={(e) => updateMatch(match.id, 'team1Player2', e.target.value)}
+                            className="input flex-1"
+                          >
+                            <option value="">Player 2...</option>
+                            {[...getAvailablePlayers(match.id, 'team1Player2'),
+                            ...(match.team1Player2 ? [activePlayers.find(p => p.id === match.team1Player2)!].filter(Boolean) : [])
+                            ].map(p => (
+                              <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                          </select>
+                        )}
                       </div>
                     </div>
 
@@ -566,18 +578,20 @@ export function ManualRoundEntry({ onClose, socket }: ManualRoundEntryProps) {
                             <option key={p.id} value={p.id}>{p.name}</option>
                           ))}
                         </select>
-                        <select
-                          value={match.team2Player2}
-                          onChange={(e) => updateMatch(match.id, 'team2Player2', e.target.value)}
-                          className="input flex-1"
-                        >
-                          <option value="">Player 2...</option>
-                          {[...getAvailablePlayers(match.id, 'team2Player2'),
-                          ...(match.team2Player2 ? [activePlayers.find(p => p.id === match.team2Player2)!].filter(Boolean) : [])
-                          ].map(p => (
-                            <option key={p.id} value={p.id}>{p.name}</option>
-                          ))}
-                        </select>
+                        {!isSingles && (
+                          <select
+                            value={match.team2Player2}
+                            onChange={(e) => updateMatch(match.id, 'team2Player2', e.target.value)}
+                            className="input flex-1"
+                          >
+                            <option value="">Player 2...</option>
+                            {[...getAvailablePlayers(match.id, 'team2Player2'),
+                            ...(match.team2Player2 ? [activePlayers.find(p => p.id === match.team2Player2)!].filter(Boolean) : [])
+                            ].map(p => (
+                              <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                          </select>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -589,7 +603,7 @@ export function ManualRoundEntry({ onClose, socket }: ManualRoundEntryProps) {
                       <input
                         type="number"
                         min={0}
-                        max={8}
+                        max={pointsPerMatch}
                         value={match.score1}
                         onChange={(e) => updateMatch(match.id, 'score1', e.target.value)}
                         onFocus={(e) => e.target.select()}
@@ -602,7 +616,7 @@ export function ManualRoundEntry({ onClose, socket }: ManualRoundEntryProps) {
                       <input
                         type="number"
                         min={0}
-                        max={8}
+                        max={pointsPerMatch}
                         value={match.score2}
                         onChange={(e) => updateMatch(match.id, 'score2', e.target.value)}
                         onFocus={(e) => e.target.select()}
@@ -638,14 +652,14 @@ export function ManualRoundEntry({ onClose, socket }: ManualRoundEntryProps) {
                   </div>
 
                   {/* Match Preview */}
-                  {match.team1Player1 && match.team1Player2 && match.team2Player1 && match.team2Player2 && (
+                  {match.team1Player1 && match.team2Player1 && (isSingles || (match.team1Player2 && match.team2Player2)) && (
                     <div className="mt-3 text-sm text-[var(--color-text-muted)] bg-[var(--color-bg-primary)] p-2 rounded">
                       <span className="text-[var(--color-text-primary)]">
-                        {getPlayerName(match.team1Player1)} + {getPlayerName(match.team1Player2)}
+                        {getPlayerName(match.team1Player1)}{!isSingles && <> + {getPlayerName(match.team1Player2)}</>}
                       </span>
                       {' vs '}
                       <span className="text-[var(--color-text-primary)]">
-                        {getPlayerName(match.team2Player1)} + {getPlayerName(match.team2Player2)}
+                        {getPlayerName(match.team2Player1)}{!isSingles && <> + {getPlayerName(match.team2Player2)}</>}
                       </span>
                       {match.score1 && match.score2 && (
                         <span className="ml-2 text-[var(--color-accent)] font-medium">
@@ -663,7 +677,7 @@ export function ManualRoundEntry({ onClose, socket }: ManualRoundEntryProps) {
               <div className="mt-4 p-4 bg-[var(--color-bg-tertiary)] rounded-lg border border-dashed border-[var(--color-border)]">
                 <h4 className="text-sm font-medium mb-2">Auto-Assigned Byes</h4>
                 <p className="text-xs text-[var(--color-text-muted)] mb-2">
-                  Players not assigned above will automatically receive a bye (4-4 tie, avg 20s)
+                  Players not assigned above will automatically receive a bye ({describeByeValue(tournament.settings)}, avg 20s)
                 </p>
                 <div className="flex flex-wrap gap-2">
                   {getByePlayers().length > 0 ? (
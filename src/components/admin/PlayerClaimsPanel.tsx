@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { getPlayerJoinUrl } from '../../utils/playerIdentity';
+import type { Player, PlayerClaimInfo } from '../../types';
+
+interface PlayerClaimsPanelProps {
+  roomCode: string;
+  players: Player[];
+  claims: PlayerClaimInfo[];
+  onIssueToken: (playerId: string) => void;
+  onRevoke: (playerId: string) => void;
+}
+
+export function PlayerClaimsPanel({ roomCode, players, claims, onIssueToken, onRevoke }: PlayerClaimsPanelProps) {
+  const [qrPlayerId, setQrPlayerId] = useState<string | null>(null);
+
+  const claimsByPlayer = new Map(claims.map((c) => [c.playerId, c]));
+  const qrClaim = qrPlayerId ? claimsByPlayer.get(qrPlayerId) : undefined;
+  const qrPlayer = players.find((p) => p.id === qrPlayerId);
+
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <section className="card p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-display font-semibold">Player Links</h3>
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Give each player their own link so they can enter scores for their matches.
+          The first device to open a link claims that player. Revoke a claim if a player switches devices.
+        </p>
+      </div>
+
+      {players.length === 0 ? (
+        <p className="text-sm text-[var(--color-text-muted)] italic">
+          No players registered yet.
+        </p>
+      ) : (
+        <div className="space-y-1 max-h-[400px] overflow-y-auto">
+          {players.map((player) => {
+            const claim = claimsByPlayer.get(player.id);
+            return (
+              <div
+                key={player.id}
+                className="flex items-center justify-between gap-4 px-3 py-2 rounded text-sm bg-[var(--color-bg-tertiary)]"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{player.name}</div>
+                  <div className="text-xs text-[var(--color-text-muted)]">
+                    {!claim && 'No link issued'}
+                    {claim && claim.claimedAt === null && `Link issued ${formatTime(claim.issuedAt)}, not yet opened`}
+                    {claim && claim.claimedAt !== null && (
+                      <>
+                        <span className={claim.connected ? 'text-green-400' : ''}>
+                          {claim.connected ? '● Online' : '○ Offline'}
+                        </span>
+                        {' '}| {claim.deviceLabel ?? 'Unknown device'} since {formatTime(claim.claimedAt)}
+                      </>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {claim && (
+                    <>
+                      <button
+                        onClick={() => setQrPlayerId(qrPlayerId === player.id ? null : player.id)}
+                        className="btn btn-secondary text-xs"
+                      >
+                        {qrPlayerId === player.id ? 'Hide QR' : 'QR'}
+                      </button>
+                      <button
+                        onClick={() => navigator.clipboard.writeText(getPlayerJoinUrl(roomCode, claim.token))}
+                        className="btn btn-secondary text-xs"
+                      >
+                        Copy
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => onIssueToken(player.id)}
+                    className="btn btn-secondary text-xs"
+                  >
+                    {claim ? 'Reissue' : 'Issue Link'}
+                  </button>
+                  {claim && claim.claimedAt !== null && (
+                    <button
+                      onClick={() => onRevoke(player.id)}
+                      className="btn btn-danger text-xs"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {qrClaim && qrPlayer && (
+        <div className="mt-6 flex flex-col items-center gap-3 p-6 bg-white rounded-lg">
+          <QRCodeSVG value={getPlayerJoinUrl(roomCode, qrClaim.token)} size={200} />
+          <span className="text-sm font-medium text-gray-800">{qrPlayer.name}</span>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { usePlayerRegistryStore } from '../../store/playerRegistryStore';
+import { searchRegisteredPlayers } from '../../engine';
+import type { RegisteredPlayer, RegisteredPlayerResult } from '../../types';
+
+const LIST_LIMIT = 25;
+
+export function PlayerRegistryPanel() {
+  const { players, lastSyncedAt, sync, updatePlayer, mergePlayers, fetchResults } = usePlayerRegistryStore();
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editAliases, setEditAliases] = useState('');
+  const [mergeSourceId, setMergeSourceId] = useState('');
+  const [results, setResults] = useState<RegisteredPlayerResult[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    sync();
+  }, [sync]);
+
+  const activePlayers = players.filter((p) => !p.mergedInto);
+  const listed = query.trim()
+    ? searchRegisteredPlayers(players, query, LIST_LIMIT)
+    : [...activePlayers].sort((a, b) => a.name.localeCompare(b.name)).slice(0, LIST_LIMIT);
+  const selected = activePlayers.find((p) => p.id === selectedId);
+
+  const handleSelect = async (player: RegisteredPlayer) => {
+    if (player.id === selectedId) {
+      setSelectedId(null);
+      return;
+    }
+    setSelectedId(player.id);
+    setEditName(player.name);
+    setEditAliases(player.aliases.join(', '));
+    setMergeSourceId('');
+    setError('');
+    setResults([]);
+    setResults(await fetchResults(player.id));
+  };
+
+  const handleSave = async () => {
+    if (!selected || !editName.trim()) return;
+    const aliases = editAliases.split(',').map((a) => a.trim()).filter(Boolean);
+    setError(await updatePlayer(selected.id, { name: editName.trim(), aliases }) ?? '');
+  };
+
+  // The duplicate's name joins the aliases and its results move to this player
+  const handleMerge = async () => {
+    if (!selected || !mergeSourceId) return;
+    const message = await mergePlayers(selected.id, mergeSourceId);
+    setError(message ?? '');
+    if (message) return;
+
+    const merged = usePlayerRegistryStore.getState().players.find((p) => p.id === selected.id);
+    if (merged) setEditAliases(merged.aliases.join(', '));
+    setMergeSourceId('');
+    setResults(await fetchResults(selected.id));
+  };
+
+  return (
+    <section className="card p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-display font-semibold">Club Players</h3>
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Players are added to the club roster when a tournament is archived, so their results stay linked across events.
+          Rename players, list other spellings as aliases, or merge duplicates.
+          {lastSyncedAt && ` ${activePlayers.length} players, synced ${new Date(lastSyncedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}.`}
+        </p>
+      </div>
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search by name or alias"
+        className="input w-full mb-3"
+      />
+
+      {listed.length === 0 ? (
+        <p className="text-sm text-[var(--color-text-muted)] italic">
+          {activePlayers.length === 0 ? 'No club players yet. Archive a tournament to start the roster.' : 'No players match.'}
+        </p>
+      ) : (
+        <div className="space-y-1 max-h-[400px] overflow-y-auto">
+          {listed.map((player) => (
+            <div key={player.id} className="rounded text-sm bg-[var(--color-bg-tertiary)]">
+              <button
+                onClick={() => handleSelect(player)}
+                className="w-full flex items-center justify-between gap-4 px-3 py-2 text-left"
+              >
+                <span className="font-medium truncate">{player.name}</span>
+                {player.aliases.length > 0 && (
+                  <span className="text-xs text-[var(--color-text-muted)] truncate">
+                    aka {player.aliases.join(', ')}
+                  </span>
+                )}
+              </button>
+
+              {selected?.id === player.id && (
+                <div className="px-3 pb-3 space-y-3 border-t border-[var(--color-border)] pt-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <input
+                      type="text"
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      placeholder="Name"
+                      className="input text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={editAliases}
+                      onChange={(e) => setEditAliases(e.target.value)}
+                      placeholder="Aliases, comma separated"
+                      className="input text-sm"
+                    />
+                  </div>
+                  <button
+                    onClick={handleSave}
+                    disabled={!editName.trim()}
+                    className="btn btn-secondary text-sm"
+                  >
+                    Save
+                  </button>
+
+                  <div className="flex gap-3">
+                    <select
+                      value={mergeSourceId}
+                      onChange={(e) => setMergeSourceId(e.target.value)}
+                      className="input text-sm flex-1"
+                    >
+                      <option value="">Merge a duplicate into {player.name}...</option>
+                      {activePlayers
+                        .filter((p) => p.id !== player.id)
+                        .sort((a, b) => a.name.localeCompare(b.name))
+                        .map((p) => (
+                          <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                    </select>
+                    <button
+                      onClick={handleMerge}
+                      disabled={!mergeSourceId}
+                      className="btn btn-secondary text-sm"
+                    >
+                      Merge
+                    </button>
+                  </div>
+
+                  {error && <p className="text-sm text-red-400">{error}</p>}
+
+                  <div>
+                    <div className="text-xs text-[var(--color-text-muted)] mb-1">Archived tournaments</div>
+                    {results.length === 0 ? (
+                      <p className="text-xs text-[var(--color-text-muted)] italic">None yet</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {results.map((result) => (
+                          <li key={result.code} className="flex items-center justify-between gap-3 text-xs">
+                            <a href={`/view/${result.code}`} className="text-[var(--color-accent)] hover:underline truncate">
+                              {result.tournamentName}
+                            </a>
+                            <span className="text-[var(--color-text-muted)] flex-shrink-0">
+                              {result.playerName !== player.name && `as ${result.playerName} · `}
+                              {new Date(result.archivedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
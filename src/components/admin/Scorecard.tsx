@@ -1,6 +1,10 @@
 import { useRef } from 'react';
 
-export function Scorecard() {
+interface ScorecardProps {
+  singles?: boolean; // One name line per side instead of two
+}
+
+export function Scorecard({ singles = false }: ScorecardProps) {
   const printRef = useRef<HTMLDivElement>(null);
 
   const handlePrint = () => {
@@ -228,7 +232,7 @@ export function Scorecard() {
           </style>
         </head>
         <body>
-          ${generatePages(8)}
+          ${generatePages(8, singles)}
         </body>
       </html>
     `);
@@ -258,7 +262,7 @@ export function Scorecard() {
   );
 }
 
-function generatePages(totalCards: number): string {
+function generatePages(totalCards: number, singles: boolean): string {
   const cardsPerPage = 4;
   const numPages = Math.ceil(totalCards / cardsPerPage);
   let html = '';
@@ -268,7 +272,7 @@ function generatePages(totalCards: number): string {
     for (let i = 0; i < cardsPerPage; i++) {
       const cardNum = page * cardsPerPage + i;
       if (cardNum < totalCards) {
-        html += generateScorecard();
+        html += generateScorecard(singles);
       }
     }
     html += '</div>';
@@ -277,7 +281,10 @@ function generatePages(totalCards: number): string {
   return html;
 }
 
-function generateScorecard(): string {
+function generateScorecard(singles: boolean): string {
+  const side = singles ? 'Player' : 'Team';
+  const nameLines = '<div class="write-line"></div>'.repeat(singles ? 1 : 2);
+
   return `
     <div class="scorecard">
       <div class="header">
@@ -286,18 +293,16 @@ function generateScorecard(): string {
 
       <div class="teams-section">
         <div class="team-box">
-          <label>Team A</label>
-          <div class="write-line"></div>
-          <div class="write-line"></div>
+          <label>${side} A</label>
+          ${nameLines}
         </div>
         <div class="board-box">
           <label>Board</label>
           <div class="write-line"></div>
         </div>
         <div class="team-box">
-          <label>Team B</label>
-          <div class="write-line"></div>
-          <div class="write-line"></div>
+          <label>${side} B</label>
+          ${nameLines}
         </div>
       </div>
 
@@ -318,7 +323,7 @@ function generateScorecard(): string {
         </thead>
         <tbody>
           <tr>
-            <td class="team-header" colspan="6">TEAM A</td>
+            <td class="team-header" colspan="6">${side.toUpperCase()} A</td>
           </tr>
           <tr>
             <td class="row-label">Points</td>
@@ -338,7 +343,7 @@ function generateScorecard(): string {
           </tr>
           <tr class="spacer-row"><td colspan="6"></td></tr>
           <tr>
-            <td class="team-header" colspan="6">TEAM B</td>
+            <td class="team-header" colspan="6">${side.toUpperCase()} B</td>
           </tr>
           <tr>
             <td class="row-label">Points</td>
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { useSeasonStore } from '../../store/seasonStore';
+import { DEFAULT_SEASON_RULES } from '../../engine';
+import type { Season, SeasonRules } from '../../types';
+
+// Rules as typed into the form, e.g. points "25, 18, 15"
+interface RulesForm {
+  pointsTable: string;
+  participationPoints: string;
+  dropWorst: string;
+}
+
+const toForm = (rules: SeasonRules): RulesForm => ({
+  pointsTable: rules.pointsTable.join(', '),
+  participationPoints: String(rules.participationPoints),
+  dropWorst: String(rules.dropWorst),
+});
+
+function fromForm(form: RulesForm): SeasonRules | null {
+  const pointsTable = form.pointsTable.split(',').map((p) => p.trim()).filter(Boolean).map(Number);
+  const participationPoints = Number(form.participationPoints);
+  const dropWorst = Number(form.dropWorst);
+  if (pointsTable.length === 0 || pointsTable.some((p) => !Number.isFinite(p) || p < 0)) return null;
+  if (!Number.isFinite(participationPoints) || participationPoints < 0) return null;
+  if (!Number.isInteger(dropWorst) || dropWorst < 0) return null;
+  return { pointsTable, participationPoints, dropWorst };
+}
+
+export function SeasonPanel() {
+  const { seasons, sync, createSeason, updateSeason, addTournament, removeTournament } = useSeasonStore();
+  const [newName, setNewName] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [form, setForm] = useState<RulesForm>(toForm(DEFAULT_SEASON_RULES));
+  const [addCode, setAddCode] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    sync();
+  }, [sync]);
+
+  const selected = seasons.find((s) => s.id === selectedId);
+
+  const handleSelect = (season: Season) => {
+    if (season.id === selectedId) {
+      setSelectedId(null);
+      return;
+    }
+    setSelectedId(season.id);
+    setEditName(season.name);
+    setForm(toForm(season));
+    setAddCode('');
+    setError('');
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    const message = await createSeason(newName.trim());
+    setError(message ?? '');
+    if (!message) setNewName('');
+  };
+
+  const handleSave = async () => {
+    if (!selected || !editName.trim()) return;
+    const rules = fromForm(form);
+    if (!rules) {
+      setError('Points must be non-negative numbers and dropped results a whole number');
+      return;
+    }
+    setError(await updateSeason(selected.id, { name: editName.trim(), ...rules }) ?? '');
+  };
+
+  const handleAdd = async () => {
+    if (!selected || !addCode.trim()) return;
+    const message = await addTournament(selected.id, addCode.trim().toUpperCase());
+    setError(message ?? '');
+    if (!message) setAddCode('');
+  };
+
+  return (
+    <section className="card p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-display font-semibold">🏆 Seasons</h3>
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Group archived tournaments into a season. Players earn league points for where they finish at each event,
+          and their worst results can be dropped. Archives in a season are kept until the season is over.
+        </p>
+      </div>
+
+      <div className="flex gap-3 mb-3">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New season name, e.g. 2026 League"
+          className="input text-sm flex-1"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!newName.trim()}
+          className="btn btn-secondary text-sm"
+        >
+          Create
+        </button>
+      </div>
+
+      {seasons.length === 0 ? (
+        <p className="text-sm text-[var(--color-text-muted)] italic">No seasons yet.</p>
+      ) : (
+        <div className="space-y-1">
+          {seasons.map((season) => (
+            <div key={season.id} className="rounded text-sm bg-[var(--color-bg-tertiary)]">
+              <button
+                onClick={() => handleSelect(season)}
+                className="w-full flex items-center justify-between gap-4 px-3 py-2 text-left"
+              >
+                <span className="font-medium truncate">{season.name}</span>
+                <span className="text-xs text-[var(--color-text-muted)]">
+                  {season.events.length} {season.events.length === 1 ? 'event' : 'events'}
+                </span>
+              </button>
+
+              {selected?.id === season.id && (
+                <div className="px-3 pb-3 space-y-3 border-t border-[var(--color-border)] pt-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <label className="text-xs text-[var(--color-text-muted)]">
+                      Name
+                      <input
+                        type="text"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        className="input text-sm w-full mt-1"
+                      />
+                    </label>
+                    <label className="text-xs text-[var(--color-text-muted)]">
+                      Points by finishing position (1st, 2nd, ...)
+                      <input
+                        type="text"
+                        value={form.pointsTable}
+                        onChange={(e) => setForm({ ...form, pointsTable: e.target.value })}
+                        className="input text-sm w-full mt-1"
+                      />
+                    </label>
+                    <label className="text-xs text-[var(--color-text-muted)]">
+                      Points for finishing lower down
+                      <input
+                        type="number"
+                        min={0}
+                        value={form.participationPoints}
+                        onChange={(e) => setForm({ ...form, participationPoints: e.target.value })}
+                        className="input text-sm w-full mt-1"
+                      />
+                    </label>
+                    <label className="text-xs text-[var(--color-text-muted)]">
+                      Worst results dropped (missed events count as 0)
+                      <input
+                        type="number"
+                        min={0}
+                        value={form.dropWorst}
+                        onChange={(e) => setForm({ ...form, dropWorst: e.target.value })}
+                        className="input text-sm w-full mt-1"
+                      />
+                    </label>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={handleSave}
+                      disabled={!editName.trim()}
+                      className="btn btn-secondary text-sm"
+                    >
+                      Save
+                    </button>
+                    <a href={`/seasons/${season.id}`} className="text-sm text-[var(--color-accent)] hover:underline">
+                      View standings
+                    </a>
+                  </div>
+
+                  <div>
+                    <div className="text-xs text-[var(--color-text-muted)] mb-1">Events</div>
+                    {season.events.length === 0 ? (
+                      <p className="text-xs text-[var(--color-text-muted)] italic">None yet</p>
+                    ) : (
+                      <ul className="space-y-1 mb-2">
+                        {season.events.map((event) => (
+                          <li key={event.code} className="flex items-center justify-between gap-3 text-xs">
+                            <a href={`/view/${event.code}`} className="text-[var(--color-accent)] hover:underline truncate">
+                              {event.tournamentName}
+                            </a>
+                            <span className="flex items-center gap-3 flex-shrink-0 text-[var(--color-text-muted)]">
+                              {new Date(event.archivedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                              <button
+                                onClick={async () => setError(await removeTournament(season.id, event.code) ?? '')}
+                                className="hover:text-red-400"
+                                title="Remove from season"
+                              >
+                                ✕
+                              </button>
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <div className="flex gap-3">
+                      <input
+                        type="text"
+                        value={addCode}
+                        onChange={(e) => setAddCode(e.target.value)}
+                        placeholder="Archive code, e.g. ABC123"
+                        maxLength={6}
+                        className="input text-sm flex-1 font-mono uppercase"
+                      />
+                      <button
+                        onClick={handleAdd}
+                        disabled={!addCode.trim()}
+                        className="btn btn-secondary text-sm"
+                      >
+                        Add
+                      </button>
+                    </div>
+                  </div>
+
+                  {error && <p className="text-sm text-red-400">{error}</p>}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!selected && error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+    </section>
+  );
+}
@@ -1,6 +1,7 @@
 import { useMemo, useState } from 'react';
 import { useTournamentStore } from '../../store/tournamentStore';
 import type { BracketRound } from '../../types';
+import { getBracketRoundLabel, calculatePlayerStats, getResultPoints, type PlayerStats } from '../../engine';
 
 // Vibrant colors for top 2 pools (20 unique colors to support pool size up to 10)
 const TOP_POOL_COLORS = [
@@ -68,51 +69,17 @@ export function RankRibbonChart() {
     });
 
     // Track cumulative stats through rounds
-    const playerStats: Map<string, { wins: number; ties: number; pointsFor: number; pointsAgainst: number; twenties: number }> = new Map();
+    const playerStats: Map<string, PlayerStats> = new Map();
     tournament.players.forEach(p => {
-      playerStats.set(p.id, { wins: 0, ties: 0, pointsFor: 0, pointsAgainst: 0, twenties: 0 });
+      playerStats.set(p.id, { wins: 0, losses: 0, ties: 0, pointsFor: 0, pointsAgainst: 0, twenties: 0, byeCount: 0 });
     });
 
     // Process each Swiss round
     for (let round = 1; round <= tournament.currentRound; round++) {
-      const roundMatches = tournament.matches.filter(m => m.round === round);
-
-      // Update stats from this round
-      roundMatches.forEach(match => {
-        if (match.isBye) {
-          const stats = playerStats.get(match.team1[0]);
-          if (stats) {
-            stats.ties += 1;
-            stats.pointsFor += match.score1 ?? 4;
-            stats.pointsAgainst += match.score2 ?? 4;
-            stats.twenties += match.twenties1 ?? 0;
-          }
-        } else if (match.completed && match.score1 !== null && match.score2 !== null) {
-          // Team 1
-          match.team1.forEach(playerId => {
-            const stats = playerStats.get(playerId);
-            if (stats) {
-              stats.pointsFor += match.score1!;
-              stats.pointsAgainst += match.score2!;
-              stats.twenties += match.twenties1 ?? 0;
-              if (match.score1! > match.score2!) stats.wins += 1;
-              else if (match.score1! < match.score2!) { /* loss */ }
-              else stats.ties += 1;
-            }
-          });
-          // Team 2
-          match.team2?.forEach(playerId => {
-            const stats = playerStats.get(playerId);
-            if (stats) {
-              stats.pointsFor += match.score2!;
-              stats.pointsAgainst += match.score1!;
-              stats.twenties += match.twenties2 ?? 0;
-              if (match.score2! > match.score1!) stats.wins += 1;
-              else if (match.score2! < match.score1!) { /* loss */ }
-              else stats.ties += 1;
-            }
-          });
-        }
+      // Stats through this round, with byes scored by the bye policy
+      const matchesThroughRound = tournament.matches.filter(m => m.round <= round);
+      tournament.players.forEach(p => {
+        playerStats.set(p.id, calculatePlayerStats(p.id, matchesThroughRound, tournament.settings));
       });
 
       // Calculate rankings after this round
@@ -120,7 +87,7 @@ export function RankRibbonChart() {
         .filter(p => p.active)
         .map(p => {
           const stats = playerStats.get(p.id)!;
-          const score = (stats.wins * 2) + (stats.ties * 1);
+          const score = getResultPoints(stats, tournament.settings);
           return { id: p.id, score, ...stats };
         })
         .sort((a, b) => {
@@ -145,18 +112,18 @@ export function RankRibbonChart() {
     if (tournament.finalsConfig?.enabled && tournament.bracketMatches && tournament.bracketMatches.length > 0) {
       const bracketMatches = tournament.bracketMatches;
 
-      // Group matches by round
-      const roundOrder: BracketRound[] = ['quarterfinal', 'semifinal', 'third_place', 'final'];
-      const roundLabels: Record<BracketRound, string> = {
-        'quarterfinal': 'QF',
-        'semifinal': 'SF',
-        'third_place': '3rd',
-        'final': 'F'
-      };
+      // Group matches by round, in playing order (matches are numbered in the order they can be played)
+      const roundOrder: BracketRound[] = [];
+      [...bracketMatches]
+        .sort((a, b) => a.matchNumber - b.matchNumber)
+        .forEach(m => {
+          if (!roundOrder.includes(m.round)) roundOrder.push(m.round);
+        });
 
       // Process each bracket round in order
       for (const bracketRound of roundOrder) {
-        const roundMatches = bracketMatches.filter(m => m.round === bracketRound);
+        // A grand final reset that wasn't needed never gets played
+        const roundMatches = bracketMatches.filter(m => m.round === bracketRound && !m.skipped);
         if (roundMatches.length === 0) continue;
 
         // Only add this round if ALL matches in it are complete
@@ -164,7 +131,7 @@ export function RankRibbonChart() {
         if (!allComplete) continue;
 
         // Add this round to the chart
-        bracketRoundLabels.push(roundLabels[bracketRound]);
+        bracketRoundLabels.push(getBracketRoundLabel(bracketRound, true));
         totalRounds++;
 
         // Use getFinalStandings to get the correct ranking after this round
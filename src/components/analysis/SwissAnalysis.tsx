@@ -2,6 +2,7 @@ import { useMemo, useState } from 'react';
 import { useTournamentStore } from '../../store/tournamentStore';
 import { exportPageToPng } from '../../utils/exportPng';
 import { RankRibbonChart } from './RankRibbonChart';
+import * as Engine from '../../engine';
 import type { Player } from '../../types';
 
 interface RoundSnapshot {
@@ -14,7 +15,7 @@ interface PlayerRoundData {
   rank: number;
   wins: number;
   ties: number;
-  score: number; // wins*2 + ties*1
+  score: number; // By settings.pointSystem
   pointsFor: number;
   pointsAgainst: number;
   twenties: number;
@@ -33,58 +34,21 @@ export function SwissAnalysis() {
     if (!tournament || tournament.currentRound === 0) return null;
 
     const snapshots: RoundSnapshot[] = [];
-    const playerStats: Map<string, { wins: number; ties: number; pointsFor: number; pointsAgainst: number; twenties: number }> = new Map();
+    const playerStats: Map<string, Engine.PlayerStats> = new Map();
 
     // Initialize player stats
     tournament.players.forEach((p) => {
-      playerStats.set(p.id, { wins: 0, ties: 0, pointsFor: 0, pointsAgainst: 0, twenties: 0 });
+      playerStats.set(p.id, { wins: 0, losses: 0, ties: 0, pointsFor: 0, pointsAgainst: 0, twenties: 0, byeCount: 0 });
     });
 
     // Process each round
     for (let round = 1; round <= tournament.currentRound; round++) {
       const roundMatches = tournament.matches.filter((m) => m.round === round);
       
-      // Update stats from this round's matches
-      roundMatches.forEach((match) => {
-        if (match.isBye) {
-          const stats = playerStats.get(match.team1[0]);
-          if (stats) {
-            // Bye is always a tie with 4-4 score
-            stats.ties += 1;
-            stats.pointsFor += 4;
-            stats.pointsAgainst += 4;
-            stats.twenties += match.twenties1 || 0;
-          }
-        } else if (match.completed && match.score1 !== null && match.score2 !== null) {
-          // Team 1
-          match.team1.forEach((playerId) => {
-            const stats = playerStats.get(playerId);
-            if (stats) {
-              stats.pointsFor += match.score1!;
-              stats.pointsAgainst += match.score2!;
-              stats.twenties += match.twenties1 || 0;
-              if (match.score1! > match.score2!) {
-                stats.wins += 1;
-              } else if (match.score1! === match.score2!) {
-                stats.ties += 1;
-              }
-            }
-          });
-          // Team 2
-          match.team2?.forEach((playerId) => {
-            const stats = playerStats.get(playerId);
-            if (stats) {
-              stats.pointsFor += match.score2!;
-              stats.pointsAgainst += match.score1!;
-              stats.twenties += match.twenties2 || 0;
-              if (match.score2! > match.score1!) {
-                stats.wins += 1;
-              } else if (match.score2! === match.score1!) {
-                stats.ties += 1;
-              }
-            }
-          });
-        }
+      // Stats through this round, with byes scored by the bye policy
+      const matchesThroughRound = tournament.matches.filter((m) => m.round <= round);
+      tournament.players.forEach((p) => {
+        playerStats.set(p.id, Engine.calculatePlayerStats(p.id, matchesThroughRound, tournament.settings));
       });
 
       // Calculate rankings after this round
@@ -120,7 +84,7 @@ export function SwissAnalysis() {
             }
           }
 
-          const score = (stats.wins * 2) + (stats.ties * 1);
+          const score = Engine.getResultPoints(stats, tournament.settings);
           return {
             player,
             rank: 0,
@@ -164,6 +128,30 @@ export function SwissAnalysis() {
     return snapshots;
   }, [tournament]);
 
+  // Board points and individual 20s from matches entered game by game
+  const gameDetail = useMemo(() => {
+    if (!tournament) return [];
+    const detailed = tournament.matches.filter((m) => m.completed && !m.isBye && m.games?.length);
+    if (detailed.length === 0) return [];
+
+    return tournament.players
+      .map((player) => {
+        let games = 0, pointsFor = 0, pointsAgainst = 0, twenties = 0;
+        detailed.forEach((match) => {
+          const side = Engine.getPlayerSide(match, player.id);
+          const raw = side ? Engine.getRawPoints(match, side) : null;
+          if (!side || !raw) return;
+          games += match.games!.length;
+          pointsFor += raw.pointsFor;
+          pointsAgainst += raw.pointsAgainst;
+          twenties += Engine.getPlayerMatchTwenties(match, player.id);
+        });
+        return { player, games, pointsFor, pointsAgainst, differential: pointsFor - pointsAgainst, twenties };
+      })
+      .filter((row) => row.games > 0)
+      .sort((a, b) => b.differential - a.differential || b.twenties - a.twenties);
+  }, [tournament]);
+
   if (!tournament || !analysis || analysis.length === 0) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -174,6 +162,7 @@ export function SwissAnalysis() {
 
   const finalRanking = analysis[analysis.length - 1].rankings;
   const poolSize = tournament.settings.poolSize || 8; // Default to 8 if not set
+  const isSingles = tournament.settings.format === 'singles'; // No partners to analyse
   const numPools = Math.ceil(finalRanking.length / poolSize);
 
   // Pool colors matching Standings page
@@ -232,7 +221,7 @@ export function SwissAnalysis() {
         <h3 className="text-xl font-display font-semibold mb-4">Pool Separation</h3>
         <p className="text-sm md:text-base text-[var(--color-text-muted)] mb-4 md:mb-6">
           Players are grouped into pools of {poolSize} based on their final ranking. 
-          The Swiss format pairs similar-ranked players as partners, causing skill levels to naturally separate.
+          The Swiss format pairs similar-ranked players {isSingles ? 'against each other' : 'as partners'}, causing skill levels to naturally separate.
         </p>
         {/* Mobile: stack vertically, Desktop: 4-column grid */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 md:gap-4">
@@ -378,51 +367,93 @@ export function SwissAnalysis() {
         )}
       </section>
 
+      {/* Game-by-game detail */}
+      {gameDetail.length > 0 && (
+        <section className="card p-4 md:p-6">
+          <h3 className="text-lg font-display font-semibold mb-4">Board Points &amp; 20s</h3>
+          <p className="text-sm text-[var(--color-text-muted)] mb-4">
+            Raw board points from matches entered game by game, with each player's own 20s.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-[var(--color-text-muted)] border-b border-[var(--color-border)]">
+                  <th className="text-left py-2 px-2">Player</th>
+                  <th className="text-center py-2 px-2">Games</th>
+                  <th className="text-center py-2 px-2">Points For</th>
+                  <th className="text-center py-2 px-2">Points Against</th>
+                  <th className="text-center py-2 px-2">Diff</th>
+                  <th className="text-center py-2 px-2">20s</th>
+                </tr>
+              </thead>
+              <tbody>
+                {gameDetail.map((row) => (
+                  <tr key={row.player.id} className="border-b border-[var(--color-border)]/50">
+                    <td className="py-1.5 px-2 font-medium">{row.player.name}</td>
+                    <td className="py-1.5 px-2 text-center font-mono text-[var(--color-text-muted)]">{row.games}</td>
+                    <td className="py-1.5 px-2 text-center font-mono">{row.pointsFor}</td>
+                    <td className="py-1.5 px-2 text-center font-mono">{row.pointsAgainst}</td>
+                    <td className={`py-1.5 px-2 text-center font-mono font-semibold ${
+                      row.differential > 0 ? 'text-[var(--color-success)]' : row.differential < 0 ? 'text-[var(--color-error)]' : ''
+                    }`}>
+                      {row.differential > 0 ? '+' : ''}{row.differential}
+                    </td>
+                    <td className="py-1.5 px-2 text-center font-mono text-[var(--color-accent)]">{row.twenties}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
       {/* Partner Pairing Analysis */}
-      <section className="card p-4 md:p-6">
-        <h3 className="text-lg font-display font-semibold mb-4">Partner Pairing Quality</h3>
-        <p className="text-sm text-[var(--color-text-muted)] mb-4">
-          Shows the average rank difference between partners each round. 
-          Lower numbers mean players are being paired with others of similar skill.
-        </p>
-        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 md:gap-4">
-          {analysis.map((snapshot) => {
-            // Calculate average rank difference between partners
-            const pairDiffs: number[] = [];
-            const seen = new Set<string>();
+      {!isSingles && (
+        <section className="card p-4 md:p-6">
+          <h3 className="text-lg font-display font-semibold mb-4">Partner Pairing Quality</h3>
+          <p className="text-sm text-[var(--color-text-muted)] mb-4">
+            Shows the average rank difference between partners each round. 
+            Lower numbers mean players are being paired with others of similar skill.
+          </p>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 md:gap-4">
+            {analysis.map((snapshot) => {
+              // Calculate average rank difference between partners
+              const pairDiffs: number[] = [];
+              const seen = new Set<string>();
             
-            snapshot.rankings.forEach((r) => {
-              if (r.partnerId && !seen.has(r.player.id) && !seen.has(r.partnerId)) {
-                const partnerData = snapshot.rankings.find((pr) => pr.player.id === r.partnerId);
-                if (partnerData) {
-                  pairDiffs.push(Math.abs(r.rank - partnerData.rank));
-                  seen.add(r.player.id);
-                  seen.add(r.partnerId);
+              snapshot.rankings.forEach((r) => {
+                if (r.partnerId && !seen.has(r.player.id) && !seen.has(r.partnerId)) {
+                  const partnerData = snapshot.rankings.find((pr) => pr.player.id === r.partnerId);
+                  if (partnerData) {
+                    pairDiffs.push(Math.abs(r.rank - partnerData.rank));
+                    seen.add(r.player.id);
+                    seen.add(r.partnerId);
+                  }
                 }
-              }
-            });
-
-            const avgDiff = pairDiffs.length > 0 
-              ? (pairDiffs.reduce((a, b) => a + b, 0) / pairDiffs.length).toFixed(1)
-              : '-';
-
-            return (
-              <div key={snapshot.round} className="flex-1 text-center p-4 bg-[var(--color-bg-tertiary)] rounded-lg">
-                <div className="text-xs text-[var(--color-text-muted)] mb-1">Round {snapshot.round}</div>
-                <div className={`text-2xl font-mono font-bold ${
-                  snapshot.round === 1 ? 'text-[var(--color-text-muted)]' : 'text-[var(--color-accent)]'
-                }`}>
-                  {avgDiff}
+              });
+
+              const avgDiff = pairDiffs.length > 0 
+                ? (pairDiffs.reduce((a, b) => a + b, 0) / pairDiffs.length).toFixed(1)
+                : '-';
+
+              return (
+                <div key={snapshot.round} className="flex-1 text-center p-4 bg-[var(--color-bg-tertiary)] rounded-lg">
+                  <div className="text-xs text-[var(--color-text-muted)] mb-1">Round {snapshot.round}</div>
+                  <div className={`text-2xl font-mono font-bold ${
+                    snapshot.round === 1 ? 'text-[var(--color-text-muted)]' : 'text-[var(--color-accent)]'
+                  }`}>
+                    {avgDiff}
+                  </div>
+                  <div className="text-xs text-[var(--color-text-muted)]">avg rank diff</div>
                 </div>
-                <div className="text-xs text-[var(--color-text-muted)]">avg rank diff</div>
-              </div>
-            );
-          })}
-        </div>
-        <p className="text-xs text-[var(--color-text-muted)] mt-3">
-          Round 1 is random. Subsequent rounds should show lower numbers as similar-skilled players get paired together.
-        </p>
-      </section>
+              );
+            })}
+          </div>
+          <p className="text-xs text-[var(--color-text-muted)] mt-3">
+            Round 1 is random. Subsequent rounds should show lower numbers as similar-skilled players get paired together.
+          </p>
+        </section>
+      )}
 
       {/* Legend - hidden on mobile since the detailed table is hidden */}
       <div className="hidden md:flex flex-wrap gap-4 text-xs text-[var(--color-text-muted)]">
@@ -1,4 +1,4 @@
-import { BracketMatch as BracketMatchType } from '../../types';
+import { BracketMatch as BracketMatchType, BracketTeam } from '../../types';
 import { useTournamentStore } from '../../store/tournamentStore';
 
 interface BracketMatchProps {
@@ -10,11 +10,9 @@ export function BracketMatch({ match, onClick }: BracketMatchProps) {
     const { tournament } = useTournamentStore();
 
     // Get team names
-    const getTeamName = (team: [string, string] | null): string => {
+    const getTeamName = (team: BracketTeam | null): string => {
         if (!team) return 'TBD';
-        const p1 = tournament?.players.find(p => p.id === team[0]);
-        const p2 = tournament?.players.find(p => p.id === team[1]);
-        return `${p1?.name || 'Unknown'} & ${p2?.name || 'Unknown'}`;
+        return team.map(id => tournament?.players.find(p => p.id === id)?.name || 'Unknown').join(' & ');
     };
 
     const isWinner = (score: number | null, opponentScore: number | null) => {
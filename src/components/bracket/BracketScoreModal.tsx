@@ -1,29 +1,67 @@
 import { useState } from 'react';
-import { BracketMatch } from '../../types';
+import { canEditBracketScore, getBracketRoundLabel, validateBracketScore, isIndividualTwentiesEntry, sumTeamTwenties } from '../../engine';
+import { BracketMatch, BracketTeam } from '../../types';
 import { useTournamentStore } from '../../store/tournamentStore';
 
 interface BracketScoreModalProps {
     match: BracketMatch;
     onClose: () => void;
+    socket?: {
+        submitBracketScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, playerTwenties?: Record<string, number>) => void;
+        editBracketScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, playerTwenties?: Record<string, number>) => void;
+    };
 }
 
-export function BracketScoreModal({ match, onClose }: BracketScoreModalProps) {
-    const { tournament, submitBracketScore } = useTournamentStore();
+export function BracketScoreModal({ match, onClose, socket }: BracketScoreModalProps) {
+    const {
+        tournament,
+        submitBracketScore: localSubmitBracketScore,
+        editBracketScore: localEditBracketScore,
+    } = useTournamentStore();
+
+    const submitBracketScore = socket ? socket.submitBracketScore : localSubmitBracketScore;
+    const editBracketScore = socket ? socket.editBracketScore : localEditBracketScore;
     const [score1, setScore1] = useState<string>(match.score1?.toString() || '');
     const [score2, setScore2] = useState<string>(match.score2?.toString() || '');
+    const [playerTwenties, setPlayerTwenties] = useState<Record<string, string>>(() =>
+        Object.fromEntries(Object.entries(match.playerTwenties ?? {}).map(([id, count]) => [id, count.toString()]))
+    );
     const [error, setError] = useState<string | null>(null);
+    const individualTwenties = tournament ? isIndividualTwentiesEntry(tournament.settings) : false;
 
     // Get team names
-    const getTeamName = (team: [string, string] | null): string => {
+    const getTeamName = (team: BracketTeam | null): string => {
         if (!team) return 'TBD';
-        const p1 = tournament?.players.find(p => p.id === team[0]);
-        const p2 = tournament?.players.find(p => p.id === team[1]);
-        return `${p1?.name || 'Unknown'} & ${p2?.name || 'Unknown'}`;
+        return team.map(id => tournament?.players.find(p => p.id === id)?.name || 'Unknown').join(' & ');
     };
 
     const name1 = getTeamName(match.team1);
     const name2 = getTeamName(match.team2);
 
+    // One 20s box per player on a team
+    const renderTwentiesInputs = (team: BracketTeam | null) => {
+        if (!individualTwenties || !team) return null;
+        return (
+            <div className="flex gap-2">
+                {team.map(id => (
+                    <div key={id} className="flex-1">
+                        <label className="block text-xs text-gray-500 text-center mb-1 truncate">
+                            {tournament?.players.find(p => p.id === id)?.name || 'Unknown'} 20s
+                        </label>
+                        <input
+                            type="number"
+                            min={0}
+                            value={playerTwenties[id] ?? ''}
+                            onChange={(e) => setPlayerTwenties(prev => ({ ...prev, [id]: e.target.value }))}
+                            className="w-full bg-gray-800 border border-gray-600 rounded p-2 text-center focus:border-blue-500 focus:outline-none"
+                            placeholder="0"
+                        />
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         setError(null);
@@ -36,12 +74,28 @@ export function BracketScoreModal({ match, onClose }: BracketScoreModalProps) {
             return;
         }
 
-        if (s1 === s2) {
-            setError('Ties are not allowed in bracket matches. Play a tiebreaker!');
+        const scoreError = validateBracketScore(s1, s2, tournament?.settings);
+        if (scoreError) {
+            setError(scoreError);
+            return;
+        }
+
+        if (match.completed && tournament && !canEditBracketScore(tournament.bracketMatches, match.id)) {
+            setError('The next match has already been played, so this result can no longer be changed');
             return;
         }
 
-        submitBracketScore(match.id, s1, s2, 0, 0); // 0, 0 for 20s since we don't track them
+        // Team 20s are only tracked in brackets when they're recorded per player
+        const counts = individualTwenties
+            ? Object.fromEntries([...(match.team1 ?? []), ...(match.team2 ?? [])].map(id => [id, parseInt(playerTwenties[id] ?? '') || 0]))
+            : undefined;
+        const { twenties1, twenties2 } = counts ? sumTeamTwenties(match, counts) : { twenties1: 0, twenties2: 0 };
+
+        if (match.completed) {
+            editBracketScore(match.id, s1, s2, twenties1, twenties2, counts);
+        } else {
+            submitBracketScore(match.id, s1, s2, twenties1, twenties2, counts);
+        }
         onClose();
     };
 
@@ -57,7 +111,7 @@ export function BracketScoreModal({ match, onClose }: BracketScoreModalProps) {
 
                 <h2 className="text-xl font-display font-bold mb-1">Enter Match Result</h2>
                 <p className="text-sm text-gray-400 mb-6">
-                    {match.round.charAt(0).toUpperCase() + match.round.slice(1)} Match #{match.matchNumber}
+                    {getBracketRoundLabel(match.round)} Match #{match.matchNumber}
                 </p>
 
                 {error && (
@@ -84,6 +138,7 @@ export function BracketScoreModal({ match, onClose }: BracketScoreModalProps) {
                                     placeholder="0"
                                 />
                             </div>
+                            {renderTwentiesInputs(match.team1)}
                         </div>
 
                         {/* Team 2 */}
@@ -101,6 +156,7 @@ export function BracketScoreModal({ match, onClose }: BracketScoreModalProps) {
                                     placeholder="0"
                                 />
                             </div>
+                            {renderTwentiesInputs(match.team2)}
                         </div>
                     </div>
 
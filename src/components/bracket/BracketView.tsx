@@ -3,10 +3,70 @@ import { SingleEliminationBracket, SVGViewer } from '@g-loot/react-tournament-br
 import { useTournamentStore } from '../../store/tournamentStore';
 import { BracketScoreModal } from './BracketScoreModal';
 import { CustomMatch } from './CustomMatch';
-import { BracketMatch as BracketMatchType } from '../../types';
+import { getBracketRoundLabel, isWinnersBracketRound } from '../../engine';
+import { BracketMatch as BracketMatchType, BracketTeam } from '../../types';
 
-export function BracketView() {
-    const { tournament, setViewMode, isHost } = useTournamentStore();
+interface BracketViewProps {
+    socket?: {
+        submitBracketScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, playerTwenties?: Record<string, number>) => void;
+        editBracketScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, playerTwenties?: Record<string, number>) => void;
+    };
+}
+
+interface BracketMatchListProps {
+    title: string;
+    matches: BracketMatchType[];
+    getTeamName: (team: BracketTeam | null) => string;
+    onSelect: (match: BracketMatchType) => void;
+}
+
+// Matches outside the main tree: losers bracket, grand final, lower places and consolation
+function BracketMatchList({ title, matches, getTeamName, onSelect }: BracketMatchListProps) {
+    if (matches.length === 0) return null;
+
+    return (
+        <div className="mt-6">
+            <h3 className="text-sm font-semibold uppercase tracking-wider text-[var(--color-text-muted)] mb-2">{title}</h3>
+            <div className="grid gap-2 sm:grid-cols-2">
+                {matches.map(match => {
+                    const isDone = match.score1 !== null && match.score2 !== null;
+                    const won1 = isDone && match.score1! > match.score2!;
+                    const won2 = isDone && match.score2! > match.score1!;
+                    return (
+                        <button
+                            key={match.id}
+                            onClick={() => onSelect(match)}
+                            disabled={match.skipped}
+                            className="text-left px-3 py-2 rounded bg-[var(--color-bg-tertiary)] border border-[var(--color-border)]
+                                       hover:border-[var(--color-accent)]/50 disabled:opacity-50 disabled:cursor-default transition-colors"
+                        >
+                            <div className="text-[10px] font-medium uppercase tracking-wider text-[var(--color-text-muted)] mb-1">
+                                {getBracketRoundLabel(match.round)} · Match #{match.matchNumber}
+                            </div>
+                            {match.skipped ? (
+                                <div className="text-sm text-[var(--color-text-muted)]">Not needed</div>
+                            ) : (
+                                <>
+                                    <div className={`flex justify-between text-sm ${won1 ? 'text-[var(--color-success)] font-semibold' : ''}`}>
+                                        <span>{getTeamName(match.team1)}</span>
+                                        <span className="font-mono">{match.score1 ?? ''}</span>
+                                    </div>
+                                    <div className={`flex justify-between text-sm ${won2 ? 'text-[var(--color-success)] font-semibold' : ''}`}>
+                                        <span>{getTeamName(match.team2)}</span>
+                                        <span className="font-mono">{match.score2 ?? ''}</span>
+                                    </div>
+                                </>
+                            )}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
+
+export function BracketView({ socket }: BracketViewProps) {
+    const { tournament, setViewMode, isHost, connectedPlayerId } = useTournamentStore();
     const bracketMatches = tournament?.bracketMatches || [];
     const [selectedMatch, setSelectedMatch] = useState<BracketMatchType | null>(null);
 
@@ -21,30 +81,24 @@ export function BracketView() {
 
     const poolIds = Object.keys(matchesByPool).sort();
 
-    // Convert our bracket data to the library's format
-    const convertToLibraryFormat = (matches: BracketMatchType[]) => {
-        const getTeamName = (team: [string, string] | null): string => {
-            if (!team) return 'TBD';
-            const p1 = tournament?.players.find(p => p.id === team[0]);
-            const p2 = tournament?.players.find(p => p.id === team[1]);
-            return `${p1?.name || '?'} & ${p2?.name || '?'}`;
-        };
+    const getTeamName = (team: BracketTeam | null): string => {
+        if (!team) return 'TBD';
+        return team.map(id => tournament?.players.find(p => p.id === id)?.name || '?').join(' & ');
+    };
 
+    // Convert the main bracket tree to the library's format
+    const convertToLibraryFormat = (matches: BracketMatchType[]) => {
         // Map our matches to library format
         const libraryMatches = matches.map((match, idx) => ({
             id: idx,
-            name: match.round === 'final' ? 'Final' : 
-                  match.round === 'third_place' ? '3rd Place' :
-                  match.round.includes('semi') ? 'Semifinal' : 'Quarterfinal',
+            name: getBracketRoundLabel(match.round),
             nextMatchId: null as number | null,
-            tournamentRoundText: match.round === 'final' ? 'Final' : 
-                                 match.round === 'third_place' ? '3rd Place' :
-                                 match.round.includes('semi') ? 'Semifinals' : 'Quarterfinals',
+            tournamentRoundText: getBracketRoundLabel(match.round),
             startTime: '',
             state: (match.score1 !== null && match.score2 !== null) ? 'DONE' : 'SCHEDULED',
             participants: [
                 {
-                    id: match.team1 ? `${match.team1[0]}-${match.team1[1]}` : 'tbd1',
+                    id: match.team1 ? match.team1.join('-') : 'tbd1',
                     resultText: match.score1 !== null ? (match.score1 > (match.score2 || 0) ? 'Won' : 'Lost') : null,
                     isWinner: match.score1 !== null && match.score2 !== null ? match.score1 > match.score2 : false,
                     status: null,
@@ -53,7 +107,7 @@ export function BracketView() {
                     score: match.score1
                 },
                 {
-                    id: match.team2 ? `${match.team2[0]}-${match.team2[1]}` : 'tbd2',
+                    id: match.team2 ? match.team2.join('-') : 'tbd2',
                     resultText: match.score2 !== null ? (match.score2 > (match.score1 || 0) ? 'Won' : 'Lost') : null,
                     isWinner: match.score1 !== null && match.score2 !== null ? match.score2 > match.score1 : false,
                     status: null,
@@ -64,38 +118,11 @@ export function BracketView() {
             ]
         }));
 
-        // Build the bracket structure with proper nextMatchId links
-        const finals = matches.find(m => m.round === 'final');
-        
-        if (finals) {
-            const finalIdx = matches.indexOf(finals);
-            
-            // Link semis to final
-            const s1 = matches.find(m => m.id === finals.sourceMatch1Id);
-            const s2 = matches.find(m => m.id === finals.sourceMatch2Id);
-            
-            if (s1) {
-                const s1Idx = matches.indexOf(s1);
-                libraryMatches[s1Idx].nextMatchId = finalIdx;
-                
-                // Link quarters to semi 1
-                const q1 = matches.find(m => m.id === s1.sourceMatch1Id);
-                const q2 = matches.find(m => m.id === s1.sourceMatch2Id);
-                if (q1) libraryMatches[matches.indexOf(q1)].nextMatchId = s1Idx;
-                if (q2) libraryMatches[matches.indexOf(q2)].nextMatchId = s1Idx;
-            }
-            
-            if (s2) {
-                const s2Idx = matches.indexOf(s2);
-                libraryMatches[s2Idx].nextMatchId = finalIdx;
-                
-                // Link quarters to semi 2
-                const q3 = matches.find(m => m.id === s2.sourceMatch1Id);
-                const q4 = matches.find(m => m.id === s2.sourceMatch2Id);
-                if (q3) libraryMatches[matches.indexOf(q3)].nextMatchId = s2Idx;
-                if (q4) libraryMatches[matches.indexOf(q4)].nextMatchId = s2Idx;
-            }
-        }
+        // Link each match to the one its winner advances to
+        matches.forEach((match, idx) => {
+            const nextIdx = matches.findIndex(m => m.id === match.nextMatchId);
+            if (nextIdx !== -1) libraryMatches[idx].nextMatchId = nextIdx;
+        });
 
         return libraryMatches;
     };
@@ -122,20 +149,41 @@ export function BracketView() {
             {poolIds.map(poolId => {
                 const poolConfig = tournament?.finalsConfig?.poolConfigs.find(c => c.poolId === poolId);
                 const matches = matchesByPool[poolId];
-                const libraryMatches = convertToLibraryFormat(matches);
+                const treeMatches = matches.filter(m => isWinnersBracketRound(m.round));
+                const libraryMatches = convertToLibraryFormat(treeMatches);
 
                 if (matches.length === 0) return null;
 
+                const losersMatches = matches.filter(m => m.round === 'losers_final' || m.round.startsWith('losers_round_'));
+                const grandFinalMatches = matches.filter(m => m.round === 'grand_final' || m.round === 'grand_final_reset');
+                const placementMatches = matches.filter(m =>
+                    ['third_place', 'placement_semifinal', 'fifth_place', 'seventh_place'].includes(m.round)
+                );
+                const consolationMatches = matches.filter(m => m.round.startsWith('consolation_'));
+
                 // Calculate bracket dimensions based on number of rounds
-                const hasQuarters = matches.some(m => m.round.includes('quarter'));
-                const hasSemis = matches.some(m => m.round.includes('semi'));
-                const bracketWidth = hasQuarters ? 1400 : hasSemis ? 1000 : 700;
-                const bracketHeight = hasQuarters ? 500 : 400;
+                const treeRounds = new Set(treeMatches.map(m => m.round)).size;
+                const bracketWidth = treeRounds >= 3 ? 1400 + (treeRounds - 3) * 400 : treeRounds === 2 ? 1000 : 700;
+                const bracketHeight = Math.max(400, 125 * 2 ** Math.max(0, treeRounds - 1));
+
+                const openMatch = (originalMatch: BracketMatchType) => {
+                    // Host can edit any bracket score; online players can report their own games
+                    if (!isHost && !(socket && connectedPlayerId)) return;
+
+                    const isPlayerInMatch = connectedPlayerId !== null &&
+                        (originalMatch?.team1?.includes(connectedPlayerId) || originalMatch?.team2?.includes(connectedPlayerId));
+
+                    if (!isHost && !isPlayerInMatch) return;
+
+                    if (originalMatch && originalMatch.team1 && originalMatch.team2) {
+                        console.log('Opening score modal for:', originalMatch);
+                        setSelectedMatch(originalMatch);
+                    } else {
+                        console.log('Match found but missing teams');
+                    }
+                };
 
                 const handleMatchClick = (match: any) => {
-                    // Only allow host to edit bracket scores
-                    if (!isHost) return;
-                    
                     console.log('Match clicked - full object:', match);
                     console.log('Match properties:', Object.keys(match));
                     console.log('Match.match:', match.match);
@@ -146,16 +194,10 @@ export function BracketView() {
                     console.log('Library match:', libraryMatch);
                     console.log('Looking for match with id:', matchId);
                     
-                    if (matchId !== undefined && matchId < matches.length) {
-                        const originalMatch = matches[matchId];
+                    if (matchId !== undefined && matchId < treeMatches.length) {
+                        const originalMatch = treeMatches[matchId];
                         console.log('Original match found:', originalMatch);
-                        
-                        if (originalMatch && originalMatch.team1 && originalMatch.team2) {
-                            console.log('Opening score modal for:', originalMatch);
-                            setSelectedMatch(originalMatch);
-                        } else {
-                            console.log('Match found but missing teams');
-                        }
+                        openMatch(originalMatch);
                     } else {
                         console.log('Invalid match ID or out of bounds');
                     }
@@ -185,6 +227,11 @@ export function BracketView() {
                                 )}
                             />
                         </div>
+
+                        <BracketMatchList title="Losers Bracket" matches={losersMatches} getTeamName={getTeamName} onSelect={openMatch} />
+                        <BracketMatchList title="Grand Final" matches={grandFinalMatches} getTeamName={getTeamName} onSelect={openMatch} />
+                        <BracketMatchList title="Placement" matches={placementMatches} getTeamName={getTeamName} onSelect={openMatch} />
+                        <BracketMatchList title="Consolation" matches={consolationMatches} getTeamName={getTeamName} onSelect={openMatch} />
                     </div>
                 );
             })}
@@ -192,6 +239,7 @@ export function BracketView() {
             {selectedMatch && (
                 <BracketScoreModal
                     match={selectedMatch}
+                    socket={socket}
                     onClose={() => setSelectedMatch(null)}
                 />
             )}
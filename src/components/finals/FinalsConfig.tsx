@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useTournamentStore } from '../../store/tournamentStore';
-import type { BracketType, PoolBracketConfig } from '../../types';
+import * as Engine from '../../engine';
+import type { BracketTeam, BracketType, ConsolationType, EliminationType, PoolBracketConfig } from '../../types';
 
 interface Pool {
     id: string;
@@ -10,28 +11,41 @@ interface Pool {
 
 interface PoolConfig {
     bracketType: BracketType;
+    teamCount: number; // Custom bracket size
     includeThirdPlace: boolean;
+    elimination: EliminationType;
+    grandFinalReset: boolean;
+    consolation: ConsolationType;
     selectedPlayerIds?: string[]; // Manual player selection
     showCustomize: boolean;
     pairingMode: 'auto' | 'manual';
     manualTeams?: [string, string][]; // Custom teams defined by player IDs
 }
 
-export function FinalsConfig() {
-    const { tournament, generateFinals } = useTournamentStore();
+interface FinalsConfigProps {
+    socket?: {
+        generateBrackets: (poolConfigs?: PoolBracketConfig[]) => void;
+    };
+}
+
+export function FinalsConfig({ socket }: FinalsConfigProps) {
+    const { tournament, generateFinals: localGenerateFinals } = useTournamentStore();
+    const generateFinals = socket ? socket.generateBrackets : localGenerateFinals;
     const [poolConfigs, setPoolConfigs] = useState<Map<string, PoolConfig>>(new Map());
 
     if (!tournament || !tournament.settings.finalsEnabled) {
         return null;
     }
 
-    // Get standings and create pools
-    const standings = useTournamentStore.getState().getStandings();
+    // Get bracket seeding and create pools (only players who advanced; withdrawn players can't play finals)
+    const standings = Engine.getBracketSeeding(tournament).filter(s => s.player.active);
     const poolSize = tournament.settings.poolSize;
+    const isFixed = Engine.isFixedPartnerMode(tournament);
+    const isSingles = Engine.isSinglesFormat(tournament);
+    const perSide = Engine.getPlayersPerSide(tournament);
 
     // Create pools from standings
     const pools: Pool[] = [];
-    const poolNames = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
 
     for (let i = 0; i < standings.length; i += poolSize) {
         const poolPlayers = standings.slice(i, i + poolSize);
@@ -39,7 +53,7 @@ export function FinalsConfig() {
 
         pools.push({
             id: `pool-${poolIndex}`,
-            name: `Pool ${poolNames[poolIndex]}`,
+            name: `Pool ${String.fromCharCode(65 + poolIndex)}`, // Pool A, B...
             players: poolPlayers.map(s => ({
                 id: s.player.id,
                 name: s.player.name,
@@ -48,14 +62,8 @@ export function FinalsConfig() {
         });
     }
 
-    const getRequiredPlayerCount = (bracketType: BracketType): number => {
-        switch (bracketType) {
-            case 'final': return 4;
-            case 'semifinals': return 8;
-            case 'quarterfinals': return 16;
-            default: return 0;
-        }
-    };
+    const getRequiredPlayerCount = (config: Pick<PoolBracketConfig, 'bracketType' | 'teamCount'>): number =>
+        Engine.getBracketTeamCount(config) * perSide;
 
     // Initialize pool configs from existing settings or defaults
     const [isInitialized, setIsInitialized] = useState(false);
@@ -73,17 +81,25 @@ export function FinalsConfig() {
                 if (existing) {
                     newMap.set(pool.id, {
                         bracketType: existing.bracketType,
+                        teamCount: existing.teamCount ?? Engine.getBracketTeamCount(existing),
                         includeThirdPlace: existing.includeThirdPlace,
+                        elimination: existing.elimination ?? 'single',
+                        grandFinalReset: existing.grandFinalReset ?? false,
+                        consolation: existing.consolation ?? 'none',
                         selectedPlayerIds: existing.playerIds,
-                        showCustomize: !!existing.manualTeams || existing.playerIds.length !== getRequiredPlayerCount(existing.bracketType),
+                        showCustomize: !!existing.manualTeams || existing.playerIds.length !== getRequiredPlayerCount(existing),
                         pairingMode: existing.manualTeams ? 'manual' : 'auto',
                         manualTeams: existing.manualTeams
                     });
                 } else if (!newMap.has(pool.id)) {
                     // Default
                     newMap.set(pool.id, {
-                        bracketType: pool.players.length >= 16 ? 'quarterfinals' : pool.players.length >= 8 ? 'semifinals' : 'none',
+                        bracketType: pool.players.length >= 16 * perSide ? 'round_of_16' : pool.players.length >= 8 * perSide ? 'quarterfinals' : pool.players.length >= 4 * perSide ? 'semifinals' : 'none',
+                        teamCount: Math.min(Engine.MAX_BRACKET_TEAMS, Math.floor(pool.players.length / perSide)),
                         includeThirdPlace: false,
+                        elimination: 'single',
+                        grandFinalReset: false,
+                        consolation: 'none',
                         showCustomize: false,
                         pairingMode: 'auto',
                         manualTeams: []
@@ -106,6 +122,15 @@ export function FinalsConfig() {
         });
     };
 
+    const handleTeamCountChange = (poolId: string, teamCount: number) => {
+        setPoolConfigs(prev => {
+            const newMap = new Map(prev);
+            const current = newMap.get(poolId)!;
+            newMap.set(poolId, { ...current, teamCount, selectedPlayerIds: undefined });
+            return newMap;
+        });
+    };
+
     const handleThirdPlaceChange = (poolId: string, includeThirdPlace: boolean) => {
         setPoolConfigs(prev => {
             const newMap = new Map(prev);
@@ -115,6 +140,15 @@ export function FinalsConfig() {
         });
     };
 
+    const handleFormatChange = (poolId: string, updates: Partial<Pick<PoolConfig, 'elimination' | 'grandFinalReset' | 'consolation'>>) => {
+        setPoolConfigs(prev => {
+            const newMap = new Map(prev);
+            const current = newMap.get(poolId)!;
+            newMap.set(poolId, { ...current, ...updates });
+            return newMap;
+        });
+    };
+
     const toggleCustomize = (poolId: string) => {
         setPoolConfigs(prev => {
             const newMap = new Map(prev);
@@ -128,7 +162,7 @@ export function FinalsConfig() {
         setPoolConfigs(prev => {
             const newMap = new Map(prev);
             const current = newMap.get(poolId)!;
-            const requiredCount = getRequiredPlayerCount(current.bracketType);
+            const requiredCount = getRequiredPlayerCount(current);
             const currentSelected = current.selectedPlayerIds || pool.players.slice(0, requiredCount).map(p => p.id);
 
             const newSelected = currentSelected.includes(playerId)
@@ -147,7 +181,7 @@ export function FinalsConfig() {
             // logic to init manualTeams if needed?
             let manualTeams = current.manualTeams || [];
             if (mode === 'manual' && manualTeams.length === 0) {
-                const requiredCount = getRequiredPlayerCount(current.bracketType);
+                const requiredCount = getRequiredPlayerCount(current);
                 const numTeams = requiredCount / 2;
                 manualTeams = Array(numTeams).fill(['', '']);
             }
@@ -180,7 +214,7 @@ export function FinalsConfig() {
     const handleGenerateBrackets = () => {
         const configs: PoolBracketConfig[] = pools.map(pool => {
             const config = poolConfigs.get(pool.id)!;
-            const requiredCount = getRequiredPlayerCount(config.bracketType);
+            const requiredCount = getRequiredPlayerCount(config);
             const playerIds = config.selectedPlayerIds && config.selectedPlayerIds.length === requiredCount
                 ? config.selectedPlayerIds
                 : pool.players.slice(0, requiredCount).map(p => p.id);
@@ -189,8 +223,12 @@ export function FinalsConfig() {
                 poolId: pool.id,
                 poolName: pool.name,
                 bracketType: config.bracketType,
+                teamCount: config.bracketType === 'custom' ? config.teamCount : undefined,
                 playerIds,
                 includeThirdPlace: config.includeThirdPlace,
+                elimination: config.elimination,
+                grandFinalReset: config.grandFinalReset,
+                consolation: config.consolation,
                 manualTeams: config.pairingMode === 'manual' ? config.manualTeams : undefined,
             };
         });
@@ -237,10 +275,26 @@ export function FinalsConfig() {
             </div>
 
             {pools.map(pool => {
-                const config = poolConfigs.get(pool.id) || { bracketType: 'none', includeThirdPlace: false, showCustomize: false, pairingMode: 'auto' } as PoolConfig;
+                const config = poolConfigs.get(pool.id) || { bracketType: 'none', teamCount: 2, includeThirdPlace: false, elimination: 'single', grandFinalReset: false, consolation: 'none', showCustomize: false, pairingMode: 'auto' } as PoolConfig;
                 const playerCount = pool.players.length;
-                const requiredCount = getRequiredPlayerCount(config.bracketType);
+                const requiredCount = getRequiredPlayerCount(config);
                 const selectedIds = config.selectedPlayerIds || pool.players.slice(0, requiredCount).map(p => p.id);
+                const bracketTeamCount = requiredCount / perSide;
+                // Double elimination needs a full bracket with no byes
+                const allowDouble = Engine.canDoubleEliminate(bracketTeamCount);
+                const isDouble = config.elimination === 'double' && allowDouble;
+
+                // Seeding preview: teams as generateBracketMatches will form them
+                const playerName = (id: string) => pool.players.find(p => p.id === id)?.name ?? '?';
+                const selectedInSeedOrder = pool.players.filter(p => selectedIds.includes(p.id)).map(p => p.id);
+                const previewTeams: BracketTeam[] = config.showCustomize && config.pairingMode === 'manual'
+                    ? (config.manualTeams || [])
+                    : Engine.formTeams(tournament, selectedInSeedOrder);
+                const teamLabel = (seed: number) => {
+                    const team = previewTeams[seed - 1];
+                    if (!team) return 'TBD';
+                    return Engine.getPlayerTeam(tournament, team[0])?.name ?? team.map(playerName).join(' & ');
+                };
 
                 return (
                     <div key={pool.id} className="card p-6">
@@ -260,10 +314,28 @@ export function FinalsConfig() {
                                     className="input w-48"
                                 >
                                     <option value="none">No Bracket</option>
-                                    {playerCount >= 4 && <option value="final">Final Only (Top 4)</option>}
-                                    {playerCount >= 8 && <option value="semifinals">Semifinals + Final (Top 8)</option>}
-                                    {playerCount >= 16 && <option value="quarterfinals">Quarterfinals + Semis + Final (Top 16)</option>}
+                                    {playerCount >= 2 * perSide && <option value="final">Final Only (Top {2 * perSide})</option>}
+                                    {playerCount >= 4 * perSide && <option value="semifinals">Semifinals + Final (Top {4 * perSide})</option>}
+                                    {playerCount >= 8 * perSide && <option value="quarterfinals">Quarterfinals + Semis + Final (Top {8 * perSide})</option>}
+                                    {playerCount >= 16 * perSide && <option value="round_of_16">Round of 16 (Top {16 * perSide})</option>}
+                                    {playerCount >= 2 * perSide && <option value="custom">Custom Size (byes for top seeds)</option>}
                                 </select>
+                                {config.bracketType === 'custom' && (
+                                    <label className="flex items-center gap-2 text-sm">
+                                        Teams
+                                        <input
+                                            type="number"
+                                            min={2}
+                                            max={Math.min(Engine.MAX_BRACKET_TEAMS, Math.floor(playerCount / perSide))}
+                                            value={config.teamCount}
+                                            onChange={(e) => handleTeamCountChange(
+                                                pool.id,
+                                                Math.max(2, Math.min(Engine.MAX_BRACKET_TEAMS, Math.floor(playerCount / perSide), parseInt(e.target.value) || 2))
+                                            )}
+                                            className="input w-20 text-center"
+                                        />
+                                    </label>
+                                )}
                             </div>
                         </div>
 
@@ -272,7 +344,7 @@ export function FinalsConfig() {
                             <>
                                 <div className="mb-4 flex items-center justify-between border-b border-[var(--color-border)] pb-2">
                                     <div className="flex gap-4">
-                                        {config.showCustomize && (
+                                        {config.showCustomize && !isFixed && !isSingles && (
                                             <div className="flex gap-2 text-sm bg-[var(--color-bg-tertiary)] p-1 rounded">
                                                 <button
                                                     onClick={() => handlePairingModeChange(pool.id, 'auto')}
@@ -288,7 +360,15 @@ export function FinalsConfig() {
                                                 </button>
                                             </div>
                                         )}
-                                        {!config.showCustomize && (
+                                        {isSingles ? (
+                                            <p className="text-sm text-[var(--color-text-muted)] self-center">
+                                                Players seeded by rank (1v4, 2v3)
+                                            </p>
+                                        ) : isFixed ? (
+                                            <p className="text-sm text-[var(--color-text-muted)] self-center">
+                                                Registered teams, seeded by their higher-ranked partner
+                                            </p>
+                                        ) : !config.showCustomize && (
                                             <p className="text-sm text-[var(--color-text-muted)] self-center">
                                                 Default: High-Low Seeding (1v4, 2v3)
                                             </p>
@@ -367,16 +447,86 @@ export function FinalsConfig() {
                                     </div>
                                 )}
 
-                                <div className="flex items-center gap-2 mb-2">
-                                    <input
-                                        type="checkbox"
-                                        id={`third-${pool.id}`}
-                                        checked={config.includeThirdPlace}
-                                        onChange={(e) => handleThirdPlaceChange(pool.id, e.target.checked)}
-                                        className="rounded border-[var(--color-border)] bg-[var(--color-bg-tertiary)]"
-                                    />
-                                    <label htmlFor={`third-${pool.id}`} className="text-sm">Include 3rd Place Match</label>
+                                {/* Seeding Preview */}
+                                <div className="mb-4">
+                                    <h3 className="text-sm font-semibold mb-2">First Round</h3>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-1 text-sm">
+                                        {Engine.getFirstRoundPairings(bracketTeamCount).map(([seed1, seed2]) => (
+                                            <div key={seed1} className="flex items-center gap-2 px-2 py-1 rounded bg-[var(--color-bg-tertiary)]">
+                                                <span className="font-mono text-xs text-[var(--color-text-muted)] w-6">{seed1}</span>
+                                                <span className="truncate">{teamLabel(seed1)}</span>
+                                                <span className="text-[var(--color-text-muted)] text-xs mx-1">vs</span>
+                                                {seed2 === null ? (
+                                                    <span className="italic text-[var(--color-text-muted)]">Bye</span>
+                                                ) : (
+                                                    <>
+                                                        <span className="font-mono text-xs text-[var(--color-text-muted)] w-6">{seed2}</span>
+                                                        <span className="truncate">{teamLabel(seed2)}</span>
+                                                    </>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
                                 </div>
+
+                                {allowDouble && (
+                                    <div className="flex items-center gap-2 mb-2">
+                                        <label htmlFor={`elimination-${pool.id}`} className="text-sm">Format</label>
+                                        <select
+                                            id={`elimination-${pool.id}`}
+                                            value={config.elimination}
+                                            onChange={(e) => handleFormatChange(pool.id, { elimination: e.target.value as EliminationType })}
+                                            className="input text-sm py-1"
+                                        >
+                                            <option value="single">Single Elimination</option>
+                                            <option value="double">Double Elimination</option>
+                                        </select>
+                                    </div>
+                                )}
+
+                                {isDouble ? (
+                                    <div className="flex items-center gap-2 mb-2">
+                                        <input
+                                            type="checkbox"
+                                            id={`reset-${pool.id}`}
+                                            checked={config.grandFinalReset}
+                                            onChange={(e) => handleFormatChange(pool.id, { grandFinalReset: e.target.checked })}
+                                            className="rounded border-[var(--color-border)] bg-[var(--color-bg-tertiary)]"
+                                        />
+                                        <label htmlFor={`reset-${pool.id}`} className="text-sm">
+                                            Grand Final Reset (replay if the losers bracket champion wins)
+                                        </label>
+                                    </div>
+                                ) : (
+                                    <>
+                                        <div className="flex items-center gap-2 mb-2">
+                                            <input
+                                                type="checkbox"
+                                                id={`third-${pool.id}`}
+                                                checked={config.includeThirdPlace}
+                                                onChange={(e) => handleThirdPlaceChange(pool.id, e.target.checked)}
+                                                className="rounded border-[var(--color-border)] bg-[var(--color-bg-tertiary)]"
+                                            />
+                                            <label htmlFor={`third-${pool.id}`} className="text-sm">Include 3rd Place Match</label>
+                                        </div>
+
+                                        {bracketTeamCount >= 8 && (
+                                            <div className="flex items-center gap-2 mb-2">
+                                                <label htmlFor={`consolation-${pool.id}`} className="text-sm">Lower Places</label>
+                                                <select
+                                                    id={`consolation-${pool.id}`}
+                                                    value={config.consolation}
+                                                    onChange={(e) => handleFormatChange(pool.id, { consolation: e.target.value as ConsolationType })}
+                                                    className="input text-sm py-1"
+                                                >
+                                                    <option value="none">None</option>
+                                                    <option value="placement">Quarterfinal losers play for 5th–8th</option>
+                                                    <option value="consolation">Consolation bracket for first-round losers</option>
+                                                </select>
+                                            </div>
+                                        )}
+                                    </>
+                                )}
                             </>
                         )}
                     </div>
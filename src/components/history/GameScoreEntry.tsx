@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { useTournamentStore } from '../../store/tournamentStore';
+import * as Engine from '../../engine';
+import type { Match, GameScore } from '../../types';
+
+interface GameDraft {
+  points1: string;
+  points2: string;
+  twenties: Record<string, string>;
+}
+
+interface GameScoreEntryProps {
+  match: Match;
+  onSubmit: (games: GameScore[]) => void;
+}
+
+const toDraft = (game?: GameScore): GameDraft => ({
+  points1: game?.points1.toString() ?? '',
+  points2: game?.points2.toString() ?? '',
+  twenties: Object.fromEntries(
+    Object.entries(game?.twenties ?? {}).map(([playerId, count]) => [playerId, count ? count.toString() : ''])
+  ),
+});
+
+// Game-by-game entry: board points for each team and 20s for each player,
+// converted to match points as the games are filled in
+export function GameScoreEntry({ match, onSubmit }: GameScoreEntryProps) {
+  const { tournament, getPlayerById } = useTournamentStore();
+  const gameCount = tournament ? Engine.getGamesPerMatch(tournament.settings) : 4;
+  const [drafts, setDrafts] = useState<GameDraft[]>(() =>
+    Array.from({ length: gameCount }, (_, i) => toDraft(match.games?.[i]))
+  );
+
+  if (!tournament) return null;
+
+  const team1 = match.team1 as string[];
+  const team2 = (match.team2 ?? []) as string[];
+  const initials = (playerId: string) =>
+    (getPlayerById(playerId)?.name ?? '?').split(/\s+/).map((w) => w[0]).join('').slice(0, 3);
+
+  const update = (index: number, updates: Partial<GameDraft>) => {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...updates } : d)));
+  };
+
+  const isFilled = (d: GameDraft) => d.points1 !== '' && d.points2 !== '';
+  const games: GameScore[] = drafts.filter(isFilled).map((d) => ({
+    points1: parseInt(d.points1) || 0,
+    points2: parseInt(d.points2) || 0,
+    twenties: Object.fromEntries(
+      [...team1, ...team2].map((playerId) => [playerId, parseInt(d.twenties[playerId] ?? '') || 0])
+    ),
+  }));
+  const converted = Engine.convertGames(match, games, tournament.settings);
+  // The games have to add up to a valid match score too (e.g. a drawn game can leave a best-of-N undecided)
+  const error = Engine.validateGames(games, tournament.settings)
+    ?? Engine.validateMatchScore(converted.score1, converted.score2, tournament.settings);
+
+  const handleSubmit = () => {
+    if (error) {
+      alert(error);
+      return;
+    }
+    onSubmit(games);
+  };
+
+  const renderSide = (index: number, draft: GameDraft, side: 1 | 2) => {
+    const players = side === 1 ? team1 : team2;
+    const field = side === 1 ? 'points1' : 'points2';
+    return (
+      <div className="flex items-center gap-0.5">
+        <input
+          type="number"
+          min={0}
+          value={draft[field]}
+          onChange={(e) => update(index, { [field]: e.target.value })}
+          className="w-11 h-7 text-center text-sm font-mono font-bold rounded
+                   bg-[var(--color-bg-primary)] border border-[var(--color-border)]
+                   focus:border-[var(--color-accent)] focus:outline-none"
+          placeholder="Pts"
+        />
+        {players.map((playerId) => (
+          <input
+            key={playerId}
+            type="number"
+            min={0}
+            value={draft.twenties[playerId] ?? ''}
+            onChange={(e) => update(index, { twenties: { ...draft.twenties, [playerId]: e.target.value } })}
+            title={`${getPlayerById(playerId)?.name ?? 'Unknown'}'s 20s`}
+            className="w-8 h-7 text-center text-xs font-mono rounded
+                     bg-[var(--color-bg-primary)] border border-[var(--color-border)]
+                     focus:border-[var(--color-accent)] focus:outline-none"
+            placeholder={initials(playerId)}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-1">
+      {drafts.map((draft, index) => (
+        <div key={index} className="flex items-center justify-between gap-1 rounded px-1.5 py-1 bg-[var(--color-bg-tertiary)]">
+          <span className="text-xs text-[var(--color-text-muted)] w-5">G{index + 1}</span>
+          {renderSide(index, draft, 1)}
+          <span className="text-xs text-[var(--color-text-muted)]">–</span>
+          {renderSide(index, draft, 2)}
+        </div>
+      ))}
+      <div className="flex items-center justify-between text-xs text-[var(--color-text-muted)] px-1.5">
+        <span>
+          Match <span className="font-mono text-[var(--color-text-primary)]">{converted.score1}-{converted.score2}</span>
+        </span>
+        <span>
+          20s <span className="font-mono">{converted.twenties1}-{converted.twenties2}</span>
+        </span>
+      </div>
+      <button
+        onClick={handleSubmit}
+        disabled={games.length === 0}
+        className="w-full btn btn-primary text-sm py-1 disabled:opacity-50"
+      >
+        {match.completed ? 'Update' : 'Submit'}
+      </button>
+    </div>
+  );
+}
+
+// Board points of each game on a completed match, e.g. "120-80 · 90-110"
+export function GameScoreSummary({ match }: { match: Match }) {
+  if (!match.games?.length) return null;
+
+  const raw = Engine.getRawPoints(match, 1);
+  const differential = raw ? raw.pointsFor - raw.pointsAgainst : 0;
+
+  return (
+    <div className="flex items-center justify-between gap-2 px-1.5 text-[11px] text-[var(--color-text-muted)]">
+      <span className="font-mono truncate">
+        {match.games.map((g) => `${g.points1}-${g.points2}`).join(' · ')}
+      </span>
+      <span className="font-mono flex-shrink-0" title="Board point differential">
+        {differential > 0 ? '+' : ''}{differential}
+      </span>
+    </div>
+  );
+}
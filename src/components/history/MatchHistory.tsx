@@ -1,14 +1,18 @@
 import { useState, useEffect } from 'react';
 import { useTournamentStore } from '../../store/tournamentStore';
-import type { Match } from '../../types';
+import { ScoreStatusBadge, ScoreReportPanel } from '../round/ScoreReportStatus';
+import { RoundTimer, type RoundTimerSocket } from '../round/RoundTimer';
+import { GameScoreEntry, GameScoreSummary } from './GameScoreEntry';
+import * as Engine from '../../engine';
+import type { Match, ScoreReport, GameScore } from '../../types';
 
 interface MatchHistoryProps {
   socket?: {
-    submitScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number) => void;
-    editScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number) => void;
+    submitScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => void;
+    editScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => void;
     generateNextRound: () => void;
     completeTournament: () => void;
-  };
+  } & RoundTimerSocket;
 }
 
 // Store scores for all matches
@@ -18,9 +22,12 @@ interface MatchScores {
     score2: string;
     twenties1: string;
     twenties2: string;
+    playerTwenties: Record<string, string>; // Per-player 20s (settings.individualTwenties)
   };
 }
 
+type ScoreField = 'score1' | 'score2' | 'twenties1' | 'twenties2';
+
 export function MatchHistory({ socket }: MatchHistoryProps) {
   const { 
     tournament, 
@@ -58,6 +65,9 @@ export function MatchHistory({ socket }: MatchHistoryProps) {
         score2: match.score2?.toString() ?? '',
         twenties1: match.twenties1 ? match.twenties1.toString() : '',
         twenties2: match.twenties2 ? match.twenties2.toString() : '',
+        playerTwenties: Object.fromEntries(
+          Object.entries(match.playerTwenties ?? {}).map(([playerId, count]) => [playerId, count ? count.toString() : ''])
+        ),
       };
     });
     setScores(newScores);
@@ -76,8 +86,24 @@ export function MatchHistory({ socket }: MatchHistoryProps) {
   const currentRoundMatches = getMatchesByRound(tournament.currentRound);
   const allMatchesComplete = currentRoundMatches.every((m) => m.completed);
   const pendingCount = regularMatches.filter(m => !m.completed).length;
+  const disputedCount = regularMatches.filter(m => !m.completed && m.scoreStatus === 'disputed').length;
+  const adjudicationCount = regularMatches.filter(m => !m.completed && m.needsAdjudication).length;
   const isLastRound = tournament.currentRound >= tournament.totalRounds;
-  const pointsPerMatch = tournament.settings.pointsPerMatch || 8;
+  const pointsPerMatch = Engine.getMatchTotal(tournament.settings);
+  const fixedTotal = Engine.isFixedTotal(tournament.settings);
+  const gameEntry = Engine.isGameScoreEntry(tournament.settings);
+  const individualTwenties = Engine.isIndividualTwentiesEntry(tournament.settings);
+
+  // 20s to submit for a match: each player's own count when entered individually
+  const getEnteredTwenties = (match: Match, matchScore: MatchScores[string]) => {
+    if (!individualTwenties) {
+      return { twenties1: parseInt(matchScore.twenties1) || 0, twenties2: parseInt(matchScore.twenties2) || 0, playerTwenties: undefined };
+    }
+    const playerTwenties = Object.fromEntries(
+      [...match.team1, ...(match.team2 ?? [])].map((playerId) => [playerId, parseInt(matchScore.playerTwenties[playerId] ?? '') || 0])
+    );
+    return { ...Engine.sumTeamTwenties(match, playerTwenties), playerTwenties };
+  };
 
   const handleNextRound = () => {
     if (isLastRound) {
@@ -90,15 +116,16 @@ export function MatchHistory({ socket }: MatchHistoryProps) {
   };
 
   // Update individual score
-  const updateScore = (matchId: string, field: keyof MatchScores[string], value: string) => {
+  const updateScore = (matchId: string, field: ScoreField, value: string) => {
     setScores(prev => {
       const newScores = { ...prev };
       if (!newScores[matchId]) {
-        newScores[matchId] = { score1: '', score2: '', twenties1: '', twenties2: '' };
+        newScores[matchId] = { score1: '', score2: '', twenties1: '', twenties2: '', playerTwenties: {} };
       }
       newScores[matchId] = { ...newScores[matchId], [field]: value };
       
-      // Auto-fill other score
+      // Auto-fill other score when the sides always split the full total
+      if (!fixedTotal) return newScores;
       if (field === 'score1') {
         const num = parseInt(value);
         if (!isNaN(num) && num >= 0 && num <= pointsPerMatch) {
@@ -115,22 +142,34 @@ export function MatchHistory({ socket }: MatchHistoryProps) {
     });
   };
 
+  // Update one player's 20s
+  const updatePlayerTwenties = (matchId: string, playerId: string, value: string) => {
+    setScores(prev => {
+      const matchScore = prev[matchId] ?? { score1: '', score2: '', twenties1: '', twenties2: '', playerTwenties: {} };
+      return {
+        ...prev,
+        [matchId]: { ...matchScore, playerTwenties: { ...matchScore.playerTwenties, [playerId]: value } },
+      };
+    });
+  };
+
   // Submit single match
-  const handleSubmitSingle = (matchId: string) => {
+  const handleSubmitSingle = (match: Match) => {
+    const matchId = match.id;
     const matchScore = scores[matchId];
     if (!matchScore) return;
     
     const s1 = parseInt(matchScore.score1) || 0;
     const s2 = parseInt(matchScore.score2) || 0;
-    const t1 = parseInt(matchScore.twenties1) || 0;
-    const t2 = parseInt(matchScore.twenties2) || 0;
+    const { twenties1: t1, twenties2: t2, playerTwenties } = getEnteredTwenties(match, matchScore);
 
-    if (s1 + s2 !== pointsPerMatch) {
-      alert(`Scores must add up to ${pointsPerMatch}`);
+    const error = Engine.validateMatchScore(s1, s2, tournament.settings);
+    if (error) {
+      alert(error);
       return;
     }
 
-    submitScore(matchId, s1, s2, t1, t2);
+    submitScore(matchId, s1, s2, t1, t2, undefined, playerTwenties);
     setEditingMatches(prev => {
       const next = new Set(prev);
       next.delete(matchId);
@@ -138,6 +177,17 @@ export function MatchHistory({ socket }: MatchHistoryProps) {
     });
   };
 
+  // Submit a match entered game by game - match points come from the games
+  const handleSubmitGames = (match: Match, games: GameScore[]) => {
+    const { score1, score2, twenties1, twenties2 } = Engine.convertGames(match, games, tournament.settings);
+    submitScore(match.id, score1, score2, twenties1, twenties2, games);
+    setEditingMatches(prev => {
+      const next = new Set(prev);
+      next.delete(match.id);
+      return next;
+    });
+  };
+
   // Submit all pending matches
   const handleSubmitAll = () => {
     const matchesToSubmit = regularMatches.filter(m => 
@@ -152,8 +202,9 @@ export function MatchHistory({ socket }: MatchHistoryProps) {
       const s1 = parseInt(matchScore.score1) || 0;
       const s2 = parseInt(matchScore.score2) || 0;
       
-      if (s1 + s2 !== pointsPerMatch) {
-        alert(`${match.tableId ? tournament.tables.find(t => t.id === match.tableId)?.name : `Match ${match.id.slice(-4)}`}: Scores must add up to ${pointsPerMatch}`);
+      const error = Engine.validateMatchScore(s1, s2, tournament.settings);
+      if (error) {
+        alert(`${match.tableId ? tournament.tables.find(t => t.id === match.tableId)?.name : `Match ${match.id.slice(-4)}`}: ${error}`);
         return;
       }
     }
@@ -165,11 +216,10 @@ export function MatchHistory({ socket }: MatchHistoryProps) {
       
       const s1 = parseInt(matchScore.score1) || 0;
       const s2 = parseInt(matchScore.score2) || 0;
-      const t1 = parseInt(matchScore.twenties1) || 0;
-      const t2 = parseInt(matchScore.twenties2) || 0;
+      const { twenties1: t1, twenties2: t2, playerTwenties } = getEnteredTwenties(match, matchScore);
       
-      if (s1 + s2 === pointsPerMatch) {
-        submitScore(match.id, s1, s2, t1, t2);
+      if (!Engine.validateMatchScore(s1, s2, tournament.settings)) {
+        submitScore(match.id, s1, s2, t1, t2, undefined, playerTwenties);
       }
     }
     
@@ -177,13 +227,15 @@ export function MatchHistory({ socket }: MatchHistoryProps) {
   };
 
   // Count how many matches have valid scores entered
+  // (game-by-game matches are submitted one at a time)
   const readyToSubmitCount = regularMatches.filter(m => {
+    if (gameEntry) return false;
     if (m.completed && !editingMatches.has(m.id)) return false;
     const matchScore = scores[m.id];
     if (!matchScore) return false;
     const s1 = parseInt(matchScore.score1);
     const s2 = parseInt(matchScore.score2);
-    return !isNaN(s1) && !isNaN(s2) && s1 + s2 === pointsPerMatch;
+    return !isNaN(s1) && !isNaN(s2) && !Engine.validateMatchScore(s1, s2, tournament.settings);
   }).length;
 
   if (maxRound === 0) {
@@ -250,6 +302,16 @@ export function MatchHistory({ socket }: MatchHistoryProps) {
               {pendingCount} pending
             </span>
           )}
+          {isCurrentRound && disputedCount > 0 && (
+            <span className="text-xs bg-red-500/20 text-red-400 px-2 py-1 rounded">
+              {disputedCount} disputed
+            </span>
+          )}
+          {isCurrentRound && adjudicationCount > 0 && (
+            <span className="text-xs bg-red-500/20 text-red-400 px-2 py-1 rounded">
+              {adjudicationCount} over time
+            </span>
+          )}
           
           {/* Submit All Button */}
           {isCurrentRound && readyToSubmitCount > 0 && (
@@ -276,6 +338,11 @@ export function MatchHistory({ socket }: MatchHistoryProps) {
         </div>
       </div>
 
+      {/* Round clock */}
+      {isCurrentRound && (
+        <RoundTimer socket={socket} className="max-w-7xl mx-auto mb-3" />
+      )}
+
       {/* Matches Grid */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-2 max-w-7xl mx-auto">
         {regularMatches.map((match) => (
@@ -283,9 +350,12 @@ export function MatchHistory({ socket }: MatchHistoryProps) {
             key={match.id} 
             match={match} 
             isCurrentRound={isCurrentRound ?? false}
-            scores={scores[match.id] || { score1: '', score2: '', twenties1: '', twenties2: '' }}
+            scores={scores[match.id] || { score1: '', score2: '', twenties1: '', twenties2: '', playerTwenties: {} }}
             updateScore={(field, value) => updateScore(match.id, field, value)}
-            onSubmit={() => handleSubmitSingle(match.id)}
+            updatePlayerTwenties={(playerId, value) => updatePlayerTwenties(match.id, playerId, value)}
+            onSubmit={() => handleSubmitSingle(match)}
+            onSubmitGames={(games) => handleSubmitGames(match, games)}
+            onAcceptReport={(report) => submitScore(match.id, report.score1, report.score2, report.twenties1, report.twenties2, report.games, report.playerTwenties)}
             isEditing={editingMatches.has(match.id)}
             setIsEditing={(editing) => {
               setEditingMatches(prev => {
@@ -326,14 +396,17 @@ export function MatchHistory({ socket }: MatchHistoryProps) {
 interface CompactMatchCardProps {
   match: Match;
   isCurrentRound: boolean;
-  scores: { score1: string; score2: string; twenties1: string; twenties2: string };
-  updateScore: (field: 'score1' | 'score2' | 'twenties1' | 'twenties2', value: string) => void;
+  scores: MatchScores[string];
+  updateScore: (field: ScoreField, value: string) => void;
+  updatePlayerTwenties: (playerId: string, value: string) => void;
   onSubmit: () => void;
+  onSubmitGames: (games: GameScore[]) => void;
+  onAcceptReport: (report: ScoreReport) => void;
   isEditing: boolean;
   setIsEditing: (editing: boolean) => void;
 }
 
-function CompactMatchCard({ match, isCurrentRound, scores, updateScore, onSubmit, isEditing, setIsEditing }: CompactMatchCardProps) {
+function CompactMatchCard({ match, isCurrentRound, scores, updateScore, updatePlayerTwenties, onSubmit, onSubmitGames, onAcceptReport, isEditing, setIsEditing }: CompactMatchCardProps) {
   const { tournament, getPlayerById } = useTournamentStore();
 
   if (!tournament) return null;
@@ -352,8 +425,45 @@ function CompactMatchCard({ match, isCurrentRound, scores, updateScore, onSubmit
   // Check if this is a special match (1v1 or 2v1)
   const isSpecialMatch = match.matchType === '1v1' || match.matchType === '2v1';
   
-  const pointsPerMatch = tournament.settings.pointsPerMatch || 8;
+  const pointsPerMatch = Engine.getMatchTotal(tournament.settings);
   const showEntry = (isCurrentRound && !isComplete) || isEditing;
+  const gameEntry = Engine.isGameScoreEntry(tournament.settings);
+  const individualTwenties = Engine.isIndividualTwentiesEntry(tournament.settings);
+
+  // One 20s box per team, or one per player when 20s are recorded individually
+  const renderTwentiesInputs = (side: 1 | 2) => {
+    const field = side === 1 ? 'twenties1' : 'twenties2';
+    const team = (side === 1 ? match.team1 : match.team2 ?? []) as string[];
+    const inputClass = `h-7 text-center text-sm font-mono rounded 
+                         bg-[var(--color-bg-primary)] border border-[var(--color-border)]
+                         focus:border-[var(--color-accent)] focus:outline-none`;
+
+    if (!individualTwenties) {
+      return (
+        <input
+          type="number"
+          min={0}
+          value={scores[field]}
+          onChange={(e) => updateScore(field, e.target.value)}
+          className={`w-9 ${inputClass}`}
+          placeholder="20s"
+        />
+      );
+    }
+
+    return team.map((playerId) => (
+      <input
+        key={playerId}
+        type="number"
+        min={0}
+        value={scores.playerTwenties[playerId] ?? ''}
+        onChange={(e) => updatePlayerTwenties(playerId, e.target.value)}
+        title={`${getPlayerById(playerId)?.name ?? 'Unknown'}'s 20s`}
+        className={`w-8 ${inputClass}`}
+        placeholder="20s"
+      />
+    ));
+  };
   
   // Determine border and header colors
   const borderColor = isComplete && !isEditing
@@ -384,6 +494,14 @@ function CompactMatchCard({ match, isCurrentRound, scores, updateScore, onSubmit
           {table?.name || `Match ${match.id.slice(-4)}`}
         </span>
         <div className="flex items-center gap-1">
+          {match.needsAdjudication && !isComplete && (
+            <span className="text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded bg-red-500/20 text-red-400">
+              Over time
+            </span>
+          )}
+          {match.scoreStatus && (
+            <ScoreStatusBadge status={match.scoreStatus} />
+          )}
           {isComplete && !isEditing && (
             <span className="text-xs text-[var(--color-bg-primary)]/80">✓</span>
           )}
@@ -408,6 +526,9 @@ function CompactMatchCard({ match, isCurrentRound, scores, updateScore, onSubmit
 
       {/* Content */}
       <div className="p-1.5 bg-[var(--color-bg-secondary)] space-y-1">
+        {/* Pending / disputed player reports */}
+        <ScoreReportPanel match={match} onAccept={onAcceptReport} />
+
         {/* Team 1 Row */}
         <div className={`flex items-center justify-between rounded px-1.5 py-1 ${
           isTeam1Winner ? 'bg-[var(--color-success)]/10' : 'bg-[var(--color-bg-tertiary)]'
@@ -422,7 +543,7 @@ function CompactMatchCard({ match, isCurrentRound, scores, updateScore, onSubmit
               </div>
             )}
           </div>
-          {showEntry ? (
+          {showEntry && !gameEntry ? (
             <div className="flex items-center gap-0.5 flex-shrink-0 ml-1">
               <input
                 type="number"
@@ -435,16 +556,7 @@ function CompactMatchCard({ match, isCurrentRound, scores, updateScore, onSubmit
                          focus:border-[var(--color-accent)] focus:outline-none"
                 placeholder="Pts"
               />
-              <input
-                type="number"
-                min={0}
-                value={scores.twenties1}
-                onChange={(e) => updateScore('twenties1', e.target.value)}
-                className="w-9 h-7 text-center text-sm font-mono rounded 
-                         bg-[var(--color-bg-primary)] border border-[var(--color-border)]
-                         focus:border-[var(--color-accent)] focus:outline-none"
-                placeholder="20s"
-              />
+              {renderTwentiesInputs(1)}
             </div>
           ) : (
             <div className="flex items-center gap-1 flex-shrink-0 ml-1">
@@ -475,7 +587,7 @@ function CompactMatchCard({ match, isCurrentRound, scores, updateScore, onSubmit
               </div>
             )}
           </div>
-          {showEntry ? (
+          {showEntry && !gameEntry ? (
             <div className="flex items-center gap-0.5 flex-shrink-0 ml-1">
               <input
                 type="number"
@@ -488,16 +600,7 @@ function CompactMatchCard({ match, isCurrentRound, scores, updateScore, onSubmit
                          focus:border-[var(--color-accent)] focus:outline-none"
                 placeholder="Pts"
               />
-              <input
-                type="number"
-                min={0}
-                value={scores.twenties2}
-                onChange={(e) => updateScore('twenties2', e.target.value)}
-                className="w-9 h-7 text-center text-sm font-mono rounded 
-                         bg-[var(--color-bg-primary)] border border-[var(--color-border)]
-                         focus:border-[var(--color-accent)] focus:outline-none"
-                placeholder="20s"
-              />
+              {renderTwentiesInputs(2)}
             </div>
           ) : (
             <div className="flex items-center gap-1 flex-shrink-0 ml-1">
@@ -511,8 +614,14 @@ function CompactMatchCard({ match, isCurrentRound, scores, updateScore, onSubmit
           )}
         </div>
 
+        {/* Game-by-game detail */}
+        {!showEntry && <GameScoreSummary match={match} />}
+        {showEntry && gameEntry && (
+          <GameScoreEntry match={match} onSubmit={onSubmitGames} />
+        )}
+
         {/* Submit Button */}
-        {showEntry && (
+        {showEntry && !gameEntry && (
           <button
             onClick={onSubmit}
             className="w-full btn btn-primary text-sm py-1"
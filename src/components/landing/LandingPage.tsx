@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef } from 'react';
 import type { Tournament } from '../../types';
+import { parseRecoveryCode } from '../../utils/playerIdentity';
 
 // Get build info
 const version = typeof __APP_VERSION__ !== 'undefined' ? __APP_VERSION__ : 'dev';
@@ -13,7 +14,7 @@ interface LandingPageProps {
   isConnecting: boolean;
   error: string | null;
   onCreateTournament: (tournamentName: string, totalRounds: number, hostName: string) => void;
-  onJoinTournament: (code: string, playerName: string) => void;
+  onJoinTournament: (code: string, playerName: string, hostSecret?: string) => void;
   onLocalMode: () => void;
   onLoadTournament?: (tournament: Tournament) => void;
   onLoadTournamentOnline?: (tournament: Tournament) => void;
@@ -52,6 +53,8 @@ export function LandingPage({
   // Join form state
   const [joinCode, setJoinCode] = useState('');
   const [playerName, setPlayerName] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const parsedRecoveryCode = parseRecoveryCode(recoveryCode);
 
 
   const handleCreate = (e: React.FormEvent) => {
@@ -68,11 +71,22 @@ export function LandingPage({
 
   const handleJoin = (e: React.FormEvent) => {
     e.preventDefault();
+    // Hosts recovering with their recovery code don't need to enter a name
+    if (parsedRecoveryCode) {
+      onJoinTournament(parsedRecoveryCode.roomCode, playerName.trim(), parsedRecoveryCode.hostSecret);
+      return;
+    }
     if (!joinCode.trim() || !playerName.trim()) return;
 
     onJoinTournament(joinCode.trim().toUpperCase(), playerName.trim());
   };
 
+  const handleRecoveryCodeChange = (value: string) => {
+    setRecoveryCode(value);
+    const parsed = parseRecoveryCode(value);
+    if (parsed) setJoinCode(parsed.roomCode);
+  };
+
   // Handle loading tournament from JSON file
   const handleFileLoad = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -271,6 +285,28 @@ export function LandingPage({
               </div>
             )}
 
+            {/* Archive browser, Club Ratings and Seasons */}
+            <div className="flex items-center justify-center gap-6 mb-6">
+              <a
+                href="/archives"
+                className="text-sm text-[var(--color-accent)] hover:underline font-medium"
+              >
+                📦 Browse Archives
+              </a>
+              <a
+                href="/ratings"
+                className="text-sm text-[var(--color-accent)] hover:underline font-medium"
+              >
+                📈 Club Ratings
+              </a>
+              <a
+                href="/seasons"
+                className="text-sm text-[var(--color-accent)] hover:underline font-medium"
+              >
+                🏆 Seasons
+              </a>
+            </div>
+
             {/* Offline Mode */}
             <div className="text-center">
               <button
@@ -436,21 +472,39 @@ export function LandingPage({
                     type="text"
                     value={playerName}
                     onChange={(e) => setPlayerName(e.target.value)}
-                    placeholder="Enter your name exactly as registered"
+                    placeholder="Enter your name"
                     className="w-full px-4 py-3 bg-[var(--color-bg-tertiary)] border border-[var(--color-border)]
                              rounded-lg text-[var(--color-text-primary)] placeholder-[var(--color-text-muted)]
                              focus:outline-none focus:border-[var(--color-accent)]"
-                    required
+                    required={!parsedRecoveryCode}
+                  />
+                  <p className="text-xs text-[var(--color-text-muted)] mt-2">
+                    To enter scores for your matches, open the personal player link from the host.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-2">
+                    Host Recovery Code <span className="text-[var(--color-text-muted)]">(hosts only)</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={recoveryCode}
+                    onChange={(e) => handleRecoveryCodeChange(e.target.value)}
+                    placeholder="XXXXXX-..."
+                    className="w-full px-4 py-3 bg-[var(--color-bg-tertiary)] border border-[var(--color-border)]
+                             rounded-lg text-[var(--color-text-primary)] placeholder-[var(--color-text-muted)]
+                             focus:outline-none focus:border-[var(--color-accent)] font-mono text-sm"
                   />
                   <p className="text-xs text-[var(--color-text-muted)] mt-2">
-                    Enter your name exactly as the host registered you to enable score entry for your matches.
+                    Regain host rights on this device with the recovery code from the Admin page.
                   </p>
                 </div>
               </div>
 
               <button
                 type="submit"
-                disabled={isDisabledForConnection || !joinCode.trim() || !playerName.trim()}
+                disabled={isDisabledForConnection || (!parsedRecoveryCode && (!joinCode.trim() || !playerName.trim()))}
                 className="w-full py-4 px-6 bg-[var(--color-accent)] hover:bg-[var(--color-accent-hover)] 
                          text-white font-semibold rounded-xl transition-colors mt-8
                          disabled:opacity-50 disabled:cursor-not-allowed tracking-wide"
@@ -1,18 +1,27 @@
 import { useState } from 'react';
 import { useTournamentStore } from '../../store/tournamentStore';
-import type { Match } from '../../types';
+import { ScoreStatusBadge, ScoreReportPanel } from './ScoreReportStatus';
+import * as Engine from '../../engine';
+import type { Match, ScoreReport, GameScore } from '../../types';
 
 interface MatchCardProps {
   match: Match;
+  socket?: {
+    submitScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => void;
+  };
 }
 
-export function MatchCard({ match }: MatchCardProps) {
-  const { tournament, getPlayerById, submitScore } = useTournamentStore();
+export function MatchCard({ match, socket }: MatchCardProps) {
+  const { tournament, getPlayerById, submitScore: localSubmitScore } = useTournamentStore();
+  const submitScore = socket ? socket.submitScore : localSubmitScore;
   const [isEditing, setIsEditing] = useState(!match.completed);
   const [score1, setScore1] = useState<string>(match.score1?.toString() ?? '');
   const [score2, setScore2] = useState<string>(match.score2?.toString() ?? '');
   const [twenties1, setTwenties1] = useState<string>(match.twenties1?.toString() ?? '0');
   const [twenties2, setTwenties2] = useState<string>(match.twenties2?.toString() ?? '0');
+  const [playerTwenties, setPlayerTwenties] = useState<Record<string, string>>(() =>
+    Object.fromEntries(Object.entries(match.playerTwenties ?? {}).map(([playerId, count]) => [playerId, count.toString()]))
+  );
   const [error, setError] = useState<string | null>(null);
 
   if (!tournament) return null;
@@ -27,19 +36,21 @@ export function MatchCard({ match }: MatchCardProps) {
   const isWinnerTeam1 = match.completed && match.score1 !== null && match.score2 !== null && match.score1 > match.score2;
   const isWinnerTeam2 = match.completed && match.score1 !== null && match.score2 !== null && match.score2 > match.score1;
 
-  const pointsPerMatch = tournament.settings.pointsPerMatch;
+  const pointsPerMatch = Engine.getMatchTotal(tournament.settings);
+  const fixedTotal = Engine.isFixedTotal(tournament.settings);
+  const individualTwenties = Engine.isIndividualTwentiesEntry(tournament.settings);
 
   const handleScoreChange = (team: 1 | 2, value: string) => {
     const numValue = parseInt(value);
     
     if (team === 1) {
       setScore1(value);
-      if (!isNaN(numValue) && numValue >= 0 && numValue <= pointsPerMatch) {
+      if (fixedTotal && !isNaN(numValue) && numValue >= 0 && numValue <= pointsPerMatch) {
         setScore2((pointsPerMatch - numValue).toString());
       }
     } else {
       setScore2(value);
-      if (!isNaN(numValue) && numValue >= 0 && numValue <= pointsPerMatch) {
+      if (fixedTotal && !isNaN(numValue) && numValue >= 0 && numValue <= pointsPerMatch) {
         setScore1((pointsPerMatch - numValue).toString());
       }
     }
@@ -49,24 +60,69 @@ export function MatchCard({ match }: MatchCardProps) {
   const handleSubmit = () => {
     const s1 = parseInt(score1);
     const s2 = parseInt(score2);
-    const t1 = parseInt(twenties1) || 0;
-    const t2 = parseInt(twenties2) || 0;
 
     if (isNaN(s1) || isNaN(s2)) {
       setError('Enter valid scores');
       return;
     }
 
-    if (s1 + s2 !== pointsPerMatch) {
-      setError(`Must total ${pointsPerMatch}`);
+    const scoreError = Engine.validateMatchScore(s1, s2, tournament.settings);
+    if (scoreError) {
+      setError(scoreError);
       return;
     }
 
     setError(null);
-    submitScore(match.id, s1, s2, t1, t2);
+    if (individualTwenties) {
+      const counts = Object.fromEntries(
+        [...match.team1, ...(match.team2 ?? [])].map((playerId) => [playerId, parseInt(playerTwenties[playerId] ?? '') || 0])
+      );
+      const { twenties1: t1, twenties2: t2 } = Engine.sumTeamTwenties(match, counts);
+      submitScore(match.id, s1, s2, t1, t2, undefined, counts);
+    } else {
+      submitScore(match.id, s1, s2, parseInt(twenties1) || 0, parseInt(twenties2) || 0);
+    }
     setIsEditing(false);
   };
 
+  const handleAcceptReport = (report: ScoreReport) => {
+    submitScore(match.id, report.score1, report.score2, report.twenties1, report.twenties2, undefined, report.playerTwenties);
+  };
+
+  // 20s inputs for a team: one total, or one per player when recorded individually
+  const renderTwentiesInputs = (side: 1 | 2) => {
+    if (!individualTwenties) {
+      return (
+        <div className="flex flex-col items-center">
+          <input
+            type="number"
+            min={0}
+            value={side === 1 ? twenties1 : twenties2}
+            onChange={(e) => (side === 1 ? setTwenties1 : setTwenties2)(e.target.value)}
+            className="input w-10 text-center text-sm py-1 px-1"
+          />
+          <span className="text-[8px] text-[var(--color-text-muted)]">20s</span>
+        </div>
+      );
+    }
+
+    const team = (side === 1 ? match.team1 : match.team2 ?? []) as string[];
+    return team.map((playerId) => (
+      <div key={playerId} className="flex flex-col items-center">
+        <input
+          type="number"
+          min={0}
+          value={playerTwenties[playerId] ?? ''}
+          onChange={(e) => setPlayerTwenties((prev) => ({ ...prev, [playerId]: e.target.value }))}
+          className="input w-10 text-center text-sm py-1 px-1"
+        />
+        <span className="text-[8px] text-[var(--color-text-muted)] max-w-10 truncate">
+          {getPlayerById(playerId)?.name.split(' ')[0] ?? '20s'}
+        </span>
+      </div>
+    ));
+  };
+
   // Completed match display
   if (match.completed && !isEditing) {
     return (
@@ -74,10 +130,13 @@ export function MatchCard({ match }: MatchCardProps) {
         className="card px-3 py-2 cursor-pointer hover:border-[var(--color-accent)]/50 transition-colors"
         onClick={() => setIsEditing(true)}
       >
-        {/* Table badge */}
-        {table && (
-          <div className="text-[10px] font-medium text-[var(--color-text-muted)] uppercase tracking-wider mb-1">
-            {table.name}
+        {/* Table and confirmation badges */}
+        {(table || match.scoreStatus) && (
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-[10px] font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+              {table?.name}
+            </span>
+            {match.scoreStatus && <ScoreStatusBadge status={match.scoreStatus} />}
           </div>
         )}
         
@@ -111,12 +170,20 @@ export function MatchCard({ match }: MatchCardProps) {
   // Score entry mode
   return (
     <div className="card px-3 py-2">
-      {/* Table badge */}
-      {table && (
-        <div className="text-[10px] font-medium text-[var(--color-text-muted)] uppercase tracking-wider mb-1">
-          {table.name}
+      {/* Table and confirmation badges */}
+      {(table || match.scoreStatus) && (
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-[10px] font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+            {table?.name}
+          </span>
+          {match.scoreStatus && <ScoreStatusBadge status={match.scoreStatus} />}
         </div>
       )}
+
+      {/* Pending / disputed player reports */}
+      <div className="mb-1">
+        <ScoreReportPanel match={match} onAccept={handleAcceptReport} />
+      </div>
       
       {/* Match row with inputs */}
       <div className="flex items-center gap-2">
@@ -136,16 +203,7 @@ export function MatchCard({ match }: MatchCardProps) {
             placeholder="Pts"
             className="input w-14 text-center text-lg font-mono py-1 px-1"
           />
-          <div className="flex flex-col items-center">
-            <input
-              type="number"
-              min={0}
-              value={twenties1}
-              onChange={(e) => setTwenties1(e.target.value)}
-              className="input w-10 text-center text-sm py-1 px-1"
-            />
-            <span className="text-[8px] text-[var(--color-text-muted)]">20s</span>
-          </div>
+          {renderTwentiesInputs(1)}
         </div>
         
         {/* VS */}
@@ -162,16 +220,7 @@ export function MatchCard({ match }: MatchCardProps) {
             placeholder="Pts"
             className="input w-14 text-center text-lg font-mono py-1 px-1"
           />
-          <div className="flex flex-col items-center">
-            <input
-              type="number"
-              min={0}
-              value={twenties2}
-              onChange={(e) => setTwenties2(e.target.value)}
-              className="input w-10 text-center text-sm py-1 px-1"
-            />
-            <span className="text-[8px] text-[var(--color-text-muted)]">20s</span>
-          </div>
+          {renderTwentiesInputs(2)}
         </div>
         
         {/* Team 2 name */}
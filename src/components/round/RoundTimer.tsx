@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { useTournamentStore } from '../../store/tournamentStore';
+import * as Engine from '../../engine';
+import type { RoundTimer as RoundTimerState } from '../../types';
+
+// Round clock controls and state from useSocket (online mode)
+export interface RoundTimerSocket {
+  roundTimer: RoundTimerState | null;
+  clockOffset: number;
+  startRoundTimer: () => void;
+  pauseRoundTimer: () => void;
+  extendRoundTimer: (minutes: number) => void;
+  resetRoundTimer: (minutes?: number) => void;
+}
+
+interface RoundTimerProps {
+  socket?: RoundTimerSocket;
+  size?: 'compact' | 'large';  // large for the projector Schedule view
+  className?: string;
+}
+
+export function RoundTimer({ socket, size = 'compact', className = '' }: RoundTimerProps) {
+  const {
+    tournament,
+    isHost,
+    roundTimer: localRoundTimer,
+    startRoundTimer: localStartRoundTimer,
+    pauseRoundTimer: localPauseRoundTimer,
+    extendRoundTimer: localExtendRoundTimer,
+    resetRoundTimer: localResetRoundTimer,
+    expireRoundTimer: localExpireRoundTimer,
+  } = useTournamentStore();
+
+  const storedTimer = socket ? socket.roundTimer : localRoundTimer;
+  const clockOffset = socket ? socket.clockOffset : 0;
+  const startRoundTimer = socket ? socket.startRoundTimer : localStartRoundTimer;
+  const pauseRoundTimer = socket ? socket.pauseRoundTimer : localPauseRoundTimer;
+  const extendRoundTimer = socket ? socket.extendRoundTimer : localExtendRoundTimer;
+  const resetRoundTimer = socket ? socket.resetRoundTimer : localResetRoundTimer;
+
+  // Ignore a clock left over from an earlier round
+  const timer = storedTimer && tournament && storedTimer.round === tournament.currentRound ? storedTimer : null;
+  const running = timer ? Engine.isTimerRunning(timer) : false;
+
+  const [now, setNow] = useState(() => Date.now() + clockOffset);
+
+  useEffect(() => {
+    setNow(Date.now() + clockOffset);
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now() + clockOffset), 250);
+    return () => clearInterval(interval);
+  }, [running, clockOffset, timer]);
+
+  const remaining = timer ? Engine.getRemainingMs(timer, now) : 0;
+
+  // The server calls time online; locally this device does
+  useEffect(() => {
+    if (!socket && timer && running && remaining === 0) {
+      localExpireRoundTimer();
+    }
+  }, [socket, timer, running, remaining, localExpireRoundTimer]);
+
+  if (!tournament || tournament.status !== 'active') return null;
+
+  const settings = tournament.settings;
+  const roundMinutes = settings.roundTimeMinutes ?? Engine.DEFAULT_ROUND_MINUTES;
+
+  // Nothing to show players until the host starts a clock
+  if (!timer && !isHost) return null;
+
+  const isWarning = timer ? Engine.isTimerWarning(timer, settings, now) : false;
+  const isExpired = timer ? timer.expired || remaining === 0 : false;
+
+  const clockColor = isExpired
+    ? 'text-red-400'
+    : isWarning
+      ? 'text-amber-400'
+      : 'text-[var(--color-text-primary)]';
+
+  const status = !timer
+    ? 'Round clock'
+    : isExpired
+      ? (settings.adjudicateOnTimeout ? 'Time! Unfinished matches go to the host' : 'Time!')
+      : isWarning
+        ? `Final ${Math.ceil(remaining / 60000)} min`
+        : running ? 'Time remaining' : 'Paused';
+
+  const isLarge = size === 'large';
+
+  return (
+    <div className={`flex items-center gap-3 flex-wrap ${isLarge ? 'justify-center' : ''} ${className}`}>
+      <div className={`flex flex-col ${isLarge ? 'items-center' : 'items-start'}`}>
+        <span className={`font-mono font-bold tabular-nums ${clockColor} ${isLarge ? 'text-6xl' : 'text-3xl'} ${isExpired ? 'animate-pulse' : ''}`}>
+          {Engine.formatTimerMs(timer ? remaining : roundMinutes * 60000)}
+        </span>
+        <span className={`uppercase tracking-wider ${isLarge ? 'text-sm' : 'text-xs'} ${isWarning || isExpired ? clockColor : 'text-[var(--color-text-muted)]'}`}>
+          {status}
+        </span>
+      </div>
+
+      {isHost && (
+        <div className="flex items-center gap-2 flex-wrap">
+          {running ? (
+            <button onClick={pauseRoundTimer} className="btn btn-secondary text-sm">
+              Pause
+            </button>
+          ) : (
+            !isExpired && (
+              <button onClick={startRoundTimer} className="btn btn-primary text-sm">
+                {timer && timer.remainingMs < timer.durationMs ? 'Resume' : 'Start Clock'}
+              </button>
+            )
+          )}
+          {timer && (
+            <>
+              <button onClick={() => extendRoundTimer(1)} className="btn btn-secondary text-sm">
+                +1 min
+              </button>
+              <button onClick={() => extendRoundTimer(5)} className="btn btn-secondary text-sm">
+                +5 min
+              </button>
+              <button onClick={() => resetRoundTimer()} className="btn btn-secondary text-sm">
+                Reset
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
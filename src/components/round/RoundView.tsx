@@ -1,11 +1,12 @@
 import { useTournamentStore } from '../../store/tournamentStore';
 import { exportPageToPng } from '../../utils/exportPng';
+import { RoundTimer, type RoundTimerSocket } from './RoundTimer';
 
 interface RoundViewProps {
   socket?: {
     generateNextRound: () => void;
     completeTournament: () => void;
-  };
+  } & RoundTimerSocket;
 }
 
 export function RoundView({ socket }: RoundViewProps) {
@@ -58,6 +59,7 @@ export function RoundView({ socket }: RoundViewProps) {
             }
           </p>
         </div>
+        <RoundTimer socket={socket} />
         <button
           onClick={() => exportPageToPng('round-results-export', `${tournament.name}-round-results`)}
           className="btn btn-secondary text-sm flex items-center gap-2"
@@ -122,7 +124,12 @@ export function RoundView({ socket }: RoundViewProps) {
                     
                     // Check if this is a special match (1v1 or 2v1)
                     const isSpecialMatch = match.matchType === '1v1' || match.matchType === '2v1';
-                    const borderColor = isSpecialMatch ? 'border-cyan-500' : 'border-[var(--color-border)]';
+                    // Unconfirmed player reports take priority so the host can spot them
+                    const borderColor = match.scoreStatus === 'disputed' || (match.needsAdjudication && !match.completed)
+                      ? 'border-red-500'
+                      : match.scoreStatus === 'pending'
+                        ? 'border-yellow-500'
+                        : isSpecialMatch ? 'border-cyan-500' : 'border-[var(--color-border)]';
 
                     return (
                       <div
@@ -223,6 +230,24 @@ export function RoundView({ socket }: RoundViewProps) {
           <span className="px-2 py-0.5 rounded bg-amber-500/20 text-amber-400 font-mono font-bold">4</span>
           <span>Tie</span>
         </div>
+        {tournament.settings.scoreConfirmation && (
+          <>
+            <div className="flex items-center gap-2">
+              <span className="w-4 h-4 rounded border-2 border-yellow-500" />
+              <span>Awaiting confirmation</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="w-4 h-4 rounded border-2 border-red-500" />
+              <span>Disputed</span>
+            </div>
+          </>
+        )}
+        {tournament.settings.adjudicateOnTimeout && (
+          <div className="flex items-center gap-2">
+            <span className="w-4 h-4 rounded border-2 border-red-500" />
+            <span>Over time</span>
+          </div>
+        )}
       </div>
     </div>
   );
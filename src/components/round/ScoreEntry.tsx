@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useTournamentStore } from '../../store/tournamentStore';
+import * as Engine from '../../engine';
 import type { Match } from '../../types';
 
 interface ScoreEntryProps {
@@ -13,6 +14,9 @@ export function ScoreEntry({ match, onComplete }: ScoreEntryProps) {
   const [score2, setScore2] = useState<string>(match.score2?.toString() ?? '');
   const [twenties1, setTwenties1] = useState<string>(match.twenties1?.toString() ?? '0');
   const [twenties2, setTwenties2] = useState<string>(match.twenties2?.toString() ?? '0');
+  const [playerTwenties, setPlayerTwenties] = useState<Record<string, string>>(() =>
+    Object.fromEntries(Object.entries(match.playerTwenties ?? {}).map(([playerId, count]) => [playerId, count.toString()]))
+  );
   const [error, setError] = useState<string | null>(null);
 
   if (!tournament) return null;
@@ -20,13 +24,23 @@ export function ScoreEntry({ match, onComplete }: ScoreEntryProps) {
   const team1Names = match.team1.map((id) => getPlayerById(id)?.name ?? 'Unknown');
   const team2Names = match.team2?.map((id) => getPlayerById(id)?.name ?? 'Unknown') ?? [];
 
-  const pointsPerMatch = tournament.settings.pointsPerMatch;
+  const pointsPerMatch = Engine.getMatchTotal(tournament.settings);
+  const fixedTotal = Engine.isFixedTotal(tournament.settings);
+  const individualTwenties = Engine.isIndividualTwentiesEntry(tournament.settings);
 
   const handleSubmit = () => {
     const s1 = parseInt(score1);
     const s2 = parseInt(score2);
-    const t1 = parseInt(twenties1) || 0;
-    const t2 = parseInt(twenties2) || 0;
+
+    // Per-player counts are summed into the team totals
+    const counts = individualTwenties
+      ? Object.fromEntries(
+        [...match.team1, ...(match.team2 ?? [])].map((playerId) => [playerId, parseInt(playerTwenties[playerId] ?? '') || 0])
+      )
+      : undefined;
+    const { twenties1: t1, twenties2: t2 } = counts
+      ? Engine.sumTeamTwenties(match, counts)
+      : { twenties1: parseInt(twenties1) || 0, twenties2: parseInt(twenties2) || 0 };
 
     // Validation
     if (isNaN(s1) || isNaN(s2)) {
@@ -39,33 +53,70 @@ export function ScoreEntry({ match, onComplete }: ScoreEntryProps) {
       return;
     }
 
-    if (s1 + s2 !== pointsPerMatch) {
-      setError(`Scores must add up to ${pointsPerMatch} (currently ${s1 + s2})`);
+    const scoreError = Engine.validateMatchScore(s1, s2, tournament.settings);
+    if (scoreError) {
+      setError(scoreError);
       return;
     }
 
-    if (t1 < 0 || t2 < 0) {
+    if (t1 < 0 || t2 < 0 || Object.values(counts ?? {}).some((c) => c < 0)) {
       setError('Twenties cannot be negative');
       return;
     }
 
     setError(null);
-    submitScore(match.id, s1, s2, t1, t2);
+    submitScore(match.id, s1, s2, t1, t2, undefined, counts);
     onComplete();
   };
 
+  // One 20s box per team, or one per player when 20s are recorded individually
+  const renderTwentiesInputs = (side: 1 | 2) => {
+    if (!individualTwenties) {
+      return (
+        <div className="w-24">
+          <input
+            type="number"
+            min={0}
+            value={side === 1 ? twenties1 : twenties2}
+            onChange={(e) => (side === 1 ? setTwenties1 : setTwenties2)(e.target.value)}
+            placeholder="20s"
+            className="input text-center"
+          />
+          <span className="text-xs text-[var(--color-text-muted)] block text-center mt-1">20s</span>
+        </div>
+      );
+    }
+
+    const team = (side === 1 ? match.team1 : match.team2 ?? []) as string[];
+    return team.map((playerId) => (
+      <div key={playerId} className="w-20">
+        <input
+          type="number"
+          min={0}
+          value={playerTwenties[playerId] ?? ''}
+          onChange={(e) => setPlayerTwenties((prev) => ({ ...prev, [playerId]: e.target.value }))}
+          placeholder="20s"
+          className="input text-center"
+        />
+        <span className="text-xs text-[var(--color-text-muted)] block text-center mt-1 truncate">
+          {getPlayerById(playerId)?.name ?? 'Unknown'}
+        </span>
+      </div>
+    ));
+  };
+
   const handleScoreChange = (team: 1 | 2, value: string) => {
     const numValue = parseInt(value);
     
     if (team === 1) {
       setScore1(value);
       // Auto-fill other score if valid
-      if (!isNaN(numValue) && numValue >= 0 && numValue <= pointsPerMatch) {
+      if (fixedTotal && !isNaN(numValue) && numValue >= 0 && numValue <= pointsPerMatch) {
         setScore2((pointsPerMatch - numValue).toString());
       }
     } else {
       setScore2(value);
-      if (!isNaN(numValue) && numValue >= 0 && numValue <= pointsPerMatch) {
+      if (fixedTotal && !isNaN(numValue) && numValue >= 0 && numValue <= pointsPerMatch) {
         setScore1((pointsPerMatch - numValue).toString());
       }
     }
@@ -92,17 +143,7 @@ export function ScoreEntry({ match, onComplete }: ScoreEntryProps) {
             />
             <span className="text-xs text-[var(--color-text-muted)] block text-center mt-1">Points</span>
           </div>
-          <div className="w-24">
-            <input
-              type="number"
-              min={0}
-              value={twenties1}
-              onChange={(e) => setTwenties1(e.target.value)}
-              placeholder="20s"
-              className="input text-center"
-            />
-            <span className="text-xs text-[var(--color-text-muted)] block text-center mt-1">20s</span>
-          </div>
+          {renderTwentiesInputs(1)}
         </div>
       </div>
 
@@ -131,17 +172,7 @@ export function ScoreEntry({ match, onComplete }: ScoreEntryProps) {
             />
             <span className="text-xs text-[var(--color-text-muted)] block text-center mt-1">Points</span>
           </div>
-          <div className="w-24">
-            <input
-              type="number"
-              min={0}
-              value={twenties2}
-              onChange={(e) => setTwenties2(e.target.value)}
-              placeholder="20s"
-              className="input text-center"
-            />
-            <span className="text-xs text-[var(--color-text-muted)] block text-center mt-1">20s</span>
-          </div>
+          {renderTwentiesInputs(2)}
         </div>
       </div>
 
@@ -0,0 +1,89 @@
+import { useTournamentStore } from '../../store/tournamentStore';
+import * as Engine from '../../engine';
+import type { Match, ScoreReport, ScoreStatus } from '../../types';
+
+const STATUS_STYLES: Record<ScoreStatus, { label: string; className: string }> = {
+  pending: { label: 'Awaiting confirmation', className: 'bg-yellow-500/20 text-yellow-400' },
+  confirmed: { label: 'Confirmed', className: 'bg-green-500/20 text-green-400' },
+  disputed: { label: 'Disputed', className: 'bg-red-500/20 text-red-400' },
+};
+
+export function ScoreStatusBadge({ status }: { status: ScoreStatus }) {
+  const style = STATUS_STYLES[status];
+  return (
+    <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded ${style.className}`}>
+      {style.label}
+    </span>
+  );
+}
+
+interface ScoreReportPanelProps {
+  match: Match;
+  // Submits a reported score - confirms it for the opposing team, settles a dispute for the host
+  onAccept: (report: ScoreReport) => void;
+}
+
+// Player reports on an unfinished match, with Confirm (opposing team) or Accept (host) buttons
+export function ScoreReportPanel({ match, onAccept }: ScoreReportPanelProps) {
+  const { getPlayerById, connectedPlayerId, isHost } = useTournamentStore();
+
+  if (match.completed || !match.scoreReports?.length) return null;
+
+  const teamNames = (side: 1 | 2) =>
+    (side === 1 ? match.team1 : match.team2 ?? [])
+      .map((id) => getPlayerById(id)?.name ?? 'Unknown')
+      .join(' & ');
+
+  const viewerSide = connectedPlayerId ? Engine.getPlayerSide(match, connectedPlayerId) : null;
+
+  const formatReport = (report: ScoreReport) => {
+    const twenties = report.twenties1 || report.twenties2 ? ` (20s ${report.twenties1}-${report.twenties2})` : '';
+    return `${report.score1}-${report.score2}${twenties}`;
+  };
+
+  if (match.scoreStatus === 'disputed') {
+    return (
+      <div className="rounded px-2 py-1.5 bg-red-500/10 text-xs space-y-1">
+        {match.scoreReports.map((report) => (
+          <div key={report.side} className="flex items-center justify-between gap-2">
+            <span className="text-[var(--color-text-secondary)] truncate">
+              {teamNames(report.side)}: <span className="font-mono">{formatReport(report)}</span>
+            </span>
+            {isHost && (
+              <button
+                onClick={() => onAccept(report)}
+                className="btn btn-secondary text-xs py-0.5 px-2 flex-shrink-0"
+              >
+                Accept
+              </button>
+            )}
+          </div>
+        ))}
+        {!isHost && (
+          <div className="text-red-400">Teams reported different scores. The host will decide.</div>
+        )}
+      </div>
+    );
+  }
+
+  const report = match.scoreReports[0];
+  const canConfirm = viewerSide !== null && viewerSide !== report.side;
+
+  return (
+    <div className="rounded px-2 py-1.5 bg-yellow-500/10 text-xs flex items-center justify-between gap-2">
+      <span className="text-[var(--color-text-secondary)] truncate">
+        {teamNames(report.side)} reported <span className="font-mono">{formatReport(report)}</span>
+      </span>
+      {canConfirm || isHost ? (
+        <button
+          onClick={() => onAccept(report)}
+          className="btn btn-primary text-xs py-0.5 px-2 flex-shrink-0"
+        >
+          {canConfirm ? 'Confirm' : 'Accept'}
+        </button>
+      ) : (
+        <span className="text-[var(--color-text-muted)] flex-shrink-0">Waiting for confirmation</span>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
 import { useMemo, useState } from 'react';
 import { useTournamentStore } from '../../store/tournamentStore';
 import { exportPageToPng } from '../../utils/exportPng';
+import { describeByeValue } from '../../engine';
+import { RoundTimer, type RoundTimerSocket } from '../round/RoundTimer';
 
 interface ScheduleProps {
   socket?: {
     generateNextRound: () => void;
     completeTournament: () => void;
-  };
+  } & RoundTimerSocket;
 }
 
 export function Schedule({ socket }: ScheduleProps) {
@@ -175,6 +177,11 @@ export function Schedule({ socket }: ScheduleProps) {
           )}
         </div>
         
+        {/* Round clock (large for the projector) */}
+        {isCurrentRound && (
+          <RoundTimer socket={socket} size="large" className="mb-2" />
+        )}
+        
         {/* Instruction text */}
         <p className="text-[var(--color-text-muted)] text-sm mb-2">
           Find your name and go to your assigned board
@@ -309,7 +316,7 @@ export function Schedule({ socket }: ScheduleProps) {
                   {getPlayerName(match.team1[0])}
                 </span>
                 <span className="text-[clamp(0.6rem,1.2vw,0.8rem)] text-purple-400/70 mt-1">
-                  4-4 tie
+                  {describeByeValue(tournament.settings)}
                 </span>
               </div>
             </div>
@@ -390,7 +397,7 @@ export function Schedule({ socket }: ScheduleProps) {
               <span className="text-base font-bold text-purple-200">
                 {getPlayerName(match.team1[0])}
               </span>
-              <span className="text-xs text-purple-400/70 ml-2">(4-4 tie)</span>
+              <span className="text-xs text-purple-400/70 ml-2">({describeByeValue(tournament.settings)})</span>
             </div>
           </div>
         ))}
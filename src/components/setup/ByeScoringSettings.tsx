@@ -0,0 +1,120 @@
+import type { ByeScoring, ByeGameCounting, ByeValue, TournamentFormat } from '../../types';
+import { DEFAULT_BYE_SCORING, BYE_VALUE_LABELS } from '../../engine';
+
+interface ByeScoringSettingsProps {
+  scoring: ByeScoring | undefined;
+  format: TournamentFormat | undefined;
+  pointsPerMatch: number;
+  onChange: (scoring: ByeScoring) => void;
+}
+
+type GameCountingKey = 'oneVsOne' | 'twoVsOnePair' | 'twoVsOneSolo';
+
+const GAME_LABELS: Record<GameCountingKey, { name: string; description: string }> = {
+  oneVsOne: {
+    name: '1v1 bye game',
+    description: 'Both players in a 1v1 game',
+  },
+  twoVsOnePair: {
+    name: '2v1 pair',
+    description: 'The two players on the pair side',
+  },
+  twoVsOneSolo: {
+    name: '2v1 solo player',
+    description: 'The player playing alone against a pair',
+  },
+};
+
+export function ByeScoringSettings({ scoring, format, pointsPerMatch, onChange }: ByeScoringSettingsProps) {
+  const current = { ...DEFAULT_BYE_SCORING, ...scoring };
+  const showGames = format !== 'singles';
+
+  const update = (updates: Partial<ByeScoring>) => {
+    onChange({ ...current, ...updates });
+  };
+
+  return (
+    <div className="pt-4 pb-2 border-t border-[var(--color-border)]">
+      <label className="label text-sm mb-2">Bye Scoring</label>
+      <p className="text-xs text-[var(--color-text-muted)] mb-3">
+        What a bye is worth in standings and pairing. Changes apply to byes already given.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+        <div className="flex items-center gap-3 px-3 py-2 rounded bg-[var(--color-bg-tertiary)] text-sm">
+          <div className="flex-1">
+            <span className="text-[var(--color-text-primary)] font-medium">Bye value</span>
+            <p className="text-xs text-[var(--color-text-muted)]">Average uses the player's own match points up to the bye's round</p>
+          </div>
+          <select
+            value={current.value}
+            onChange={(e) => update({ value: e.target.value as ByeValue })}
+            className="input w-36 text-sm"
+          >
+            {(Object.keys(BYE_VALUE_LABELS) as ByeValue[]).map((value) => (
+              <option key={value} value={value}>{BYE_VALUE_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+
+        {current.value === 'fixed' && (
+          <div className="flex items-center gap-3 px-3 py-2 rounded bg-[var(--color-bg-tertiary)] text-sm">
+            <div className="flex-1">
+              <span className="text-[var(--color-text-primary)] font-medium">Bye points</span>
+              <p className="text-xs text-[var(--color-text-muted)]">Points for, out of {pointsPerMatch}</p>
+            </div>
+            <input
+              type="number"
+              min={0}
+              max={pointsPerMatch}
+              value={current.fixedPoints ?? Math.round(pointsPerMatch / 2)}
+              onChange={(e) => update({ fixedPoints: Math.min(pointsPerMatch, Math.max(0, parseInt(e.target.value) || 0)) })}
+              className="input w-24 text-sm"
+            />
+          </div>
+        )}
+
+        {showGames && (Object.keys(GAME_LABELS) as GameCountingKey[]).map((key) => (
+          <div key={key} className="flex items-center gap-3 px-3 py-2 rounded bg-[var(--color-bg-tertiary)] text-sm">
+            <div className="flex-1">
+              <span className="text-[var(--color-text-primary)] font-medium">{GAME_LABELS[key].name}</span>
+              <p className="text-xs text-[var(--color-text-muted)]">{GAME_LABELS[key].description}</p>
+            </div>
+            <select
+              value={current[key]}
+              onChange={(e) => update({ [key]: e.target.value as ByeGameCounting })}
+              className="input w-36 text-sm"
+            >
+              <option value="full">Counts in full</option>
+              <option value="bye">Counts as a bye</option>
+            </select>
+          </div>
+        ))}
+
+        {showGames && current.twoVsOneSolo === 'full' && (
+          <div className="flex items-center gap-3 px-3 py-2 rounded bg-[var(--color-bg-tertiary)] text-sm">
+            <div className="flex-1">
+              <span className="text-[var(--color-text-primary)] font-medium">2v1 solo weighting</span>
+              <p className="text-xs text-[var(--color-text-muted)]">Multiplier on the solo player's points (result still counts)</p>
+            </div>
+            <input
+              type="number"
+              min={0}
+              step={0.25}
+              value={current.soloWeight ?? 1}
+              onChange={(e) => update({ soloWeight: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="input w-24 text-sm"
+            />
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={() => onChange({ ...DEFAULT_BYE_SCORING })}
+        className="btn btn-secondary text-sm"
+      >
+        Reset to Default
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import type { PairingWeights } from '../../types';
+import { DEFAULT_PAIRING_WEIGHTS } from '../../engine';
+
+interface PairingWeightSettingsProps {
+  weights: PairingWeights | undefined;
+  onChange: (weights: PairingWeights) => void;
+}
+
+const WEIGHT_LABELS: Record<keyof PairingWeights, { name: string; description: string }> = {
+  repeatPartner: {
+    name: 'Repeat partner',
+    description: 'Per previous partnership between teammates',
+  },
+  repeatOpponent: {
+    name: 'Repeat opponent',
+    description: 'Per previous meeting between opposing players',
+  },
+  scoreGroupDistance: {
+    name: 'Score gap',
+    description: 'Per point of Score difference between partners or teams',
+  },
+  byeGameRepeat: {
+    name: 'Repeat bye game',
+    description: 'Per previous 1v1/2v1 game for a bye game player',
+  },
+};
+
+export function PairingWeightSettings({ weights, onChange }: PairingWeightSettingsProps) {
+  const current = weights ?? DEFAULT_PAIRING_WEIGHTS;
+
+  const update = (key: keyof PairingWeights, value: string) => {
+    onChange({ ...current, [key]: Math.max(0, parseInt(value) || 0) });
+  };
+
+  return (
+    <div className="pt-4 pb-2 border-t border-[var(--color-border)]">
+      <label className="label text-sm mb-2">Pairing Penalties</label>
+      <p className="text-xs text-[var(--color-text-muted)] mb-3">
+        From Round 2, the pairing with the lowest total penalty is chosen. Higher values are avoided more strongly.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+        {(Object.keys(WEIGHT_LABELS) as (keyof PairingWeights)[]).map((key) => (
+          <div key={key} className="flex items-center gap-3 px-3 py-2 rounded bg-[var(--color-bg-tertiary)] text-sm">
+            <div className="flex-1">
+              <span className="text-[var(--color-text-primary)] font-medium">{WEIGHT_LABELS[key].name}</span>
+              <p className="text-xs text-[var(--color-text-muted)]">{WEIGHT_LABELS[key].description}</p>
+            </div>
+            <input
+              type="number"
+              min={0}
+              value={current[key]}
+              onChange={(e) => update(key, e.target.value)}
+              className="input w-24 text-sm"
+            />
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onChange({ ...DEFAULT_PAIRING_WEIGHTS })}
+        className="btn btn-secondary text-sm"
+      >
+        Reset to Default
+      </button>
+    </div>
+  );
+}
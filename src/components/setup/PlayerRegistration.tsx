@@ -1,36 +1,79 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import type { Player, ClubRatingEntry } from '../../types';
 import { useTournamentStore } from '../../store/tournamentStore';
+import { usePlayerRegistryStore } from '../../store/playerRegistryStore';
+import {
+  isFixedPartnerMode,
+  findRegisteredPlayer,
+  resolveRegisteredPlayer,
+  normalizePlayerName,
+  getRoundOneSeeding,
+} from '../../engine';
 
 interface PlayerRegistrationProps {
   socket?: {
-    addPlayer: (name: string) => void;
+    addPlayer: (name: string, registryId?: string) => void;
     removePlayer: (playerId: string) => void;
+    addTeam: (player1Name: string, player2Name: string, teamName?: string) => void;
+    removeTeam: (teamId: string) => void;
     updatePlayer: (playerId: string, updates: any) => void;
+    withdrawPlayer: (playerId: string) => void;
+    reinstatePlayer: (playerId: string) => void;
   };
 }
 
 export function PlayerRegistration({ socket }: PlayerRegistrationProps) {
-  const { tournament, addPlayer: localAddPlayer, removePlayer: localRemovePlayer, updatePlayer: localUpdatePlayer } = useTournamentStore();
+  const {
+    tournament,
+    addPlayer: localAddPlayer,
+    removePlayer: localRemovePlayer,
+    addTeam: localAddTeam,
+    removeTeam: localRemoveTeam,
+    updatePlayer: localUpdatePlayer,
+    withdrawPlayer: localWithdrawPlayer,
+    reinstatePlayer: localReinstatePlayer,
+  } = useTournamentStore();
   const [newPlayerName, setNewPlayerName] = useState('');
   const [editingPlayerId, setEditingPlayerId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
+  const [newTeam, setNewTeam] = useState({ player1: '', player2: '', name: '' });
+  const [ratingsMessage, setRatingsMessage] = useState<string | null>(null);
+  const { players: registry, sync: syncRegistry } = usePlayerRegistryStore();
   
+  useEffect(() => {
+    syncRegistry();
+  }, [syncRegistry]);
+
   const addPlayer = socket ? socket.addPlayer : localAddPlayer;
   const removePlayer = socket ? socket.removePlayer : localRemovePlayer;
+  const addTeam = socket ? socket.addTeam : localAddTeam;
+  const removeTeam = socket ? socket.removeTeam : localRemoveTeam;
   const updatePlayer = socket ? socket.updatePlayer : localUpdatePlayer;
+  const withdrawPlayer = socket ? socket.withdrawPlayer : localWithdrawPlayer;
+  const reinstatePlayer = socket ? socket.reinstatePlayer : localReinstatePlayer;
 
   if (!tournament) return null;
 
   const handleAddPlayer = () => {
     if (newPlayerName.trim()) {
-      addPlayer(newPlayerName.trim());
+      addPlayer(newPlayerName.trim(), findRegisteredPlayer(registry, newPlayerName)?.id);
       setNewPlayerName('');
     }
   };
 
+  const canAddTeam = !!newTeam.player1.trim() && !!newTeam.player2.trim();
+
+  const handleAddTeam = () => {
+    if (canAddTeam) {
+      addTeam(newTeam.player1.trim(), newTeam.player2.trim(), newTeam.name.trim() || undefined);
+      setNewTeam({ player1: '', player2: '', name: '' });
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
-      handleAddPlayer();
+      if (isFixed) handleAddTeam();
+      else handleAddPlayer();
     }
   };
 
@@ -62,21 +105,257 @@ export function PlayerRegistration({ socket }: PlayerRegistrationProps) {
 
   const canRemove = tournament.status === 'setup';
   const isActive = tournament.status === 'active' || tournament.status === 'finals_setup' || tournament.status === 'finals_active';
-  const canAddPlayers = tournament.status !== 'completed';
+  const canAddPlayers = tournament.status === 'setup' || tournament.status === 'active';
+  const canChangeRoster = tournament.status === 'active'; // Withdraw/reinstate during Swiss rounds
+  const isCheckIn = tournament.status === 'setup' && !!tournament.settings.checkInEnabled;
   const activePlayers = tournament.players.filter(p => p.active);
   const inactivePlayers = tournament.players.filter(p => !p.active);
+  const checkedInCount = tournament.players.filter(p => p.checkedIn).length;
+  const isFixed = isFixedPartnerMode(tournament);
+  const teams = tournament.teams ?? [];
+  const activeTeamCount = teams.filter(t =>
+    t.playerIds.every(id => tournament.players.find(p => p.id === id)?.active)
+  ).length;
+
+  // Club roster suggestions, leaving out anyone already entered
+  const enteredNames = new Set(tournament.players.map(p => normalizePlayerName(p.name)));
+  const enteredIds = new Set(tournament.players.map(p => p.registryId).filter(Boolean));
+  const rosterSuggestions = registry.filter(p =>
+    !p.mergedInto && !enteredIds.has(p.id) && !enteredNames.has(normalizePlayerName(p.name))
+  );
+
+  // Seeds and ratings only matter until Round 1 is paired
+  const showSeeds = tournament.status === 'setup' && getRoundOneSeeding(tournament.settings) !== 'random';
+
+  const handleSeedChange = (playerId: string, value: string) => {
+    const seed = parseInt(value);
+    updatePlayer(playerId, { seed: seed > 0 ? seed : null });
+  };
+
+  // Copy each registered player's current club rating onto the tournament roster
+  const handleLoadRatings = async () => {
+    setRatingsMessage('Loading club ratings...');
+    try {
+      const response = await fetch('/api/ratings');
+      const data = await response.json();
+      if (!data.success) {
+        setRatingsMessage(data.message || 'Failed to load club ratings');
+        return;
+      }
+
+      const ratingById = new Map((data.ratings as ClubRatingEntry[]).map((r) => [r.registryId, r.rating]));
+      let loaded = 0;
+      tournament.players.forEach((p) => {
+        const registered = (p.registryId && resolveRegisteredPlayer(registry, p.registryId))
+          || findRegisteredPlayer(registry, p.name);
+        const rating = registered ? ratingById.get(registered.id) : undefined;
+        if (rating === undefined) return;
+        updatePlayer(p.id, { rating: Math.round(rating) });
+        loaded++;
+      });
+      setRatingsMessage(`Loaded club ratings for ${loaded} of ${tournament.players.length} players`);
+    } catch (error) {
+      setRatingsMessage('Network error. Please try again.');
+    }
+  };
+
+  const handleCheckInAll = () => {
+    tournament.players
+      .filter((p) => !p.checkedIn)
+      .forEach((p) => updatePlayer(p.id, { checkedIn: true }));
+  };
+
+  // Team members are listed without a number and are withdrawn or removed with their team
+  const renderPlayer = (player: Player, index: number | null) => (
+      <div
+        key={player.id}
+        className={`flex items-center justify-between p-3 rounded-lg group transition-all ${
+          player.active 
+            ? 'bg-[var(--color-bg-tertiary)]' 
+            : 'bg-[var(--color-bg-tertiary)]/50 opacity-60'
+        }`}
+      >
+        <div className="flex items-center gap-3 flex-1 min-w-0">
+          {index !== null && (
+            <span className="text-sm text-[var(--color-text-muted)] font-mono w-6 flex-shrink-0">
+              {index + 1}
+            </span>
+          )}
+          {editingPlayerId === player.id ? (
+            <input
+              type="text"
+              value={editingName}
+              onChange={(e) => setEditingName(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              onBlur={handleSaveEdit}
+              autoFocus
+              className="input py-1 px-2 text-sm flex-1 min-w-0"
+            />
+          ) : (
+            <span className={`font-medium truncate ${
+              player.active 
+                ? 'text-[var(--color-text-primary)]' 
+                : 'text-[var(--color-text-muted)] line-through'
+            }`}>
+              {player.name}
+            </span>
+          )}
+          {showSeeds && player.rating !== undefined && (
+            <span className="text-xs text-[var(--color-text-muted)] font-mono flex-shrink-0" title="Club rating">
+              {player.rating}
+            </span>
+          )}
+          {!player.active && (
+            <span className="text-xs px-1.5 py-0.5 rounded bg-red-500/20 text-red-400 flex-shrink-0">
+              {player.withdrawnAfterRound !== undefined ? `withdrew after R${player.withdrawnAfterRound}` : 'inactive'}
+            </span>
+          )}
+          {player.active && player.joinedRound && isActive && (
+            <span className="text-xs px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-400 flex-shrink-0">
+              late entry R{player.joinedRound}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {/* Edit name button - shown during active tournament */}
+          {isActive && editingPlayerId !== player.id && (
+            <button
+              onClick={() => handleStartEdit(player.id, player.name)}
+              className="opacity-0 group-hover:opacity-100 p-1 text-[var(--color-text-muted)] 
+                       hover:text-[var(--color-accent)] transition-all duration-200"
+              title="Edit name"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+            </button>
+          )}
+          {/* Manual seed - shown during setup when Round 1 is seeded */}
+          {showSeeds && (
+            <input
+              type="number"
+              min={1}
+              value={player.seed ?? ''}
+              onChange={(e) => handleSeedChange(player.id, e.target.value)}
+              placeholder="Seed"
+              title="Manual seed (1 = strongest)"
+              className="input py-1 px-2 text-xs w-16"
+            />
+          )}
+          {/* Check-in toggle - shown during setup when check-in is enabled */}
+          {isCheckIn && (
+            <button
+              onClick={() => updatePlayer(player.id, { checkedIn: !player.checkedIn })}
+              className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                player.checkedIn
+                  ? 'bg-[var(--color-success)]/20 text-[var(--color-success)]'
+                  : 'bg-[var(--color-bg-primary)] text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)]'
+              }`}
+              title={player.checkedIn ? 'Undo check-in' : 'Check in player'}
+            >
+              {player.checkedIn ? '✓ Checked in' : 'Check in'}
+            </button>
+          )}
+          {/* Withdraw/Reinstate - shown during Swiss rounds, takes effect from the next round */}
+          {canChangeRoster && index !== null && (
+            <button
+              onClick={() => player.active ? withdrawPlayer(player.id) : reinstatePlayer(player.id)}
+              className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                player.active
+                  ? 'text-[var(--color-text-muted)] hover:text-red-400'
+                  : 'bg-[var(--color-success)]/20 text-[var(--color-success)]'
+              }`}
+              title={player.active ? 'Withdraw player (results are kept)' : 'Reinstate player from the next round'}
+            >
+              {player.active ? 'Withdraw' : 'Reinstate'}
+            </button>
+          )}
+          {/* Remove button - only during setup */}
+          {canRemove && index !== null && (
+            <button
+              onClick={() => removePlayer(player.id)}
+              className="opacity-0 group-hover:opacity-100 p-1 text-[var(--color-text-muted)] 
+                       hover:text-red-400 transition-all duration-200"
+              title="Remove player"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+      </div>
+  );
 
   return (
     <section className="card p-6">
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-xl font-display font-semibold">Players</h2>
-        <span className="text-sm text-[var(--color-text-muted)]">
-          {activePlayers.length} active{inactivePlayers.length > 0 && ` (${inactivePlayers.length} inactive)`}
-        </span>
+        <div className="flex items-center gap-3">
+          {showSeeds && tournament.players.length > 0 && (
+            <button onClick={handleLoadRatings} className="btn btn-secondary text-sm">
+              Load Club Ratings
+            </button>
+          )}
+          {isCheckIn && checkedInCount < tournament.players.length && (
+            <button onClick={handleCheckInAll} className="btn btn-secondary text-sm">
+              Check In All
+            </button>
+          )}
+          <span className="text-sm text-[var(--color-text-muted)]">
+            {isCheckIn
+              ? `${checkedInCount} of ${tournament.players.length} checked in`
+              : isFixed
+                ? <>{activeTeamCount} active teams{teams.length > activeTeamCount && ` (${teams.length - activeTeamCount} inactive)`}</>
+                : <>{activePlayers.length} active{inactivePlayers.length > 0 && ` (${inactivePlayers.length} inactive)`}</>
+            }
+          </span>
+        </div>
       </div>
 
+      {showSeeds && ratingsMessage && (
+        <p className="text-xs text-[var(--color-text-muted)] -mt-4 mb-4">{ratingsMessage}</p>
+      )}
+
+      {/* Add Team Form - fixed partners register together */}
+      {canAddPlayers && isFixed && (
+        <div className="flex flex-wrap gap-3 mb-6">
+          <input
+            type="text"
+            value={newTeam.player1}
+            onChange={(e) => setNewTeam({ ...newTeam, player1: e.target.value })}
+            onKeyDown={handleKeyDown}
+            placeholder={isActive ? "Late team, player 1" : "Player 1"}
+            className="input flex-1 min-w-32"
+          />
+          <input
+            type="text"
+            value={newTeam.player2}
+            onChange={(e) => setNewTeam({ ...newTeam, player2: e.target.value })}
+            onKeyDown={handleKeyDown}
+            placeholder="Player 2"
+            className="input flex-1 min-w-32"
+          />
+          <input
+            type="text"
+            value={newTeam.name}
+            onChange={(e) => setNewTeam({ ...newTeam, name: e.target.value })}
+            onKeyDown={handleKeyDown}
+            placeholder="Team name (optional)"
+            className="input flex-1 min-w-32"
+          />
+          <button
+            onClick={handleAddTeam}
+            disabled={!canAddTeam}
+            className="btn btn-primary"
+          >
+            Add Team
+          </button>
+        </div>
+      )}
+
       {/* Add Player Form - available anytime except when tournament is completed */}
-      {canAddPlayers && (
+      {canAddPlayers && !isFixed && (
         <div className="flex gap-3 mb-6">
           <input
             type="text"
@@ -85,7 +364,15 @@ export function PlayerRegistration({ socket }: PlayerRegistrationProps) {
             onKeyDown={handleKeyDown}
             placeholder={isActive ? "Add late arrival..." : "Enter player name"}
             className="input flex-1"
+            list="player-roster"
           />
+          <datalist id="player-roster">
+            {rosterSuggestions.map((p) => (
+              <option key={p.id} value={p.name}>
+                {p.aliases.length > 0 ? `aka ${p.aliases.join(', ')}` : undefined}
+              </option>
+            ))}
+          </datalist>
           <button
             onClick={handleAddPlayer}
             disabled={!newPlayerName.trim()}
@@ -99,108 +386,89 @@ export function PlayerRegistration({ socket }: PlayerRegistrationProps) {
       {/* Player List */}
       {tournament.players.length === 0 ? (
         <div className="text-center py-8 text-[var(--color-text-muted)]">
-          No players registered yet. Add players above to get started.
+          {isFixed
+            ? 'No teams registered yet. Add teams above to get started.'
+            : 'No players registered yet. Add players above to get started.'}
+        </div>
+      ) : isFixed ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {teams.map((team, index) => {
+            const members = team.playerIds
+              .map(id => tournament.players.find(p => p.id === id))
+              .filter((p): p is Player => !!p);
+            const teamActive = members.every(p => p.active);
+            return (
+              <div key={team.id} className="p-3 rounded-lg border border-[var(--color-border)] group">
+                <div className="flex items-center justify-between gap-3 mb-2">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="text-sm text-[var(--color-text-muted)] font-mono w-6 flex-shrink-0">
+                      {index + 1}
+                    </span>
+                    <span className="font-semibold truncate">{team.name}</span>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {/* Partners withdraw and return together */}
+                    {canChangeRoster && (
+                      <button
+                        onClick={() => members.forEach(p => {
+                          if (teamActive ? p.active : !p.active) {
+                            if (teamActive) withdrawPlayer(p.id);
+                            else reinstatePlayer(p.id);
+                          }
+                        })}
+                        className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                          teamActive
+                            ? 'text-[var(--color-text-muted)] hover:text-red-400'
+                            : 'bg-[var(--color-success)]/20 text-[var(--color-success)]'
+                        }`}
+                        title={teamActive ? 'Withdraw team (results are kept)' : 'Reinstate team from the next round'}
+                      >
+                        {teamActive ? 'Withdraw' : 'Reinstate'}
+                      </button>
+                    )}
+                    {canRemove && (
+                      <button
+                        onClick={() => removeTeam(team.id)}
+                        className="opacity-0 group-hover:opacity-100 p-1 text-[var(--color-text-muted)] 
+                                 hover:text-red-400 transition-all duration-200"
+                        title="Remove team"
+                      >
+                        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {members.map(p => renderPlayer(p, null))}
+                </div>
+              </div>
+            );
+          })}
         </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-          {tournament.players.map((player, index) => (
-            <div
-              key={player.id}
-              className={`flex items-center justify-between p-3 rounded-lg group transition-all ${
-                player.active 
-                  ? 'bg-[var(--color-bg-tertiary)]' 
-                  : 'bg-[var(--color-bg-tertiary)]/50 opacity-60'
-              }`}
-            >
-              <div className="flex items-center gap-3 flex-1 min-w-0">
-                <span className="text-sm text-[var(--color-text-muted)] font-mono w-6 flex-shrink-0">
-                  {index + 1}
-                </span>
-                {editingPlayerId === player.id ? (
-                  <input
-                    type="text"
-                    value={editingName}
-                    onChange={(e) => setEditingName(e.target.value)}
-                    onKeyDown={handleEditKeyDown}
-                    onBlur={handleSaveEdit}
-                    autoFocus
-                    className="input py-1 px-2 text-sm flex-1 min-w-0"
-                  />
-                ) : (
-                  <span className={`font-medium truncate ${
-                    player.active 
-                      ? 'text-[var(--color-text-primary)]' 
-                      : 'text-[var(--color-text-muted)] line-through'
-                  }`}>
-                    {player.name}
-                  </span>
-                )}
-                {!player.active && (
-                  <span className="text-xs px-1.5 py-0.5 rounded bg-red-500/20 text-red-400 flex-shrink-0">
-                    inactive
-                  </span>
-                )}
-              </div>
-              <div className="flex items-center gap-2 flex-shrink-0">
-                {/* Edit name button - shown during active tournament */}
-                {isActive && editingPlayerId !== player.id && (
-                  <button
-                    onClick={() => handleStartEdit(player.id, player.name)}
-                    className="opacity-0 group-hover:opacity-100 p-1 text-[var(--color-text-muted)] 
-                             hover:text-[var(--color-accent)] transition-all duration-200"
-                    title="Edit name"
-                  >
-                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                    </svg>
-                  </button>
-                )}
-                {/* Activate/Deactivate toggle - shown during active tournament */}
-                {isActive && (
-                  <button
-                    onClick={() => updatePlayer(player.id, { active: !player.active })}
-                    className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
-                      player.active ? 'bg-[var(--color-success)]' : 'bg-[var(--color-bg-primary)]'
-                    }`}
-                    title={player.active ? 'Deactivate player' : 'Reactivate player'}
-                  >
-                    <span
-                      className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
-                        player.active ? 'translate-x-4' : 'translate-x-1'
-                      }`}
-                    />
-                  </button>
-                )}
-                {/* Remove button - only during setup */}
-                {canRemove && (
-                  <button
-                    onClick={() => removePlayer(player.id)}
-                    className="opacity-0 group-hover:opacity-100 p-1 text-[var(--color-text-muted)] 
-                             hover:text-red-400 transition-all duration-200"
-                    title="Remove player"
-                  >
-                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                    </svg>
-                  </button>
-                )}
-              </div>
-            </div>
-          ))}
+          {tournament.players.map((player, index) => renderPlayer(player, index))}
         </div>
       )}
 
       {/* Quick Add Multiple - only during setup */}
       {canRemove && (
         <div className="mt-6 pt-6 border-t border-[var(--color-border)]">
-          <QuickAddPlayers addPlayer={addPlayer} />
+          <QuickAddPlayers
+            addPlayer={(name) => addPlayer(name, findRegisteredPlayer(registry, name)?.id)}
+            addTeam={isFixed ? addTeam : undefined}
+          />
         </div>
       )}
       
       {/* Helper text during active tournament */}
       {isActive && (
         <div className="mt-4 text-xs text-[var(--color-text-muted)]">
-          💡 Tip: Click a player name to edit it, or add new players above. New players will join with zero stats.
+          💡 Tip: Click a player name to edit it, or add late {isFixed ? 'teams' : 'arrivals'} above. They join from the next round
+          {tournament.settings.lateEntryScoring === 'byes' ? ' with byes for the rounds they missed' : ' with zero stats'}.
+          Withdrawn players keep their results and can be reinstated.
         </div>
       )}
     </section>
@@ -208,7 +476,12 @@ export function PlayerRegistration({ socket }: PlayerRegistrationProps) {
 }
 
 
-function QuickAddPlayers({ addPlayer }: { addPlayer: (name: string) => void }) {
+interface QuickAddPlayersProps {
+  addPlayer: (name: string) => void;
+  addTeam?: (player1Name: string, player2Name: string) => void; // Fixed partners: one "A & B" team per line
+}
+
+function QuickAddPlayers({ addPlayer, addTeam }: QuickAddPlayersProps) {
   const [bulkText, setBulkText] = useState('');
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -218,7 +491,14 @@ function QuickAddPlayers({ addPlayer }: { addPlayer: (name: string) => void }) {
       .map((n) => n.trim())
       .filter((n) => n.length > 0);
 
-    names.forEach((name) => addPlayer(name));
+    if (addTeam) {
+      names.forEach((line) => {
+        const [player1, player2] = line.split(/\s*[&,+]\s*/);
+        if (player1 && player2) addTeam(player1, player2);
+      });
+    } else {
+      names.forEach((name) => addPlayer(name));
+    }
     setBulkText('');
     setIsExpanded(false);
   };
@@ -229,18 +509,20 @@ function QuickAddPlayers({ addPlayer }: { addPlayer: (name: string) => void }) {
         onClick={() => setIsExpanded(true)}
         className="text-sm text-[var(--color-text-secondary)] hover:text-[var(--color-accent)] transition-colors"
       >
-        Add multiple players at once...
+        {addTeam ? 'Add multiple teams at once...' : 'Add multiple players at once...'}
       </button>
     );
   }
 
   return (
     <div className="space-y-3">
-      <label className="label">Add Multiple Players (one per line)</label>
+      <label className="label">
+        {addTeam ? 'Add Multiple Teams (one per line, partners separated by &)' : 'Add Multiple Players (one per line)'}
+      </label>
       <textarea
         value={bulkText}
         onChange={(e) => setBulkText(e.target.value)}
-        placeholder="Alice&#10;Bob&#10;Carol&#10;Dan"
+        placeholder={addTeam ? 'Alice & Bob\nCarol & Dan' : 'Alice\nBob\nCarol\nDan'}
         rows={6}
         className="input resize-none"
       />
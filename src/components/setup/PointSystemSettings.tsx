@@ -0,0 +1,117 @@
+import type { PointSystem, TournamentSettings } from '../../types';
+import { DEFAULT_POINT_SYSTEM } from '../../engine';
+
+interface PointSystemSettingsProps {
+  pointSystem: PointSystem | undefined;
+  pointsPerMatch: number;
+  disabled: boolean; // Points per match and best-of are fixed once play starts
+  onChange: (settings: Partial<TournamentSettings>) => void;
+}
+
+const RESULT_LABELS: Record<'win' | 'tie' | 'loss', string> = {
+  win: 'Win',
+  tie: 'Tie',
+  loss: 'Loss',
+};
+
+export function PointSystemSettings({ pointSystem, pointsPerMatch, disabled, onChange }: PointSystemSettingsProps) {
+  const current = { ...DEFAULT_POINT_SYSTEM, ...pointSystem };
+  const bestOf = current.bestOf ?? 0;
+
+  const update = (updates: Partial<PointSystem>) => {
+    onChange({ pointSystem: { ...current, ...updates } });
+  };
+
+  // Once play has started only the result values go back to default
+  const reset = () => {
+    if (disabled) {
+      update({ win: DEFAULT_POINT_SYSTEM.win, tie: DEFAULT_POINT_SYSTEM.tie, loss: DEFAULT_POINT_SYSTEM.loss });
+    } else {
+      onChange({ pointSystem: { ...DEFAULT_POINT_SYSTEM }, pointsPerMatch: 8 });
+    }
+  };
+
+  return (
+    <div className="pt-4 pb-2 border-t border-[var(--color-border)]">
+      <label className="label text-sm mb-2">Point System</label>
+      <p className="text-xs text-[var(--color-text-muted)] mb-3">
+        Standings points for each result, and how a match is scored. The default is crokinole's 8 points a match, Win=2, Tie=1.
+      </p>
+
+      <div className="grid grid-cols-3 gap-3 mb-3">
+        {(Object.keys(RESULT_LABELS) as (keyof typeof RESULT_LABELS)[]).map((key) => (
+          <div key={key} className="flex items-center gap-3 px-3 py-2 rounded bg-[var(--color-bg-tertiary)] text-sm">
+            <span className="flex-1 text-[var(--color-text-primary)] font-medium">{RESULT_LABELS[key]}</span>
+            <input
+              type="number"
+              step={0.5}
+              value={current[key]}
+              onChange={(e) => update({ [key]: parseFloat(e.target.value) || 0 })}
+              className="input w-20 text-sm"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+        <div className="flex items-center gap-3 px-3 py-2 rounded bg-[var(--color-bg-tertiary)] text-sm">
+          <div className="flex-1">
+            <span className="text-[var(--color-text-primary)] font-medium">Points per match</span>
+            <p className="text-xs text-[var(--color-text-muted)]">Split between the two sides</p>
+          </div>
+          <input
+            type="number"
+            min={1}
+            value={pointsPerMatch}
+            onChange={(e) => onChange({ pointsPerMatch: Math.max(1, parseInt(e.target.value) || 1) })}
+            disabled={disabled || bestOf > 0}
+            className="input w-24 text-sm"
+          />
+        </div>
+
+        <div className="flex items-center gap-3 px-3 py-2 rounded bg-[var(--color-bg-tertiary)] text-sm">
+          <div className="flex-1">
+            <span className="text-[var(--color-text-primary)] font-medium">Best of</span>
+            <p className="text-xs text-[var(--color-text-muted)]">Scores are games won (0 = off)</p>
+          </div>
+          <input
+            type="number"
+            min={0}
+            step={2}
+            value={bestOf}
+            onChange={(e) => {
+              const games = Math.max(0, parseInt(e.target.value) || 0);
+              update({ bestOf: games > 0 ? games : undefined });
+            }}
+            disabled={disabled}
+            className="input w-24 text-sm"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-3 cursor-pointer mb-3">
+        <input
+          type="checkbox"
+          checked={current.allowPartial}
+          onChange={(e) => update({ allowPartial: e.target.checked })}
+          disabled={bestOf > 0}
+          className="w-5 h-5 rounded border-[var(--color-border)] bg-[var(--color-bg-tertiary)]
+                   text-[var(--color-accent)] focus:ring-[var(--color-accent)] focus:ring-offset-0"
+        />
+        <div className="flex-1">
+          <span className="text-[var(--color-text-primary)]">Allow partial results</span>
+          <p className="text-xs text-[var(--color-text-muted)] mt-0.5">
+            Scores may add up to less than {pointsPerMatch}, e.g. for a match called on time
+          </p>
+        </div>
+      </label>
+
+      <button
+        onClick={reset}
+        className="btn btn-secondary text-sm"
+      >
+        Reset to Default
+      </button>
+    </div>
+  );
+}
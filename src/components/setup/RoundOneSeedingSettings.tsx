@@ -0,0 +1,62 @@
+import type { RoundOneSeeding } from '../../types';
+import { DEFAULT_ROUND_ONE_SEEDING } from '../../engine';
+
+interface RoundOneSeedingSettingsProps {
+  seeding: RoundOneSeeding | undefined;
+  disabled: boolean; // Round 1 has already been paired
+  onChange: (seeding: RoundOneSeeding) => void;
+}
+
+const SEEDING_OPTIONS: { value: RoundOneSeeding; name: string; description: string }[] = [
+  {
+    value: 'random',
+    name: 'Random',
+    description: 'Partners and opponents are drawn blind (default)',
+  },
+  {
+    value: 'balanced',
+    name: 'Balanced',
+    description: 'Strongest players partner the weakest and top seeds start apart',
+  },
+  {
+    value: 'accelerated',
+    name: 'Accelerated',
+    description: 'Top and bottom halves of the field play within their own half, for big fields',
+  },
+];
+
+export function RoundOneSeedingSettings({ seeding, disabled, onChange }: RoundOneSeedingSettingsProps) {
+  const current = seeding ?? DEFAULT_ROUND_ONE_SEEDING;
+
+  return (
+    <div className="pt-4 pb-2 border-t border-[var(--color-border)]">
+      <label className="label text-sm mb-2">Round 1 Seeding</label>
+      <p className="text-xs text-[var(--color-text-muted)] mb-3">
+        Seeded modes order the field by manual seed, then club rating. Set seeds or load ratings in the player list.
+      </p>
+
+      <div className="space-y-2">
+        {SEEDING_OPTIONS.map((option) => (
+          <label
+            key={option.value}
+            className="flex items-start gap-3 cursor-pointer p-2 rounded hover:bg-[var(--color-bg-tertiary)]"
+          >
+            <input
+              type="radio"
+              name="roundOneSeeding"
+              value={option.value}
+              checked={current === option.value}
+              onChange={() => onChange(option.value)}
+              disabled={disabled}
+              className="mt-0.5 w-4 h-4 text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+            />
+            <div className="flex-1">
+              <span className="text-[var(--color-text-primary)] font-medium">{option.name}</span>
+              <p className="text-xs text-[var(--color-text-muted)] mt-0.5">{option.description}</p>
+            </div>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { nanoid } from 'nanoid';
+import type { StageDefinition, TournamentFormat, TournamentSettings } from '../../types';
+import { STAGE_TYPE_LABELS, validateStageDefinitions } from '../../engine';
+
+interface StageSettingsProps {
+  stages: StageDefinition[] | undefined;
+  format: TournamentFormat | undefined;
+  disabled: boolean;
+  onChange: (settings: Partial<TournamentSettings>) => void;
+}
+
+const DEFAULT_PIPELINE: StageDefinition[] = [
+  { id: 'swiss', type: 'swiss', name: 'Swiss', advanceCount: 16 },
+  { id: 'pools', type: 'round_robin', name: 'Pools', advanceCount: 2, advancePerPool: true, poolCount: 2 },
+  { id: 'finals', type: 'bracket', name: 'Finals', advanceCount: null },
+];
+
+export function StageSettings({ stages, format, disabled, onChange }: StageSettingsProps) {
+  const pipeline = stages ?? [];
+  const isCustom = pipeline.length > 0;
+  const error = isCustom ? validateStageDefinitions(pipeline, format) : null;
+  const hasBracket = pipeline.some((s) => s.type === 'bracket');
+
+  // The bracket stage is played by Finals Mode, so keep the two in step
+  const save = (updated: StageDefinition[]) => {
+    onChange({ stages: updated, finalsEnabled: updated.some((s) => s.type === 'bracket') });
+  };
+
+  const update = (index: number, updates: Partial<StageDefinition>) => {
+    save(pipeline.map((s, idx) => (idx === index ? { ...s, ...updates } : s)));
+  };
+
+  const addRoundRobin = () => {
+    const stage: StageDefinition = {
+      id: nanoid(6),
+      type: 'round_robin',
+      name: 'Pools',
+      advanceCount: 2,
+      advancePerPool: true,
+      poolCount: 2,
+    };
+    // Round robins go before the bracket
+    const insertAt = hasBracket ? pipeline.length - 1 : pipeline.length;
+    save([...pipeline.slice(0, insertAt), stage, ...pipeline.slice(insertAt)]);
+  };
+
+  const addBracket = () => {
+    save([...pipeline, { id: nanoid(6), type: 'bracket', name: 'Finals', advanceCount: null }]);
+  };
+
+  return (
+    <div className="pt-4 pb-2 border-t border-[var(--color-border)]">
+      <label className="flex items-center gap-3 cursor-pointer mb-2">
+        <input
+          type="checkbox"
+          checked={isCustom}
+          onChange={(e) => onChange(e.target.checked
+            ? { stages: DEFAULT_PIPELINE.map((s) => ({ ...s })), finalsEnabled: true }
+            : { stages: [] })}
+          disabled={disabled}
+          className="w-5 h-5 rounded border-[var(--color-border)] bg-[var(--color-bg-tertiary)]
+                   text-[var(--color-accent)] focus:ring-[var(--color-accent)] focus:ring-offset-0
+                   disabled:opacity-50 disabled:cursor-not-allowed"
+        />
+        <span className="text-[var(--color-text-primary)]">Multi-stage format</span>
+      </label>
+      <p className="text-xs text-[var(--color-text-muted)] mb-3">
+        {isCustom
+          ? 'Stages are played in order. Each stage sends its top players on to the next.'
+          : 'Swiss rounds, then playoff brackets if Finals Mode is on'}
+      </p>
+
+      {isCustom && (
+        <>
+          <ol className="space-y-1 mb-3">
+            {pipeline.map((stage, idx) => {
+              const isLast = idx === pipeline.length - 1;
+              return (
+                <li
+                  key={stage.id}
+                  className="flex items-center gap-3 flex-wrap px-3 py-2 rounded bg-[var(--color-bg-tertiary)] text-sm"
+                >
+                  <span className="w-5 text-[var(--color-text-muted)]">{idx + 1}.</span>
+                  <input
+                    type="text"
+                    value={stage.name}
+                    onChange={(e) => update(idx, { name: e.target.value })}
+                    disabled={disabled}
+                    className="input w-32 text-sm py-1"
+                  />
+                  <span className="text-xs text-[var(--color-text-muted)] w-28">{STAGE_TYPE_LABELS[stage.type]}</span>
+
+                  {stage.type === 'round_robin' && (
+                    <label className="flex items-center gap-1 text-xs text-[var(--color-text-secondary)]">
+                      Pools
+                      <input
+                        type="number"
+                        min={1}
+                        max={8}
+                        value={stage.poolCount ?? 1}
+                        onChange={(e) => update(idx, { poolCount: Math.max(1, parseInt(e.target.value) || 1) })}
+                        disabled={disabled}
+                        className="input w-14 text-center text-sm py-1 px-1"
+                      />
+                    </label>
+                  )}
+
+                  {!isLast && (
+                    <label className="flex items-center gap-1 text-xs text-[var(--color-text-secondary)]">
+                      Advance
+                      <input
+                        type="number"
+                        min={2}
+                        step={format === 'singles' ? 1 : 2}
+                        value={stage.advanceCount ?? ''}
+                        placeholder="All"
+                        onChange={(e) => update(idx, { advanceCount: e.target.value === '' ? null : parseInt(e.target.value) || null })}
+                        disabled={disabled}
+                        className="input w-16 text-center text-sm py-1 px-1"
+                      />
+                      {stage.type === 'round_robin' && (
+                        <select
+                          value={stage.advancePerPool ? 'pool' : 'total'}
+                          onChange={(e) => update(idx, { advancePerPool: e.target.value === 'pool' })}
+                          disabled={disabled}
+                          className="input text-xs py-1"
+                        >
+                          <option value="pool">per pool</option>
+                          <option value="total">overall</option>
+                        </select>
+                      )}
+                    </label>
+                  )}
+
+                  {idx > 0 && !disabled && (
+                    <button
+                      onClick={() => save(pipeline.filter((_, i) => i !== idx))}
+                      className="ml-auto px-2 text-[var(--color-text-muted)] hover:text-red-400"
+                      title="Remove"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+
+          {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+
+          {!disabled && (
+            <div className="flex items-center gap-3">
+              <button onClick={addRoundRobin} className="btn btn-secondary text-sm">
+                + Round-Robin Pools
+              </button>
+              {!hasBracket && (
+                <button onClick={addBracket} className="btn btn-secondary text-sm">
+                  + Bracket
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
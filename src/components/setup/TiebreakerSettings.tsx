@@ -0,0 +1,102 @@
+import type { Tiebreaker } from '../../types';
+import { DEFAULT_TIEBREAKERS, TIEBREAKER_LABELS } from '../../engine';
+
+interface TiebreakerSettingsProps {
+  tiebreakers: Tiebreaker[] | undefined;
+  onChange: (tiebreakers: Tiebreaker[]) => void;
+}
+
+const ALL_TIEBREAKERS = Object.keys(TIEBREAKER_LABELS) as Tiebreaker[];
+
+export function TiebreakerSettings({ tiebreakers, onChange }: TiebreakerSettingsProps) {
+  const chain = tiebreakers ?? DEFAULT_TIEBREAKERS;
+  const available = ALL_TIEBREAKERS.filter((t) => !chain.includes(t));
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= chain.length) return;
+    const updated = [...chain];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    onChange(updated);
+  };
+
+  const remove = (index: number) => {
+    onChange(chain.filter((_, idx) => idx !== index));
+  };
+
+  const add = (tiebreaker: Tiebreaker) => {
+    onChange([...chain, tiebreaker]);
+  };
+
+  return (
+    <div className="pt-4 pb-2 border-t border-[var(--color-border)]">
+      <label className="label text-sm mb-2">Tiebreakers</label>
+      <p className="text-xs text-[var(--color-text-muted)] mb-3">
+        Players on the same Score are ranked by these tiebreakers, in order
+      </p>
+
+      <ol className="space-y-1 mb-3">
+        <li className="flex items-center gap-3 px-3 py-2 rounded bg-[var(--color-bg-tertiary)] text-sm">
+          <span className="w-5 text-[var(--color-text-muted)]">—</span>
+          <span className="flex-1 text-[var(--color-accent)] font-medium">Score (W×2 + T×1)</span>
+        </li>
+        {chain.map((tiebreaker, idx) => (
+          <li
+            key={tiebreaker}
+            className="flex items-center gap-3 px-3 py-2 rounded bg-[var(--color-bg-tertiary)] text-sm"
+          >
+            <span className="w-5 text-[var(--color-text-muted)]">{idx + 1}.</span>
+            <div className="flex-1">
+              <span className="text-[var(--color-text-primary)] font-medium">{TIEBREAKER_LABELS[tiebreaker].name}</span>
+              <p className="text-xs text-[var(--color-text-muted)]">{TIEBREAKER_LABELS[tiebreaker].description}</p>
+            </div>
+            <button
+              onClick={() => move(idx, -1)}
+              disabled={idx === 0}
+              className="px-2 text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)] disabled:opacity-30"
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => move(idx, 1)}
+              disabled={idx === chain.length - 1}
+              className="px-2 text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)] disabled:opacity-30"
+              title="Move down"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => remove(idx)}
+              className="px-2 text-[var(--color-text-muted)] hover:text-red-400"
+              title="Remove"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex items-center gap-3">
+        {available.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => add(e.target.value as Tiebreaker)}
+            className="input w-56 text-sm"
+          >
+            <option value="" disabled>+ Add tiebreaker</option>
+            {available.map((t) => (
+              <option key={t} value={t}>{TIEBREAKER_LABELS[t].name}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => onChange([...DEFAULT_TIEBREAKERS])}
+          className="btn btn-secondary text-sm"
+        >
+          Reset to Default
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,27 @@ import { useState, useRef } from 'react';
 import { useTournamentStore } from '../../store/tournamentStore';
 import { PlayerRegistration } from './PlayerRegistration';
 import { TableSetup } from './TableSetup';
+import { TiebreakerSettings } from './TiebreakerSettings';
+import { PairingWeightSettings } from './PairingWeightSettings';
+import { ByeScoringSettings } from './ByeScoringSettings';
+import { PointSystemSettings } from './PointSystemSettings';
+import { RoundOneSeedingSettings } from './RoundOneSeedingSettings';
+import { StageSettings } from './StageSettings';
+import {
+  applyCheckIn,
+  getMinimumPlayers,
+  getPlayersPerSide,
+  MAX_BRACKET_TEAMS,
+  getStageDefinitions,
+  validateStageDefinitions,
+  isGameScoreEntry,
+  getGamesPerMatch,
+  describeByeValue,
+  isBestOf,
+  getMatchTotal,
+  DEFAULT_ROUND_MINUTES,
+  DEFAULT_TIMER_WARNING_MINUTES,
+} from '../../engine';
 import type { Tournament, Match } from '../../types';
 import { nanoid } from 'nanoid';
 import type { Socket } from 'socket.io-client';
@@ -9,9 +30,13 @@ import type { Socket } from 'socket.io-client';
 interface TournamentSetupProps {
   socket?: {
     socket: Socket | null;
-    addPlayer: (name: string) => void;
+    addPlayer: (name: string, registryId?: string) => void;
     removePlayer: (playerId: string) => void;
+    addTeam: (player1Name: string, player2Name: string, teamName?: string) => void;
+    removeTeam: (teamId: string) => void;
     updatePlayer: (playerId: string, updates: any) => void;
+    withdrawPlayer: (playerId: string) => void;
+    reinstatePlayer: (playerId: string) => void;
     updateSettings: (settings: any) => void;
     updateTournamentName: (name: string) => void;
     updateTotalRounds: (rounds: number) => void;
@@ -77,7 +102,7 @@ export function TournamentSetup({ socket }: TournamentSetupProps) {
   };
 
   const handleStartTournament = () => {
-    if (tournament && tournament.players.length >= 4) {
+    if (tournament && tournament.players.length >= getMinimumPlayers(tournament)) {
       startTournament();
       // Navigate to Schedule after starting
       useTournamentStore.getState().setViewMode('schedule');
@@ -104,6 +129,7 @@ export function TournamentSetup({ socket }: TournamentSetupProps) {
           id: json.id || nanoid(8),
           name: json.name || 'Imported Tournament',
           players: json.players,
+          teams: json.teams,
           matches: json.matches || [],
           tables: json.tables || [],
           currentRound: json.currentRound || (json.matches?.length > 0 ? Math.max(...json.matches.map((m: Match) => m.round)) : 0),
@@ -205,8 +231,15 @@ export function TournamentSetup({ socket }: TournamentSetupProps) {
     setTimeout(() => setImportMessage(null), 3000);
   };
 
-  const canStart = tournament && tournament.players.length >= 4 && tournament.status === 'setup';
-  const playerCountValid = tournament ? tournament.players.length >= 4 : false;
+  // With check-in enabled, only checked-in players are paired in Round 1
+  const startingPlayerCount = tournament ? applyCheckIn(tournament).filter((p) => p.active).length : 0;
+  const stageError = tournament ? validateStageDefinitions(getStageDefinitions(tournament), tournament.settings.format) : null;
+  const minimumPlayers = tournament ? getMinimumPlayers(tournament) : 4;
+  const canStart = tournament && startingPlayerCount >= minimumPlayers && tournament.status === 'setup' && !stageError;
+  const playerCountValid = startingPlayerCount >= minimumPlayers;
+  const isSingles = tournament?.settings.format === 'singles';
+  // A pool can hold the largest bracket
+  const maxPoolSize = tournament ? MAX_BRACKET_TEAMS * getPlayersPerSide(tournament) : 16;
 
   return (
     <div className="max-w-4xl mx-auto p-6 space-y-8">
@@ -479,12 +512,76 @@ export function TournamentSetup({ socket }: TournamentSetupProps) {
                 </span>
               </label>
 
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={tournament.settings.scoreConfirmation ?? false}
+                  onChange={(e) => updateSettings({ scoreConfirmation: e.target.checked })}
+                  className="w-5 h-5 rounded border-[var(--color-border)] bg-[var(--color-bg-tertiary)] 
+                           text-[var(--color-accent)] focus:ring-[var(--color-accent)] focus:ring-offset-0"
+                />
+                <div className="flex-1">
+                  <span className="text-[var(--color-text-primary)]">
+                    Require the opposing team to confirm player-entered scores
+                  </span>
+                  {tournament.settings.scoreConfirmation && (
+                    <p className="text-xs text-[var(--color-text-muted)] mt-0.5">
+                      Scores entered by players stay pending until the other team confirms them. Mismatched reports are flagged for the host.
+                    </p>
+                  )}
+                </div>
+              </label>
+
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isGameScoreEntry(tournament.settings)}
+                  onChange={(e) => updateSettings({ scoreEntry: e.target.checked ? 'games' : 'totals' })}
+                  className="w-5 h-5 rounded border-[var(--color-border)] bg-[var(--color-bg-tertiary)]
+                           text-[var(--color-accent)] focus:ring-[var(--color-accent)] focus:ring-offset-0"
+                />
+                <div className="flex-1">
+                  <span className="text-[var(--color-text-primary)]">
+                    Enter scores game by game
+                  </span>
+                  {isGameScoreEntry(tournament.settings) && (
+                    <p className="text-xs text-[var(--color-text-muted)] mt-0.5">
+                      Record {isBestOf(tournament.settings) ? 'up to' : 'each of'} the {getGamesPerMatch(tournament.settings)} games' board points and every player's 20s. {isBestOf(tournament.settings)
+                        ? 'Each game won counts as one, and play stops once a side has won the match.'
+                        : 'Games convert to match points automatically (win 2, tie 1, loss 0).'}
+                    </p>
+                  )}
+                </div>
+              </label>
+
+              {tournament.settings.format !== 'singles' && !isGameScoreEntry(tournament.settings) && (
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={tournament.settings.individualTwenties ?? false}
+                    onChange={(e) => updateSettings({ individualTwenties: e.target.checked })}
+                    className="w-5 h-5 rounded border-[var(--color-border)] bg-[var(--color-bg-tertiary)]
+                             text-[var(--color-accent)] focus:ring-[var(--color-accent)] focus:ring-offset-0"
+                  />
+                  <div className="flex-1">
+                    <span className="text-[var(--color-text-primary)]">
+                      Record 20s for each player
+                    </span>
+                    {tournament.settings.individualTwenties && (
+                      <p className="text-xs text-[var(--color-text-muted)] mt-0.5">
+                        Score entry asks for each partner's 20s, so the 20s leaderboard credits the player who shot them. Matches entered before this was on keep crediting the team total to both partners.
+                      </p>
+                    )}
+                  </div>
+                </label>
+              )}
+
               <label className="flex items-center gap-3 cursor-pointer">
                 <input
                   type="checkbox"
                   checked={tournament.settings.finalsEnabled}
                   onChange={(e) => updateSettings({ finalsEnabled: e.target.checked })}
-                  disabled={tournament.status === 'finals_setup' || tournament.status === 'finals_active' || tournament.finalsConfig?.configured}
+                  disabled={tournament.status === 'finals_setup' || tournament.status === 'finals_active' || tournament.finalsConfig?.configured || (tournament.settings.stages?.length ?? 0) > 0}
                   className="w-5 h-5 rounded border-[var(--color-border)] bg-[var(--color-bg-tertiary)] 
                            text-[var(--color-accent)] focus:ring-[var(--color-accent)] focus:ring-offset-0
                            disabled:opacity-50 disabled:cursor-not-allowed"
@@ -501,25 +598,179 @@ export function TournamentSetup({ socket }: TournamentSetupProps) {
                 </div>
               </label>
 
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={tournament.settings.checkInEnabled ?? false}
+                  onChange={(e) => updateSettings({ checkInEnabled: e.target.checked })}
+                  disabled={tournament.status !== 'setup'}
+                  className="w-5 h-5 rounded border-[var(--color-border)] bg-[var(--color-bg-tertiary)] 
+                           text-[var(--color-accent)] focus:ring-[var(--color-accent)] focus:ring-offset-0
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+                />
+                <div className="flex-1">
+                  <span className="text-[var(--color-text-primary)]">
+                    Require player check-in
+                  </span>
+                  {tournament.settings.checkInEnabled && (
+                    <p className="text-xs text-[var(--color-text-muted)] mt-1">
+                      Only checked-in players are paired in Round 1. No-shows can be reinstated later as late entrants
+                    </p>
+                  )}
+                </div>
+              </label>
+
+              <div className="pt-4 pb-2 border-t border-[var(--color-border)]">
+                <label className="label text-sm mb-2">Format</label>
+                <p className="text-xs text-[var(--color-text-muted)] mb-3">
+                  Two players a side, or one-on-one games throughout
+                </p>
+                <div className="flex gap-2">
+                  {(['doubles', 'singles'] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => updateSettings({ format })}
+                      disabled={tournament.status !== 'setup' || (format === 'singles' && (tournament.teams?.length ?? 0) > 0)}
+                      className={`px-4 py-2 rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                        (tournament.settings.format ?? 'doubles') === format
+                          ? 'bg-[var(--color-accent)] text-white'
+                          : 'bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
+                      }`}
+                    >
+                      {format === 'doubles' ? 'Doubles' : 'Singles'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {!isSingles && (
+                <div className="pt-4 pb-2 border-t border-[var(--color-border)]">
+                  <label className="label text-sm mb-2">Partners</label>
+                  <p className="text-xs text-[var(--color-text-muted)] mb-3">
+                    {tournament.players.length > 0
+                      ? 'Remove all players to change how partners are chosen'
+                      : 'Whether players get a new partner each round or register as a team'}
+                  </p>
+                  <div className="space-y-2">
+                    <label className="flex items-start gap-3 cursor-pointer p-2 rounded hover:bg-[var(--color-bg-tertiary)]">
+                      <input
+                        type="radio"
+                        name="partnerMode"
+                        value="rotating"
+                        checked={(tournament.settings.partnerMode ?? 'rotating') === 'rotating'}
+                        onChange={() => updateSettings({ partnerMode: 'rotating' })}
+                        disabled={tournament.status !== 'setup' || tournament.players.length > 0}
+                        className="mt-0.5 w-4 h-4 text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                      />
+                      <div className="flex-1">
+                        <span className="text-[var(--color-text-primary)] font-medium">Rotating partners</span>
+                        <p className="text-xs text-[var(--color-text-muted)] mt-0.5">
+                          Partners are drawn each round, avoiding repeats (default)
+                        </p>
+                      </div>
+                    </label>
+
+                    <label className="flex items-start gap-3 cursor-pointer p-2 rounded hover:bg-[var(--color-bg-tertiary)]">
+                      <input
+                        type="radio"
+                        name="partnerMode"
+                        value="fixed"
+                        checked={tournament.settings.partnerMode === 'fixed'}
+                        onChange={() => updateSettings({ partnerMode: 'fixed' })}
+                        disabled={tournament.status !== 'setup' || tournament.players.length > 0}
+                        className="mt-0.5 w-4 h-4 text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                      />
+                      <div className="flex-1">
+                        <span className="text-[var(--color-text-primary)] font-medium">Fixed partners</span>
+                        <p className="text-xs text-[var(--color-text-muted)] mt-0.5">
+                          Teams register together and play every round and the finals as a unit. An odd team out gets a bye
+                        </p>
+                      </div>
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              {!isSingles && tournament.settings.partnerMode !== 'fixed' && (
+                <div className="pt-4 pb-2 border-t border-[var(--color-border)]">
+                  <label className="label text-sm mb-2">Bye Game Mode</label>
+                  <p className="text-xs text-[var(--color-text-muted)] mb-3">
+                    How to handle leftover players when count doesn't divide evenly by 4
+                  </p>
+                  <div className="space-y-2">
+                    <label className="flex items-start gap-3 cursor-pointer p-2 rounded hover:bg-[var(--color-bg-tertiary)]">
+                      <input
+                        type="radio"
+                        name="byeGameMode"
+                        value="byes_only"
+                        checked={tournament.settings.byeGameMode === 'byes_only'}
+                        onChange={(e) => updateSettings({ byeGameMode: e.target.value as any })}
+                        className="mt-0.5 w-4 h-4 text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                      />
+                      <div className="flex-1">
+                        <span className="text-[var(--color-text-primary)] font-medium">Regular byes only</span>
+                        <p className="text-xs text-[var(--color-text-muted)] mt-0.5">
+                          Leftover players sit out (default)
+                        </p>
+                      </div>
+                    </label>
+
+                    <label className="flex items-start gap-3 cursor-pointer p-2 rounded hover:bg-[var(--color-bg-tertiary)]">
+                      <input
+                        type="radio"
+                        name="byeGameMode"
+                        value="1v1_2v1"
+                        checked={tournament.settings.byeGameMode === '1v1_2v1'}
+                        onChange={(e) => updateSettings({ byeGameMode: e.target.value as any })}
+                        className="mt-0.5 w-4 h-4 text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                      />
+                      <div className="flex-1">
+                        <span className="text-[var(--color-text-primary)] font-medium">1v1 / 2v1 games</span>
+                        <p className="text-xs text-[var(--color-text-muted)] mt-0.5">
+                          2 leftover: 1v1 match • 3 leftover: 2v1 match
+                        </p>
+                      </div>
+                    </label>
+
+                    <label className="flex items-start gap-3 cursor-pointer p-2 rounded hover:bg-[var(--color-bg-tertiary)]">
+                      <input
+                        type="radio"
+                        name="byeGameMode"
+                        value="1v1_1v1bye"
+                        checked={tournament.settings.byeGameMode === '1v1_1v1bye'}
+                        onChange={(e) => updateSettings({ byeGameMode: e.target.value as any })}
+                        className="mt-0.5 w-4 h-4 text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                      />
+                      <div className="flex-1">
+                        <span className="text-[var(--color-text-primary)] font-medium">1v1 / 1v1+bye games</span>
+                        <p className="text-xs text-[var(--color-text-muted)] mt-0.5">
+                          2 leftover: 1v1 match • 3 leftover: 1v1 match + 1 bye
+                        </p>
+                      </div>
+                    </label>
+                  </div>
+                </div>
+              )}
+
               <div className="pt-4 pb-2 border-t border-[var(--color-border)]">
-                <label className="label text-sm mb-2">Bye Game Mode</label>
+                <label className="label text-sm mb-2">Late Entry Scoring</label>
                 <p className="text-xs text-[var(--color-text-muted)] mb-3">
-                  How to handle leftover players when count doesn't divide evenly by 4
+                  How players added after Round 1 are credited for the rounds they missed
                 </p>
                 <div className="space-y-2">
                   <label className="flex items-start gap-3 cursor-pointer p-2 rounded hover:bg-[var(--color-bg-tertiary)]">
                     <input
                       type="radio"
-                      name="byeGameMode"
-                      value="byes_only"
-                      checked={tournament.settings.byeGameMode === 'byes_only'}
-                      onChange={(e) => updateSettings({ byeGameMode: e.target.value as any })}
+                      name="lateEntryScoring"
+                      value="zero_record"
+                      checked={(tournament.settings.lateEntryScoring ?? 'zero_record') === 'zero_record'}
+                      onChange={() => updateSettings({ lateEntryScoring: 'zero_record' })}
                       className="mt-0.5 w-4 h-4 text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
                     />
                     <div className="flex-1">
-                      <span className="text-[var(--color-text-primary)] font-medium">Regular byes only</span>
+                      <span className="text-[var(--color-text-primary)] font-medium">Zero record</span>
                       <p className="text-xs text-[var(--color-text-muted)] mt-0.5">
-                        Leftover players sit out (default)
+                        Late entrants start at 0-0-0 (default)
                       </p>
                     </div>
                   </label>
@@ -527,49 +778,118 @@ export function TournamentSetup({ socket }: TournamentSetupProps) {
                   <label className="flex items-start gap-3 cursor-pointer p-2 rounded hover:bg-[var(--color-bg-tertiary)]">
                     <input
                       type="radio"
-                      name="byeGameMode"
-                      value="1v1_2v1"
-                      checked={tournament.settings.byeGameMode === '1v1_2v1'}
-                      onChange={(e) => updateSettings({ byeGameMode: e.target.value as any })}
+                      name="lateEntryScoring"
+                      value="byes"
+                      checked={tournament.settings.lateEntryScoring === 'byes'}
+                      onChange={() => updateSettings({ lateEntryScoring: 'byes' })}
                       className="mt-0.5 w-4 h-4 text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
                     />
                     <div className="flex-1">
-                      <span className="text-[var(--color-text-primary)] font-medium">1v1 / 2v1 games</span>
+                      <span className="text-[var(--color-text-primary)] font-medium">Byes for missed rounds</span>
                       <p className="text-xs text-[var(--color-text-muted)] mt-0.5">
-                        2 leftover: 1v1 match • 3 leftover: 2v1 match
+                        Each missed round counts as a bye ({describeByeValue(tournament.settings)}), so late entrants don't get another bye early
                       </p>
                     </div>
                   </label>
+                </div>
+              </div>
 
-                  <label className="flex items-start gap-3 cursor-pointer p-2 rounded hover:bg-[var(--color-bg-tertiary)]">
+              <div className="pt-4 pb-2 border-t border-[var(--color-border)]">
+                <label className="label text-sm mb-2">Round Clock</label>
+                <p className="text-xs text-[var(--color-text-muted)] mb-3">
+                  Start the clock from the Schedule, Matches or Score Summary page. Every connected device shows the same countdown
+                </p>
+                <div className="flex flex-wrap gap-6 mb-3">
+                  <div>
+                    <label className="text-xs text-[var(--color-text-secondary)] block mb-1">Round length (minutes)</label>
                     <input
-                      type="radio"
-                      name="byeGameMode"
-                      value="1v1_1v1bye"
-                      checked={tournament.settings.byeGameMode === '1v1_1v1bye'}
-                      onChange={(e) => updateSettings({ byeGameMode: e.target.value as any })}
-                      className="mt-0.5 w-4 h-4 text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                      type="number"
+                      min={1}
+                      max={180}
+                      value={tournament.settings.roundTimeMinutes ?? DEFAULT_ROUND_MINUTES}
+                      onChange={(e) => {
+                        const value = Math.max(1, Math.min(180, parseInt(e.target.value) || DEFAULT_ROUND_MINUTES));
+                        updateSettings({ roundTimeMinutes: value });
+                      }}
+                      className="input w-24"
                     />
-                    <div className="flex-1">
-                      <span className="text-[var(--color-text-primary)] font-medium">1v1 / 1v1+bye games</span>
-                      <p className="text-xs text-[var(--color-text-muted)] mt-0.5">
-                        2 leftover: 1v1 match • 3 leftover: 1v1 match + 1 bye
-                      </p>
-                    </div>
-                  </label>
+                  </div>
+                  <div>
+                    <label className="text-xs text-[var(--color-text-secondary)] block mb-1">Warn at (minutes left, 0 = off)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={60}
+                      value={tournament.settings.timerWarningMinutes ?? DEFAULT_TIMER_WARNING_MINUTES}
+                      onChange={(e) => {
+                        const value = Math.max(0, Math.min(60, parseInt(e.target.value) || 0));
+                        updateSettings({ timerWarningMinutes: value });
+                      }}
+                      className="input w-24"
+                    />
+                  </div>
                 </div>
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={tournament.settings.adjudicateOnTimeout ?? false}
+                    onChange={(e) => updateSettings({ adjudicateOnTimeout: e.target.checked })}
+                    className="w-5 h-5 rounded border-[var(--color-border)] bg-[var(--color-bg-tertiary)] 
+                             text-[var(--color-accent)] focus:ring-[var(--color-accent)] focus:ring-offset-0"
+                  />
+                  <span className="text-[var(--color-text-primary)]">
+                    Flag unfinished matches for the host when time runs out
+                  </span>
+                </label>
               </div>
 
+              <TiebreakerSettings
+                tiebreakers={tournament.settings.tiebreakers}
+                onChange={(tiebreakers) => updateSettings({ tiebreakers })}
+              />
+
+              <RoundOneSeedingSettings
+                seeding={tournament.settings.roundOneSeeding}
+                disabled={tournament.status !== 'setup'}
+                onChange={(roundOneSeeding) => updateSettings({ roundOneSeeding })}
+              />
+
+              <PairingWeightSettings
+                weights={tournament.settings.pairingWeights}
+                onChange={(pairingWeights) => updateSettings({ pairingWeights })}
+              />
+
+              <PointSystemSettings
+                pointSystem={tournament.settings.pointSystem}
+                pointsPerMatch={tournament.settings.pointsPerMatch}
+                disabled={tournament.status !== 'setup'}
+                onChange={updateSettings}
+              />
+
+              <ByeScoringSettings
+                scoring={tournament.settings.byeScoring}
+                format={tournament.settings.format}
+                pointsPerMatch={getMatchTotal(tournament.settings)}
+                onChange={(byeScoring) => updateSettings({ byeScoring })}
+              />
+
+              <StageSettings
+                stages={tournament.settings.stages}
+                format={tournament.settings.format}
+                disabled={tournament.status !== 'setup'}
+                onChange={updateSettings}
+              />
+
               <div className="pt-2">
 
                 <label className="label text-sm">Pool Size (for analysis & finals)</label>
                 <input
                   type="number"
                   min={4}
-                  max={16}
+                  max={maxPoolSize}
                   value={tournament.settings.poolSize}
                   onChange={(e) => {
-                    const value = Math.max(4, Math.min(16, parseInt(e.target.value) || 8));
+                    const value = Math.max(4, Math.min(maxPoolSize, parseInt(e.target.value) || 8));
                     updateSettings({ poolSize: value });
                   }}
                   className="input w-24"
@@ -594,9 +914,15 @@ export function TournamentSetup({ socket }: TournamentSetupProps) {
                 <div>
                   <h3 className="text-lg font-display font-semibold">Ready to Start?</h3>
                   <p className="text-sm text-[var(--color-text-secondary)] mt-1">
-                    {playerCountValid
-                      ? `${tournament.players.length} players registered - you can start the tournament`
-                      : `Need at least 4 players (currently ${tournament.players.length})`
+                    {stageError
+                      ? `Fix the stage format first: ${stageError}`
+                      : tournament.settings.checkInEnabled
+                        ? playerCountValid
+                          ? `${startingPlayerCount} of ${tournament.players.length} players checked in - you can start the tournament`
+                          : `Need at least ${minimumPlayers} checked-in players (currently ${startingPlayerCount})`
+                        : playerCountValid
+                          ? `${tournament.players.length} players registered - you can start the tournament`
+                          : `Need at least ${minimumPlayers} players (currently ${tournament.players.length})`
                     }
                   </p>
                 </div>
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useTournamentStore } from '../../store/tournamentStore';
+import * as Engine from '../../engine';
 import type { ViewMode } from '../../types';
 
 const navItems: { mode: ViewMode; label: string; requiresTournament: boolean; large?: boolean; hostOnly?: boolean; activeModes?: ViewMode[] }[] = [
@@ -8,6 +9,7 @@ const navItems: { mode: ViewMode; label: string; requiresTournament: boolean; la
   { mode: 'history', label: 'Score Entry', requiresTournament: true },
   { mode: 'rounds', label: 'Round Results', requiresTournament: true },
   { mode: 'standings', label: 'Standings', requiresTournament: true },
+  { mode: 'stages', label: 'Stages', requiresTournament: true },
   { mode: 'bracket', label: 'Playoffs', requiresTournament: true, activeModes: ['finals_config', 'bracket'] },
   { mode: 'analysis', label: 'Analysis', requiresTournament: true },
   { mode: 'admin', label: 'Admin', requiresTournament: true, hostOnly: true },
@@ -73,6 +75,7 @@ export function Header({ connectedCount, isOnline, isConnected, isHost: isHostPr
               {tournament && (
                 <p className="text-xs text-[var(--color-text-muted)]">
                   Round {tournament.currentRound} of {tournament.totalRounds}
+                  {tournament.status === 'stage_active' && ` - ${Engine.getCurrentStage(tournament)?.name}`}
                   {tournament.status === 'completed' && ' - Complete'}
                 </p>
               )}
@@ -93,6 +96,11 @@ export function Header({ connectedCount, isOnline, isConnected, isHost: isHostPr
                 return null;
               }
 
+              // Stages only matter for pipelines with round-robin pools
+              if (item.mode === 'stages' && !tournament?.settings.stages?.some((s) => s.type === 'round_robin')) {
+                return null;
+              }
+
               return (
                 <button
                   key={item.mode}
@@ -0,0 +1,398 @@
+import { useState } from 'react';
+import { useTournamentStore } from '../../store/tournamentStore';
+import * as Engine from '../../engine';
+import { ScoreStatusBadge, ScoreReportPanel } from '../round/ScoreReportStatus';
+import { GameScoreEntry, GameScoreSummary } from '../history/GameScoreEntry';
+import type { GameScore, Match, ScoreReport, TournamentStage } from '../../types';
+
+interface StageViewProps {
+  socket?: {
+    submitStageScore: (stageId: string, matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => void;
+    completeStage: () => void;
+  };
+}
+
+export function StageView({ socket }: StageViewProps) {
+  const {
+    tournament,
+    isHost,
+    submitStageScore: localSubmitStageScore,
+    completeStage: localCompleteStage,
+  } = useTournamentStore();
+  const submitStageScore = socket ? socket.submitStageScore : localSubmitStageScore;
+  const completeStage = socket ? socket.completeStage : localCompleteStage;
+  const [selectedStageId, setSelectedStageId] = useState<string | null>(null);
+
+  if (!tournament) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-[var(--color-text-muted)]">No tournament in progress</p>
+      </div>
+    );
+  }
+
+  const definitions = Engine.getStageDefinitions(tournament);
+  const stages = Engine.getStages(tournament);
+  const roundRobins = stages.filter((s) => s.type === 'round_robin');
+  const stage = roundRobins.find((s) => s.id === selectedStageId) ?? roundRobins[roundRobins.length - 1];
+  const definition = stage ? definitions.find((d) => d.id === stage.id) : undefined;
+  const nextDefinition = Engine.getNextStageDefinition(tournament);
+
+  const stageState = (stageId: string) => {
+    const started = stages.find((s) => s.id === stageId);
+    if (!started) return 'pending';
+    if (started.status === 'completed' || tournament.status === 'completed') return 'completed';
+    return 'active';
+  };
+
+  const isCurrent = stage?.status === 'active' && tournament.status === 'stage_active';
+  const unplayed = stage ? Engine.getUnplayedStageMatches(stage).length : 0;
+  const allComplete = unplayed === 0;
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-2xl font-display font-bold">{stage?.name ?? 'Stages'}</h2>
+          <p className="text-[var(--color-text-secondary)] mt-1">
+            {stage
+              ? `${stage.pools?.length ?? 0} pool${stage.pools?.length === 1 ? '' : 's'} • ${stage.status === 'completed' ? 'Completed' : 'In progress'}`
+              : 'Round-robin pools start once the stage before them is complete'}
+          </p>
+        </div>
+        {isHost && isCurrent && (
+          <button
+            onClick={completeStage}
+            disabled={!allComplete}
+            className={`btn ${allComplete ? 'btn-primary' : 'btn-secondary opacity-50 cursor-not-allowed'}`}
+            title={allComplete ? undefined : `Enter every score in this stage first (${unplayed} still to play)`}
+          >
+            {nextDefinition ? `Complete Stage → ${nextDefinition.name}` : 'Complete Tournament'}
+          </button>
+        )}
+      </div>
+
+      {/* Pipeline */}
+      <div className="flex items-center gap-2 flex-wrap">
+        {definitions.map((def, idx) => {
+          const state = stageState(def.id);
+          const canSelect = def.type === 'round_robin' && state !== 'pending';
+          return (
+            <div key={def.id} className="flex items-center gap-2">
+              {idx > 0 && <span className="text-[var(--color-text-muted)]">→</span>}
+              <button
+                onClick={() => canSelect && setSelectedStageId(def.id)}
+                disabled={!canSelect}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium ${
+                  def.id === stage?.id
+                    ? 'bg-[var(--color-accent)] text-[var(--color-bg-primary)]'
+                    : state === 'completed'
+                      ? 'bg-green-500/20 text-green-400'
+                      : state === 'active'
+                        ? 'bg-[var(--color-accent)]/20 text-[var(--color-accent)]'
+                        : 'bg-[var(--color-bg-tertiary)] text-[var(--color-text-muted)]'
+                } ${canSelect ? 'cursor-pointer' : 'cursor-default'}`}
+              >
+                {def.name}
+                <span className="ml-2 text-xs opacity-75">{Engine.STAGE_TYPE_LABELS[def.type]}</span>
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {stage && definition && (
+        <>
+          {stage.entrants.length % 2 !== 0 && (
+            <p className="text-sm text-[var(--color-text-muted)]">
+              An odd number of players advanced, so the lowest seed sits this stage out.
+            </p>
+          )}
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            {Engine.getRoundRobinStandings(tournament, stage).map(({ pool, standings }) => {
+              const advancing = definition.advancePerPool && definition.advanceCount !== null
+                ? definition.advanceCount
+                : null;
+              const matches = Engine.getPoolMatches(stage, pool);
+              const rounds = [...new Set(matches.map((m) => m.round))].sort((a, b) => a - b);
+
+              return (
+                <section key={pool.id} className="card p-4 space-y-4">
+                  <h3 className="text-lg font-display font-semibold">{pool.name}</h3>
+
+                  {/* Pool standings */}
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-[var(--color-text-muted)] uppercase text-xs tracking-wider">
+                        <th className="px-2 py-1 text-left">#</th>
+                        <th className="px-2 py-1 text-left">Player</th>
+                        <th className="px-2 py-1 text-center">W</th>
+                        <th className="px-2 py-1 text-center">L</th>
+                        <th className="px-2 py-1 text-center">T</th>
+                        <th className="px-2 py-1 text-center text-[var(--color-accent)]">Score</th>
+                        <th className="px-2 py-1 text-center">PF</th>
+                        <th className="px-2 py-1 text-center">20s</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {standings.map((s) => (
+                        <tr
+                          key={s.player.id}
+                          className={`border-t border-[var(--color-border)] ${advancing !== null && s.rank <= advancing ? 'bg-green-500/10' : ''}`}
+                        >
+                          <td className="px-2 py-1 font-mono text-[var(--color-text-muted)]">{s.rank}</td>
+                          <td className="px-2 py-1 font-medium">{s.player.name}</td>
+                          <td className="px-2 py-1 text-center">{s.player.wins}</td>
+                          <td className="px-2 py-1 text-center">{s.player.losses}</td>
+                          <td className="px-2 py-1 text-center">{s.player.ties}</td>
+                          <td className="px-2 py-1 text-center font-semibold text-[var(--color-accent)]">{s.score}</td>
+                          <td className="px-2 py-1 text-center">{s.player.pointsFor}</td>
+                          <td className="px-2 py-1 text-center">{s.player.twenties}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  {/* Pool games */}
+                  {rounds.map((round) => (
+                    <div key={round} className="space-y-2">
+                      <h4 className="text-xs font-semibold uppercase tracking-wider text-[var(--color-text-muted)]">
+                        Round {round}
+                      </h4>
+                      {matches.filter((m) => m.round === round).map((match) => (
+                        <StageMatchRow
+                          key={match.id}
+                          stage={stage}
+                          match={match}
+                          editable={isCurrent}
+                          onSubmit={submitStageScore}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </section>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface StageMatchRowProps {
+  stage: TournamentStage;
+  match: Match;
+  editable: boolean;
+  onSubmit: (stageId: string, matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => void;
+}
+
+function StageMatchRow({ stage, match, editable, onSubmit }: StageMatchRowProps) {
+  const { tournament, isHost, connectedPlayerId, getPlayerById } = useTournamentStore();
+  const [isEditing, setIsEditing] = useState(false);
+  const [score1, setScore1] = useState<string>(match.score1?.toString() ?? '');
+  const [score2, setScore2] = useState<string>(match.score2?.toString() ?? '');
+  const [twenties1, setTwenties1] = useState<string>(match.twenties1.toString());
+  const [twenties2, setTwenties2] = useState<string>(match.twenties2.toString());
+  const [playerTwenties, setPlayerTwenties] = useState<Record<string, string>>(() =>
+    Object.fromEntries(Object.entries(match.playerTwenties ?? {}).map(([playerId, count]) => [playerId, count.toString()]))
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  if (!tournament) return null;
+
+  const pointsPerMatch = Engine.getMatchTotal(tournament.settings);
+  const fixedTotal = Engine.isFixedTotal(tournament.settings);
+  const gameEntry = Engine.isGameScoreEntry(tournament.settings);
+  const individualTwenties = Engine.isIndividualTwentiesEntry(tournament.settings);
+  const inMatch = connectedPlayerId !== null
+    && (match.team1.includes(connectedPlayerId) || (match.team2?.includes(connectedPlayerId) ?? false));
+  const canEnter = editable && (isHost || inMatch || tournament.settings.allowViewerScoreEntry);
+
+  const teamNames = (team: string[] | null) =>
+    (team ?? []).map((id) => getPlayerById(id)?.name ?? 'Unknown').join(' & ');
+  const table = match.tableId ? tournament.tables.find((t) => t.id === match.tableId) : null;
+
+  const handleScoreChange = (team: 1 | 2, value: string) => {
+    const numValue = parseInt(value);
+    if (team === 1) {
+      setScore1(value);
+      if (fixedTotal && !isNaN(numValue) && numValue >= 0 && numValue <= pointsPerMatch) {
+        setScore2((pointsPerMatch - numValue).toString());
+      }
+    } else {
+      setScore2(value);
+      if (fixedTotal && !isNaN(numValue) && numValue >= 0 && numValue <= pointsPerMatch) {
+        setScore1((pointsPerMatch - numValue).toString());
+      }
+    }
+    setError(null);
+  };
+
+  const handleSubmit = () => {
+    const s1 = parseInt(score1);
+    const s2 = parseInt(score2);
+    if (isNaN(s1) || isNaN(s2)) {
+      setError('Enter valid scores');
+      return;
+    }
+    const scoreError = Engine.validateMatchScore(s1, s2, tournament.settings);
+    if (scoreError) {
+      setError(scoreError);
+      return;
+    }
+
+    // Per-player counts are summed into the team totals
+    const counts = individualTwenties
+      ? Object.fromEntries(
+        [...match.team1, ...(match.team2 ?? [])].map((playerId) => [playerId, parseInt(playerTwenties[playerId] ?? '') || 0])
+      )
+      : undefined;
+    const { twenties1: t1, twenties2: t2 } = counts
+      ? Engine.sumTeamTwenties(match, counts)
+      : { twenties1: parseInt(twenties1) || 0, twenties2: parseInt(twenties2) || 0 };
+    if (t1 < 0 || t2 < 0 || Object.values(counts ?? {}).some((c) => c < 0)) {
+      setError('Twenties cannot be negative');
+      return;
+    }
+
+    onSubmit(stage.id, match.id, s1, s2, t1, t2, undefined, counts);
+    setIsEditing(false);
+  };
+
+  // Match points always come from the games themselves
+  const handleSubmitGames = (games: GameScore[]) => {
+    const converted = Engine.convertGames(match, games, tournament.settings);
+    onSubmit(stage.id, match.id, converted.score1, converted.score2, converted.twenties1, converted.twenties2, games);
+    setIsEditing(false);
+  };
+
+  // Confirming (opposing team) or accepting (host) a player's report submits it as the score
+  const handleAcceptReport = (report: ScoreReport) =>
+    onSubmit(stage.id, match.id, report.score1, report.score2, report.twenties1, report.twenties2, report.games, report.playerTwenties);
+
+  // One 20s box per team, or one per player when 20s are recorded individually
+  const renderTwentiesInputs = (side: 1 | 2) => {
+    if (!individualTwenties) {
+      return (
+        <input
+          type="number"
+          min={0}
+          value={side === 1 ? twenties1 : twenties2}
+          onChange={(e) => (side === 1 ? setTwenties1 : setTwenties2)(e.target.value)}
+          title="20s"
+          className="input w-10 text-center text-xs py-1 px-1"
+        />
+      );
+    }
+
+    const team = (side === 1 ? match.team1 : match.team2 ?? []) as string[];
+    return team.map((playerId) => (
+      <input
+        key={playerId}
+        type="number"
+        min={0}
+        value={playerTwenties[playerId] ?? ''}
+        onChange={(e) => setPlayerTwenties((prev) => ({ ...prev, [playerId]: e.target.value }))}
+        title={`20s: ${getPlayerById(playerId)?.name ?? 'Unknown'}`}
+        placeholder="20s"
+        className="input w-10 text-center text-xs py-1 px-1"
+      />
+    ));
+  };
+
+  if (!isEditing || !canEnter) {
+    const won1 = match.completed && (match.score1 ?? 0) > (match.score2 ?? 0);
+    const won2 = match.completed && (match.score2 ?? 0) > (match.score1 ?? 0);
+    return (
+      <div className="rounded bg-[var(--color-bg-tertiary)] text-sm">
+        <div
+          className={`flex items-center gap-2 px-3 py-2 rounded ${canEnter ? 'cursor-pointer hover:ring-1 hover:ring-[var(--color-accent)]/50' : ''}`}
+          onClick={() => canEnter && setIsEditing(true)}
+        >
+          {table && (
+            <span className="text-[10px] font-medium text-[var(--color-text-muted)] uppercase tracking-wider w-16 truncate">
+              {table.name}
+            </span>
+          )}
+          <span className={`flex-1 text-right ${won1 ? 'text-[var(--color-success)]' : ''}`}>{teamNames(match.team1)}</span>
+          <span className="font-mono font-bold px-2">
+            {match.completed ? `${match.score1} - ${match.score2}` : 'vs'}
+          </span>
+          <span className={`flex-1 ${won2 ? 'text-[var(--color-success)]' : ''}`}>{teamNames(match.team2)}</span>
+          {match.scoreStatus && <ScoreStatusBadge status={match.scoreStatus} />}
+        </div>
+        {/* Pending / disputed player reports */}
+        {editable && !match.completed && (match.scoreReports?.length ?? 0) > 0 && (
+          <div className="px-3 pb-2">
+            <ScoreReportPanel match={match} onAccept={handleAcceptReport} />
+          </div>
+        )}
+        {(match.games?.length ?? 0) > 0 && (
+          <div className="px-3 pb-2">
+            <GameScoreSummary match={match} />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (gameEntry) {
+    return (
+      <div className="px-3 py-2 rounded bg-[var(--color-bg-tertiary)] text-sm space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="flex-1 text-right text-[var(--color-accent)]">{teamNames(match.team1)}</span>
+          <span className="text-[var(--color-text-muted)] text-xs">vs</span>
+          <span className="flex-1 text-[var(--color-accent)]">{teamNames(match.team2)}</span>
+        </div>
+        <GameScoreEntry match={match} onSubmit={handleSubmitGames} />
+        <div className="flex justify-end">
+          <button onClick={() => setIsEditing(false)} className="btn btn-secondary py-1 px-3 text-xs">
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-3 py-2 rounded bg-[var(--color-bg-tertiary)] text-sm space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="flex-1 text-right text-[var(--color-accent)]">{teamNames(match.team1)}</span>
+        <input
+          type="number"
+          min={0}
+          max={pointsPerMatch}
+          value={score1}
+          onChange={(e) => handleScoreChange(1, e.target.value)}
+          placeholder="Pts"
+          className="input w-14 text-center font-mono py-1 px-1"
+        />
+        {renderTwentiesInputs(1)}
+        <span className="text-[var(--color-text-muted)] text-xs">vs</span>
+        {renderTwentiesInputs(2)}
+        <input
+          type="number"
+          min={0}
+          max={pointsPerMatch}
+          value={score2}
+          onChange={(e) => handleScoreChange(2, e.target.value)}
+          placeholder="Pts"
+          className="input w-14 text-center font-mono py-1 px-1"
+        />
+        <span className="flex-1 text-[var(--color-accent)]">{teamNames(match.team2)}</span>
+      </div>
+      <div className="flex items-center justify-end gap-2">
+        {error && <span className="text-xs text-red-400 mr-auto">{error}</span>}
+        <button onClick={() => setIsEditing(false)} className="btn btn-secondary py-1 px-3 text-xs">
+          Cancel
+        </button>
+        <button onClick={handleSubmit} className="btn btn-primary py-1 px-3 text-xs">
+          Submit
+        </button>
+      </div>
+    </div>
+  );
+}
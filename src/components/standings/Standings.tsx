@@ -2,11 +2,12 @@ import { useState } from 'react';
 import { useTournamentStore } from '../../store/tournamentStore';
 import { TwentiesLeaderboard } from './TwentiesLeaderboard';
 import { exportPageToPng } from '../../utils/exportPng';
+import { DEFAULT_TIEBREAKERS, TIEBREAKER_LABELS, getFixedTeams, getPlayerMatchTwenties, getByeGameCounting, describeByeValue, getResultPoints, describePointSystem, type ByeSettings } from '../../engine';
 import type { Match, BracketMatch } from '../../types';
 
 type MatchResult = 'W' | 'L' | 'T' | 'B'; // Win, Loss, Tie, Bye
 
-function getPlayerMatchHistory(playerId: string, matches: Match[], bracketMatches?: BracketMatch[]): MatchResult[] {
+function getPlayerMatchHistory(playerId: string, matches: Match[], settings: ByeSettings, bracketMatches?: BracketMatch[]): MatchResult[] {
   const history: MatchResult[] = [];
 
   // Sort matches by round
@@ -28,6 +29,12 @@ function getPlayerMatchHistory(playerId: string, matches: Match[], bracketMatche
     // Only include completed matches
     if (!match.completed || match.score1 === null || match.score2 === null) continue;
 
+    // Bye games set aside for a bye credit show as byes
+    if (getByeGameCounting(match, playerId, settings) === 'bye') {
+      history.push('B');
+      continue;
+    }
+
     if (inTeam1) {
       if (match.score1 > match.score2) history.push('W');
       else if (match.score1 < match.score2) history.push('L');
@@ -45,8 +52,8 @@ function getPlayerMatchHistory(playerId: string, matches: Match[], bracketMatche
       (m.team1?.includes(playerId) || m.team2?.includes(playerId)) && m.completed && m.score1 !== null && m.score2 !== null
     );
 
-    const roundOrder: Record<string, number> = { 'quarterfinal': 1, 'semifinal': 2, 'third_place': 3, 'final': 4 };
-    relevant.sort((a, b) => (roundOrder[a.round] || 0) - (roundOrder[b.round] || 0));
+    // Bracket matches are numbered in playing order
+    relevant.sort((a, b) => a.matchNumber - b.matchNumber);
 
     for (const m of relevant) {
       let result: MatchResult | null = null;
@@ -133,6 +140,8 @@ export function Standings() {
   let standings = getStandings();
   const isComplete = tournament.status === 'completed';
   const poolSize = tournament.settings.poolSize || 8;
+  const tiebreakers = tournament.settings.tiebreakers ?? DEFAULT_TIEBREAKERS;
+  const showBuchholz = tiebreakers.includes('buchholz') || tiebreakers.includes('median_buchholz');
 
   // Apply Final Rankings if View Mode is "Final Results"
   if (isFinalsActive && showFinals) {
@@ -160,21 +169,21 @@ export function Standings() {
             if ((m.score1 || 0) > (m.score2 || 0)) wins++;
             else if ((m.score1 || 0) < (m.score2 || 0)) losses++;
             else ties++; // Unlikely in brackets but safest
-            twenties += m.twenties1 || 0;
+            twenties += getPlayerMatchTwenties(m, s.player.id);
             pf += m.score1 || 0;
             pa += m.score2 || 0;
           } else {
             if ((m.score2 || 0) > (m.score1 || 0)) wins++;
             else if ((m.score2 || 0) < (m.score1 || 0)) losses++;
             else ties++;
-            twenties += m.twenties2 || 0;
+            twenties += getPlayerMatchTwenties(m, s.player.id);
             pf += m.score2 || 0;
             pa += m.score1 || 0;
           }
         });
       }
 
-      const newScore = (wins * 2) + ties;
+      const newScore = getResultPoints({ wins, ties, losses }, tournament.settings);
 
       return {
         ...s,
@@ -188,6 +197,37 @@ export function Standings() {
     });
   }
 
+  // Fixed partners share every result, so show one row per team
+  const fixedTeams = getFixedTeams(tournament);
+  const teamOf = new Map(fixedTeams.flatMap(t => t.playerIds.map(id => [id, t] as const)));
+  if (fixedTeams.length > 0) {
+    // A team row shows its side's 20s (stored on every match) rather than one partner's
+    const resultMatches: (Match | BracketMatch)[] = isFinalsActive && showFinals
+      ? [...tournament.matches, ...tournament.bracketMatches]
+      : tournament.matches;
+    const getTeamTwenties = (playerId: string) => resultMatches
+      .filter(m => m.completed)
+      .reduce((sum, m) => sum + (
+        m.team1?.includes(playerId) ? m.twenties1 || 0 : m.team2?.includes(playerId) ? m.twenties2 || 0 : 0
+      ), 0);
+
+    const shown = new Set<string>();
+    standings = standings
+      .filter(s => {
+        const team = teamOf.get(s.player.id);
+        if (!team) return true;
+        if (shown.has(team.id)) return false;
+        shown.add(team.id);
+        return true;
+      })
+      .map((s, idx) => ({
+        ...s,
+        rank: idx + 1,
+        player: teamOf.has(s.player.id) ? { ...s.player, twenties: getTeamTwenties(s.player.id) } : s.player,
+      }));
+  }
+  const rowsPerPool = fixedTeams.length > 0 ? Math.max(1, Math.floor(poolSize / 2)) : poolSize;
+
   return (
     <div id="standings-export" className="max-w-6xl mx-auto p-6 space-y-8">
       {/* Header */}
@@ -231,7 +271,7 @@ export function Standings() {
                   #
                 </th>
                 <th className="px-3 py-2 text-left text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">
-                  Player
+                  {fixedTeams.length > 0 ? 'Team' : 'Player'}
                 </th>
                 <th className="px-2 py-2 text-center text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">
                   W
@@ -257,6 +297,11 @@ export function Standings() {
                 <th className="px-2 py-2 text-center text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">
                   20s
                 </th>
+                {showBuchholz && (
+                  <th className="px-2 py-2 text-center text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">
+                    Buch
+                  </th>
+                )}
                 <th className="px-3 py-2 text-left text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">
                   History {showFinals && isFinalsActive ? '(+ Finals)' : ''}
                 </th>
@@ -272,7 +317,8 @@ export function Standings() {
                 // If Final Results: Rank 1-8 is Pool A (usually).
                 // If Swiss: Rank 1-8 is Pool A (conceptually).
 
-                const poolIndex = getPoolForRank(standing.rank, poolSize);
+                const poolIndex = getPoolForRank(standing.rank, rowsPerPool);
+                const team = teamOf.get(standing.player.id);
                 const poolColor = getPoolColor(poolIndex);
 
                 return (
@@ -297,13 +343,23 @@ export function Standings() {
                     </td>
                     <td className="px-3 py-2">
                       <span className={`text-lg font-semibold ${isTopThree ? 'text-[var(--color-accent)]' : 'text-[var(--color-text-primary)]'}`}>
-                        {standing.player.name}
+                        {team ? team.name : standing.player.name}
                       </span>
+                      {team && (
+                        <span className="ml-2 text-sm text-[var(--color-text-muted)]">
+                          {team.playerIds.map(id => tournament.players.find(p => p.id === id)?.name).join(' & ')}
+                        </span>
+                      )}
                       {standing.player.byeCount > 0 && (
                         <span className="ml-2 text-sm text-[var(--color-text-muted)]">
                           ({standing.player.byeCount}B)
                         </span>
                       )}
+                      {standing.player.withdrawnAfterRound !== undefined && (
+                        <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-red-500/20 text-red-400">
+                          WD
+                        </span>
+                      )}
                     </td>
                     <td className="px-2 py-2 text-center text-lg font-mono font-bold text-[var(--color-success)]">
                       {standing.player.wins}
@@ -331,11 +387,17 @@ export function Standings() {
                     <td className="px-2 py-2 text-center text-lg font-mono font-bold text-[var(--color-accent)]">
                       {standing.player.twenties}
                     </td>
+                    {showBuchholz && (
+                      <td className="px-2 py-2 text-center text-lg font-mono text-[var(--color-text-secondary)]">
+                        {standing.buchholz}
+                      </td>
+                    )}
                     <td className="px-3 py-2">
                       <MatchHistoryBadges
                         history={getPlayerMatchHistory(
                           standing.player.id,
                           tournament.matches,
+                          tournament.settings,
                           (isFinalsActive && showFinals) ? tournament.bracketMatches : undefined
                         )}
                       />
@@ -351,11 +413,11 @@ export function Standings() {
       {/* Pool Legend */}
       <div className="card p-4">
         <div className="flex flex-wrap items-center gap-4">
-          <span className="text-sm font-medium text-[var(--color-text-muted)]">Pools ({poolSize} players each):</span>
-          {Array.from({ length: Math.ceil(standings.length / poolSize) }).map((_, i) => {
+          <span className="text-sm font-medium text-[var(--color-text-muted)]">Pools ({rowsPerPool} {fixedTeams.length > 0 ? 'teams' : 'players'} each):</span>
+          {Array.from({ length: Math.ceil(standings.length / rowsPerPool) }).map((_, i) => {
             const color = getPoolColor(i);
-            const startRank = i * poolSize + 1;
-            const endRank = Math.min((i + 1) * poolSize, standings.length);
+            const startRank = i * rowsPerPool + 1;
+            const endRank = Math.min((i + 1) * rowsPerPool, standings.length);
             return (
               <div key={i} className="flex items-center gap-2">
                 <span className={`w-3 h-3 rounded ${color.bg} border-l-2 ${color.border}`}></span>
@@ -373,11 +435,15 @@ export function Standings() {
         <span>W = Wins</span>
         <span>L = Losses</span>
         <span>T = Ties</span>
-        <span className="text-[var(--color-accent)]">Score = W×2 + T×1 (Bye=Tie if 2+ byes)</span>
+        <span className="text-[var(--color-accent)]">Score = {describePointSystem(tournament.settings)} (Bye={describeByeValue(tournament.settings)})</span>
         <span>PF = Points For</span>
         <span>PA = Points Against</span>
         <span>+/- = Differential</span>
         <span>20s = Twenties</span>
+        {showBuchholz && <span>Buch = Buchholz (opponents' scores)</span>}
+        <span>
+          Tiebreakers: Score → {tiebreakers.map((t) => TIEBREAKER_LABELS[t].name).join(' → ')}
+        </span>
       </div>
 
       {/* 20s Leaderboard */}
@@ -1,4 +1,5 @@
 import { useTournamentStore } from '../../store/tournamentStore';
+import { getPlayerMatchTwenties } from '../../engine';
 
 export function TwentiesLeaderboard() {
   const { tournament } = useTournamentStore();
@@ -12,14 +13,10 @@ export function TwentiesLeaderboard() {
   const calculatePlayerTwenties = (playerId: string): number => {
     let total = 0;
     
-    // Add twenties from regular matches
+    // Add twenties from regular matches (each player's own 20s when recorded, else the team's)
     tournament.matches.forEach(match => {
       if (match.completed && !match.isBye) {
-        if (match.team1.includes(playerId)) {
-          total += match.twenties1 || 0;
-        } else if (match.team2?.includes(playerId)) {
-          total += match.twenties2 || 0;
-        }
+        total += getPlayerMatchTwenties(match, playerId);
       }
       // Also count bye match twenties (awarded based on tournament average)
       if (match.completed && match.isBye && match.team1.includes(playerId)) {
@@ -31,11 +28,7 @@ export function TwentiesLeaderboard() {
     if (isFinalsActive && tournament.bracketMatches) {
       tournament.bracketMatches.forEach(match => {
         if (match.completed) {
-          if (match.team1?.includes(playerId)) {
-            total += match.twenties1 || 0;
-          } else if (match.team2?.includes(playerId)) {
-            total += match.twenties2 || 0;
-          }
+          total += getPlayerMatchTwenties(match, playerId);
         }
       });
     }
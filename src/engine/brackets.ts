@@ -0,0 +1,436 @@
+// Finals bracket generation and score advancement
+
+import { nanoid } from 'nanoid';
+import type { Tournament, BracketMatch, BracketRound, BracketTeam, BracketType, PoolBracketConfig } from '../types';
+import { getBracketSeeding } from './stages.js';
+import { formTeams } from './teams.js';
+import { validateMatchScore, type PointSettings } from './pointSystem.js';
+
+type NamedBracketRound = Exclude<BracketRound, `losers_round_${number}` | `consolation_round_${number}`>;
+
+const BRACKET_ROUND_LABELS: Record<NamedBracketRound, { name: string; short: string }> = {
+  round_of_32: { name: 'Round of 32', short: 'R32' },
+  round_of_16: { name: 'Round of 16', short: 'R16' },
+  quarterfinal: { name: 'Quarterfinal', short: 'QF' },
+  semifinal: { name: 'Semifinal', short: 'SF' },
+  final: { name: 'Final', short: 'F' },
+  third_place: { name: '3rd Place', short: '3rd' },
+  winners_final: { name: 'Winners Final', short: 'WF' },
+  losers_final: { name: 'Losers Final', short: 'LF' },
+  grand_final: { name: 'Grand Final', short: 'GF' },
+  grand_final_reset: { name: 'Grand Final Reset', short: 'GF2' },
+  placement_semifinal: { name: '5th–8th Semifinal', short: 'P-SF' },
+  fifth_place: { name: '5th Place', short: '5th' },
+  seventh_place: { name: '7th Place', short: '7th' },
+  consolation_final: { name: 'Consolation Final', short: 'CF' },
+};
+
+export const MAX_BRACKET_TEAMS = 32;
+
+// Teams in each preset bracket type
+const BRACKET_TEAM_COUNTS: Record<Exclude<BracketType, 'none' | 'custom'>, number> = {
+  final: 2,
+  semifinals: 4,
+  quarterfinals: 8,
+  round_of_16: 16,
+};
+
+// Winners bracket rounds by the number of teams the round is drawn for
+const WINNERS_ROUND_NAMES: Record<number, BracketRound> = {
+  32: 'round_of_32',
+  16: 'round_of_16',
+  8: 'quarterfinal',
+  4: 'semifinal',
+  2: 'final',
+};
+
+/** Teams in a pool's bracket: the preset size, or teamCount for custom brackets */
+export function getBracketTeamCount(config: Pick<PoolBracketConfig, 'bracketType' | 'teamCount'>): number {
+  if (config.bracketType === 'none') return 0;
+  if (config.bracketType === 'custom') {
+    return Math.max(2, Math.min(MAX_BRACKET_TEAMS, config.teamCount ?? 2));
+  }
+  return BRACKET_TEAM_COUNTS[config.bracketType];
+}
+
+/** Double elimination needs a full bracket (no byes) of at least 4 teams */
+export function canDoubleEliminate(teamCount: number): boolean {
+  return teamCount >= 4 && (teamCount & (teamCount - 1)) === 0;
+}
+
+/**
+ * Display name for a bracket round, e.g. "Losers Round 2".
+ * Short labels are used for chart axes.
+ */
+export function getBracketRoundLabel(round: BracketRound, short = false): string {
+  const numbered = round.match(/^(losers|consolation)_round_(\d+)$/);
+  if (numbered) {
+    const [, bracket, number] = numbered;
+    if (short) return `${bracket === 'losers' ? 'L' : 'C'}${number}`;
+    return `${bracket === 'losers' ? 'Losers' : 'Consolation'} Round ${number}`;
+  }
+  const label = BRACKET_ROUND_LABELS[round as NamedBracketRound];
+  return short ? label.short : label.name;
+}
+
+/**
+ * Rounds drawn as the main bracket tree. Everything else (losers bracket,
+ * grand final, playoffs for lower places, consolation) is listed separately.
+ */
+export function isWinnersBracketRound(round: BracketRound): boolean {
+  return Object.values(WINNERS_ROUND_NAMES).includes(round) || round === 'winners_final';
+}
+
+/** Seed positions for the first round so seeds 1 and 2 can only meet in the final (1v8, 4v5, 2v7, 3v6) */
+function getSeedOrder(bracketSize: number): number[] {
+  let order = [1];
+  while (order.length < bracketSize) {
+    const size = order.length * 2;
+    order = order.flatMap((s) => [s, size + 1 - s]);
+  }
+  return order;
+}
+
+/**
+ * First-round pairings by seed, in bracket order. Brackets are drawn for the
+ * next power of two, so the top seeds face an empty slot (null) and get a bye.
+ */
+export function getFirstRoundPairings(teamCount: number): [number, number | null][] {
+  let bracketSize = 1;
+  while (bracketSize < teamCount) bracketSize *= 2;
+
+  const order = getSeedOrder(bracketSize);
+  const pairings: [number, number | null][] = [];
+  for (let i = 0; i < order.length; i += 2) {
+    pairings.push([order[i], order[i + 1] <= teamCount ? order[i + 1] : null]);
+  }
+  return pairings;
+}
+
+// A team entering a knockout: either already known, or the winner/loser of an earlier match
+type BracketEntrant = { team: BracketTeam } | { match: BracketMatch; loser: boolean };
+
+/**
+ * Build bracket matches for every configured pool.
+ * Teams are formed from bracket seeding (see formTeams) unless the pool has manual teams.
+ * Any number of teams up to MAX_BRACKET_TEAMS can play; top seeds get byes.
+ *
+ * Matches are numbered in the order they can be played, so every match's
+ * source matches come before it.
+ */
+export function generateBracketMatches(tournament: Tournament, poolConfigs: PoolBracketConfig[]): BracketMatch[] {
+  const bracketMatches: BracketMatch[] = [];
+  const seed = new Map(getBracketSeeding(tournament).map((s) => [s.player.id, s.rank]));
+
+  poolConfigs.forEach((config) => {
+    if (config.bracketType === 'none') return;
+
+    // config.playerIds usually comes sorted from FinalsConfig, but re-sort by seed to be safe
+    const poolPlayerIds = [...config.playerIds].sort(
+      (a, b) => (seed.get(a) ?? Infinity) - (seed.get(b) ?? Infinity)
+    );
+
+    // 1. Form Teams
+    let teams: BracketTeam[] = config.manualTeams && config.manualTeams.length > 0
+      ? config.manualTeams
+      : formTeams(tournament, poolPlayerIds);
+    teams = teams.slice(0, MAX_BRACKET_TEAMS);
+    if (teams.length < 2) return;
+
+    const isDouble = config.elimination === 'double' && canDoubleEliminate(teams.length);
+    let matchNumber = 0;
+
+    // Helper to create match
+    const createMatch = (round: BracketRound): BracketMatch => {
+      const match: BracketMatch = {
+        id: nanoid(),
+        poolId: config.poolId,
+        round,
+        matchNumber: ++matchNumber,
+        team1: null,
+        team2: null,
+        score1: null,
+        score2: null,
+        twenties1: 0,
+        twenties2: 0,
+        completed: false,
+        winnerId: null,
+        nextMatchId: null,
+        sourceMatch1Id: null,
+        sourceMatch2Id: null,
+      };
+      bracketMatches.push(match);
+      return match;
+    };
+
+    // Helper to send the winner (or loser) of one match into a slot of another
+    const link = (from: BracketMatch, to: BracketMatch, slot: 1 | 2, loser = false) => {
+      if (loser) {
+        from.loserNextMatchId = to.id;
+      } else {
+        from.nextMatchId = to.id;
+      }
+      if (slot === 1) {
+        to.sourceMatch1Id = from.id;
+      } else {
+        to.sourceMatch2Id = from.id;
+      }
+    };
+
+    // Helper to run a knockout between entrants given in seed order.
+    // Byes go to the top seeds: an entrant without an opponent skips straight
+    // into the next round, so its slot there is filled (or wired) directly.
+    const knockout = (
+      entrants: BracketEntrant[],
+      roundName: (teamsInRound: number, roundNumber: number) => BracketRound
+    ): BracketMatch[][] => {
+      const rounds: BracketMatch[][] = [];
+      let slots: (BracketEntrant | null)[] = getFirstRoundPairings(entrants.length)
+        .flatMap(([a, b]) => [entrants[a - 1], b === null ? null : entrants[b - 1]]);
+
+      while (slots.length > 1) {
+        const name = roundName(slots.length, rounds.length + 1);
+        const round: BracketMatch[] = [];
+        const nextSlots: (BracketEntrant | null)[] = [];
+
+        for (let i = 0; i < slots.length; i += 2) {
+          const [a, b] = [slots[i], slots[i + 1]];
+          if (!a || !b) {
+            nextSlots.push(a ?? b);
+            continue;
+          }
+          const match = createMatch(name);
+          [a, b].forEach((entrant, idx) => {
+            const slot = idx === 0 ? 1 : 2;
+            if ('team' in entrant) {
+              if (slot === 1) match.team1 = entrant.team;
+              else match.team2 = entrant.team;
+            } else {
+              link(entrant.match, match, slot, entrant.loser);
+            }
+          });
+          round.push(match);
+          nextSlots.push({ match, loser: false });
+        }
+
+        rounds.push(round);
+        slots = nextSlots;
+      }
+      return rounds;
+    };
+
+    // 2. Winners Bracket
+    const winnersRounds = knockout(
+      teams.map((team) => ({ team })),
+      (teamsInRound) => (teamsInRound === 2 && isDouble ? 'winners_final' : WINNERS_ROUND_NAMES[teamsInRound])
+    );
+    const firstRound = winnersRounds[0];
+    const winnersFinal = winnersRounds[winnersRounds.length - 1][0];
+
+    if (isDouble) {
+      // 3a. Losers Bracket: first-round losers play each other, then each later
+      // round alternates between taking in the next winners round's losers and
+      // halving the field. Drop-ins are reversed every other round so teams
+      // don't meet the same opponent again straight away.
+      const losersRoundCount = 2 * (winnersRounds.length - 1);
+      let losersRoundNumber = 0;
+      const losersRoundName = (): BracketRound => {
+        losersRoundNumber++;
+        return losersRoundNumber === losersRoundCount ? 'losers_final' : `losers_round_${losersRoundNumber}`;
+      };
+
+      let survivors: BracketMatch[] = [];
+      const roundName = losersRoundName();
+      for (let i = 0; i < firstRound.length; i += 2) {
+        const match = createMatch(roundName);
+        link(firstRound[i], match, 1, true);
+        link(firstRound[i + 1], match, 2, true);
+        survivors.push(match);
+      }
+
+      for (let r = 1; r < winnersRounds.length; r++) {
+        const dropping = r % 2 === 1 ? [...winnersRounds[r]].reverse() : winnersRounds[r];
+        const majorName = losersRoundName();
+        survivors = survivors.map((survivor, i) => {
+          const match = createMatch(majorName);
+          link(survivor, match, 1);
+          link(dropping[i], match, 2, true);
+          return match;
+        });
+
+        if (r < winnersRounds.length - 1) {
+          const minorName = losersRoundName();
+          const round: BracketMatch[] = [];
+          for (let i = 0; i < survivors.length; i += 2) {
+            const match = createMatch(minorName);
+            link(survivors[i], match, 1);
+            link(survivors[i + 1], match, 2);
+            round.push(match);
+          }
+          survivors = round;
+        }
+      }
+
+      // 4a. Grand Final: winners bracket champion is always team1
+      const grandFinal = createMatch('grand_final');
+      link(winnersFinal, grandFinal, 1);
+      link(survivors[0], grandFinal, 2);
+
+      if (config.grandFinalReset) {
+        const reset = createMatch('grand_final_reset');
+        reset.sourceMatch1Id = grandFinal.id;
+        reset.sourceMatch2Id = grandFinal.id;
+      }
+      return;
+    }
+
+    // 3b. Third Place: semifinal losers
+    const semis = winnersRounds.find(round => round[0].round === 'semifinal');
+    if (config.includeThirdPlace && semis?.length === 2) {
+      const [semi1, semi2] = semis;
+      const thirdPlace = createMatch('third_place');
+      link(semi1, thirdPlace, 1, true);
+      link(semi2, thirdPlace, 2, true);
+    }
+
+    // 4b. Lower places: placement needs four quarterfinals, consolation at least two first-round games
+    const quarters = winnersRounds.find(round => round[0].round === 'quarterfinal');
+
+    if (config.consolation === 'placement' && quarters?.length === 4) {
+      // Quarterfinal losers play off for 5th-8th
+      const [qf1, qf2, qf3, qf4] = quarters;
+      const placementSemi1 = createMatch('placement_semifinal');
+      link(qf1, placementSemi1, 1, true);
+      link(qf2, placementSemi1, 2, true);
+      const placementSemi2 = createMatch('placement_semifinal');
+      link(qf3, placementSemi2, 1, true);
+      link(qf4, placementSemi2, 2, true);
+
+      const fifthPlace = createMatch('fifth_place');
+      link(placementSemi1, fifthPlace, 1);
+      link(placementSemi2, fifthPlace, 2);
+      const seventhPlace = createMatch('seventh_place');
+      link(placementSemi1, seventhPlace, 1, true);
+      link(placementSemi2, seventhPlace, 2, true);
+
+    } else if (config.consolation === 'consolation' && firstRound.length >= 2) {
+      // First-round losers play their own knockout
+      knockout(
+        firstRound.map((match) => ({ match, loser: true })),
+        (teamsInRound, roundNumber) => (teamsInRound === 2 ? 'consolation_final' : `consolation_round_${roundNumber}`)
+      );
+    }
+  });
+
+  return bracketMatches;
+}
+
+/**
+ * Record a bracket score, advance the winner and send the loser on to the
+ * losers bracket or playoff match if there is one. A grand final won by the
+ * losers bracket champion fills the reset match; otherwise the reset is skipped.
+ * Returns null if the match doesn't exist.
+ */
+export function applyBracketScore(
+  bracketMatches: BracketMatch[],
+  matchId: string,
+  score1: number,
+  score2: number,
+  twenties1: number,
+  twenties2: number,
+  playerTwenties?: Record<string, number>
+): BracketMatch[] | null {
+  const matchIndex = bracketMatches.findIndex(m => m.id === matchId);
+  if (matchIndex === -1) return null;
+
+  const match = bracketMatches[matchIndex];
+
+  let winnerId: string | null = null;
+  let winningTeam: BracketTeam | null = null;
+  let losingTeam: BracketTeam | null = null;
+
+  // Determine winner/loser
+  if (score1 > score2) {
+    winningTeam = match.team1;
+    losingTeam = match.team2;
+  } else if (score2 > score1) {
+    winningTeam = match.team2;
+    losingTeam = match.team1;
+  }
+
+  if (winningTeam) {
+    winnerId = [...winningTeam].sort().join('-');
+  }
+
+  // Update Current Match
+  const newBracketMatches = [...bracketMatches];
+  newBracketMatches[matchIndex] = { ...match, score1, score2, twenties1, twenties2, playerTwenties, completed: true, winnerId };
+
+  // Place a team into whichever slot of the target match this match feeds
+  const advance = (targetId: string, team: BracketTeam) => {
+    const targetIndex = newBracketMatches.findIndex(m => m.id === targetId);
+    if (targetIndex === -1) return;
+    const target = { ...newBracketMatches[targetIndex] };
+    if (target.sourceMatch1Id === match.id) {
+      target.team1 = team;
+    } else if (target.sourceMatch2Id === match.id) {
+      target.team2 = team;
+    }
+    newBracketMatches[targetIndex] = target;
+  };
+
+  // Propagate to Next Match (Winner)
+  if (match.nextMatchId && winningTeam) {
+    advance(match.nextMatchId, winningTeam);
+  }
+
+  // Propagate Loser (brackets from before loserNextMatchId only linked the third place match by source)
+  const loserTargetId = match.loserNextMatchId ?? newBracketMatches.find(m =>
+    m.round === 'third_place' && (m.sourceMatch1Id === match.id || m.sourceMatch2Id === match.id)
+  )?.id;
+  if (loserTargetId && losingTeam) {
+    advance(loserTargetId, losingTeam);
+  }
+
+  // Grand Final Reset: only needed if the losers bracket champion (team2) won
+  if (match.round === 'grand_final') {
+    const resetIndex = newBracketMatches.findIndex(m =>
+      m.round === 'grand_final_reset' && m.sourceMatch1Id === match.id
+    );
+    if (resetIndex !== -1) {
+      const needed = score2 > score1;
+      newBracketMatches[resetIndex] = {
+        ...newBracketMatches[resetIndex],
+        team1: needed ? match.team1 : null,
+        team2: needed ? match.team2 : null,
+        skipped: !needed,
+      };
+    }
+  }
+
+  return newBracketMatches;
+}
+
+/**
+ * Why a bracket score can't be recorded, or null if it can. Bracket matches
+ * follow the event's point system but must also have a winner.
+ */
+export function validateBracketScore(score1: number, score2: number, settings?: Partial<PointSettings>): string | null {
+  const error = validateMatchScore(score1, score2, settings);
+  if (error) return error;
+  if (score1 === score2) return 'Ties are not allowed in bracket matches. Play a tiebreaker!';
+  return null;
+}
+
+/**
+ * Whether a finished bracket result can still be changed: not once a match it
+ * feeds into has been played, since that match's teams came from this result.
+ */
+export function canEditBracketScore(bracketMatches: BracketMatch[], matchId: string): boolean {
+  const match = bracketMatches.find(m => m.id === matchId);
+  if (!match || !match.completed) return false;
+
+  return !bracketMatches.some(m =>
+    m.completed && (m.sourceMatch1Id === matchId || m.sourceMatch2Id === matchId)
+  );
+}
@@ -0,0 +1,91 @@
+// Bye scoring policy (settings.byeScoring): what a bye is worth and how
+// 1v1/2v1 bye games count. Every stats calculation goes through here, so a
+// bye scores the same in standings, pairing and analysis.
+
+import type { Match, ByeScoring, ByeGameCounting, TournamentSettings } from '../types';
+import { getMatchTotal, type PointSettings } from './pointSystem.js';
+
+// The settings that decide how byes score
+export type ByeSettings = PointSettings & Pick<TournamentSettings, 'byeScoring' | 'format'>;
+
+export const DEFAULT_BYE_SCORING: ByeScoring = {
+  value: 'tie',
+  oneVsOne: 'full',
+  twoVsOnePair: 'full',
+  twoVsOneSolo: 'full',
+};
+
+export const BYE_VALUE_LABELS: Record<ByeScoring['value'], string> = {
+  tie: 'Tie',
+  win: 'Win',
+  average: "Player's average so far",
+  fixed: 'Fixed score',
+};
+
+export function getByeScoring(settings?: ByeSettings): ByeScoring {
+  return { ...DEFAULT_BYE_SCORING, ...settings?.byeScoring };
+}
+
+/**
+ * Whether a player's result in this match is set aside for a bye credit.
+ * Only doubles bye games can be - in singles every match is a 1v1.
+ */
+export function getByeGameCounting(match: Match, playerId: string, settings?: ByeSettings): ByeGameCounting {
+  if (settings?.format === 'singles') return 'full';
+  const scoring = getByeScoring(settings);
+  if (match.matchType === '1v1') return scoring.oneVsOne;
+  if (match.matchType === '2v1') {
+    return match.team1.length === 1 && match.team1[0] === playerId ? scoring.twoVsOneSolo : scoring.twoVsOnePair;
+  }
+  return 'full';
+}
+
+/**
+ * Points for and against a player credited with a bye in the given round
+ */
+export function getByePoints(playerId: string, round: number, matches: Match[], settings?: ByeSettings): { pointsFor: number; pointsAgainst: number } {
+  const scoring = getByeScoring(settings);
+  const total = getMatchTotal(settings);
+  const half = total / 2; // A tie splits an odd total (e.g. best of 3) evenly
+
+  let pointsFor = half;
+  if (scoring.value === 'win') {
+    pointsFor = total;
+  } else if (scoring.value === 'fixed') {
+    pointsFor = Math.min(total, Math.max(0, scoring.fixedPoints ?? half));
+  } else if (scoring.value === 'average') {
+    // Average from the player's own results up to the bye's round, so the bye
+    // keeps its value once that round is over (a tie before they've played)
+    const played = matches.filter((m) =>
+      m.round <= round && m.completed && !m.isBye && m.score1 !== null && m.score2 !== null
+      && (m.team1.includes(playerId) || m.team2?.includes(playerId))
+    );
+    if (played.length > 0) {
+      const scored = played.reduce((sum, m) => sum + (m.team1.includes(playerId) ? m.score1! : m.score2!), 0);
+      pointsFor = Math.round(scored / played.length);
+    }
+  }
+
+  return { pointsFor, pointsAgainst: total - pointsFor };
+}
+
+/**
+ * Short description of a bye's value, e.g. "4-4 tie" or "6-2 win"
+ */
+export function describeByeValue(settings?: ByeSettings): string {
+  const scoring = getByeScoring(settings);
+  if (scoring.value === 'average') return "player's average so far";
+
+  const { pointsFor, pointsAgainst } = getByePoints('', 0, [], settings);
+  const outcome = pointsFor > pointsAgainst ? 'win' : pointsFor < pointsAgainst ? 'loss' : 'tie';
+  return `${pointsFor}-${pointsAgainst} ${outcome}`;
+}
+
+/**
+ * Weight applied to a player's points in a match counted in full
+ * (the solo player in a 2v1 can be weighted up or down)
+ */
+export function getPointsWeight(match: Match, playerId: string, settings?: ByeSettings): number {
+  if (match.matchType !== '2v1' || match.team1.length !== 1 || match.team1[0] !== playerId) return 1;
+  return getByeScoring(settings).soloWeight ?? 1;
+}
@@ -0,0 +1,239 @@
+// Final standings combining Swiss rank, earlier stages and bracket results
+
+import type { Tournament, FinalStanding, BracketMatch } from '../types';
+import { getStandings } from './standings.js';
+import { getBracketSeeding, getEliminatedPlayers, getStages } from './stages.js';
+
+type Placing = { rank: number, desc: string };
+
+const ordinal = (n: number) => {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+};
+
+const placeLabel = (rank: number, tied: number) =>
+  tied > 1 ? `${ordinal(rank)}–${ordinal(rank + tied - 1)} Place` : `${ordinal(rank)} Place`;
+
+/**
+ * Placings earned by the winner and loser of a completed bracket match.
+ * Rounds that don't settle a place (e.g. winners bracket rounds in double
+ * elimination) return nulls.
+ */
+function getMatchPlacings(match: BracketMatch, poolMatches: BracketMatch[]): [Placing | null, Placing | null] {
+  const roundSize = (round: string) => poolMatches.filter(m => m.round === round).length;
+  const isDouble = poolMatches.some(m => m.round === 'grand_final');
+  const round = match.round;
+
+  // Every slot not fed by an earlier match is a team entering the bracket (byes enter in round two)
+  const teamCount = poolMatches.reduce((sum, m) => sum + (m.sourceMatch1Id ? 0 : 1) + (m.sourceMatch2Id ? 0 : 1), 0);
+  const firstRound = poolMatches.filter(m => m.sourceMatch1Id === null && m.sourceMatch2Id === null);
+
+  // Each knockout match eliminates one team, so a round's losers place just
+  // above everyone eliminated before them in the same bracket
+  const rankAfter = (entrants: number, bracket: BracketMatch[], roundIndex: (r: string) => number) =>
+    entrants - bracket.filter(m => roundIndex(m.round) <= roundIndex(round)).length + 1;
+  const placing = (rank: number): Placing => ({ rank, desc: placeLabel(rank, roundSize(round)) });
+
+  if (round === 'final' || round === 'grand_final_reset') {
+    return [{ rank: 1, desc: 'Champion' }, { rank: 2, desc: 'Runner-up' }];
+  }
+  if (round === 'grand_final') {
+    // If the losers bracket champion won, the reset decides the title
+    const reset = poolMatches.find(m => m.round === 'grand_final_reset');
+    if (reset && !reset.skipped) return [null, null];
+    return [{ rank: 1, desc: 'Champion' }, { rank: 2, desc: 'Runner-up' }];
+  }
+  if (round === 'third_place') return [{ rank: 3, desc: '3rd Place' }, { rank: 4, desc: '4th Place' }];
+  if (round === 'fifth_place') return [{ rank: 5, desc: '5th Place' }, { rank: 6, desc: '6th Place' }];
+  if (round === 'seventh_place') return [{ rank: 7, desc: '7th Place' }, { rank: 8, desc: '8th Place' }];
+  if (round === 'placement_semifinal') return [null, placing(7)];
+
+  // Losers bracket: every team but the two grand finalists goes out here
+  if (round === 'losers_final' || round.startsWith('losers_round_')) {
+    const losersBracket = poolMatches.filter(m => m.round === 'losers_final' || m.round.startsWith('losers_round_'));
+    const roundIndex = (r: string) => r === 'losers_final' ? Infinity : parseInt(r.replace('losers_round_', ''));
+    return [null, placing(rankAfter(teamCount, losersBracket, roundIndex))];
+  }
+
+  // Consolation: first-round losers place below every first-round winner
+  if (round === 'consolation_final' || round.startsWith('consolation_round_')) {
+    const consolation = poolMatches.filter(m => m.round === 'consolation_final' || m.round.startsWith('consolation_round_'));
+    const roundIndex = (r: string) => r === 'consolation_final' ? Infinity : parseInt(r.replace('consolation_round_', ''));
+    const base = teamCount - firstRound.length;
+    const winner = round === 'consolation_final' ? { rank: base + 1, desc: 'Consolation Winner' } : null;
+    return [winner, placing(base + rankAfter(firstRound.length, consolation, roundIndex))];
+  }
+
+  if (isDouble) return [null, null];
+  if (round === 'semifinal') return [null, { rank: 3, desc: 'Semifinalist' }];
+  if (round === 'quarterfinal') return [null, { rank: 5, desc: 'Quarterfinalist' }];
+  // Earlier rounds: losers place just below the teams drawn into the next round
+  if (round === 'round_of_16') return [null, placing(9)];
+  if (round === 'round_of_32') return [null, placing(17)];
+  return [null, null];
+}
+
+/**
+ * Bracket placings for one pool. A team's place comes from the last match it
+ * finished; matches are numbered in playing order, so walking them backwards
+ * reaches that match first.
+ */
+function getBracketPlacings(poolMatches: BracketMatch[]): Map<string, Placing> {
+  const placings = new Map<string, Placing>();
+  const byNumber = [...poolMatches].sort((a, b) => b.matchNumber - a.matchNumber);
+
+  byNumber.forEach(m => {
+    if (!m.completed || m.score1 === null || m.score2 === null) return;
+    const [winnerPlacing, loserPlacing] = getMatchPlacings(m, poolMatches);
+    const winner = (m.score1 > m.score2 ? m.team1 : m.team2) || [];
+    const loser = (m.score1 > m.score2 ? m.team2 : m.team1) || [];
+
+    winner.forEach(p => {
+      if (winnerPlacing && !placings.has(p)) placings.set(p, winnerPlacing);
+    });
+    loser.forEach(p => {
+      if (loserPlacing && !placings.has(p)) placings.set(p, loserPlacing);
+    });
+  });
+
+  return placings;
+}
+
+/**
+ * Final placings: each pool of bracket entrants is ordered by bracket result,
+ * falling back to seed for players without one. Players knocked out in an
+ * earlier stage follow, in the order they went out.
+ */
+export function getFinalStandings(tournament: Tournament): FinalStanding[] {
+  const finalsConfig = tournament.finalsConfig;
+  if (!finalsConfig) return [];
+
+  const standings: FinalStanding[] = [];
+  const swissStandings = getStandings(tournament); // Already sorted by Swiss rank
+  const seeding = getBracketSeeding(tournament);
+  const poolSize = tournament.settings.poolSize || 8;
+  const swissRankOf = (playerId: string) => swissStandings.find(pl => pl.player.id === playerId)?.rank || 999;
+
+  // Seeds from Swiss read as Swiss ranks; seeds from a later stage are labelled with it
+  const stages = getStages(tournament);
+  const seedStage = stages[stages.findIndex(s => s.type === 'bracket') - 1];
+  const seedLabel = (seed: number, playerId: string) =>
+    !seedStage || seedStage.type === 'swiss' ? `Swiss Rank ${swissRankOf(playerId)}` : `${seedStage.name} Seed ${seed}`;
+
+  // Helper to find specific pool config
+  const getPoolConfig = (poolId: string) =>
+    finalsConfig.poolConfigs.find(c => c.poolId === poolId);
+
+  // Process standings in chunks (Pools)
+  for (let i = 0; i < seeding.length; i += poolSize) {
+    const chunk = seeding.slice(i, i + poolSize);
+    if (chunk.length === 0) break;
+
+    const poolIndex = Math.floor(i / poolSize);
+    const poolId = `pool-${poolIndex}`;
+    const poolName = `Pool ${String.fromCharCode(65 + poolIndex)}`; // Pool A, B...
+    const poolStartRank = i + 1;
+
+    const config = getPoolConfig(poolId);
+    const poolMatches = tournament.bracketMatches.filter(m => m.poolId === poolId);
+
+    // If no bracket or not configured, these players just keep their relative seed order
+    // But mapped to the pool's rank range
+    if (!config || config.bracketType === 'none' || poolMatches.length === 0) {
+      chunk.forEach((s, idx) => {
+        standings.push({
+          playerId: s.player.id,
+          playerName: s.player.name,
+          finalPosition: poolStartRank + idx,
+          poolName: poolName,
+          bracketResult: seedLabel(s.rank, s.player.id),
+          swissRank: swissRankOf(s.player.id)
+        });
+      });
+      continue;
+    }
+
+    // Bracket Logic for this Pool
+    const rankedPlayers = getBracketPlacings(poolMatches);
+    const handledPlayers = new Set(rankedPlayers.keys());
+
+    // Build final list for this pool
+    const poolResults: { pid: string, rank: number, desc: string, active: boolean, seed: number }[] = [];
+
+    // Add Bracket Participants
+    rankedPlayers.forEach((info, pid) => {
+      // Find player in seeding to break ties between equal bracket results
+      const s = seeding.find(pl => pl.player.id === pid);
+      poolResults.push({
+        pid,
+        rank: info.rank,
+        desc: info.desc,
+        active: false,
+        seed: s?.rank || 999
+      });
+    });
+
+    // Add Remaining Players (from chunk)
+    chunk.forEach(s => {
+      if (!handledPlayers.has(s.player.id)) {
+        let rank = 100;
+        let desc = seedLabel(s.rank, s.player.id);
+        let active = false;
+
+        // Check if active in bracket (in progress)
+        const activeMatch = poolMatches.find(m => !m.completed && (m.team1?.includes(s.player.id) || m.team2?.includes(s.player.id)));
+        if (activeMatch) {
+          active = true;
+          desc = 'In Progress';
+          if (activeMatch.round === 'final') rank = 1;
+          else if (activeMatch.round === 'third_place') rank = 3;
+          else rank = 1;
+        }
+
+        poolResults.push({
+          pid: s.player.id,
+          rank,
+          desc,
+          active,
+          seed: s.rank
+        });
+      }
+    });
+
+    // Sort Pool Results
+    poolResults.sort((a, b) => {
+      // Rank 1..N
+      if (a.rank !== b.rank) return a.rank - b.rank;
+      // Tiebreaker: Seed
+      return a.seed - b.seed;
+    });
+
+    // Assign final positions
+    poolResults.forEach((res, idx) => {
+      const pName = swissStandings.find(pl => pl.player.id === res.pid)?.player.name || 'Unknown';
+      standings.push({
+        playerId: res.pid,
+        playerName: pName,
+        finalPosition: poolStartRank + idx,
+        poolName: poolName,
+        bracketResult: res.desc,
+        swissRank: swissRankOf(res.pid)
+      });
+    });
+  }
+
+  getEliminatedPlayers(tournament).forEach(({ playerId, stageName }) => {
+    const player = tournament.players.find(p => p.id === playerId);
+    standings.push({
+      playerId,
+      playerName: player?.name || 'Unknown',
+      finalPosition: standings.length + 1,
+      poolName: stageName,
+      bracketResult: player?.active ? `Out in ${stageName}` : 'Withdrawn',
+      swissRank: swissRankOf(playerId)
+    });
+  });
+
+  return standings;
+}
@@ -0,0 +1,110 @@
+// Game-by-game score entry (settings.scoreEntry === 'games')
+// Each game is worth 2 match points: the team with more board points takes both,
+// a drawn game splits them 1-1. A match is pointsPerMatch / 2 games.
+// Best-of-N matches (settings.pointSystem.bestOf) score 1 per game won instead,
+// and stop once a side has won a majority.
+
+import type { Match, GameScore, TournamentSettings } from '../types';
+import { getIndividualTwenties, sumTeamTwenties } from './twenties.js';
+import { isBestOf, getMatchTotal, getGamesToWin, getPointSystem } from './pointSystem.js';
+
+export interface ConvertedScore {
+  score1: number;
+  score2: number;
+  twenties1: number;
+  twenties2: number;
+}
+
+export function isGameScoreEntry(settings: TournamentSettings): boolean {
+  return settings.scoreEntry === 'games';
+}
+
+export function getGamesPerMatch(settings: TournamentSettings): number {
+  if (isBestOf(settings)) return getMatchTotal(settings);
+  return Math.max(1, Math.round((settings.pointsPerMatch || 8) / 2));
+}
+
+/**
+ * Match points each team earns for one game (2/1/0, or 1/0/0 in a best-of-N)
+ */
+export function getGameMatchPoints(game: GameScore, settings?: TournamentSettings): [number, number] {
+  const win = isBestOf(settings) ? 1 : 2;
+  const tie = isBestOf(settings) ? 0 : 1;
+  if (game.points1 > game.points2) return [win, 0];
+  if (game.points2 > game.points1) return [0, win];
+  return [tie, tie];
+}
+
+/**
+ * Convert a match's games into the match points and team 20s stored on the match
+ */
+export function convertGames(
+  match: Pick<Match, 'team1' | 'team2'>,
+  games: GameScore[],
+  settings?: TournamentSettings
+): ConvertedScore {
+  let score1 = 0, score2 = 0;
+
+  games.forEach((game) => {
+    const [points1, points2] = getGameMatchPoints(game, settings);
+    score1 += points1;
+    score2 += points2;
+  });
+
+  const twenties = getIndividualTwenties({ ...match, twenties1: 0, twenties2: 0, games }) ?? {};
+  return { score1, score2, ...sumTeamTwenties(match, twenties) };
+}
+
+/**
+ * Why a set of games can't be submitted, or null if it can
+ */
+export function validateGames(games: GameScore[], settings: TournamentSettings): string | null {
+  const expected = getGamesPerMatch(settings);
+  if (games.length === 0) return 'Enter at least one game';
+  if (games.length > expected) return `A match is at most ${expected} games`;
+
+  for (let i = 0; i < games.length; i++) {
+    const game = games[i];
+    const values = [game.points1, game.points2, ...Object.values(game.twenties)];
+    if (values.some((v) => !Number.isInteger(v) || v < 0)) {
+      return `Game ${i + 1}: points and 20s can't be negative`;
+    }
+  }
+
+  if (isBestOf(settings)) {
+    // Once a side has won the match, no more games are played
+    const toWin = getGamesToWin(settings);
+    let won1 = 0, won2 = 0;
+    for (let i = 0; i < games.length; i++) {
+      if (won1 === toWin || won2 === toWin) return `The match was decided after game ${i}`;
+      const [points1, points2] = getGameMatchPoints(games[i], settings);
+      won1 += points1;
+      won2 += points2;
+    }
+    if (games.length < expected && won1 < toWin && won2 < toWin) {
+      return `Play on until a side wins ${toWin} games`;
+    }
+    return null;
+  }
+
+  if (games.length !== expected && !getPointSystem(settings).allowPartial) {
+    return `Enter all ${expected} games`;
+  }
+  return null;
+}
+
+/**
+ * Raw board points for and against a side across the match's games,
+ * or null when the match was entered as totals
+ */
+export function getRawPoints(match: Match, side: 1 | 2): { pointsFor: number; pointsAgainst: number } | null {
+  if (!match.games?.length) return null;
+
+  return match.games.reduce(
+    (sum, game) => ({
+      pointsFor: sum.pointsFor + (side === 1 ? game.points1 : game.points2),
+      pointsAgainst: sum.pointsAgainst + (side === 1 ? game.points2 : game.points1),
+    }),
+    { pointsFor: 0, pointsAgainst: 0 }
+  );
+}
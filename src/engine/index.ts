@@ -0,0 +1,142 @@
+// Tournament engine - pure functions shared by the client store (local mode)
+// and the server room manager (online mode) so both always agree
+
+export {
+  calculatePlayerStats,
+  recalculatePlayerStats,
+  getPlayerScore,
+  compareByStandings,
+  type PlayerStats,
+} from './stats.js';
+export {
+  DEFAULT_BYE_SCORING,
+  BYE_VALUE_LABELS,
+  getByeScoring,
+  getByeGameCounting,
+  getByePoints,
+  describeByeValue,
+  type ByeSettings,
+} from './byes.js';
+export {
+  DEFAULT_POINT_SYSTEM,
+  getPointSystem,
+  isBestOf,
+  getMatchTotal,
+  getGamesToWin,
+  isFixedTotal,
+  getResultPoints,
+  validateMatchScore,
+  describePointSystem,
+  type PointSettings,
+} from './pointSystem.js';
+export { getStandings, getStandingsComparator } from './standings.js';
+export {
+  DEFAULT_TIEBREAKERS,
+  TIEBREAKER_LABELS,
+  createStandingsComparator,
+  getBuchholz,
+  getMedianBuchholz,
+  getSonnebornBerger,
+} from './tiebreakers.js';
+export { generateRound, type RoundGenerationResult } from './rounds.js';
+export { applyCheckIn, getLateEntryRound, canChangeRoster } from './roster.js';
+export { DEFAULT_PAIRING_WEIGHTS } from '../utils/pairingAlgorithm.js';
+export { getPlayerSide, applyScoreReport } from './scoreReports.js';
+export {
+  DEFAULT_ROUND_MINUTES,
+  DEFAULT_TIMER_WARNING_MINUTES,
+  createRoundTimer,
+  getRemainingMs,
+  isTimerRunning,
+  startTimer,
+  pauseTimer,
+  extendTimer,
+  expireTimer,
+  isTimerWarning,
+  getUnfinishedMatchIds,
+  formatTimerMs,
+} from './roundTimer.js';
+export {
+  STAGE_TYPE_LABELS,
+  getStageDefinitions,
+  validateStageDefinitions,
+  getStages,
+  getCurrentStage,
+  getNextStageDefinition,
+  createInitialStages,
+  getUnplayedStageMatches,
+  completeStage,
+  getRoundRobinStandings,
+  getPoolMatches,
+  getStageRanking,
+  getBracketSeeding,
+  getEliminatedPlayers,
+  type StageCompletion,
+  type RoundRobinPoolStandings,
+} from './stages.js';
+export {
+  generateBracketMatches,
+  applyBracketScore,
+  validateBracketScore,
+  canEditBracketScore,
+  MAX_BRACKET_TEAMS,
+  getBracketTeamCount,
+  canDoubleEliminate,
+  getFirstRoundPairings,
+  getBracketRoundLabel,
+  isWinnersBracketRound,
+} from './brackets.js';
+export {
+  isSinglesFormat,
+  getPlayersPerSide,
+  getMinimumPlayers,
+  isFixedPartnerMode,
+  getFixedTeams,
+  getPlayerTeam,
+  formFixedTeams,
+  formTeams,
+} from './teams.js';
+export {
+  isGameScoreEntry,
+  getGamesPerMatch,
+  getGameMatchPoints,
+  convertGames,
+  validateGames,
+  getRawPoints,
+  type ConvertedScore,
+} from './gameScoring.js';
+export {
+  isIndividualTwentiesEntry,
+  getIndividualTwenties,
+  getPlayerMatchTwenties,
+  sumTeamTwenties,
+  type TwentiesRecord,
+} from './twenties.js';
+export { getFinalStandings } from './finalStandings.js';
+export {
+  normalizePlayerName,
+  resolveRegisteredPlayer,
+  findRegisteredPlayer,
+  searchRegisteredPlayers,
+  mergeRegisteredPlayers,
+  type LinkedArchive,
+} from './registry.js';
+export {
+  DEFAULT_RATING,
+  getExpectedScore,
+  calculateClubRatings,
+  type RatingResult,
+} from './ratings.js';
+export {
+  DEFAULT_ROUND_ONE_SEEDING,
+  getRoundOneSeeding,
+  compareBySeed,
+  getSeedOrder,
+  describeRoundOneSeeding,
+} from './seeding.js';
+export {
+  DEFAULT_SEASON_RULES,
+  getLeaguePoints,
+  getFinishingPositions,
+  calculateSeasonStandings,
+} from './seasons.js';
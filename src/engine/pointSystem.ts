@@ -0,0 +1,93 @@
+// Match point system (settings.pointSystem): standings points for a win, tie
+// and loss, and which match scores are valid. Match scores normally split
+// pointsPerMatch between the sides; best-of-N matches record games won instead.
+
+import type { PointSystem, TournamentSettings } from '../types';
+
+// The settings that decide how matches score
+export type PointSettings = Pick<TournamentSettings, 'pointsPerMatch' | 'pointSystem'>;
+
+export const DEFAULT_POINT_SYSTEM: PointSystem = {
+  win: 2,
+  tie: 1,
+  loss: 0,
+  allowPartial: false,
+};
+
+export function getPointSystem(settings?: Partial<PointSettings>): PointSystem {
+  return { ...DEFAULT_POINT_SYSTEM, ...settings?.pointSystem };
+}
+
+export function isBestOf(settings?: Partial<PointSettings>): boolean {
+  return (settings?.pointSystem?.bestOf ?? 0) > 0;
+}
+
+/**
+ * Most match points both sides can share: games in a best-of-N, otherwise pointsPerMatch
+ */
+export function getMatchTotal(settings?: Partial<PointSettings>): number {
+  return isBestOf(settings) ? settings!.pointSystem!.bestOf! : settings?.pointsPerMatch || 8;
+}
+
+/**
+ * Games a side needs to take a best-of-N match
+ */
+export function getGamesToWin(settings?: Partial<PointSettings>): number {
+  return Math.floor(getMatchTotal(settings) / 2) + 1;
+}
+
+/**
+ * Whether one side's score fixes the other's (the sides always split the full total)
+ */
+export function isFixedTotal(settings?: Partial<PointSettings>): boolean {
+  return !isBestOf(settings) && !getPointSystem(settings).allowPartial;
+}
+
+/**
+ * Standings points for a record of wins, ties and losses
+ */
+export function getResultPoints(
+  record: { wins: number; ties: number; losses: number },
+  settings?: Partial<PointSettings>
+): number {
+  const system = getPointSystem(settings);
+  return (record.wins * system.win) + (record.ties * system.tie) + (record.losses * system.loss);
+}
+
+/**
+ * Why a match score can't be recorded, or null if it can
+ */
+export function validateMatchScore(score1: number, score2: number, settings?: Partial<PointSettings>): string | null {
+  if (!Number.isInteger(score1) || !Number.isInteger(score2) || score1 < 0 || score2 < 0) {
+    return 'Scores must be whole numbers of 0 or more';
+  }
+
+  const total = getMatchTotal(settings);
+  if (isBestOf(settings)) {
+    const toWin = getGamesToWin(settings);
+    if (score1 > toWin || score2 > toWin || score1 + score2 > total) {
+      return `Best of ${total}: the match ends when a side wins ${toWin} games`;
+    }
+    if (score1 === toWin && score2 === toWin) return 'Only one side can win the match';
+    if (!getPointSystem(settings).allowPartial && score1 !== toWin && score2 !== toWin) {
+      return `Best of ${total}: play on until a side wins ${toWin} games`;
+    }
+    return null;
+  }
+
+  if (score1 + score2 > total) return `Scores can't add up to more than ${total}`;
+  if (!getPointSystem(settings).allowPartial && score1 + score2 !== total) {
+    return `Scores must add up to ${total}`;
+  }
+  return null;
+}
+
+/**
+ * Short formula for the standings score, e.g. "W×2 + T×1"
+ */
+export function describePointSystem(settings?: Partial<PointSettings>): string {
+  const system = getPointSystem(settings);
+  const terms = [`W×${system.win}`, `T×${system.tie}`];
+  if (system.loss !== 0) terms.push(`L×${system.loss}`);
+  return terms.join(' + ');
+}
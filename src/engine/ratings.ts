@@ -0,0 +1,148 @@
+// Club ratings: Elo over every archived tournament, oldest first. A side's
+// rating is the average of its players, so doubles partners share the
+// result and 1v1/2v1 bye games rate like any other game.
+
+import type { BracketTeam, ClubRating, RatingHistoryEntry } from '../types';
+import type { LinkedArchive } from './registry.js';
+
+export const DEFAULT_RATING = 1500;
+const K_FACTOR = 24;
+const PROVISIONAL_K_FACTOR = 40;  // New players move faster until their rating settles
+const PROVISIONAL_GAMES = 10;
+const UNEVEN_GAME_WEIGHT = 0.5;   // 2v1 games count half: two against one is not an even test
+
+export interface RatingResult {
+  ratings: ClubRating[];
+  history: RatingHistoryEntry[];
+}
+
+interface RatedGame {
+  side1: string[];
+  side2: string[];
+  score1: number;
+  score2: number;
+}
+
+/**
+ * Chance side A beats side B
+ */
+export function getExpectedScore(ratingA: number, ratingB: number): number {
+  return 1 / (1 + Math.pow(10, (ratingB - ratingA) / 400));
+}
+
+/**
+ * Every completed head-to-head game in a tournament: Swiss rounds, round robin
+ * stages, then brackets. Byes (no opponent) and unplayed games are left out.
+ */
+function getRatedGames(archive: LinkedArchive): RatedGame[] {
+  const { tournament, registryIds } = archive;
+  const toSide = (team: BracketTeam | null) =>
+    [...new Set((team ?? []).map((id) => registryIds[id]).filter(Boolean))];
+
+  const played = [
+    ...[...tournament.matches].sort((a, b) => a.round - b.round),
+    ...(tournament.stages ?? []).flatMap((stage) =>
+      [...(stage.matches ?? [])].sort((a, b) => a.round - b.round)
+    ),
+  ]
+    .filter((m) => m.completed && !m.isBye)
+    .map((m) => ({ team1: m.team1, team2: m.team2, score1: m.score1, score2: m.score2 }));
+
+  const bracket = (tournament.bracketMatches ?? [])
+    .filter((m) => m.completed && !m.skipped);
+
+  const games: RatedGame[] = [];
+  [...played, ...bracket].forEach((m) => {
+    if (m.score1 === null || m.score2 === null) return;
+    const side1 = toSide(m.team1);
+    const side2 = toSide(m.team2);
+    if (side1.length === 0 || side2.length === 0 || side1.some((id) => side2.includes(id))) return;
+    games.push({ side1, side2, score1: m.score1, score2: m.score2 });
+  });
+  return games;
+}
+
+/**
+ * Rate every archive in order. Each game moves a player by
+ * K × (result − expected), where expected compares the two sides' averages.
+ */
+export function calculateClubRatings(archives: LinkedArchive[]): RatingResult {
+  const ratings = new Map<string, ClubRating>();
+  const history: RatingHistoryEntry[] = [];
+
+  const getRating = (registryId: string): ClubRating => {
+    let rating = ratings.get(registryId);
+    if (!rating) {
+      rating = {
+        registryId,
+        rating: DEFAULT_RATING,
+        peak: DEFAULT_RATING,
+        games: 0,
+        wins: 0,
+        losses: 0,
+        ties: 0,
+        tournaments: 0,
+        lastPlayedAt: 0,
+      };
+      ratings.set(registryId, rating);
+    }
+    return rating;
+  };
+
+  const average = (side: string[]) =>
+    side.reduce((sum, id) => sum + getRating(id).rating, 0) / side.length;
+
+  [...archives]
+    .sort((a, b) => a.archivedAt - b.archivedAt)
+    .forEach((archive) => {
+      const before = new Map<string, number>();
+      const gamesPlayed = new Map<string, number>();
+
+      getRatedGames(archive).forEach((game) => {
+        const expected1 = getExpectedScore(average(game.side1), average(game.side2));
+        const result1 = game.score1 > game.score2 ? 1 : game.score1 < game.score2 ? 0 : 0.5;
+        const weight = game.side1.length === game.side2.length ? 1 : UNEVEN_GAME_WEIGHT;
+
+        // Work out every change from the ratings going into the game
+        const changes = [
+          ...game.side1.map((id) => [id, result1 - expected1, result1] as const),
+          ...game.side2.map((id) => [id, expected1 - result1, 1 - result1] as const),
+        ].map(([id, surprise, result]) => {
+          const player = getRating(id);
+          const k = player.games < PROVISIONAL_GAMES ? PROVISIONAL_K_FACTOR : K_FACTOR;
+          return { player, delta: k * weight * surprise, result };
+        });
+
+        changes.forEach(({ player, delta, result }) => {
+          if (!before.has(player.registryId)) before.set(player.registryId, player.rating);
+          gamesPlayed.set(player.registryId, (gamesPlayed.get(player.registryId) ?? 0) + 1);
+          player.rating += delta;
+          player.peak = Math.max(player.peak, player.rating);
+          player.games++;
+          if (result === 1) player.wins++;
+          else if (result === 0) player.losses++;
+          else player.ties++;
+        });
+      });
+
+      before.forEach((ratingBefore, registryId) => {
+        const player = getRating(registryId);
+        player.tournaments++;
+        player.lastPlayedAt = archive.archivedAt;
+        history.push({
+          registryId,
+          code: archive.code,
+          tournamentName: archive.tournament.name,
+          archivedAt: archive.archivedAt,
+          ratingBefore,
+          ratingAfter: player.rating,
+          games: gamesPlayed.get(registryId) ?? 0,
+        });
+      });
+    });
+
+  return {
+    ratings: [...ratings.values()].sort((a, b) => b.rating - a.rating),
+    history,
+  };
+}
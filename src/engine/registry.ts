@@ -0,0 +1,86 @@
+// Club player registry: matching tournament players to registered identities.
+// Shared by the client (autocomplete) and the server (linking archives).
+
+import type { RegisteredPlayer, Tournament } from '../types';
+
+// An archived tournament with its players' registry identities (player ID -> registry ID)
+export interface LinkedArchive {
+  code: string;
+  archivedAt: number;
+  tournament: Tournament;
+  registryIds: Record<string, string>;
+}
+
+/**
+ * Name as compared for matching: trimmed, lower-case, single spaces
+ */
+export function normalizePlayerName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Follow merges to the registered player a record now belongs to
+ */
+export function resolveRegisteredPlayer(players: RegisteredPlayer[], id: string): RegisteredPlayer | null {
+  const byId = new Map(players.map((p) => [p.id, p]));
+  let player = byId.get(id);
+  const seen = new Set<string>();
+  while (player?.mergedInto && !seen.has(player.id)) {
+    seen.add(player.id);
+    player = byId.get(player.mergedInto);
+  }
+  return player ?? null;
+}
+
+/**
+ * The registered player with this name or alias, if exactly one matches
+ */
+export function findRegisteredPlayer(players: RegisteredPlayer[], name: string): RegisteredPlayer | null {
+  const key = normalizePlayerName(name);
+  if (!key) return null;
+
+  const matches = players.filter((p) =>
+    !p.mergedInto && [p.name, ...p.aliases].some((n) => normalizePlayerName(n) === key)
+  );
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Registered players whose name or an alias contains the query, best matches first
+ */
+export function searchRegisteredPlayers(players: RegisteredPlayer[], query: string, limit = 10): RegisteredPlayer[] {
+  const key = normalizePlayerName(query);
+  if (!key) return [];
+
+  const rank = (p: RegisteredPlayer): number => {
+    const names = [p.name, ...p.aliases].map(normalizePlayerName);
+    if (names.some((n) => n === key)) return 0;
+    if (names.some((n) => n.startsWith(key))) return 1;
+    if (names.some((n) => n.includes(key))) return 2;
+    return -1;
+  };
+
+  return players
+    .filter((p) => !p.mergedInto)
+    .map((player) => ({ player, rank: rank(player) }))
+    .filter((r) => r.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.player.name.localeCompare(b.player.name))
+    .slice(0, limit)
+    .map((r) => r.player);
+}
+
+/**
+ * Fold a duplicate into another player: its name and aliases become aliases
+ */
+export function mergeRegisteredPlayers(target: RegisteredPlayer, source: RegisteredPlayer, now: number): RegisteredPlayer {
+  const seen = new Set([normalizePlayerName(target.name)]);
+  const aliases: string[] = [];
+  [...target.aliases, source.name, ...source.aliases].forEach((alias) => {
+    const key = normalizePlayerName(alias);
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    aliases.push(alias.trim());
+  });
+
+  return { ...target, aliases, updatedAt: now };
+}
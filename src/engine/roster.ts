@@ -0,0 +1,35 @@
+// Roster changes: check-in, late entry and withdrawal
+
+import type { Tournament, Player } from '../types';
+
+/**
+ * Players for Round 1. With check-in enabled, anyone not checked in sits out
+ * (they can be reinstated later as a late entrant).
+ */
+export function applyCheckIn(tournament: Tournament): Player[] {
+  if (!tournament.settings.checkInEnabled) return tournament.players;
+  return tournament.players.map((p) => ({ ...p, active: p.checkedIn === true }));
+}
+
+/**
+ * First round a player joining now can play, or undefined if they're not a late entrant.
+ * The current round is already paired, so late entrants start with the next one.
+ */
+export function getLateEntryRound(tournament: Tournament, playerId: string): number | undefined {
+  if (tournament.status !== 'active') return undefined;
+
+  const hasPlayed = tournament.matches.some(
+    (m) => m.team1.includes(playerId) || m.team2?.includes(playerId)
+  );
+  return hasPlayed ? undefined : tournament.currentRound + 1;
+}
+
+/**
+ * Withdrawals and reinstatements are only possible during Swiss rounds
+ */
+export function canChangeRoster(tournament: Tournament, playerId: string, withdraw: boolean): boolean {
+  if (tournament.status !== 'active') return false;
+  const player = tournament.players.find((p) => p.id === playerId);
+  if (!player) return false;
+  return withdraw ? player.active : !player.active;
+}
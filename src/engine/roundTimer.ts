@@ -0,0 +1,101 @@
+// Round clock: a pausable countdown for the current Swiss round.
+// The server owns the clock online; clients render it with their offset from server time.
+
+import type { Match, RoundTimer, TournamentSettings } from '../types';
+
+export const DEFAULT_ROUND_MINUTES = 30;
+export const DEFAULT_TIMER_WARNING_MINUTES = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * A paused clock for a round, using the configured round length unless one is given
+ */
+export function createRoundTimer(round: number, settings: TournamentSettings, minutes?: number): RoundTimer {
+  const durationMs = (minutes ?? settings.roundTimeMinutes ?? DEFAULT_ROUND_MINUTES) * MINUTE_MS;
+  return {
+    round,
+    durationMs,
+    remainingMs: durationMs,
+    startedAt: null,
+    expired: false,
+  };
+}
+
+/**
+ * Time left on the clock at `now` (never negative)
+ */
+export function getRemainingMs(timer: RoundTimer, now: number): number {
+  if (timer.startedAt === null) return Math.max(0, timer.remainingMs);
+  return Math.max(0, timer.remainingMs - (now - timer.startedAt));
+}
+
+export function isTimerRunning(timer: RoundTimer): boolean {
+  return timer.startedAt !== null && !timer.expired;
+}
+
+export function startTimer(timer: RoundTimer, now: number): RoundTimer {
+  if (isTimerRunning(timer) || getRemainingMs(timer, now) === 0) return timer;
+  return { ...timer, startedAt: now };
+}
+
+export function pauseTimer(timer: RoundTimer, now: number): RoundTimer {
+  if (!isTimerRunning(timer)) return timer;
+  return { ...timer, remainingMs: getRemainingMs(timer, now), startedAt: null };
+}
+
+/**
+ * Add time to the clock. Extending an expired clock leaves it paused with the added time.
+ */
+export function extendTimer(timer: RoundTimer, minutes: number, now: number): RoundTimer {
+  const addedMs = minutes * MINUTE_MS;
+  if (timer.expired) {
+    return {
+      ...timer,
+      durationMs: timer.durationMs + addedMs,
+      remainingMs: addedMs,
+      startedAt: null,
+      expired: false,
+    };
+  }
+  return {
+    ...timer,
+    durationMs: timer.durationMs + addedMs,
+    remainingMs: getRemainingMs(timer, now) + addedMs,
+    startedAt: timer.startedAt === null ? null : now,
+  };
+}
+
+export function expireTimer(timer: RoundTimer): RoundTimer {
+  return { ...timer, remainingMs: 0, startedAt: null, expired: true };
+}
+
+/**
+ * Whether the clock is inside the configured warning window
+ */
+export function isTimerWarning(timer: RoundTimer, settings: TournamentSettings, now: number): boolean {
+  const warningMs = (settings.timerWarningMinutes ?? DEFAULT_TIMER_WARNING_MINUTES) * MINUTE_MS;
+  const remaining = getRemainingMs(timer, now);
+  return warningMs > 0 && remaining > 0 && remaining <= warningMs;
+}
+
+/**
+ * Unfinished, non-bye matches of a round - the ones flagged for adjudication at time
+ */
+export function getUnfinishedMatchIds(matches: Match[], round: number): string[] {
+  return matches
+    .filter((m) => m.round === round && !m.isBye && !m.completed)
+    .map((m) => m.id);
+}
+
+/**
+ * mm:ss (or h:mm:ss) for display
+ */
+export function formatTimerMs(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${minutes.toString().padStart(hours > 0 ? 2 : 1, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
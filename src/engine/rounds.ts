@@ -0,0 +1,45 @@
+// Swiss round generation
+
+import type { Tournament, Match, Player, RoundLog } from '../types';
+import { generateRoundPairings } from '../utils/pairingAlgorithm.js';
+import { recalculatePlayerStats } from './stats.js';
+import { getStandingsComparator } from './standings.js';
+import { getFixedTeams, isFixedPartnerMode } from './teams.js';
+
+export interface RoundGenerationResult {
+  matches: Match[];
+  players: Player[];        // Players with stats recalculated from match data (including new byes)
+  pairingLogs: RoundLog[];  // Tournament's pairing logs including this round
+}
+
+/**
+ * Generate pairings for the given round.
+ * Stats are recalculated from match data first so bye selection and
+ * Swiss pairing always see accurate standings.
+ */
+export function generateRound(tournament: Tournament, round: number): RoundGenerationResult {
+  const players = recalculatePlayerStats(tournament.players, tournament.matches, tournament.settings);
+
+  const { matches, roundLog } = generateRoundPairings(
+    players,
+    tournament.matches,
+    round,
+    tournament.tables,
+    tournament.settings.tableAssignment,
+    tournament.settings.byeGameMode,
+    getStandingsComparator(tournament, players),
+    tournament.settings.pairingWeights,
+    tournament.settings.lateEntryScoring,
+    isFixedPartnerMode(tournament) ? getFixedTeams(tournament) : undefined,
+    tournament.settings.format,
+    tournament.settings
+  );
+
+  // Replace any previous log for this round (e.g. after an undo and regenerate)
+  const pairingLogs = (tournament.pairingLogs ?? []).filter((l) => l.round !== round);
+  if (roundLog) pairingLogs.push(roundLog);
+  pairingLogs.sort((a, b) => a.round - b.round);
+
+  // New matches may include completed byes (this round's, or missed rounds for late entrants)
+  return { matches, players: recalculatePlayerStats(players, [...tournament.matches, ...matches], tournament.settings), pairingLogs };
+}
@@ -0,0 +1,63 @@
+// Dual-confirmation score reporting: a player-reported score only counts
+// once the opposing team reports the same result
+
+import type { Match, ScoreReport } from '../types';
+
+/**
+ * Which team a player is on in a match, or null if they're not playing in it
+ */
+export function getPlayerSide(match: Match, playerId: string): 1 | 2 | null {
+  if (match.team1.includes(playerId)) return 1;
+  if (match.team2?.includes(playerId)) return 2;
+  return null;
+}
+
+// Game-by-game reports must also agree on every game's board points
+function gamesAgree(a: ScoreReport, b: ScoreReport): boolean {
+  const gamesA = a.games ?? [];
+  const gamesB = b.games ?? [];
+  return gamesA.length === gamesB.length
+    && gamesA.every((g, i) => g.points1 === gamesB[i].points1 && g.points2 === gamesB[i].points2);
+}
+
+function reportsAgree(a: ScoreReport, b: ScoreReport): boolean {
+  return a.score1 === b.score1
+    && a.score2 === b.score2
+    && a.twenties1 === b.twenties1
+    && a.twenties2 === b.twenties2
+    && gamesAgree(a, b);
+}
+
+/**
+ * Record a team's report on a match. A later report from the same team replaces
+ * its earlier one; matching reports from both teams complete the match.
+ */
+export function applyScoreReport(match: Match, report: ScoreReport): Match {
+  const scoreReports = [
+    ...(match.scoreReports ?? []).filter((r) => r.side !== report.side),
+    report,
+  ];
+  const opposing = scoreReports.find((r) => r.side !== report.side);
+
+  if (!opposing) {
+    return { ...match, scoreReports, scoreStatus: 'pending' };
+  }
+
+  if (!reportsAgree(opposing, report)) {
+    return { ...match, scoreReports, scoreStatus: 'disputed' };
+  }
+
+  return {
+    ...match,
+    score1: report.score1,
+    score2: report.score2,
+    twenties1: report.twenties1,
+    twenties2: report.twenties2,
+    games: report.games,
+    playerTwenties: report.playerTwenties,
+    completed: true,
+    scoreReports,
+    scoreStatus: 'confirmed',
+    needsAdjudication: undefined,
+  };
+}
@@ -0,0 +1,118 @@
+// Season / league series: league points by finishing position at each
+// archived event, added up per registered player with the worst N dropped.
+
+import type { SeasonEvent, SeasonEventResult, SeasonRules, SeasonStanding, Tournament } from '../types';
+import type { LinkedArchive } from './registry.js';
+import { getFinalStandings } from './finalStandings.js';
+import { getStandings } from './standings.js';
+
+export const DEFAULT_SEASON_RULES: SeasonRules = {
+  pointsTable: [25, 18, 15, 12, 10, 8, 6, 4, 2, 1],
+  participationPoints: 1,
+  dropWorst: 0,
+};
+
+/**
+ * League points for a finishing position (1 = winner)
+ */
+export function getLeaguePoints(position: number, rules: SeasonRules): number {
+  return rules.pointsTable[position - 1] ?? rules.participationPoints;
+}
+
+/**
+ * Each player's finishing position: the final standings when there were
+ * finals, otherwise their Swiss rank
+ */
+export function getFinishingPositions(tournament: Tournament): Map<string, number> {
+  const finals = getFinalStandings(tournament);
+  if (finals.length > 0) {
+    return new Map(finals.map((s) => [s.playerId, s.finalPosition]));
+  }
+  return new Map(getStandings(tournament).map((s) => [s.player.id, s.rank]));
+}
+
+/**
+ * Positions sorted best first, for countback between players level on points
+ */
+function compareCountback(a: SeasonStanding, b: SeasonStanding): number {
+  const finishes = (s: SeasonStanding) =>
+    s.results.map((r) => r.position).filter((p): p is number => p !== null).sort((x, y) => x - y);
+  const finishesA = finishes(a);
+  const finishesB = finishes(b);
+  for (let i = 0; i < Math.max(finishesA.length, finishesB.length); i++) {
+    const posA = finishesA[i] ?? Infinity;
+    const posB = finishesB[i] ?? Infinity;
+    if (posA !== posB) return posA - posB;
+  }
+  return 0;
+}
+
+/**
+ * Season table: total league points after drops, then countback (more wins,
+ * then more seconds, ...). Missed events score 0 and are dropped first.
+ * `names` maps registry IDs to display names; otherwise the name a player
+ * last entered under is used.
+ */
+export function calculateSeasonStandings(
+  rules: SeasonRules,
+  archives: LinkedArchive[],
+  names: Record<string, string> = {}
+): { events: SeasonEvent[]; standings: SeasonStanding[] } {
+  const ordered = [...archives].sort((a, b) => a.archivedAt - b.archivedAt);
+  const events: SeasonEvent[] = ordered.map((a) => ({
+    code: a.code,
+    tournamentName: a.tournament.name,
+    archivedAt: a.archivedAt,
+  }));
+
+  // Registry ID -> position at each event
+  const positions = new Map<string, (number | null)[]>();
+  const lastNames = new Map<string, string>();
+  ordered.forEach((archive, eventIndex) => {
+    getFinishingPositions(archive.tournament).forEach((position, playerId) => {
+      const registryId = archive.registryIds[playerId];
+      if (!registryId) return;
+      const row = positions.get(registryId) ?? events.map(() => null);
+      // A merged player could appear twice in one event: keep their better finish
+      const current = row[eventIndex];
+      row[eventIndex] = current === null ? position : Math.min(current, position);
+      positions.set(registryId, row);
+      lastNames.set(registryId, archive.tournament.players.find((p) => p.id === playerId)?.name ?? registryId);
+    });
+  });
+
+  const dropCount = Math.max(0, Math.min(rules.dropWorst, events.length - 1));
+
+  const standings: SeasonStanding[] = [...positions.entries()].map(([registryId, row]) => {
+    const results: SeasonEventResult[] = events.map((event, i) => ({
+      ...event,
+      position: row[i],
+      points: row[i] === null ? 0 : getLeaguePoints(row[i]!, rules),
+      dropped: false,
+    }));
+
+    // Drop the lowest scores; among equal scores, missed events then the earliest go first
+    [...results]
+      .sort((a, b) => a.points - b.points || (a.position === null ? -1 : 0) - (b.position === null ? -1 : 0))
+      .slice(0, dropCount)
+      .forEach((r) => { r.dropped = true; });
+
+    return {
+      registryId,
+      name: names[registryId] ?? lastNames.get(registryId) ?? registryId,
+      rank: 0,
+      total: results.reduce((sum, r) => sum + (r.dropped ? 0 : r.points), 0),
+      played: results.filter((r) => r.position !== null).length,
+      wins: results.filter((r) => r.position === 1).length,
+      results,
+    };
+  });
+
+  standings.sort((a, b) => b.total - a.total || compareCountback(a, b) || a.name.localeCompare(b.name));
+  standings.forEach((s, i) => {
+    const prev = standings[i - 1];
+    s.rank = prev && prev.total === s.total && compareCountback(prev, s) === 0 ? prev.rank : i + 1;
+  });
+
+  return { events, standings };
+}
@@ -0,0 +1,54 @@
+// Round 1 seeding (settings.roundOneSeeding): ordering the field by manual
+// seed, then club rating, before anyone has a result to pair on.
+
+import type { Player, RoundOneSeeding, TournamentSettings } from '../types';
+
+export const DEFAULT_ROUND_ONE_SEEDING: RoundOneSeeding = 'random';
+
+export function getRoundOneSeeding(settings?: Partial<Pick<TournamentSettings, 'roundOneSeeding'>>): RoundOneSeeding {
+  return settings?.roundOneSeeding ?? DEFAULT_ROUND_ONE_SEEDING;
+}
+
+/**
+ * Strongest first: manual seeds in order, then higher club ratings.
+ * Players with neither keep their relative order.
+ */
+export function compareBySeed(a: Player, b: Player): number {
+  const seedA = a.seed ?? null;
+  const seedB = b.seed ?? null;
+  if (seedA !== null || seedB !== null) {
+    if (seedA === null) return 1;
+    if (seedB === null) return -1;
+    if (seedA !== seedB) return seedA - seedB;
+  }
+  if (a.rating !== undefined || b.rating !== undefined) {
+    if (a.rating === undefined) return 1;
+    if (b.rating === undefined) return -1;
+    return b.rating - a.rating;
+  }
+  return 0;
+}
+
+export function getSeedOrder(players: Player[]): Player[] {
+  return [...players].sort(compareBySeed);
+}
+
+/**
+ * Split a seeded field into top and bottom halves for accelerated pairings.
+ * Both halves hold whole groups of `unit` players (2 a match in singles, 4 in doubles).
+ */
+export function splitAcceleratedGroups<T>(ordered: T[], unit: number): T[][] {
+  const topSize = Math.round(ordered.length / (unit * 2)) * unit;
+  return [ordered.slice(0, topSize), ordered.slice(topSize)].filter((group) => group.length > 0);
+}
+
+export function describeRoundOneSeeding(seeding: RoundOneSeeding): string {
+  switch (seeding) {
+    case 'balanced':
+      return 'Balanced by seed (strong players partner weaker ones, top seeds kept apart)';
+    case 'accelerated':
+      return 'Accelerated (top and bottom halves of the seeded field play within their half)';
+    default:
+      return 'Random';
+  }
+}
@@ -0,0 +1,365 @@
+// Multi-stage pipelines: Swiss → round-robin pools → bracket
+// The Swiss stage plays tournament.matches and the bracket stage plays bracketMatches
+// with their existing engines; this module sequences stages and runs round robins.
+
+import { nanoid } from 'nanoid';
+import type {
+  Tournament,
+  TournamentStatus,
+  Match,
+  PlayerStanding,
+  StageDefinition,
+  StageType,
+  StagePool,
+  TournamentStage,
+  TournamentFormat,
+  BracketTeam,
+} from '../types';
+import { recalculatePlayerStats, getPlayerScore } from './stats.js';
+import { getStandings } from './standings.js';
+import { buildTiebreakContext, createStandingsComparator, getBuchholz } from './tiebreakers.js';
+import { formTeams } from './teams.js';
+
+export const STAGE_TYPE_LABELS: Record<StageType, string> = {
+  swiss: 'Swiss rounds',
+  round_robin: 'Round-robin pools',
+  bracket: 'Bracket',
+};
+
+export interface StageCompletion {
+  stages: TournamentStage[];
+  status: TournamentStatus;  // Status for the stage that starts next (completed if none)
+}
+
+export interface RoundRobinPoolStandings {
+  pool: StagePool;
+  standings: PlayerStanding[];
+}
+
+/**
+ * The event's stage pipeline: custom stages, or Swiss then a bracket when finals are enabled
+ */
+export function getStageDefinitions(tournament: Tournament): StageDefinition[] {
+  const custom = tournament.settings.stages;
+  if (custom && custom.length > 0) return custom;
+
+  const defs: StageDefinition[] = [{ id: 'swiss', type: 'swiss', name: 'Swiss', advanceCount: null }];
+  if (tournament.settings.finalsEnabled) {
+    defs.push({ id: 'finals', type: 'bracket', name: 'Finals', advanceCount: null });
+  }
+  return defs;
+}
+
+/**
+ * Check a pipeline can be played. Returns an error message, or null if it's valid.
+ */
+export function validateStageDefinitions(defs: StageDefinition[], format: TournamentFormat = 'doubles'): string | null {
+  if (defs.length === 0) return 'Add at least one stage';
+  if (defs[0].type !== 'swiss') return 'The first stage must be Swiss rounds';
+  if (defs.filter((d) => d.type === 'swiss').length > 1) return 'Only one Swiss stage is supported';
+
+  const bracketIndex = defs.findIndex((d) => d.type === 'bracket');
+  if (bracketIndex !== -1 && bracketIndex !== defs.length - 1) return 'The bracket must be the last stage';
+
+  for (const def of defs) {
+    if (def.type === 'round_robin' && (def.poolCount ?? 1) < 1) return `${def.name} needs at least one pool`;
+    if (def.advanceCount === null) continue;
+    // Later stages play fixed doubles teams, so an even number must go through
+    if (format === 'doubles' && def.advanceCount % 2 !== 0) return `${def.name} must advance an even number of players`;
+    const teamMinimum = def.type === 'round_robin' && def.advancePerPool ? 1 : 2;
+    const minimum = teamMinimum * (format === 'singles' ? 1 : 2);
+    if (def.advanceCount < minimum) return `${def.name} must advance at least ${minimum} players`;
+  }
+  return null;
+}
+
+/**
+ * Stages started so far. Tournaments from before stage pipelines get their
+ * Swiss and bracket stages reconstructed from the tournament status.
+ */
+export function getStages(tournament: Tournament): TournamentStage[] {
+  if (tournament.stages) return tournament.stages;
+  if (tournament.status === 'setup') return [];
+
+  const [swissDef, bracketDef] = getStageDefinitions(tournament);
+  const stages: TournamentStage[] = [
+    createStage(swissDef, tournament.players.map((p) => p.id), tournament.status === 'active' ? 'active' : 'completed'),
+  ];
+
+  const inBracket = tournament.status === 'finals_setup' || tournament.status === 'finals_active'
+    || (tournament.status === 'completed' && tournament.bracketMatches.length > 0);
+  if (bracketDef && inBracket) {
+    const entrants = getStandings(tournament).filter((s) => s.player.active).map((s) => s.player.id);
+    stages.push(createStage(bracketDef, entrants, tournament.status === 'completed' ? 'completed' : 'active'));
+  }
+  return stages;
+}
+
+/**
+ * The stage being played, or null before the start and after the last stage
+ */
+export function getCurrentStage(tournament: Tournament): TournamentStage | null {
+  const stages = getStages(tournament);
+  const last = stages[stages.length - 1];
+  return last?.status === 'active' ? last : null;
+}
+
+/**
+ * The stage that follows the current one, if any
+ */
+export function getNextStageDefinition(tournament: Tournament): StageDefinition | null {
+  return getStageDefinitions(tournament)[getStages(tournament).length] ?? null;
+}
+
+/**
+ * Stage records for the start of the event: the Swiss stage with everyone paired in Round 1
+ */
+export function createInitialStages(tournament: Tournament, players = tournament.players): TournamentStage[] {
+  const [swissDef] = getStageDefinitions(tournament);
+  return [createStage(swissDef, players.filter((p) => p.active).map((p) => p.id), 'active')];
+}
+
+/**
+ * Round-robin matches in the stage that have no score yet
+ */
+export function getUnplayedStageMatches(stage: TournamentStage): Match[] {
+  return (stage.matches ?? []).filter((m) => !m.completed);
+}
+
+/**
+ * Finish the current stage and start the next one with the players who advance.
+ * Returns null if no stage is in progress, or if a round-robin match is still unplayed
+ * (advancing on part-played pools would rank players on different numbers of games).
+ */
+export function completeStage(tournament: Tournament): StageCompletion | null {
+  const stages = getStages(tournament);
+  const current = stages[stages.length - 1];
+  if (!current || current.status !== 'active') return null;
+  if (getUnplayedStageMatches(current).length > 0) return null;
+
+  const defs = getStageDefinitions(tournament);
+  const def = defs[stages.length - 1];
+  const next = defs[stages.length];
+  const completed = stages.map((s) => (s === current ? { ...s, status: 'completed' as const } : s));
+
+  if (!next) return { stages: completed, status: 'completed' };
+
+  const entrants = getAdvancingPlayers(tournament, current, def);
+
+  if (next.type === 'round_robin') {
+    return { stages: [...completed, createRoundRobinStage(tournament, next, entrants)], status: 'stage_active' };
+  }
+  return { stages: [...completed, createStage(next, entrants, 'active')], status: 'finals_setup' };
+}
+
+/**
+ * Standings within each round-robin pool, from the stage's own matches
+ */
+export function getRoundRobinStandings(tournament: Tournament, stage: TournamentStage): RoundRobinPoolStandings[] {
+  return (stage.pools ?? []).map((pool) => {
+    const matches = getPoolMatches(stage, pool);
+    const ids = new Set(pool.teams.flat());
+    const players = recalculatePlayerStats(tournament.players.filter((p) => ids.has(p.id)), matches, tournament.settings);
+    const compare = createStandingsComparator(
+      players, matches, tournament.settings.tiebreakers, `${tournament.id}-${pool.id}`, tournament.settings
+    );
+    const context = buildTiebreakContext(players, matches, tournament.id, tournament.settings);
+
+    const standings = [...players]
+      .sort(compare)
+      .map((player, idx) => ({
+        player,
+        rank: idx + 1,
+        score: getPlayerScore(player, tournament.settings),
+        buchholz: getBuchholz(player.id, context),
+      }));
+
+    return { pool, standings };
+  });
+}
+
+/**
+ * Round-robin games for one pool
+ */
+export function getPoolMatches(stage: TournamentStage, pool: StagePool): Match[] {
+  const ids = new Set(pool.teams.flat());
+  return (stage.matches ?? []).filter((m) => ids.has(m.team1[0]));
+}
+
+/**
+ * Players in the order they finished a stage. Round-robin pools are interleaved
+ * by position: every pool winner, then every runner-up, and so on.
+ */
+export function getStageRanking(tournament: Tournament, stage: TournamentStage): string[] {
+  if (stage.type === 'swiss') {
+    return getStandings(tournament).map((s) => s.player.id);
+  }
+  if (stage.type === 'bracket') {
+    return stage.entrants;
+  }
+
+  const matches = stage.matches ?? [];
+  const players = recalculatePlayerStats(tournament.players, matches, tournament.settings);
+  const compare = createStandingsComparator(
+    players, matches, tournament.settings.tiebreakers, tournament.id, tournament.settings
+  );
+  const byId = new Map(players.map((p) => [p.id, p]));
+  const poolStandings = getRoundRobinStandings(tournament, stage);
+  const depth = Math.max(0, ...poolStandings.map((ps) => ps.standings.length));
+
+  const ranking: string[] = [];
+  for (let position = 0; position < depth; position++) {
+    poolStandings
+      .map((ps) => ps.standings[position])
+      .filter((s): s is PlayerStanding => s !== undefined)
+      .map((s) => byId.get(s.player.id)!)
+      .sort(compare)
+      .forEach((p) => ranking.push(p.id));
+  }
+
+  // Entrants left out of the pools (an odd player out) finish last
+  stage.entrants.forEach((id) => {
+    if (!ranking.includes(id)) ranking.push(id);
+  });
+  return ranking;
+}
+
+/**
+ * Bracket entrants in seed order (how they finished the stage before the bracket),
+ * with Swiss stats for display. Before the bracket stage starts this is the Swiss order.
+ */
+export function getBracketSeeding(tournament: Tournament): PlayerStanding[] {
+  const swissStandings = getStandings(tournament);
+  const bracket = getStages(tournament).find((s) => s.type === 'bracket');
+  if (!bracket) return swissStandings.filter((s) => s.player.active);
+
+  const byId = new Map(swissStandings.map((s) => [s.player.id, s]));
+  return bracket.entrants
+    .map((id) => byId.get(id))
+    .filter((s): s is PlayerStanding => s !== undefined)
+    .map((s, idx) => ({ ...s, rank: idx + 1 }));
+}
+
+/**
+ * Players who did not reach the bracket, best first, with the stage they went out in
+ */
+export function getEliminatedPlayers(tournament: Tournament): { playerId: string; stageName: string }[] {
+  const stages = getStages(tournament);
+  const bracket = stages.find((s) => s.type === 'bracket');
+  const placed = new Set(bracket?.entrants ?? []);
+  const eliminated: { playerId: string; stageName: string }[] = [];
+
+  // Walk back from the latest stage so players who went further rank higher
+  [...stages].reverse().forEach((stage) => {
+    if (stage.type === 'bracket') return;
+    getStageRanking(tournament, stage).forEach((playerId) => {
+      if (placed.has(playerId)) return;
+      placed.add(playerId);
+      eliminated.push({ playerId, stageName: stage.name });
+    });
+  });
+  return eliminated;
+}
+
+function createStage(def: StageDefinition, entrants: string[], status: TournamentStage['status']): TournamentStage {
+  return {
+    id: def.id,
+    type: def.type,
+    name: def.name,
+    status,
+    entrants,
+  };
+}
+
+function getAdvancingPlayers(tournament: Tournament, stage: TournamentStage, def: StageDefinition | undefined): string[] {
+  const active = new Set(tournament.players.filter((p) => p.active).map((p) => p.id));
+  const ranking = getStageRanking(tournament, stage).filter((id) => active.has(id));
+  const count = def?.advanceCount ?? null;
+  if (count === null) return ranking;
+
+  if (stage.type === 'round_robin' && def?.advancePerPool) {
+    // Top finishers from each pool, kept in interleaved order so pool winners seed first
+    const qualifiers = new Set(
+      getRoundRobinStandings(tournament, stage).flatMap(({ standings }) =>
+        standings.filter((s) => active.has(s.player.id)).slice(0, count).map((s) => s.player.id)
+      )
+    );
+    return ranking.filter((id) => qualifiers.has(id));
+  }
+  return ranking.slice(0, count);
+}
+
+/**
+ * Start a round-robin stage. Entrants form teams (see formTeams), teams are
+ * snake-seeded into pools and every team plays every other team in its pool.
+ */
+function createRoundRobinStage(tournament: Tournament, def: StageDefinition, entrants: string[]): TournamentStage {
+  const teams = formTeams(tournament, entrants);
+
+  const poolCount = Math.max(1, Math.min(def.poolCount ?? 1, Math.floor(teams.length / 2)));
+  const pools: StagePool[] = Array.from({ length: poolCount }, (_, i) => ({
+    id: `${def.id}-pool-${i}`,
+    name: `Pool ${String.fromCharCode(65 + i)}`, // Pool A, B...
+    teams: [],
+  }));
+
+  teams.forEach((team, i) => {
+    const lap = Math.floor(i / poolCount);
+    const position = i % poolCount;
+    pools[lap % 2 === 0 ? position : poolCount - 1 - position].teams.push(team);
+  });
+
+  const matches = pools.flatMap((pool) => scheduleRoundRobin(pool.teams));
+
+  // Tables are handed out per round across all pools
+  if (tournament.settings.tableAssignment) {
+    const sortedTables = [...tournament.tables].sort((a, b) => a.order - b.order);
+    const tablesUsed = new Map<number, number>();
+    matches.forEach((match) => {
+      const idx = tablesUsed.get(match.round) ?? 0;
+      match.tableId = sortedTables[idx]?.id ?? null;
+      tablesUsed.set(match.round, idx + 1);
+    });
+  }
+
+  return {
+    ...createStage(def, entrants, 'active'),
+    pools,
+    matches,
+  };
+}
+
+/**
+ * Circle method: one team stays put while the rest rotate, so every pair meets once.
+ * With an odd number of teams one team sits out each round.
+ */
+function scheduleRoundRobin(teams: BracketTeam[]): Match[] {
+  const slots: (BracketTeam | null)[] = teams.length % 2 === 0 ? [...teams] : [...teams, null];
+  const matches: Match[] = [];
+
+  for (let round = 1; round < slots.length; round++) {
+    for (let i = 0; i < slots.length / 2; i++) {
+      const team1 = slots[i];
+      const team2 = slots[slots.length - 1 - i];
+      if (!team1 || !team2) continue;
+
+      matches.push({
+        id: nanoid(),
+        round,
+        team1,
+        team2,
+        score1: null,
+        score2: null,
+        twenties1: 0,
+        twenties2: 0,
+        tableId: null,
+        completed: false,
+        isBye: false,
+        matchType: team1.length === 1 ? '1v1' : 'doubles',
+      });
+    }
+    slots.splice(1, 0, slots.pop()!);
+  }
+
+  return matches;
+}
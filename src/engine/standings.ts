@@ -0,0 +1,56 @@
+// Swiss standings derived from match data
+
+import type { Tournament, Player, PlayerStanding } from '../types';
+import { recalculatePlayerStats, getPlayerScore } from './stats.js';
+import { buildTiebreakContext, createStandingsComparator, getBuchholz } from './tiebreakers.js';
+import { getFixedTeams } from './teams.js';
+
+/**
+ * Comparator for the tournament's configured tiebreaker chain.
+ * Players passed to it must have stats recalculated from the tournament's matches.
+ */
+export function getStandingsComparator(tournament: Tournament, players: Player[]): (a: Player, b: Player) => number {
+  return createStandingsComparator(
+    players, tournament.matches, tournament.settings.tiebreakers, tournament.id, tournament.settings
+  );
+}
+
+/**
+ * Rank active and withdrawn players by Score → tiebreaker chain using live match data
+ */
+export function getStandings(tournament: Tournament): PlayerStanding[] {
+  const players = recalculatePlayerStats(tournament.players, tournament.matches, tournament.settings);
+  const compare = getStandingsComparator(tournament, players);
+  const context = buildTiebreakContext(players, tournament.matches, tournament.id, tournament.settings);
+
+  const standings: PlayerStanding[] = players
+    .filter((p) => p.active || p.withdrawnAfterRound !== undefined)
+    .map((player) => ({
+      player,
+      rank: 0,
+      score: getPlayerScore(player, tournament.settings),
+      buchholz: getBuchholz(player.id, context),
+    }));
+
+  // Fixed partners share every result, so rank each team by one partner and keep teammates adjacent
+  const teams = getFixedTeams(tournament);
+  if (teams.length > 0) {
+    const byId = new Map(players.map((p) => [p.id, p]));
+    const teamIndex = (id: string) => teams.findIndex((t) => t.playerIds.includes(id));
+    const representative = (player: Player) => {
+      const idx = teamIndex(player.id);
+      return idx === -1 ? player : byId.get(teams[idx].playerIds[0]) ?? player;
+    };
+    standings.sort((a, b) =>
+      compare(representative(a.player), representative(b.player)) || teamIndex(a.player.id) - teamIndex(b.player.id));
+  } else {
+    standings.sort((a, b) => compare(a.player, b.player));
+  }
+
+  // Assign ranks
+  standings.forEach((s, idx) => {
+    s.rank = idx + 1;
+  });
+
+  return standings;
+}
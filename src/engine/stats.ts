@@ -0,0 +1,102 @@
+// Player statistics derived from match data
+
+import type { Player, Match } from '../types';
+import { getPlayerMatchTwenties } from './twenties.js';
+import { getByePoints, getByeGameCounting, getPointsWeight, type ByeSettings } from './byes.js';
+import { getResultPoints, type PointSettings } from './pointSystem.js';
+
+export interface PlayerStats {
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  twenties: number;
+  byeCount: number;
+}
+
+/**
+ * Calculate a player's stats from MATCH DATA (not stored player stats) for accuracy.
+ * Byes and bye games score by the tournament's bye policy (settings.byeScoring).
+ */
+export function calculatePlayerStats(playerId: string, matches: Match[], settings?: ByeSettings): PlayerStats {
+  let wins = 0, losses = 0, ties = 0;
+  let pointsFor = 0, pointsAgainst = 0, twenties = 0, byeCount = 0;
+
+  // The result always decides W/T/L; only the points are weighted
+  const addResult = (scored: number, conceded: number, weight = 1) => {
+    pointsFor += Math.round(scored * weight);
+    pointsAgainst += Math.round(conceded * weight);
+    if (scored > conceded) wins += 1;
+    else if (scored < conceded) losses += 1;
+    else ties += 1;
+  };
+  const addBye = (round: number) => {
+    const bye = getByePoints(playerId, round, matches, settings);
+    addResult(bye.pointsFor, bye.pointsAgainst);
+  };
+
+  matches.forEach((match) => {
+    if (!match.completed) return;
+
+    // Check if player is in this match
+    const inTeam1 = match.team1.includes(playerId);
+    const inTeam2 = match.team2?.includes(playerId);
+
+    if (!inTeam1 && !inTeam2) return;
+
+    if (match.isBye) {
+      addBye(match.round);
+      twenties += match.twenties1 ?? 0;
+      byeCount += 1;
+    } else if (match.score1 !== null && match.score2 !== null) {
+      twenties += getPlayerMatchTwenties(match, playerId);
+
+      // A bye game can be set aside for a bye credit
+      if (getByeGameCounting(match, playerId, settings) === 'bye') {
+        addBye(match.round);
+        return;
+      }
+
+      const scored = inTeam1 ? match.score1 : match.score2;
+      const conceded = inTeam1 ? match.score2 : match.score1;
+      addResult(scored, conceded, getPointsWeight(match, playerId, settings));
+    }
+  });
+
+  return { wins, losses, ties, pointsFor, pointsAgainst, twenties, byeCount };
+}
+
+/**
+ * Return players with their stored stats recalculated from match data
+ * This ensures bye selection and pairing use accurate standings
+ */
+export function recalculatePlayerStats(players: Player[], matches: Match[], settings?: ByeSettings): Player[] {
+  return players.map((player) => ({
+    ...player,
+    ...calculatePlayerStats(player.id, matches, settings),
+  }));
+}
+
+/**
+ * Standings score by settings.pointSystem (default Win=2, Tie=1, Loss=0; a bye counts by settings.byeScoring)
+ */
+export function getPlayerScore(player: Pick<Player, 'wins' | 'ties' | 'losses'>, settings?: Partial<PointSettings>): number {
+  return getResultPoints(player, settings);
+}
+
+/**
+ * Standings order with the default point system: Score → PF → PA → 20s
+ */
+export function compareByStandings(a: Player, b: Player): number {
+  // Primary: Challonge score (Win=2, Tie=1, Loss=0)
+  const aScore = getPlayerScore(a);
+  const bScore = getPlayerScore(b);
+  if (bScore !== aScore) return bScore - aScore;
+  // Secondary: Points For (higher is better)
+  if (b.pointsFor !== a.pointsFor) return b.pointsFor - a.pointsFor;
+  // Tertiary: Points Against (lower is better)
+  if (a.pointsAgainst !== b.pointsAgainst) return a.pointsAgainst - b.pointsAgainst;
+  // Quaternary: 20s (higher is better)
+  return b.twenties - a.twenties;
+}
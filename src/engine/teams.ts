@@ -0,0 +1,62 @@
+// Who plays together: registered fixed-partner teams, or single players in singles
+
+import type { Tournament, FixedTeam, BracketTeam } from '../types';
+
+export function isSinglesFormat(tournament: Tournament): boolean {
+  return tournament.settings.format === 'singles';
+}
+
+/** Players on each side of a match */
+export function getPlayersPerSide(tournament: Tournament): 1 | 2 {
+  return isSinglesFormat(tournament) ? 1 : 2;
+}
+
+/** Fewest active players needed to pair a round */
+export function getMinimumPlayers(tournament: Tournament): number {
+  return getPlayersPerSide(tournament) * 2;
+}
+
+export function isFixedPartnerMode(tournament: Tournament): boolean {
+  return !isSinglesFormat(tournament) && tournament.settings.partnerMode === 'fixed';
+}
+
+/**
+ * Registered teams, or none when partners rotate
+ */
+export function getFixedTeams(tournament: Tournament): FixedTeam[] {
+  return isFixedPartnerMode(tournament) ? tournament.teams ?? [] : [];
+}
+
+export function getPlayerTeam(tournament: Tournament, playerId: string): FixedTeam | undefined {
+  return getFixedTeams(tournament).find((t) => t.playerIds.includes(playerId));
+}
+
+/**
+ * Pair seeded players into their registered teams, ordered by each team's
+ * better-seeded partner. Teams missing a partner from the seeding are left out.
+ */
+export function formFixedTeams(tournament: Tournament, seededPlayerIds: string[]): [string, string][] {
+  const seedOf = (id: string) => seededPlayerIds.indexOf(id);
+
+  return getFixedTeams(tournament)
+    .filter((t) => t.playerIds.every((id) => seedOf(id) !== -1))
+    .map((t) => [...t.playerIds].sort((a, b) => seedOf(a) - seedOf(b)) as [string, string])
+    .sort((a, b) => seedOf(a[0]) - seedOf(b[0]));
+}
+
+/**
+ * Teams for a stage or bracket from seeded players: one player per team in
+ * singles, registered teams with fixed partners, otherwise high-low pairs
+ * (an odd player out is left out).
+ */
+export function formTeams(tournament: Tournament, seededPlayerIds: string[]): BracketTeam[] {
+  if (isSinglesFormat(tournament)) return seededPlayerIds.map((id) => [id]);
+  if (isFixedPartnerMode(tournament)) return formFixedTeams(tournament, seededPlayerIds);
+
+  const count = seededPlayerIds.length;
+  const teams: BracketTeam[] = [];
+  for (let i = 0; i < Math.floor(count / 2); i++) {
+    teams.push([seededPlayerIds[i], seededPlayerIds[count - 1 - i]]);
+  }
+  return teams;
+}
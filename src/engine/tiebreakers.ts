@@ -0,0 +1,157 @@
+// Configurable tiebreaker chain for standings
+// Score (settings.pointSystem) is always the primary sort; the chain breaks ties in order
+
+import type { Player, Match, Tiebreaker } from '../types';
+import { getPlayerScore } from './stats.js';
+import type { PointSettings } from './pointSystem.js';
+
+// Matches the original fixed ordering: Score → PF → PA → 20s
+export const DEFAULT_TIEBREAKERS: Tiebreaker[] = ['points_for', 'points_against', 'twenties'];
+
+export const TIEBREAKER_LABELS: Record<Tiebreaker, { name: string; description: string }> = {
+  points_for: { name: 'Points For', description: 'Total points scored (higher is better)' },
+  points_against: { name: 'Points Against', description: 'Total points conceded (lower is better)' },
+  point_differential: { name: 'Point Differential', description: 'Points for minus points against' },
+  buchholz: { name: 'Buchholz', description: "Sum of all opponents' scores" },
+  median_buchholz: { name: 'Median Buchholz', description: "Opponents' scores without the highest and lowest" },
+  head_to_head: { name: 'Head-to-Head', description: 'Results in games where the tied players met' },
+  twenties: { name: '20s', description: 'Total 20s (higher is better)' },
+  sonneborn_berger: { name: 'Sonneborn-Berger', description: "Scores of opponents beaten plus half of those tied" },
+  coin_flip: { name: 'Coin Flip', description: 'Random but fixed for this tournament' },
+};
+
+interface OpponentResult {
+  opponentId: string;
+  result: 'win' | 'loss' | 'tie';
+}
+
+export interface TiebreakContext {
+  scores: Map<string, number>;
+  opponents: Map<string, OpponentResult[]>;
+  seed: string;
+}
+
+/**
+ * Collect each player's opponents and results from completed, non-bye matches
+ */
+export function buildTiebreakContext(
+  players: Player[],
+  matches: Match[],
+  seed: string,
+  settings?: Partial<PointSettings>
+): TiebreakContext {
+  const scores = new Map(players.map((p) => [p.id, getPlayerScore(p, settings)]));
+  const opponents = new Map<string, OpponentResult[]>(players.map((p) => [p.id, []]));
+
+  matches.forEach((match) => {
+    if (!match.completed || match.isBye || !match.team2) return;
+    if (match.score1 === null || match.score2 === null) return;
+
+    const team1Result: OpponentResult['result'] =
+      match.score1 > match.score2 ? 'win' : match.score1 < match.score2 ? 'loss' : 'tie';
+    const team2Result: OpponentResult['result'] =
+      team1Result === 'win' ? 'loss' : team1Result === 'loss' ? 'win' : 'tie';
+
+    match.team1.forEach((playerId) => {
+      match.team2!.forEach((opponentId) => {
+        opponents.get(playerId)?.push({ opponentId, result: team1Result });
+        opponents.get(opponentId)?.push({ opponentId: playerId, result: team2Result });
+      });
+    });
+  });
+
+  return { scores, opponents, seed };
+}
+
+export function getBuchholz(playerId: string, context: TiebreakContext): number {
+  return (context.opponents.get(playerId) ?? [])
+    .reduce((sum, o) => sum + (context.scores.get(o.opponentId) ?? 0), 0);
+}
+
+export function getMedianBuchholz(playerId: string, context: TiebreakContext): number {
+  const opponentScores = (context.opponents.get(playerId) ?? [])
+    .map((o) => context.scores.get(o.opponentId) ?? 0)
+    .sort((a, b) => a - b);
+  // Need at least 3 opponents for trimming to leave something meaningful
+  const trimmed = opponentScores.length >= 3 ? opponentScores.slice(1, -1) : opponentScores;
+  return trimmed.reduce((sum, score) => sum + score, 0);
+}
+
+export function getSonnebornBerger(playerId: string, context: TiebreakContext): number {
+  return (context.opponents.get(playerId) ?? []).reduce((sum, o) => {
+    const opponentScore = context.scores.get(o.opponentId) ?? 0;
+    if (o.result === 'win') return sum + opponentScore;
+    if (o.result === 'tie') return sum + opponentScore / 2;
+    return sum;
+  }, 0);
+}
+
+// Net wins of a over b in games where they were opponents
+function getHeadToHead(aId: string, bId: string, context: TiebreakContext): number {
+  return (context.opponents.get(aId) ?? [])
+    .filter((o) => o.opponentId === bId)
+    .reduce((net, o) => net + (o.result === 'win' ? 1 : o.result === 'loss' ? -1 : 0), 0);
+}
+
+// Stable pseudo-random value per player, so a "coin flip" doesn't change between renders
+// or between the client and server
+function getCoinFlip(playerId: string, seed: string): number {
+  let hash = 2166136261;
+  const input = `${seed}:${playerId}`;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Compare two players on a single tiebreaker. Negative means a ranks higher.
+ */
+function compareOnTiebreaker(a: Player, b: Player, tiebreaker: Tiebreaker, context: TiebreakContext): number {
+  switch (tiebreaker) {
+    case 'points_for':
+      return b.pointsFor - a.pointsFor;
+    case 'points_against':
+      return a.pointsAgainst - b.pointsAgainst;
+    case 'point_differential':
+      return (b.pointsFor - b.pointsAgainst) - (a.pointsFor - a.pointsAgainst);
+    case 'buchholz':
+      return getBuchholz(b.id, context) - getBuchholz(a.id, context);
+    case 'median_buchholz':
+      return getMedianBuchholz(b.id, context) - getMedianBuchholz(a.id, context);
+    case 'head_to_head':
+      return getHeadToHead(b.id, a.id, context);
+    case 'twenties':
+      return b.twenties - a.twenties;
+    case 'sonneborn_berger':
+      return getSonnebornBerger(b.id, context) - getSonnebornBerger(a.id, context);
+    case 'coin_flip':
+      return getCoinFlip(a.id, context.seed) - getCoinFlip(b.id, context.seed);
+  }
+}
+
+/**
+ * Build a standings comparator: Score first, then each tiebreaker in order.
+ * Players must already have stats recalculated from the given matches.
+ */
+export function createStandingsComparator(
+  players: Player[],
+  matches: Match[],
+  tiebreakers: Tiebreaker[] = DEFAULT_TIEBREAKERS,
+  seed: string = '',
+  settings?: Partial<PointSettings>
+): (a: Player, b: Player) => number {
+  const context = buildTiebreakContext(players, matches, seed, settings);
+
+  return (a, b) => {
+    const scoreDiff = getPlayerScore(b, settings) - getPlayerScore(a, settings);
+    if (scoreDiff !== 0) return scoreDiff;
+
+    for (const tiebreaker of tiebreakers) {
+      const diff = compareOnTiebreaker(a, b, tiebreaker, context);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  };
+}
@@ -0,0 +1,67 @@
+// 20s attribution. Team totals (twenties1/twenties2) are always stored; each
+// player's own count is kept alongside when it was entered per player or game
+// by game. Older matches only have team totals, so each player is credited
+// with their team's.
+
+import type { GameScore, TournamentSettings } from '../types';
+
+// The parts of a Swiss or bracket match that record 20s
+export interface TwentiesRecord {
+  team1: readonly string[] | null;
+  team2: readonly string[] | null;
+  twenties1: number;
+  twenties2: number;
+  playerTwenties?: Record<string, number>;
+  games?: GameScore[];
+}
+
+/**
+ * Whether score entry asks for each player's 20s. Singles sides are one player,
+ * so their team total already is the individual count.
+ */
+export function isIndividualTwentiesEntry(settings: TournamentSettings): boolean {
+  return !!settings.individualTwenties && settings.format !== 'singles';
+}
+
+/**
+ * Each player's 20s in a match, or null when only team totals were recorded
+ */
+export function getIndividualTwenties(match: TwentiesRecord): Record<string, number> | null {
+  if (match.playerTwenties) return match.playerTwenties;
+  if (!match.games?.length) return null;
+
+  const totals: Record<string, number> = {};
+  match.games.forEach((game) => {
+    Object.entries(game.twenties).forEach(([playerId, count]) => {
+      totals[playerId] = (totals[playerId] ?? 0) + count;
+    });
+  });
+  return totals;
+}
+
+/**
+ * 20s a player made in a match: their own count when recorded,
+ * otherwise their team's total
+ */
+export function getPlayerMatchTwenties(match: TwentiesRecord, playerId: string): number {
+  const individual = getIndividualTwenties(match);
+  if (individual) return individual[playerId] ?? 0;
+  if (match.team1?.includes(playerId)) return match.twenties1 ?? 0;
+  if (match.team2?.includes(playerId)) return match.twenties2 ?? 0;
+  return 0;
+}
+
+/**
+ * Team totals for a set of individual 20s
+ */
+export function sumTeamTwenties(
+  match: Pick<TwentiesRecord, 'team1' | 'team2'>,
+  playerTwenties: Record<string, number>
+): { twenties1: number; twenties2: number } {
+  let twenties1 = 0, twenties2 = 0;
+  Object.entries(playerTwenties).forEach(([playerId, count]) => {
+    if (match.team1?.includes(playerId)) twenties1 += count;
+    else if (match.team2?.includes(playerId)) twenties2 += count;
+  });
+  return { twenties1, twenties2 };
+}
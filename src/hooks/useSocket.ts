@@ -2,8 +2,31 @@
 
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
-import type { Tournament } from '../types';
+import type {
+  Tournament,
+  ActionHistory,
+  PoolBracketConfig,
+  PlayerClaimInfo,
+  DirectorPermission,
+  HostAccessInfo,
+  ScoreStatus,
+  RoundTimer,
+  GameScore,
+} from '../types';
 import type { ClientToServerEvents, ServerToClientEvents } from '../../server/types';
+import {
+  getDeviceId,
+  getDeviceLabel,
+  getPlayerToken,
+  savePlayerToken,
+  clearPlayerToken,
+  getHostSecret,
+  saveHostSecret,
+  clearHostSecret,
+  getDirectorSecret,
+  saveDirectorSecret,
+  clearDirectorSecret,
+} from '../utils/playerIdentity';
 
 type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
@@ -19,7 +42,12 @@ const getServerUrl = () => {
 
 interface UseSocketOptions {
   onTournamentCreated?: (code: string, tournament: Tournament) => void;
-  onTournamentJoined?: (tournament: Tournament, playerId: string | null, isHost: boolean) => void;
+  onTournamentJoined?: (
+    tournament: Tournament,
+    playerId: string | null,
+    isHost: boolean,
+    directorPermissions: DirectorPermission[] | null
+  ) => void;
   onJoinError?: (message: string) => void;
   onStateUpdate?: (tournament: Tournament, connectedCount: number) => void;
   onPlayerConnected?: (playerName: string, connectedCount: number) => void;
@@ -27,7 +55,19 @@ interface UseSocketOptions {
   onRoomWarning?: (message: string, minutesRemaining: number) => void;
   onRoomClosed?: (message: string, reason: string) => void;
   onActionError?: (action: string, message: string) => void;
-  onScoreSubmitted?: (matchId: string, submittedBy: string) => void;
+  onScoreSubmitted?: (matchId: string, submittedBy: string, status: ScoreStatus | null) => void;
+  onActionHistory?: (history: ActionHistory) => void;
+  onPlayerClaims?: (claims: PlayerClaimInfo[]) => void;
+  onIdentityRevoked?: (message: string) => void;
+  onHostAccess?: (access: HostAccessInfo) => void;
+  onRoleChanged?: (isHost: boolean, directorPermissions: DirectorPermission[] | null, message: string) => void;
+}
+
+// Credentials presented when joining (each falls back to what this browser has stored for the room)
+export interface JoinCredentials {
+  token?: string;           // Player join token
+  hostSecret?: string;      // Host secret or handoff code
+  directorSecret?: string;  // Co-director secret
 }
 
 interface UseSocketReturn {
@@ -36,6 +76,10 @@ interface UseSocketReturn {
   isConnecting: boolean;
   error: string | null;
   
+  // Round clock (server time) and this device's offset from the server clock
+  roundTimer: RoundTimer | null;
+  clockOffset: number;  // serverTime - Date.now(), measured with sync_clock
+  
   // Connection
   connect: () => void;
   disconnect: () => void;
@@ -43,13 +87,28 @@ interface UseSocketReturn {
   // Room management
   createTournament: (tournamentName: string, totalRounds: number, hostName: string) => void;
   createTournamentWithData: (tournament: Tournament) => void;
-  joinTournament: (code: string, playerName: string) => void;
+  joinTournament: (code: string, playerName: string, credentials?: JoinCredentials) => void;
   leaveTournament: () => void;
   
   // Tournament setup (host only)
-  addPlayer: (name: string) => void;
+  addPlayer: (name: string, registryId?: string) => void;
   removePlayer: (playerId: string) => void;
+  addTeam: (player1Name: string, player2Name: string, teamName?: string) => void;
+  removeTeam: (teamId: string) => void;
   updatePlayer: (playerId: string, updates: Partial<any>) => void;
+  withdrawPlayer: (playerId: string) => void;
+  reinstatePlayer: (playerId: string) => void;
+  issuePlayerToken: (playerId: string) => void;
+  revokePlayerClaim: (playerId: string) => void;
+  
+  // Host access (host only)
+  startHostHandoff: () => void;
+  cancelHostHandoff: () => void;
+  rotateHostSecret: () => void;
+  addCoDirector: (name: string, permissions: DirectorPermission[]) => void;
+  updateCoDirector: (directorId: string, permissions: DirectorPermission[]) => void;
+  removeCoDirector: (directorId: string) => void;
+  
   addTable: (name: string) => void;
   removeTable: (tableId: string) => void;
   updateTable: (tableId: string, name: string) => void;
@@ -63,24 +122,48 @@ interface UseSocketReturn {
   generateNextRound: () => void;
   completeTournament: () => void;
   resetTournament: () => void;
+  undoAction: () => void;
+  redoAction: () => void;
+  
+  // Round clock (host or co-directors who run rounds)
+  startRoundTimer: () => void;
+  pauseRoundTimer: () => void;
+  extendRoundTimer: (minutes: number) => void;
+  resetRoundTimer: (minutes?: number) => void;
   
   // Score submission
-  submitScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number) => void;
-  editScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number) => void;
+  submitScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => void;
+  editScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => void;
+  
+  // Round-robin stages
+  submitStageScore: (stageId: string, matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => void;
+  completeStage: () => void;
+  
+  // Finals brackets
+  configureFinals: (poolConfigs: PoolBracketConfig[]) => void;
+  generateBrackets: (poolConfigs?: PoolBracketConfig[]) => void;
+  completeFinals: () => void;
+  submitBracketScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, playerTwenties?: Record<string, number>) => void;
+  editBracketScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, playerTwenties?: Record<string, number>) => void;
 }
 
 // Store session info for reconnection
 interface SessionInfo {
   roomCode: string | null;
   playerName: string;
-  isHost: boolean;
+  // Credentials (also kept in localStorage per room)
+  token: string | null;           // Player join token
+  hostSecret: string | null;      // Host secret - the only way back to host rights
+  directorSecret: string | null;  // Co-director secret
 }
 
 // Persist session across reconnects
 let sessionInfo: SessionInfo = {
   roomCode: null,
   playerName: '',
-  isHost: false,
+  token: null,
+  hostSecret: null,
+  directorSecret: null,
 };
 
 export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
@@ -88,6 +171,8 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [roundTimer, setRoundTimer] = useState<RoundTimer | null>(null);
+  const [clockOffset, setClockOffset] = useState(0);
   
   // Store options in ref to avoid stale closures
   const optionsRef = useRef(options);
@@ -114,13 +199,20 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
       setIsConnecting(false);
       setError(null);
       
+      // Measure the offset from server time so every device shows the same countdown
+      socket.emit('sync_clock', { clientTime: Date.now() });
+      
       // Auto-rejoin tournament if we were in one
-      if (sessionInfo.roomCode && sessionInfo.playerName) {
-        console.log(`[Socket] Auto-rejoining tournament ${sessionInfo.roomCode} as ${sessionInfo.isHost ? 'host' : 'player'}`);
+      if (sessionInfo.roomCode) {
+        console.log(`[Socket] Auto-rejoining tournament ${sessionInfo.roomCode}`);
         socket.emit('rejoin_tournament', {
           code: sessionInfo.roomCode,
           playerName: sessionInfo.playerName,
-          isHost: sessionInfo.isHost,
+          token: sessionInfo.token ?? undefined,
+          hostSecret: sessionInfo.hostSecret ?? undefined,
+          directorSecret: sessionInfo.directorSecret ?? undefined,
+          deviceId: getDeviceId(),
+          deviceLabel: getDeviceLabel(),
         });
       }
     });
@@ -139,18 +231,15 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
     
     // Tournament events
     socket.on('tournament_created', (data) => {
-      // Store session info for reconnection
+      // Store session info for reconnection (the host secret follows in host_access)
       sessionInfo.roomCode = data.code;
-      sessionInfo.isHost = true;
       console.log(`[Socket] Session stored: host of ${data.code}`);
       optionsRef.current.onTournamentCreated?.(data.code, data.tournament);
     });
     
     socket.on('tournament_joined', (data) => {
-      // Store session info for reconnection (update with server's response)
-      sessionInfo.isHost = data.isHost;
-      console.log(`[Socket] Session updated: ${data.isHost ? 'host' : 'player'} in ${sessionInfo.roomCode}`);
-      optionsRef.current.onTournamentJoined?.(data.tournament, data.playerId, data.isHost);
+      console.log(`[Socket] Session updated: ${data.isHost ? 'director' : 'player'} in ${sessionInfo.roomCode}`);
+      optionsRef.current.onTournamentJoined?.(data.tournament, data.playerId, data.isHost, data.directorPermissions);
     });
     
     socket.on('join_error', (data) => {
@@ -178,11 +267,68 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
     });
     
     socket.on('action_error', (data) => {
+      // A rejected join token or secret won't work next time either
+      if (data.action === 'claim_player' && sessionInfo.roomCode) {
+        clearPlayerToken(sessionInfo.roomCode);
+        sessionInfo.token = null;
+      }
+      if (data.action === 'claim_host' && sessionInfo.roomCode) {
+        clearHostSecret(sessionInfo.roomCode);
+        sessionInfo.hostSecret = null;
+      }
+      if (data.action === 'claim_director' && sessionInfo.roomCode) {
+        clearDirectorSecret(sessionInfo.roomCode);
+        sessionInfo.directorSecret = null;
+      }
       optionsRef.current.onActionError?.(data.action, data.message);
     });
     
+    socket.on('round_timer', (data) => {
+      setRoundTimer(data.timer);
+    });
+    
+    socket.on('clock_sync', (data) => {
+      // Assume the reply took as long to arrive as the request (half the round trip)
+      const now = Date.now();
+      setClockOffset(data.serverTime - (data.clientTime + now) / 2);
+    });
+    
     socket.on('score_submitted', (data) => {
-      optionsRef.current.onScoreSubmitted?.(data.matchId, data.submittedBy);
+      optionsRef.current.onScoreSubmitted?.(data.matchId, data.submittedBy, data.status);
+    });
+    
+    socket.on('action_history', (data) => {
+      optionsRef.current.onActionHistory?.(data);
+    });
+    
+    socket.on('player_claims', (data) => {
+      optionsRef.current.onPlayerClaims?.(data);
+    });
+    
+    socket.on('identity_revoked', (data) => {
+      if (sessionInfo.roomCode) clearPlayerToken(sessionInfo.roomCode);
+      sessionInfo.token = null;
+      console.log('[Socket] Player identity revoked by host');
+      optionsRef.current.onIdentityRevoked?.(data.message);
+    });
+    
+    socket.on('host_access', (data) => {
+      // Keep the (possibly rotated) host secret so this browser can always get host rights back
+      if (sessionInfo.roomCode) saveHostSecret(sessionInfo.roomCode, data.hostSecret);
+      sessionInfo.hostSecret = data.hostSecret;
+      optionsRef.current.onHostAccess?.(data);
+    });
+    
+    socket.on('role_changed', (data) => {
+      // Host rights moved elsewhere, or co-director rights were removed
+      if (sessionInfo.roomCode) {
+        clearHostSecret(sessionInfo.roomCode);
+        if (!data.directorPermissions) clearDirectorSecret(sessionInfo.roomCode);
+      }
+      sessionInfo.hostSecret = null;
+      if (!data.directorPermissions) sessionInfo.directorSecret = null;
+      console.log('[Socket] Role changed:', data.message);
+      optionsRef.current.onRoleChanged?.(data.isHost, data.directorPermissions, data.message);
     });
     
     socketRef.current = socket;
@@ -221,31 +367,49 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
   const createTournament = useCallback((tournamentName: string, totalRounds: number, hostName: string) => {
     // Store session info before creating (will be confirmed by tournament_created event)
     sessionInfo.playerName = hostName;
-    sessionInfo.isHost = true;
+    sessionInfo.token = null;
+    sessionInfo.directorSecret = null;
     socketRef.current?.emit('create_tournament', { tournamentName, totalRounds, hostName });
   }, []);
   
   const createTournamentWithData = useCallback((tournament: Tournament) => {
     // Create a room with existing tournament data (for loading from JSON)
     sessionInfo.playerName = 'Host';
-    sessionInfo.isHost = true;
+    sessionInfo.token = null;
+    sessionInfo.directorSecret = null;
     socketRef.current?.emit('create_tournament_with_data', { tournament });
   }, []);
   
-  const joinTournament = useCallback((code: string, playerName: string) => {
+  const joinTournament = useCallback((code: string, playerName: string, credentials: JoinCredentials = {}) => {
     // Store session info before joining (will be confirmed by tournament_joined event)
-    sessionInfo.roomCode = code.toUpperCase().trim();
+    const roomCode = code.toUpperCase().trim();
+    if (credentials.token) savePlayerToken(roomCode, credentials.token);
+    if (credentials.directorSecret) saveDirectorSecret(roomCode, credentials.directorSecret);
+    sessionInfo.roomCode = roomCode;
     sessionInfo.playerName = playerName;
-    sessionInfo.isHost = false;
-    socketRef.current?.emit('join_tournament', { code, playerName });
+    sessionInfo.token = credentials.token ?? getPlayerToken(roomCode);
+    sessionInfo.hostSecret = credentials.hostSecret ?? getHostSecret(roomCode);
+    sessionInfo.directorSecret = credentials.directorSecret ?? getDirectorSecret(roomCode);
+    socketRef.current?.emit('join_tournament', {
+      code,
+      playerName,
+      token: sessionInfo.token ?? undefined,
+      hostSecret: sessionInfo.hostSecret ?? undefined,
+      directorSecret: sessionInfo.directorSecret ?? undefined,
+      deviceId: getDeviceId(),
+      deviceLabel: getDeviceLabel(),
+    });
   }, []);
   
   const leaveTournament = useCallback(() => {
     // Clear session info when intentionally leaving
     sessionInfo.roomCode = null;
     sessionInfo.playerName = '';
-    sessionInfo.isHost = false;
+    sessionInfo.token = null;
+    sessionInfo.hostSecret = null;
+    sessionInfo.directorSecret = null;
     console.log('[Socket] Session cleared');
+    setRoundTimer(null);
     socketRef.current?.emit('leave_tournament');
   }, []);
   
@@ -253,17 +417,69 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
   // Tournament Setup
   // ----------------------------------------
   
-  const addPlayer = useCallback((name: string) => {
-    socketRef.current?.emit('add_player', { name });
+  const addPlayer = useCallback((name: string, registryId?: string) => {
+    socketRef.current?.emit('add_player', { name, registryId });
   }, []);
   
   const removePlayer = useCallback((playerId: string) => {
     socketRef.current?.emit('remove_player', { playerId });
   }, []);
   
+  const addTeam = useCallback((player1Name: string, player2Name: string, teamName?: string) => {
+    socketRef.current?.emit('add_team', { player1Name, player2Name, teamName });
+  }, []);
+  
+  const removeTeam = useCallback((teamId: string) => {
+    socketRef.current?.emit('remove_team', { teamId });
+  }, []);
+  
   const updatePlayer = useCallback((playerId: string, updates: Partial<any>) => {
     socketRef.current?.emit('update_player', { playerId, updates });
   }, []);
+
+  const withdrawPlayer = useCallback((playerId: string) => {
+    socketRef.current?.emit('withdraw_player', { playerId });
+  }, []);
+
+  const reinstatePlayer = useCallback((playerId: string) => {
+    socketRef.current?.emit('reinstate_player', { playerId });
+  }, []);
+
+  const issuePlayerToken = useCallback((playerId: string) => {
+    socketRef.current?.emit('issue_player_token', { playerId });
+  }, []);
+
+  const revokePlayerClaim = useCallback((playerId: string) => {
+    socketRef.current?.emit('revoke_player_claim', { playerId });
+  }, []);
+
+  // ----------------------------------------
+  // Host Access
+  // ----------------------------------------
+
+  const startHostHandoff = useCallback(() => {
+    socketRef.current?.emit('start_host_handoff');
+  }, []);
+
+  const cancelHostHandoff = useCallback(() => {
+    socketRef.current?.emit('cancel_host_handoff');
+  }, []);
+
+  const rotateHostSecret = useCallback(() => {
+    socketRef.current?.emit('rotate_host_secret');
+  }, []);
+
+  const addCoDirector = useCallback((name: string, permissions: DirectorPermission[]) => {
+    socketRef.current?.emit('add_co_director', { name, permissions });
+  }, []);
+
+  const updateCoDirector = useCallback((directorId: string, permissions: DirectorPermission[]) => {
+    socketRef.current?.emit('update_co_director', { directorId, permissions });
+  }, []);
+
+  const removeCoDirector = useCallback((directorId: string) => {
+    socketRef.current?.emit('remove_co_director', { directorId });
+  }, []);
   
   const addTable = useCallback((name: string) => {
     socketRef.current?.emit('add_table', { name });
@@ -313,16 +529,76 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
     socketRef.current?.emit('reset_tournament');
   }, []);
   
+  const undoAction = useCallback(() => {
+    socketRef.current?.emit('undo_action');
+  }, []);
+  
+  const startRoundTimer = useCallback(() => {
+    socketRef.current?.emit('start_round_timer');
+  }, []);
+  
+  const pauseRoundTimer = useCallback(() => {
+    socketRef.current?.emit('pause_round_timer');
+  }, []);
+  
+  const extendRoundTimer = useCallback((minutes: number) => {
+    socketRef.current?.emit('extend_round_timer', { minutes });
+  }, []);
+  
+  const resetRoundTimer = useCallback((minutes?: number) => {
+    socketRef.current?.emit('reset_round_timer', { minutes });
+  }, []);
+  
+  const redoAction = useCallback(() => {
+    socketRef.current?.emit('redo_action');
+  }, []);
+  
   // ----------------------------------------
   // Score Submission
   // ----------------------------------------
   
-  const submitScore = useCallback((matchId: string, score1: number, score2: number, twenties1: number, twenties2: number) => {
-    socketRef.current?.emit('submit_score', { matchId, score1, score2, twenties1, twenties2 });
+  const submitScore = useCallback((matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => {
+    socketRef.current?.emit('submit_score', { matchId, score1, score2, twenties1, twenties2, games, playerTwenties });
+  }, []);
+  
+  const editScore = useCallback((matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => {
+    socketRef.current?.emit('edit_score', { matchId, score1, score2, twenties1, twenties2, games, playerTwenties });
+  }, []);
+  
+  // ----------------------------------------
+  // Round-Robin Stages
+  // ----------------------------------------
+  
+  const submitStageScore = useCallback((stageId: string, matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => {
+    socketRef.current?.emit('submit_stage_score', { stageId, matchId, score1, score2, twenties1, twenties2, games, playerTwenties });
+  }, []);
+  
+  const completeStage = useCallback(() => {
+    socketRef.current?.emit('complete_stage');
+  }, []);
+  
+  // ----------------------------------------
+  // Finals Brackets
+  // ----------------------------------------
+  
+  const configureFinals = useCallback((poolConfigs: PoolBracketConfig[]) => {
+    socketRef.current?.emit('configure_finals', { poolConfigs });
+  }, []);
+  
+  const generateBrackets = useCallback((poolConfigs?: PoolBracketConfig[]) => {
+    socketRef.current?.emit('generate_brackets', { poolConfigs });
+  }, []);
+  
+  const completeFinals = useCallback(() => {
+    socketRef.current?.emit('complete_finals');
+  }, []);
+  
+  const submitBracketScore = useCallback((matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, playerTwenties?: Record<string, number>) => {
+    socketRef.current?.emit('submit_bracket_score', { matchId, score1, score2, twenties1, twenties2, playerTwenties });
   }, []);
   
-  const editScore = useCallback((matchId: string, score1: number, score2: number, twenties1: number, twenties2: number) => {
-    socketRef.current?.emit('edit_score', { matchId, score1, score2, twenties1, twenties2 });
+  const editBracketScore = useCallback((matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, playerTwenties?: Record<string, number>) => {
+    socketRef.current?.emit('edit_bracket_score', { matchId, score1, score2, twenties1, twenties2, playerTwenties });
   }, []);
   
   return {
@@ -330,6 +606,8 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
     isConnected,
     isConnecting,
     error,
+    roundTimer,
+    clockOffset,
     connect,
     disconnect,
     createTournament,
@@ -338,7 +616,19 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
     leaveTournament,
     addPlayer,
     removePlayer,
+    addTeam,
+    removeTeam,
     updatePlayer,
+    withdrawPlayer,
+    reinstatePlayer,
+    issuePlayerToken,
+    revokePlayerClaim,
+    startHostHandoff,
+    cancelHostHandoff,
+    rotateHostSecret,
+    addCoDirector,
+    updateCoDirector,
+    removeCoDirector,
     addTable,
     removeTable,
     updateTable,
@@ -350,8 +640,21 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
     generateNextRound,
     completeTournament,
     resetTournament,
+    undoAction,
+    redoAction,
+    startRoundTimer,
+    pauseRoundTimer,
+    extendRoundTimer,
+    resetRoundTimer,
     submitScore,
     editScore,
+    submitStageScore,
+    completeStage,
+    configureFinals,
+    generateBrackets,
+    completeFinals,
+    submitBracketScore,
+    editBracketScore,
   };
 }
 
@@ -0,0 +1,235 @@
+import { useState, useEffect } from 'react';
+import type { ArchiveSummary } from '../types';
+
+const PAGE_SIZE = 20;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const STATUS_LABELS: Record<string, string> = {
+  completed: 'Completed',
+  finals_active: 'Finals in progress',
+  finals_setup: 'Finals setup',
+  stage_active: 'Stage in progress',
+  active: 'In progress',
+  setup: 'Setup',
+};
+
+interface Filters {
+  q: string;
+  player: string;
+  status: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { q: '', player: '', status: '', from: '', to: '' };
+
+// Public archives (opted in at archive time), searchable by name, player, status and date
+export function BrowseArchives() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [tournaments, setTournaments] = useState<ArchiveSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchArchives();
+  }, [applied, page]);
+
+  const fetchArchives = async () => {
+    setLoading(true);
+    setError(null);
+
+    const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+    (Object.keys(applied) as (keyof Filters)[]).forEach((key) => {
+      if (applied[key].trim()) params.set(key, applied[key].trim());
+    });
+
+    try {
+      const response = await fetch(`/api/tournaments?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setTournaments(data.tournaments);
+        setTotal(data.total);
+      } else {
+        setError(data.message || 'Failed to load tournaments');
+      }
+    } catch (err) {
+      setError('Failed to load tournaments. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setApplied({ ...filters });
+  };
+
+  const handleClear = () => {
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+    setApplied(EMPTY_FILTERS);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const filtered = Object.values(applied).some((value) => value.trim());
+
+  return (
+    <div className="min-h-screen bg-[var(--color-bg-primary)]">
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-display font-bold">Tournament Archive</h1>
+            <p className="text-sm text-[var(--color-text-muted)]">
+              Archived tournaments their directors chose to list publicly.
+            </p>
+          </div>
+          <a href="/" className="btn btn-secondary text-sm whitespace-nowrap">
+            Home
+          </a>
+        </div>
+
+        <form onSubmit={handleSearch} className="card p-6 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={filters.q}
+              onChange={(e) => setFilters({ ...filters, q: e.target.value })}
+              placeholder="Tournament name"
+              maxLength={60}
+              className="input"
+            />
+            <input
+              type="text"
+              value={filters.player}
+              onChange={(e) => setFilters({ ...filters, player: e.target.value })}
+              placeholder="Player name"
+              maxLength={60}
+              className="input"
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="text-xs text-[var(--color-text-muted)]">
+              Status
+              <select
+                value={filters.status}
+                onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+                className="input w-full mt-1"
+              >
+                <option value="">Any</option>
+                {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-[var(--color-text-muted)]">
+              Archived from
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                className="input w-full mt-1"
+              />
+            </label>
+            <label className="text-xs text-[var(--color-text-muted)]">
+              Archived to
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                className="input w-full mt-1"
+              />
+            </label>
+          </div>
+          <div className="flex gap-3">
+            <button type="submit" className="btn btn-primary text-sm">
+              Search
+            </button>
+            {filtered && (
+              <button type="button" onClick={handleClear} className="btn btn-secondary text-sm">
+                Clear
+              </button>
+            )}
+          </div>
+        </form>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[var(--color-primary)] mx-auto mb-4"></div>
+            <p className="text-[var(--color-text-muted)]">Loading tournaments...</p>
+          </div>
+        ) : error ? (
+          <div className="card p-6 text-center">
+            <p className="text-[var(--color-text-muted)] mb-4">{error}</p>
+            <button onClick={fetchArchives} className="btn btn-secondary text-sm">
+              Try Again
+            </button>
+          </div>
+        ) : tournaments.length === 0 ? (
+          <div className="card p-6 text-center text-[var(--color-text-muted)]">
+            {filtered ? 'No public tournaments match your search.' : 'No public tournaments yet.'}
+          </div>
+        ) : (
+          <section className="card p-6">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-[var(--color-bg-tertiary)]">
+                  <th className="px-3 py-2 text-left text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">Tournament</th>
+                  <th className="px-2 py-2 text-center text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">Players</th>
+                  <th className="px-2 py-2 text-center text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">Status</th>
+                  <th className="px-3 py-2 text-right text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">Archived</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--color-border)]">
+                {tournaments.map((t) => (
+                  <tr key={t.code} className="hover:bg-[var(--color-bg-tertiary)] transition-colors">
+                    <td className="px-3 py-2">
+                      <a href={`/view/${t.code}`} className="font-medium text-[var(--color-accent)] hover:underline">
+                        {t.name}
+                      </a>
+                      <span className="ml-2 text-xs text-[var(--color-text-muted)] font-mono">{t.code}</span>
+                    </td>
+                    <td className="px-2 py-2 text-center text-sm">{t.playerCount}</td>
+                    <td className="px-2 py-2 text-center text-sm text-[var(--color-text-muted)]">{STATUS_LABELS[t.status] ?? t.status}</td>
+                    <td className="px-3 py-2 text-right text-sm text-[var(--color-text-muted)]">{formatDate(t.archivedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="flex items-center justify-between mt-4 text-sm">
+              <span className="text-[var(--color-text-muted)]">
+                {total} {total === 1 ? 'tournament' : 'tournaments'}
+              </span>
+              {pageCount > 1 && (
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    className="btn btn-secondary text-sm"
+                  >
+                    ← Previous
+                  </button>
+                  <span className="text-[var(--color-text-muted)]">Page {page} of {pageCount}</span>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= pageCount}
+                    className="btn btn-secondary text-sm"
+                  >
+                    Next →
+                  </button>
+                </div>
+              )}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Header } from '../components/shared/Header';
 import { FloatingQRCode } from '../components/shared/FloatingQRCode';
 import { TournamentSetup } from '../components/setup/TournamentSetup';
@@ -11,13 +11,21 @@ import { Schedule } from '../components/schedule/Schedule';
 import { AdminPanel } from '../components/admin/AdminPanel';
 import { FinalsConfig } from '../components/finals/FinalsConfig';
 import { BracketView } from '../components/bracket/BracketView';
+import { StageView } from '../components/stages/StageView';
 import { useTournamentStore } from '../store/tournamentStore';
 import { useSocket } from '../hooks/useSocket';
-import type { Tournament } from '../types';
+import type { Tournament, DirectorPermission, HostAccessInfo, ActionHistory, PlayerClaimInfo } from '../types';
 
 export function JoinTournament() {
   const { code } = useParams<{ code: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Player join token, host handoff code or co-director secret from the link that was opened
+  const [credentials] = useState(() => ({
+    token: searchParams.get('token') ?? undefined,
+    hostSecret: searchParams.get('host') ?? undefined,
+    directorSecret: searchParams.get('director') ?? undefined,
+  }));
   const {
     viewMode,
     tournament,
@@ -26,18 +34,29 @@ export function JoinTournament() {
     setConnectedPlayerId,
     setOnlineMode,
     setViewMode,
+    isHost,
   } = useTournamentStore();
 
   const [connectedCount, setConnectedCount] = useState(0);
   const [showQRCode, setShowQRCode] = useState(false); // Viewers don't need QR code
   const [joinError, setJoinError] = useState<string | null>(null);
   const [isJoining, setIsJoining] = useState(true);
+  const [actionHistory, setActionHistory] = useState<ActionHistory | null>(null);
+  const [playerClaims, setPlayerClaims] = useState<PlayerClaimInfo[]>([]);
+  const [hostAccess, setHostAccess] = useState<HostAccessInfo | null>(null);
+  const [directorPermissions, setDirectorPermissions] = useState<DirectorPermission[] | null>(null);
 
   // Socket callbacks
-  const handleTournamentJoined = (newTournament: Tournament, playerId: string | null, isHostFlag: boolean) => {
-    console.log('[JoinTournament] Tournament joined as viewer');
+  const handleTournamentJoined = (
+    newTournament: Tournament,
+    playerId: string | null,
+    isHostFlag: boolean,
+    permissions: DirectorPermission[] | null
+  ) => {
+    console.log('[JoinTournament] Tournament joined', isHostFlag ? 'as director' : 'as viewer');
     setTournament(newTournament);
     setIsHost(isHostFlag);
+    setDirectorPermissions(permissions);
     setConnectedPlayerId(playerId);
     setOnlineMode(true);
     setJoinError(null);
@@ -46,6 +65,8 @@ export function JoinTournament() {
     // Navigate to appropriate page based on tournament status
     if (newTournament.status === 'active') {
       setViewMode('schedule'); // Go to Schedule page to see upcoming matches
+    } else if (newTournament.status === 'stage_active') {
+      setViewMode('stages'); // Go to the round-robin pools
     } else if (newTournament.status === 'completed') {
       setViewMode('standings'); // Go to Standings page
     }
@@ -71,8 +92,13 @@ export function JoinTournament() {
       setViewMode('history');
     }
 
+    // Navigate to the pools when a round-robin stage starts
+    if (prevTournament && prevTournament.status !== 'stage_active' && updatedTournament.status === 'stage_active') {
+      setViewMode('stages');
+    }
+
     // Navigate to Standings when tournament completes
-    if (prevTournament?.status === 'active' && updatedTournament.status === 'completed') {
+    if ((prevTournament?.status === 'active' || prevTournament?.status === 'stage_active') && updatedTournament.status === 'completed') {
       setViewMode('standings');
     }
   };
@@ -97,6 +123,19 @@ export function JoinTournament() {
     console.error(`[JoinTournament] Action error (${action}):`, message);
   };
 
+  const handleIdentityRevoked = (message: string) => {
+    console.warn('[JoinTournament] Identity revoked:', message);
+    setConnectedPlayerId(null);
+  };
+
+  const handleRoleChanged = (isHostFlag: boolean, permissions: DirectorPermission[] | null, message: string) => {
+    console.warn('[JoinTournament] Role changed:', message);
+    setIsHost(isHostFlag);
+    setDirectorPermissions(permissions);
+    setHostAccess(null);
+    setActionHistory(null);
+  };
+
   // Initialize socket with callbacks
   const socket = useSocket({
     onTournamentJoined: handleTournamentJoined,
@@ -106,16 +145,28 @@ export function JoinTournament() {
     onPlayerDisconnected: handlePlayerDisconnected,
     onRoomClosed: handleRoomClosed,
     onActionError: handleActionError,
+    onIdentityRevoked: handleIdentityRevoked,
+    onActionHistory: setActionHistory,
+    onPlayerClaims: setPlayerClaims,
+    onHostAccess: setHostAccess,
+    onRoleChanged: handleRoleChanged,
   });
 
+  // Keep join tokens and secrets out of the address bar (they're stored on this device)
+  useEffect(() => {
+    if (searchParams.has('token') || searchParams.has('host') || searchParams.has('director')) {
+      setSearchParams({}, { replace: true });
+    }
+  }, [searchParams, setSearchParams]);
+
   // Auto-join tournament when code is available and socket is connected
   useEffect(() => {
     if (code && socket.isConnected && isJoining && !tournament) {
       console.log('[JoinTournament] Auto-joining tournament with code:', code);
-      // Join as viewer (no player name)
-      socket.joinTournament(code.toUpperCase(), '');
+      // Join as viewer, or as a player/host/co-director if this device has their credentials
+      socket.joinTournament(code.toUpperCase(), '', credentials);
     }
-  }, [code, socket.isConnected, isJoining, tournament, socket]);
+  }, [code, socket.isConnected, isJoining, tournament, socket, credentials]);
 
   const renderContent = () => {
     // If no tournament exists, always show setup (read-only for viewers)
@@ -137,12 +188,18 @@ export function JoinTournament() {
       case 'analysis':
         return <SwissAnalysis />;
       case 'finals_config':
-        return <FinalsConfig />;
+        return <FinalsConfig socket={socket} />;
       case 'bracket':
-        return <BracketView />;
+        return <BracketView socket={socket} />;
+      case 'stages':
+        return <StageView socket={socket} />;
       case 'admin':
         return <AdminPanel
           socket={socket}
+          actionHistory={actionHistory}
+          playerClaims={playerClaims}
+          hostAccess={hostAccess}
+          directorPermissions={directorPermissions}
           showQRCode={showQRCode}
           onToggleQRCode={() => setShowQRCode(!showQRCode)}
         />;
@@ -204,7 +261,7 @@ export function JoinTournament() {
         connectedCount={connectedCount}
         isOnline={true}
         isConnected={socket.isConnected}
-        isHost={false} // Viewers are never hosts
+        isHost={isHost}
         showQRCode={showQRCode}
         onToggleQRCode={() => setShowQRCode(!showQRCode)}
       />
@@ -213,7 +270,7 @@ export function JoinTournament() {
       </main>
       <FloatingQRCode
         isOnline={true}
-        isHost={false}
+        isHost={isHost}
         isVisible={showQRCode}
         onToggle={() => setShowQRCode(!showQRCode)}
       />
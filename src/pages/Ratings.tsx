@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import type { ClubRatingEntry, RatingHistoryEntry } from '../types';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export function Ratings() {
+  const [ratings, setRatings] = useState<ClubRatingEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [history, setHistory] = useState<RatingHistoryEntry[]>([]);
+
+  useEffect(() => {
+    fetchRatings();
+  }, []);
+
+  const fetchRatings = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/ratings');
+      const data = await response.json();
+
+      if (data.success) {
+        setRatings(data.ratings);
+      } else {
+        setError(data.message || 'Failed to load ratings');
+      }
+    } catch (err) {
+      setError('Failed to load ratings. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelect = async (registryId: string) => {
+    if (registryId === selectedId) {
+      setSelectedId(null);
+      return;
+    }
+    setSelectedId(registryId);
+    setHistory([]);
+
+    try {
+      const response = await fetch(`/api/ratings/${registryId}`);
+      const data = await response.json();
+      if (data.success) setHistory(data.history);
+    } catch (err) {
+      // Leave the history empty; the table row still shows the current rating
+    }
+  };
+
+  const listed = ratings
+    .map((rating, index) => ({ rating, rank: index + 1 }))
+    .filter(({ rating }) => rating.name.toLowerCase().includes(query.trim().toLowerCase()));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[var(--color-bg-primary)] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[var(--color-primary)] mx-auto mb-4"></div>
+          <p className="text-[var(--color-text-muted)]">Loading ratings...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--color-bg-primary)]">
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-display font-bold">Club Ratings</h1>
+            <p className="text-sm text-[var(--color-text-muted)]">
+              Elo ratings from tournaments archived by the club admin. Everyone starts at 1500; doubles partners share each result.
+            </p>
+          </div>
+          <a href="/" className="btn btn-secondary text-sm whitespace-nowrap">
+            Home
+          </a>
+        </div>
+
+        {error ? (
+          <div className="card p-6 text-center">
+            <p className="text-[var(--color-text-muted)] mb-4">{error}</p>
+            <button onClick={fetchRatings} className="btn btn-secondary text-sm">
+              Try Again
+            </button>
+          </div>
+        ) : ratings.length === 0 ? (
+          <div className="card p-6 text-center text-[var(--color-text-muted)]">
+            No ratings yet. Archive a completed tournament with the club admin key to start the club ratings.
+          </div>
+        ) : (
+          <section className="card p-6">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search players"
+              className="input w-full mb-4"
+            />
+
+            <table className="w-full">
+              <thead>
+                <tr className="bg-[var(--color-bg-tertiary)]">
+                  <th className="px-3 py-2 text-left text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">#</th>
+                  <th className="px-3 py-2 text-left text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">Player</th>
+                  <th className="px-2 py-2 text-center text-sm font-semibold text-[var(--color-accent)] uppercase tracking-wider">Rating</th>
+                  <th className="px-2 py-2 text-center text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">Peak</th>
+                  <th className="px-2 py-2 text-center text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">W-L-T</th>
+                  <th className="px-2 py-2 text-center text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">Events</th>
+                  <th className="px-3 py-2 text-right text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">Last Played</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--color-border)]">
+                {listed.map(({ rating, rank }) => (
+                  <RatingRow
+                    key={rating.registryId}
+                    rating={rating}
+                    rank={rank}
+                    expanded={selectedId === rating.registryId}
+                    history={selectedId === rating.registryId ? history : []}
+                    onSelect={() => handleSelect(rating.registryId)}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface RatingRowProps {
+  rating: ClubRatingEntry;
+  rank: number;
+  expanded: boolean;
+  history: RatingHistoryEntry[];
+  onSelect: () => void;
+}
+
+function RatingRow({ rating, rank, expanded, history, onSelect }: RatingRowProps) {
+  return (
+    <>
+      <tr onClick={onSelect} className="cursor-pointer hover:bg-[var(--color-bg-tertiary)] transition-colors">
+        <td className="px-3 py-2 text-sm text-[var(--color-text-muted)] font-mono">{rank}</td>
+        <td className="px-3 py-2 font-medium">{rating.name}</td>
+        <td className="px-2 py-2 text-center font-bold text-[var(--color-accent)]">{Math.round(rating.rating)}</td>
+        <td className="px-2 py-2 text-center text-sm text-[var(--color-text-muted)]">{Math.round(rating.peak)}</td>
+        <td className="px-2 py-2 text-center text-sm">{rating.wins}-{rating.losses}-{rating.ties}</td>
+        <td className="px-2 py-2 text-center text-sm">{rating.tournaments}</td>
+        <td className="px-3 py-2 text-right text-sm text-[var(--color-text-muted)]">{formatDate(rating.lastPlayedAt)}</td>
+      </tr>
+      {expanded && (
+        <tr>
+          <td colSpan={7} className="px-3 py-3 bg-[var(--color-bg-tertiary)]/50">
+            {history.length === 0 ? (
+              <p className="text-sm text-[var(--color-text-muted)] italic">Loading history...</p>
+            ) : (
+              <>
+                <RatingChart history={history} />
+                <ul className="space-y-1 mt-3">
+                  {[...history].reverse().map((entry) => {
+                    const change = Math.round(entry.ratingAfter) - Math.round(entry.ratingBefore);
+                    return (
+                      <li key={entry.code} className="flex items-center justify-between gap-3 text-sm">
+                        <a href={`/view/${entry.code}`} className="text-[var(--color-accent)] hover:underline truncate">
+                          {entry.tournamentName}
+                        </a>
+                        <span className="flex items-center gap-3 flex-shrink-0 text-[var(--color-text-muted)]">
+                          <span>{formatDate(entry.archivedAt)} · {entry.games} games</span>
+                          <span className="font-mono w-24 text-right">
+                            {Math.round(entry.ratingAfter)}{' '}
+                            <span className={change > 0 ? 'text-green-400' : change < 0 ? 'text-red-400' : ''}>
+                              ({change > 0 ? '+' : ''}{change})
+                            </span>
+                          </span>
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </>
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+// Rating after each tournament, starting from the rating going into the first
+function RatingChart({ history }: { history: RatingHistoryEntry[] }) {
+  const width = 600;
+  const height = 120;
+  const padding = 8;
+  const points = [history[0].ratingBefore, ...history.map((h) => h.ratingAfter)];
+  const min = Math.min(...points);
+  const max = Math.max(...points);
+  const range = max - min || 1;
+
+  const coords = points.map((value, i) => {
+    const x = padding + (i / Math.max(1, points.length - 1)) * (width - padding * 2);
+    const y = padding + (1 - (value - min) / range) * (height - padding * 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-28" preserveAspectRatio="none">
+      <polyline
+        points={coords.join(' ')}
+        fill="none"
+        stroke="var(--color-accent)"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import type { Season, SeasonStanding } from '../types';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+// Season list at /seasons, one season's standings at /seasons/:id
+export function Seasons() {
+  const { id } = useParams<{ id: string }>();
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [season, setSeason] = useState<Season | null>(null);
+  const [standings, setStandings] = useState<SeasonStanding[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSeasons();
+  }, [id]);
+
+  const fetchSeasons = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(id ? `/api/seasons/${id}/standings` : '/api/seasons');
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.message || 'Failed to load seasons');
+      } else if (id) {
+        setSeason(data.season);
+        setStandings(data.standings);
+      } else {
+        setSeasons(data.seasons);
+      }
+    } catch (err) {
+      setError('Failed to load seasons. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[var(--color-bg-primary)] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[var(--color-primary)] mx-auto mb-4"></div>
+          <p className="text-[var(--color-text-muted)]">Loading {id ? 'standings' : 'seasons'}...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--color-bg-primary)]">
+      <div className="max-w-5xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-display font-bold">{id && season ? season.name : 'Seasons'}</h1>
+            <p className="text-sm text-[var(--color-text-muted)]">
+              {id && season
+                ? describeRules(season)
+                : 'League points across each season\'s archived tournaments.'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {id && (
+              <a href="/seasons" className="btn btn-secondary text-sm whitespace-nowrap">
+                All Seasons
+              </a>
+            )}
+            <a href="/" className="btn btn-secondary text-sm whitespace-nowrap">
+              Home
+            </a>
+          </div>
+        </div>
+
+        {error ? (
+          <div className="card p-6 text-center">
+            <p className="text-[var(--color-text-muted)] mb-4">{error}</p>
+            <button onClick={fetchSeasons} className="btn btn-secondary text-sm">
+              Try Again
+            </button>
+          </div>
+        ) : !id ? (
+          seasons.length === 0 ? (
+            <div className="card p-6 text-center text-[var(--color-text-muted)]">
+              No seasons yet. Create one from the admin panel.
+            </div>
+          ) : (
+            <section className="card p-6">
+              <ul className="divide-y divide-[var(--color-border)]">
+                {seasons.map((s) => (
+                  <li key={s.id}>
+                    <a
+                      href={`/seasons/${s.id}`}
+                      className="flex items-center justify-between gap-4 py-3 hover:bg-[var(--color-bg-tertiary)] px-2 rounded transition-colors"
+                    >
+                      <span className="font-medium">{s.name}</span>
+                      <span className="text-sm text-[var(--color-text-muted)]">
+                        {s.events.length} {s.events.length === 1 ? 'event' : 'events'}
+                        {s.events.length > 0 && ` · latest ${formatDate(s.events[s.events.length - 1].archivedAt)}`}
+                      </span>
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )
+        ) : season && season.events.length === 0 ? (
+          <div className="card p-6 text-center text-[var(--color-text-muted)]">
+            No events in this season yet.
+          </div>
+        ) : season && (
+          <>
+            <section className="card p-6 overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-[var(--color-bg-tertiary)]">
+                    <th className="px-3 py-2 text-left text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">#</th>
+                    <th className="px-3 py-2 text-left text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">Player</th>
+                    <th className="px-2 py-2 text-center text-sm font-semibold text-[var(--color-accent)] uppercase tracking-wider">Pts</th>
+                    <th className="px-2 py-2 text-center text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">Played</th>
+                    <th className="px-2 py-2 text-center text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider">Wins</th>
+                    {season.events.map((event, i) => (
+                      <th
+                        key={event.code}
+                        title={`${event.tournamentName} (${formatDate(event.archivedAt)})`}
+                        className="px-2 py-2 text-center text-sm font-semibold text-[var(--color-text-muted)] uppercase tracking-wider"
+                      >
+                        E{i + 1}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--color-border)]">
+                  {standings.map((standing) => (
+                    <tr key={standing.registryId}>
+                      <td className="px-3 py-2 text-sm text-[var(--color-text-muted)] font-mono">{standing.rank}</td>
+                      <td className="px-3 py-2 font-medium whitespace-nowrap">{standing.name}</td>
+                      <td className="px-2 py-2 text-center font-bold text-[var(--color-accent)]">{standing.total}</td>
+                      <td className="px-2 py-2 text-center text-sm">{standing.played}</td>
+                      <td className="px-2 py-2 text-center text-sm">{standing.wins}</td>
+                      {standing.results.map((result) => (
+                        <td
+                          key={result.code}
+                          title={result.position === null ? 'Did not play' : `${ordinal(result.position)} place${result.dropped ? ' (dropped)' : ''}`}
+                          className={`px-2 py-2 text-center text-sm ${
+                            result.dropped ? 'line-through text-[var(--color-text-muted)]' : ''
+                          }`}
+                        >
+                          {result.position === null ? '–' : result.points}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            <section className="card p-6">
+              <h3 className="text-lg font-display font-semibold mb-3">Events</h3>
+              <ol className="space-y-1">
+                {season.events.map((event, i) => (
+                  <li key={event.code} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="truncate">
+                      <span className="text-[var(--color-text-muted)] font-mono mr-2">E{i + 1}</span>
+                      <a href={`/view/${event.code}`} className="text-[var(--color-accent)] hover:underline">
+                        {event.tournamentName}
+                      </a>
+                    </span>
+                    <span className="text-[var(--color-text-muted)] flex-shrink-0">{formatDate(event.archivedAt)}</span>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function describeRules(season: Season): string {
+  const points = season.pointsTable.slice(0, 3).join('-') + (season.pointsTable.length > 3 ? '-…' : '');
+  const rules = [`Points ${points} by finishing position`, `${season.participationPoints} for finishing lower`];
+  if (season.dropWorst > 0) {
+    rules.push(`worst ${season.dropWorst} ${season.dropWorst === 1 ? 'result' : 'results'} dropped`);
+  }
+  return `${rules.join(', ')}. Ties are split on countback.`;
+}
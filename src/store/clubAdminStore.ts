@@ -0,0 +1,27 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// Club admin key (set by the server as CLUB_ADMIN_KEY). Sent with changes to
+// shared club data; reading the registry needs no key.
+interface ClubAdminState {
+  adminKey: string;
+  setAdminKey: (adminKey: string) => void;
+}
+
+export const useClubAdminStore = create<ClubAdminState>()(
+  persist(
+    (set) => ({
+      adminKey: '',
+      setAdminKey: (adminKey) => set({ adminKey: adminKey.trim() }),
+    }),
+    {
+      name: 'swiss-doubles-club-admin',
+    }
+  )
+);
+
+// Headers for a club admin request
+export function getClubAdminHeaders(): Record<string, string> {
+  const { adminKey } = useClubAdminStore.getState();
+  return adminKey ? { 'X-Admin-Key': adminKey } : {};
+}
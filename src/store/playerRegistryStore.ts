@@ -0,0 +1,96 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { getClubAdminHeaders } from './clubAdminStore';
+import type { RegisteredPlayer, RegisteredPlayerResult } from '../types';
+
+// Local mirror of the club player registry kept on the server. The mirror is
+// persisted so registration can still autocomplete names while offline.
+interface PlayerRegistryState {
+  players: RegisteredPlayer[];
+  lastSyncedAt: number | null;
+  sync: () => Promise<boolean>;
+  createPlayer: (name: string, aliases?: string[]) => Promise<RegisteredPlayer | null>;
+  updatePlayer: (id: string, updates: { name?: string; aliases?: string[] }) => Promise<string | null>;
+  mergePlayers: (targetId: string, sourceId: string) => Promise<string | null>;
+  fetchResults: (id: string) => Promise<RegisteredPlayerResult[]>;
+}
+
+async function request(url: string, method = 'GET', body?: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method,
+    // Changes need the club admin key
+    headers: method === 'GET' ? undefined : { 'Content-Type': 'application/json', ...getClubAdminHeaders() },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return response.json();
+}
+
+export const usePlayerRegistryStore = create<PlayerRegistryState>()(
+  persist(
+    (set, get) => ({
+      players: [],
+      lastSyncedAt: null,
+
+      sync: async () => {
+        try {
+          const data = await request('/api/players');
+          if (!data.success) return false;
+          set({ players: data.players, lastSyncedAt: Date.now() });
+          return true;
+        } catch {
+          return false; // Offline: keep the last mirror
+        }
+      },
+
+      createPlayer: async (name, aliases = []) => {
+        try {
+          const data = await request('/api/players', 'POST', { name, aliases });
+          if (!data.success) return null;
+          await get().sync();
+          return data.player;
+        } catch {
+          return null;
+        }
+      },
+
+      // Returns an error message, or null on success
+      updatePlayer: async (id, updates) => {
+        try {
+          const data = await request(`/api/players/${id}`, 'PATCH', updates);
+          if (!data.success) return data.message || 'Failed to update player';
+          await get().sync();
+          return null;
+        } catch {
+          return 'Network error. Please try again.';
+        }
+      },
+
+      mergePlayers: async (targetId, sourceId) => {
+        try {
+          const data = await request(`/api/players/${targetId}/merge`, 'POST', { sourceId });
+          if (!data.success) return data.message || 'Failed to merge players';
+          await get().sync();
+          return null;
+        } catch {
+          return 'Network error. Please try again.';
+        }
+      },
+
+      fetchResults: async (id) => {
+        try {
+          const data = await request(`/api/players/${id}/results`);
+          return data.success ? data.results : [];
+        } catch {
+          return [];
+        }
+      },
+    }),
+    {
+      name: 'swiss-doubles-player-registry',
+      partialize: (state) => ({
+        players: state.players,
+        lastSyncedAt: state.lastSyncedAt,
+      }),
+    }
+  )
+);
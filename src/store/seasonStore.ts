@@ -0,0 +1,65 @@
+import { create } from 'zustand';
+import { getClubAdminHeaders } from './clubAdminStore';
+import type { Season, SeasonRules } from '../types';
+
+// Seasons kept on the server, loaded for the admin panel. Standings are
+// fetched by the season page itself.
+interface SeasonState {
+  seasons: Season[];
+  sync: () => Promise<boolean>;
+  createSeason: (name: string, rules?: Partial<SeasonRules>) => Promise<string | null>;
+  updateSeason: (id: string, updates: Partial<SeasonRules> & { name?: string }) => Promise<string | null>;
+  addTournament: (id: string, code: string) => Promise<string | null>;
+  removeTournament: (id: string, code: string) => Promise<string | null>;
+}
+
+async function request(url: string, method = 'GET', body?: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method,
+    // Changes need the club admin key
+    headers: method === 'GET' ? undefined : { 'Content-Type': 'application/json', ...getClubAdminHeaders() },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return response.json();
+}
+
+export const useSeasonStore = create<SeasonState>()((set, get) => {
+  // Returns an error message, or null on success
+  const change = async (url: string, method: string, body: unknown | undefined, failure: string) => {
+    try {
+      const data = await request(url, method, body);
+      if (!data.success) return data.message || failure;
+      await get().sync();
+      return null;
+    } catch {
+      return 'Network error. Please try again.';
+    }
+  };
+
+  return {
+    seasons: [],
+
+    sync: async () => {
+      try {
+        const data = await request('/api/seasons');
+        if (!data.success) return false;
+        set({ seasons: data.seasons });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    createSeason: (name, rules = {}) =>
+      change('/api/seasons', 'POST', { name, ...rules }, 'Failed to create season'),
+
+    updateSeason: (id, updates) =>
+      change(`/api/seasons/${id}`, 'PATCH', updates, 'Failed to update season'),
+
+    addTournament: (id, code) =>
+      change(`/api/seasons/${id}/tournaments`, 'POST', { code }, 'Failed to add tournament'),
+
+    removeTournament: (id, code) =>
+      change(`/api/seasons/${id}/tournaments/${code}`, 'DELETE', undefined, 'Failed to remove tournament'),
+  };
+});
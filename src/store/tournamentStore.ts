@@ -8,14 +8,23 @@ import type {
   Table,
   TournamentSettings,
   ViewMode,
-  PlayerStanding,
   PartnerHistory,
   MatchHistory,
   SavedTournamentSummary,
-  BracketMatch,
-  FinalStanding,
+  TournamentAction,
+  ActionActor,
+  ActionLog,
+  GameScore,
 } from '../types';
-import { generateRoundPairings } from '../utils/pairingAlgorithm';
+import * as Engine from '../engine';
+import {
+  createActionLog,
+  recordAction,
+  applyAction,
+  replayActionLog,
+  undoLastAction,
+  redoLastAction,
+} from '../utils/actionLog';
 
 // Extended state for online mode
 interface ExtendedTournamentState extends TournamentState {
@@ -56,6 +65,8 @@ const createEmptyTournament = (name: string, totalRounds: number): Tournament =>
     finalsEnabled: false,
     byeGameMode: 'byes_only',
     allowViewerScoreEntry: false, // Default: only host can enter scores
+    tiebreakers: [...Engine.DEFAULT_TIEBREAKERS],
+    pairingWeights: { ...Engine.DEFAULT_PAIRING_WEIGHTS },
   },
   shareCode: nanoid(6).toUpperCase(),
   createdAt: Date.now(),
@@ -68,6 +79,23 @@ const createEmptyTournament = (name: string, totalRounds: number): Tournament =>
   bracketMatches: [],
 });
 
+// Local mode actions are all performed by the host on this device
+const LOCAL_ACTOR: ActionActor = { name: 'Host', socketId: null };
+
+// Record an action in the local log and apply it to the tournament
+const dispatchAction = (
+  tournament: Tournament,
+  actionLog: ActionLog | null,
+  action: TournamentAction
+): { tournament: Tournament; actionLog: ActionLog } => {
+  const timestamp = Date.now();
+  const log = actionLog ?? createActionLog(tournament);
+  return {
+    tournament: applyAction(tournament, action, timestamp),
+    actionLog: recordAction(log, action, LOCAL_ACTOR, timestamp),
+  };
+};
+
 export const useTournamentStore = create<ExtendedTournamentState>()(
   persist(
     (set, get) => ({
@@ -77,9 +105,12 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
       isHost: true,
       connectedPlayerId: null,
       onlineMode: false,
+      actionLog: null,
+      roundTimer: null,
 
       setTournament: (tournament: Tournament | null) => {
-        set({ tournament });
+        // Externally supplied state starts a fresh action log
+        set({ tournament, actionLog: null });
       },
 
       setConnectedPlayerId: (playerId: string | null) => {
@@ -93,39 +124,34 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
       createTournament: (name: string, totalRounds: number) => {
         set({
           tournament: createEmptyTournament(name, totalRounds),
+          actionLog: null,
+          roundTimer: null,
           viewMode: 'setup',
         });
       },
 
       updateTournamentName: (name: string) => {
-        set((state) => ({
-          tournament: state.tournament
-            ? { ...state.tournament, name, updatedAt: Date.now() }
-            : null,
-        }));
+        set((state) => {
+          if (!state.tournament) return state;
+          return dispatchAction(state.tournament, state.actionLog, { type: 'update_tournament_name', name });
+        });
       },
 
       updateTotalRounds: (rounds: number) => {
-        set((state) => ({
-          tournament: state.tournament
-            ? { ...state.tournament, totalRounds: rounds, updatedAt: Date.now() }
-            : null,
-        }));
+        set((state) => {
+          if (!state.tournament) return state;
+          return dispatchAction(state.tournament, state.actionLog, { type: 'update_total_rounds', rounds });
+        });
       },
 
       updateSettings: (settings: Partial<TournamentSettings>) => {
-        set((state) => ({
-          tournament: state.tournament
-            ? {
-              ...state.tournament,
-              settings: { ...state.tournament.settings, ...settings },
-              updatedAt: Date.now(),
-            }
-            : null,
-        }));
+        set((state) => {
+          if (!state.tournament) return state;
+          return dispatchAction(state.tournament, state.actionLog, { type: 'update_settings', settings });
+        });
       },
 
-      addPlayer: (name: string) => {
+      addPlayer: (name: string, registryId?: string) => {
         const trimmedName = name.trim();
         if (!trimmedName) return;
 
@@ -138,13 +164,49 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
           );
           if (nameExists) return state;
 
-          return {
-            tournament: {
-              ...state.tournament,
-              players: [...state.tournament.players, createEmptyPlayer(trimmedName)],
-              updatedAt: Date.now(),
-            },
+          // Players added mid-tournament are late entrants starting next round
+          const player = createEmptyPlayer(trimmedName);
+          if (registryId) player.registryId = registryId;
+          const joinedRound = Engine.getLateEntryRound(state.tournament, player.id);
+          if (joinedRound) player.joinedRound = joinedRound;
+
+          return dispatchAction(state.tournament, state.actionLog, { type: 'add_player', player });
+        });
+      },
+
+      addTeam: (player1Name: string, player2Name: string, teamName?: string) => {
+        const names = [player1Name.trim(), player2Name.trim()];
+        if (!names[0] || !names[1] || names[0].toLowerCase() === names[1].toLowerCase()) return;
+
+        set((state) => {
+          if (!state.tournament) return state;
+
+          // Check for duplicate names
+          const nameExists = state.tournament.players.some((p) =>
+            names.some((n) => p.name.toLowerCase() === n.toLowerCase())
+          );
+          if (nameExists) return state;
+
+          // Teams added mid-tournament are late entrants starting next round
+          const players = names.map((n) => createEmptyPlayer(n));
+          const joinedRound = Engine.getLateEntryRound(state.tournament, players[0].id);
+          if (joinedRound) players.forEach((p) => { p.joinedRound = joinedRound; });
+
+          const team = {
+            id: nanoid(6),
+            name: teamName?.trim() || `${names[0]} & ${names[1]}`,
+            playerIds: [players[0].id, players[1].id] as [string, string],
           };
+
+          return dispatchAction(state.tournament, state.actionLog, { type: 'add_team', team, players });
+        });
+      },
+
+      removeTeam: (teamId: string) => {
+        set((state) => {
+          if (!state.tournament || state.tournament.status !== 'setup') return state;
+
+          return dispatchAction(state.tournament, state.actionLog, { type: 'remove_team', teamId });
         });
       },
 
@@ -152,13 +214,7 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
         set((state) => {
           if (!state.tournament || state.tournament.status !== 'setup') return state;
 
-          return {
-            tournament: {
-              ...state.tournament,
-              players: state.tournament.players.filter((p) => p.id !== playerId),
-              updatedAt: Date.now(),
-            },
-          };
+          return dispatchAction(state.tournament, state.actionLog, { type: 'remove_player', playerId });
         });
       },
 
@@ -166,15 +222,31 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
         set((state) => {
           if (!state.tournament) return state;
 
-          return {
-            tournament: {
-              ...state.tournament,
-              players: state.tournament.players.map((p) =>
-                p.id === playerId ? { ...p, ...updates } : p
-              ),
-              updatedAt: Date.now(),
-            },
-          };
+          return dispatchAction(state.tournament, state.actionLog, { type: 'update_player', playerId, updates });
+        });
+      },
+
+      withdrawPlayer: (playerId: string) => {
+        set((state) => {
+          if (!state.tournament || !Engine.canChangeRoster(state.tournament, playerId, true)) return state;
+
+          return dispatchAction(state.tournament, state.actionLog, {
+            type: 'withdraw_player',
+            playerId,
+            afterRound: state.tournament.currentRound,
+          });
+        });
+      },
+
+      reinstatePlayer: (playerId: string) => {
+        set((state) => {
+          if (!state.tournament || !Engine.canChangeRoster(state.tournament, playerId, false)) return state;
+
+          return dispatchAction(state.tournament, state.actionLog, {
+            type: 'reinstate_player',
+            playerId,
+            joinedRound: Engine.getLateEntryRound(state.tournament, playerId),
+          });
         });
       },
 
@@ -191,13 +263,7 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
             order: state.tournament.tables.length,
           };
 
-          return {
-            tournament: {
-              ...state.tournament,
-              tables: [...state.tournament.tables, newTable],
-              updatedAt: Date.now(),
-            },
-          };
+          return dispatchAction(state.tournament, state.actionLog, { type: 'add_table', table: newTable });
         });
       },
 
@@ -205,17 +271,7 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
         set((state) => {
           if (!state.tournament) return state;
 
-          const filteredTables = state.tournament.tables
-            .filter((t) => t.id !== tableId)
-            .map((t, idx) => ({ ...t, order: idx }));
-
-          return {
-            tournament: {
-              ...state.tournament,
-              tables: filteredTables,
-              updatedAt: Date.now(),
-            },
-          };
+          return dispatchAction(state.tournament, state.actionLog, { type: 'remove_table', tableId });
         });
       },
 
@@ -223,15 +279,7 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
         set((state) => {
           if (!state.tournament) return state;
 
-          return {
-            tournament: {
-              ...state.tournament,
-              tables: state.tournament.tables.map((t) =>
-                t.id === tableId ? { ...t, name } : t
-              ),
-              updatedAt: Date.now(),
-            },
-          };
+          return dispatchAction(state.tournament, state.actionLog, { type: 'update_table', tableId, name });
         });
       },
 
@@ -239,38 +287,25 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
         set((state) => {
           if (!state.tournament) return state;
 
-          return {
-            tournament: {
-              ...state.tournament,
-              tables: tables.map((t, idx) => ({ ...t, order: idx })),
-              updatedAt: Date.now(),
-            },
-          };
+          return dispatchAction(state.tournament, state.actionLog, { type: 'reorder_tables', tables });
         });
       },
 
       startTournament: () => {
         const state = get();
         if (!state.tournament || state.tournament.players.length < 2) return;
+        if (Engine.validateStageDefinitions(Engine.getStageDefinitions(state.tournament), state.tournament.settings.format)) return;
+
+        // Players who didn't check in sit out Round 1
+        const players = Engine.applyCheckIn(state.tournament);
 
         // Generate first round
-        const { matches } = generateRoundPairings(
-          state.tournament.players,
-          [],
-          1,
-          state.tournament.tables,
-          state.tournament.settings.tableAssignment,
-          state.tournament.settings.byeGameMode
-        );
+        const { matches, pairingLogs } = Engine.generateRound({ ...state.tournament, players }, 1);
+        const stages = Engine.createInitialStages(state.tournament, players);
 
         set({
-          tournament: {
-            ...state.tournament,
-            status: 'active',
-            currentRound: 1,
-            matches,
-            updatedAt: Date.now(),
-          },
+          ...dispatchAction(state.tournament, state.actionLog, { type: 'start_tournament', matches, pairingLogs, players, stages }),
+          roundTimer: null,
           viewMode: 'history', // Navigate to Matches page
         });
       },
@@ -289,202 +324,202 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
         const allComplete = currentRoundMatches.every((m) => m.completed);
         if (!allComplete) return;
 
-        // Update player stats from completed matches
-        const updatedPlayers = [...state.tournament.players];
-
-        currentRoundMatches.forEach((match) => {
-          if (match.isBye) {
-            // Bye player gets average points and a win
-            const byePlayerId = match.team1[0];
-            const player = updatedPlayers.find((p) => p.id === byePlayerId);
-            if (player) {
-              player.wins += 1;
-              player.pointsFor += 4; // Average points for bye
-              player.byeCount += 1;
-            }
-          } else if (match.score1 !== null && match.score2 !== null) {
-            const team1Ids = match.team1 as [string, string];
-            const team2Ids = match.team2 as [string, string];
-
-            // Update team 1 players
-            team1Ids.forEach((playerId) => {
-              const player = updatedPlayers.find((p) => p.id === playerId);
-              if (player) {
-                player.pointsFor += match.score1!;
-                player.pointsAgainst += match.score2!;
-                player.twenties += match.twenties1;
-
-                if (match.score1! > match.score2!) {
-                  player.wins += 1;
-                } else if (match.score1! < match.score2!) {
-                  player.losses += 1;
-                } else {
-                  player.ties += 1;
-                }
-              }
-            });
-
-            // Update team 2 players
-            team2Ids.forEach((playerId) => {
-              const player = updatedPlayers.find((p) => p.id === playerId);
-              if (player) {
-                player.pointsFor += match.score2!;
-                player.pointsAgainst += match.score1!;
-                player.twenties += match.twenties2;
-
-                if (match.score2! > match.score1!) {
-                  player.wins += 1;
-                } else if (match.score2! < match.score1!) {
-                  player.losses += 1;
-                } else {
-                  player.ties += 1;
-                }
-              }
-            });
-          }
-        });
-
-        // Generate next round pairings
-        const { matches: newMatches } = generateRoundPairings(
-          updatedPlayers,
-          state.tournament.matches,
-          nextRound,
-          state.tournament.tables,
-          state.tournament.settings.tableAssignment,
-          state.tournament.settings.byeGameMode
-        );
+        // Generate next round pairings (stats are recalculated from match data first)
+        const { matches: newMatches, players, pairingLogs } = Engine.generateRound(state.tournament, nextRound);
 
         set({
-          tournament: {
-            ...state.tournament,
-            players: updatedPlayers,
-            matches: [...state.tournament.matches, ...newMatches],
-            currentRound: nextRound,
-            updatedAt: Date.now(),
-          },
+          ...dispatchAction(state.tournament, state.actionLog, {
+            type: 'generate_next_round',
+            round: nextRound,
+            matches: newMatches,
+            players,
+            pairingLogs,
+          }),
+          roundTimer: null,  // Each round gets a fresh clock
           viewMode: 'history', // Navigate to Matches page so players can see assignments
         });
       },
 
-      submitScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number) => {
+      submitScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => {
         set((state) => {
           if (!state.tournament) return state;
 
-          return {
-            tournament: {
-              ...state.tournament,
-              matches: state.tournament.matches.map((m) =>
-                m.id === matchId
-                  ? { ...m, score1, score2, twenties1, twenties2, completed: true }
-                  : m
-              ),
-              updatedAt: Date.now(),
-            },
-          };
+          return dispatchAction(state.tournament, state.actionLog, {
+            type: 'submit_score',
+            matchId,
+            score1,
+            score2,
+            twenties1,
+            twenties2,
+            games,
+            playerTwenties,
+          });
         });
       },
 
-      editScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number) => {
-        // Same as submitScore for now, but could add validation/history
-        get().submitScore(matchId, score1, score2, twenties1, twenties2);
+      editScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => {
+        set((state) => {
+          if (!state.tournament) return state;
+
+          return dispatchAction(state.tournament, state.actionLog, {
+            type: 'edit_score',
+            matchId,
+            score1,
+            score2,
+            twenties1,
+            twenties2,
+            games,
+            playerTwenties,
+          });
+        });
       },
 
       completeTournament: () => {
         const state = get();
         if (!state.tournament) return;
 
-        // Update final player stats from last round
-        const lastRoundMatches = state.tournament.matches.filter(
-          (m) => m.round === state.tournament!.currentRound
-        );
+        // Update final player stats from match data
+        const updatedPlayers = Engine.recalculatePlayerStats(state.tournament.players, state.tournament.matches, state.tournament.settings);
 
-        const updatedPlayers = [...state.tournament.players];
-
-        lastRoundMatches.forEach((match) => {
-          if (match.isBye) {
-            const byePlayerId = match.team1[0];
-            const player = updatedPlayers.find((p) => p.id === byePlayerId);
-            if (player) {
-              player.wins += 1;
-              player.pointsFor += 4;
-              player.byeCount += 1;
-            }
-          } else if (match.score1 !== null && match.score2 !== null) {
-            const team1Ids = match.team1 as [string, string];
-            const team2Ids = match.team2 as [string, string];
-
-            team1Ids.forEach((playerId) => {
-              const player = updatedPlayers.find((p) => p.id === playerId);
-              if (player) {
-                player.pointsFor += match.score1!;
-                player.pointsAgainst += match.score2!;
-                player.twenties += match.twenties1;
-
-                if (match.score1! > match.score2!) player.wins += 1;
-                else if (match.score1! < match.score2!) player.losses += 1;
-                else player.ties += 1;
-              }
-            });
-
-            team2Ids.forEach((playerId) => {
-              const player = updatedPlayers.find((p) => p.id === playerId);
-              if (player) {
-                player.pointsFor += match.score2!;
-                player.pointsAgainst += match.score1!;
-                player.twenties += match.twenties2;
-
-                if (match.score2! > match.score1!) player.wins += 1;
-                else if (match.score2! < match.score1!) player.losses += 1;
-                else player.ties += 1;
-              }
-            });
-          }
-        });
-
-        // If Finals Mode is enabled, go to finals_setup, otherwise complete
-        const newStatus = state.tournament.settings.finalsEnabled ? 'finals_setup' : 'completed';
-        const newViewMode = state.tournament.settings.finalsEnabled ? 'finals_config' : 'standings';
+        // Move on to the next stage (round robin or finals setup), otherwise complete
+        const completion = Engine.completeStage({ ...state.tournament, players: updatedPlayers });
+        const newStatus = completion?.status ?? 'completed';
+        const newViewMode = newStatus === 'finals_setup' ? 'finals_config' : newStatus === 'stage_active' ? 'stages' : 'standings';
 
         set({
-          tournament: {
-            ...state.tournament,
-            players: updatedPlayers,
+          ...dispatchAction(state.tournament, state.actionLog, {
+            type: 'complete_tournament',
             status: newStatus,
-            updatedAt: Date.now(),
-          },
+            players: updatedPlayers,
+            stages: completion?.stages,
+          }),
           viewMode: newViewMode,
         });
       },
 
+      submitStageScore: (stageId, matchId, score1, score2, twenties1, twenties2, games, playerTwenties) => {
+        set((state) => {
+          if (!state.tournament || state.tournament.status !== 'stage_active') return state;
+
+          return dispatchAction(state.tournament, state.actionLog, {
+            type: 'submit_stage_score',
+            stageId,
+            matchId,
+            score1,
+            score2,
+            twenties1,
+            twenties2,
+            games,
+            playerTwenties,
+          });
+        });
+      },
+
+      completeStage: () => {
+        const state = get();
+        if (!state.tournament || state.tournament.status !== 'stage_active') return;
+
+        const completion = Engine.completeStage(state.tournament);
+        if (!completion) return;
+
+        set({
+          ...dispatchAction(state.tournament, state.actionLog, {
+            type: 'complete_tournament',
+            status: completion.status,
+            stages: completion.stages,
+          }),
+          viewMode: completion.status === 'finals_setup' ? 'finals_config' : completion.status === 'stage_active' ? 'stages' : 'standings',
+        });
+      },
+
       resetTournament: () => {
         const state = get();
         if (!state.tournament) return;
 
         // Reset tournament to setup state but keep players, tables, settings
-        const resetPlayers = state.tournament.players.map(p => ({
-          ...p,
-          wins: 0,
-          losses: 0,
-          ties: 0,
-          pointsFor: 0,
-          pointsAgainst: 0,
-          twenties: 0,
-          byeCount: 0,
-        }));
-
         set({
-          tournament: {
-            ...state.tournament,
-            matches: [],
-            currentRound: 0,
-            status: 'setup',
-            players: resetPlayers,
-            updatedAt: Date.now(),
-          },
+          ...dispatchAction(state.tournament, state.actionLog, { type: 'reset_tournament' }),
+          roundTimer: null,
           viewMode: 'setup',
         });
       },
 
+      startRoundTimer: () => {
+        set((state) => {
+          if (!state.tournament || state.tournament.status !== 'active') return state;
+
+          const timer = state.roundTimer?.round === state.tournament.currentRound
+            ? state.roundTimer
+            : Engine.createRoundTimer(state.tournament.currentRound, state.tournament.settings);
+          return { roundTimer: Engine.startTimer(timer, Date.now()) };
+        });
+      },
+
+      pauseRoundTimer: () => {
+        set((state) => {
+          if (!state.roundTimer) return state;
+          return { roundTimer: Engine.pauseTimer(state.roundTimer, Date.now()) };
+        });
+      },
+
+      extendRoundTimer: (minutes: number) => {
+        set((state) => {
+          if (!state.roundTimer) return state;
+          return { roundTimer: Engine.extendTimer(state.roundTimer, minutes, Date.now()) };
+        });
+      },
+
+      resetRoundTimer: (minutes?: number) => {
+        set((state) => {
+          if (!state.tournament || state.tournament.status !== 'active') return state;
+          return { roundTimer: Engine.createRoundTimer(state.tournament.currentRound, state.tournament.settings, minutes) };
+        });
+      },
+
+      expireRoundTimer: () => {
+        const state = get();
+        if (!state.tournament || !state.roundTimer || state.roundTimer.expired) return;
+
+        const roundTimer = Engine.expireTimer(state.roundTimer);
+        const matchIds = Engine.getUnfinishedMatchIds(state.tournament.matches, roundTimer.round);
+
+        if (!state.tournament.settings.adjudicateOnTimeout || matchIds.length === 0) {
+          set({ roundTimer });
+          return;
+        }
+
+        set({
+          ...dispatchAction(state.tournament, state.actionLog, {
+            type: 'flag_unfinished_matches',
+            round: roundTimer.round,
+            matchIds,
+          }),
+          roundTimer,
+        });
+      },
+
+      undoAction: () => {
+        set((state) => {
+          if (!state.actionLog) return state;
+
+          const actionLog = undoLastAction(state.actionLog, LOCAL_ACTOR);
+          if (!actionLog) return state;
+
+          return { actionLog, tournament: replayActionLog(actionLog) };
+        });
+      },
+
+      redoAction: () => {
+        set((state) => {
+          if (!state.actionLog) return state;
+
+          const actionLog = redoLastAction(state.actionLog, LOCAL_ACTOR);
+          if (!actionLog) return state;
+
+          return { actionLog, tournament: replayActionLog(actionLog) };
+        });
+      },
+
       setViewMode: (mode: ViewMode) => {
         set({ viewMode: mode });
       },
@@ -515,101 +550,7 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
         const state = get();
         if (!state.tournament) return [];
 
-        const players = state.tournament.players.filter((p) => p.active);
-        const matches = state.tournament.matches;
-
-        // Calculate stats from MATCH DATA (not stored player stats) for accuracy
-        const calculatePlayerStats = (playerId: string) => {
-          let wins = 0, losses = 0, ties = 0;
-          let pointsFor = 0, pointsAgainst = 0, twenties = 0, byeCount = 0;
-
-          matches.forEach((match) => {
-            if (!match.completed) return;
-
-            // Check if player is in this match
-            const inTeam1 = match.team1.includes(playerId);
-            const inTeam2 = match.team2?.includes(playerId);
-
-            if (!inTeam1 && !inTeam2) return;
-
-            if (match.isBye) {
-              // Bye is always a tie (1 point) with 4-4 score
-              ties += 1;
-              pointsFor += match.score1 ?? 4;
-              pointsAgainst += match.score2 ?? 4; // 4 points against for bye (4-4 tie)
-              twenties += match.twenties1 ?? 0;
-              byeCount += 1;
-            } else if (match.score1 !== null && match.score2 !== null) {
-              if (inTeam1) {
-                pointsFor += match.score1;
-                pointsAgainst += match.score2;
-                twenties += match.twenties1 ?? 0;
-                if (match.score1 > match.score2) wins += 1;
-                else if (match.score1 < match.score2) losses += 1;
-                else ties += 1;
-              } else if (inTeam2) {
-                pointsFor += match.score2;
-                pointsAgainst += match.score1;
-                twenties += match.twenties2 ?? 0;
-                if (match.score2 > match.score1) wins += 1;
-                else if (match.score2 < match.score1) losses += 1;
-                else ties += 1;
-              }
-            }
-          });
-
-          return { wins, losses, ties, pointsFor, pointsAgainst, twenties, byeCount };
-        };
-
-        // Calculate standings with real-time stats from matches
-        const standings: PlayerStanding[] = players.map((player) => {
-          const stats = calculatePlayerStats(player.id);
-
-          // Challonge-style score: Win=2, Tie=1, Loss=0
-          // Bye is always a tie (1 point) with 4-4 score
-          const score = (stats.wins * 2) + (stats.ties * 1);
-
-          return {
-            player: {
-              ...player,
-              wins: stats.wins,
-              losses: stats.losses,
-              ties: stats.ties,
-              pointsFor: stats.pointsFor,
-              pointsAgainst: stats.pointsAgainst,
-              twenties: stats.twenties,
-              byeCount: stats.byeCount,
-            },
-            rank: 0,
-            score,
-            buchholz: 0,
-          };
-        });
-
-        // Sort by: Score → PF → PA → 20s
-        standings.sort((a, b) => {
-          // Primary: Challonge score (Win=2, Tie=1, Loss=0, Bye=1)
-          if (b.score !== a.score) {
-            return b.score - a.score;
-          }
-          // Secondary: Points For (higher is better)
-          if (b.player.pointsFor !== a.player.pointsFor) {
-            return b.player.pointsFor - a.player.pointsFor;
-          }
-          // Tertiary: Points Against (lower is better)
-          if (a.player.pointsAgainst !== b.player.pointsAgainst) {
-            return a.player.pointsAgainst - b.player.pointsAgainst;
-          }
-          // Quaternary: 20s (higher is better)
-          return b.player.twenties - a.player.twenties;
-        });
-
-        // Assign ranks
-        standings.forEach((s, idx) => {
-          s.rank = idx + 1;
-        });
-
-        return standings;
+        return Engine.getStandings(state.tournament);
       },
 
       getPartnerHistory: () => {
@@ -696,6 +637,8 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
         if (tournamentToLoad) {
           set({
             tournament: { ...tournamentToLoad },
+            actionLog: null,
+            roundTimer: null,
             viewMode: tournamentToLoad.status === 'completed' ? 'standings' : 'rounds',
           });
         }
@@ -715,17 +658,7 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
           // Find winner if completed
           let winner: string | undefined;
           if (t.status === 'completed') {
-            const activePlayers = t.players.filter((p) => p.active);
-            // Sort by: Score → PF → PA → 20s
-            const sorted = [...activePlayers].sort((a, b) => {
-              const aScore = a.wins * 2 + a.ties;
-              const bScore = b.wins * 2 + b.ties;
-              if (bScore !== aScore) return bScore - aScore;
-              if (b.pointsFor !== a.pointsFor) return b.pointsFor - a.pointsFor;
-              if (a.pointsAgainst !== b.pointsAgainst) return a.pointsAgainst - b.pointsAgainst;
-              return b.twenties - a.twenties;
-            });
-            winner = sorted[0]?.name;
+            winner = Engine.getStandings(t)[0]?.player.name;
           }
 
           return {
@@ -747,17 +680,16 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
         set((state) => {
           if (!state.tournament) return state;
 
-          return {
-            tournament: {
-              ...state.tournament,
-              finalsConfig: {
-                enabled: true,
-                poolConfigs,
-                configured: true,
-              },
-              updatedAt: Date.now(),
+          return dispatchAction(state.tournament, state.actionLog, {
+            type: 'update_finals',
+            finalsConfig: {
+              enabled: true,
+              poolConfigs,
+              configured: true,
             },
-          };
+            bracketMatches: state.tournament.bracketMatches,
+            status: state.tournament.status,
+          });
         });
       },
 
@@ -765,135 +697,14 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
         set((state) => {
           if (!state.tournament || !state.tournament.finalsConfig) return state;
 
-          const bracketMatches: BracketMatch[] = [];
-
-          state.tournament.finalsConfig.poolConfigs.forEach((config) => {
-            if (config.bracketType === 'none') return;
-
-            const poolPlayers = state.tournament!.players.filter(p => config.playerIds.includes(p.id));
-            // Sort by Swiss rank (using standings logic implicitly or just sort by current performance)
-            // But config.playerIds usually comes sorted from FinalsConfig.
-            // Let's re-sort to be safe: wins > pointsFor > pointsAgainst > twenties
-            poolPlayers.sort((a, b) => {
-              const aScore = a.wins * 2 + a.ties;
-              const bScore = b.wins * 2 + b.ties;
-              if (bScore !== aScore) return bScore - aScore;
-              if (b.pointsFor !== a.pointsFor) return b.pointsFor - a.pointsFor;
-              return b.twenties - a.twenties;
-            });
-
-            // 1. Form Teams
-            let teams: [string, string][] = [];
-
-            if (config.manualTeams && config.manualTeams.length > 0) {
-              teams = config.manualTeams;
-            } else {
-              // High-Low Pairing (Default)
-              const count = poolPlayers.length;
-              const numTeams = count / 2;
-
-              for (let i = 0; i < numTeams; i++) {
-                teams.push([poolPlayers[i].id, poolPlayers[count - 1 - i].id]);
-              }
-            }
-
-            // Helper to create match
-            const createMatch = (
-              round: any,
-              matchNum: number,
-              t1: [string, string] | null,
-              t2: [string, string] | null,
-              nextId: string | null = null
-            ): BracketMatch => ({
-              id: nanoid(),
-              poolId: config.poolId,
-              round,
-              matchNumber: matchNum,
-              team1: t1,
-              team2: t2,
-              score1: null,
-              score2: null,
-              twenties1: 0,
-              twenties2: 0,
-              completed: false,
-              winnerId: null,
-              nextMatchId: nextId,
-              sourceMatch1Id: null,
-              sourceMatch2Id: null,
-            });
-
-            // 2. Build Bracket Structure
-            if (config.bracketType === 'final') {
-              // Final Only (4 players -> 2 teams)
-              // Team 1 vs Team 2
-              bracketMatches.push(createMatch('final', 1, teams[0], teams[1]));
-
-            } else if (config.bracketType === 'semifinals') {
-              // Semifinals (8 players -> 4 teams)
-              // Semis: 1v4, 2v3
-              const finalMatch = createMatch('final', 3, null, null);
-
-              const semi1 = createMatch('semifinal', 1, teams[0], teams[3], finalMatch.id); // 1 vs 4
-              const semi2 = createMatch('semifinal', 2, teams[1], teams[2], finalMatch.id); // 2 vs 3
-
-              finalMatch.sourceMatch1Id = semi1.id;
-              finalMatch.sourceMatch2Id = semi2.id;
-
-              bracketMatches.push(semi1, semi2, finalMatch);
-
-              if (config.includeThirdPlace) {
-                const thirdPlace = createMatch('third_place', 4, null, null);
-                thirdPlace.sourceMatch1Id = semi1.id; // Loser of Semi 1
-                thirdPlace.sourceMatch2Id = semi2.id; // Loser of Semi 2
-                bracketMatches.push(thirdPlace);
-              }
-
-            } else if (config.bracketType === 'quarterfinals') {
-              // Quarterfinals (16 players -> 8 teams)
-              // QF: 1v8, 4v5, 2v7, 3v6 (Standard bracket order for visual flow: 1v8, 4v5 top half; 2v7, 3v6 bottom half)
-              // QF1: 1 vs 8
-              // QF2: 4 vs 5
-              // QF3: 2 vs 7
-              // QF4: 3 vs 6
-
-              const finalMatch = createMatch('final', 7, null, null);
-
-              const semi1 = createMatch('semifinal', 5, null, null, finalMatch.id);
-              const semi2 = createMatch('semifinal', 6, null, null, finalMatch.id);
-
-              finalMatch.sourceMatch1Id = semi1.id;
-              finalMatch.sourceMatch2Id = semi2.id;
-
-              // Top Half (Feeds Semi 1)
-              const qf1 = createMatch('quarterfinal', 1, teams[0], teams[7], semi1.id); // 1 vs 8
-              const qf2 = createMatch('quarterfinal', 2, teams[3], teams[4], semi1.id); // 4 vs 5
-              semi1.sourceMatch1Id = qf1.id;
-              semi1.sourceMatch2Id = qf2.id;
-
-              // Bottom Half (Feeds Semi 2)
-              const qf3 = createMatch('quarterfinal', 3, teams[1], teams[6], semi2.id); // 2 vs 7
-              const qf4 = createMatch('quarterfinal', 4, teams[2], teams[5], semi2.id); // 3 vs 6
-              semi2.sourceMatch1Id = qf3.id;
-              semi2.sourceMatch2Id = qf4.id;
-
-              bracketMatches.push(qf1, qf2, qf3, qf4, semi1, semi2, finalMatch);
-
-              if (config.includeThirdPlace) {
-                const thirdPlace = createMatch('third_place', 8, null, null);
-                thirdPlace.sourceMatch1Id = semi1.id;
-                thirdPlace.sourceMatch2Id = semi2.id;
-                bracketMatches.push(thirdPlace);
-              }
-            }
-          });
+          const bracketMatches = Engine.generateBracketMatches(state.tournament, state.tournament.finalsConfig.poolConfigs);
 
           return {
-            tournament: {
-              ...state.tournament,
+            ...dispatchAction(state.tournament, state.actionLog, {
+              type: 'update_finals',
               bracketMatches,
               status: 'finals_active',
-              updatedAt: Date.now(),
-            },
+            }),
             viewMode: 'bracket', // Switch to bracket view (stub view for now)
           };
         });
@@ -903,104 +714,11 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
         set((state) => {
           if (!state.tournament) return state;
 
-          const bracketMatches: BracketMatch[] = [];
-
-          poolConfigs.forEach((config) => {
-            if (config.bracketType === 'none') return;
-
-            const poolPlayers = state.tournament!.players.filter(p => config.playerIds.includes(p.id));
-
-            poolPlayers.sort((a, b) => {
-              const aScore = a.wins * 2 + a.ties;
-              const bScore = b.wins * 2 + b.ties;
-              if (bScore !== aScore) return bScore - aScore;
-              if (b.pointsFor !== a.pointsFor) return b.pointsFor - a.pointsFor;
-              return b.twenties - a.twenties;
-            });
-
-            let teams: [string, string][] = [];
-
-            if (config.manualTeams && config.manualTeams.length > 0) {
-              teams = config.manualTeams;
-            } else {
-              const count = poolPlayers.length;
-              const numTeams = count / 2;
-              for (let i = 0; i < numTeams; i++) {
-                teams.push([poolPlayers[i].id, poolPlayers[count - 1 - i].id]);
-              }
-            }
-
-            const createMatch = (
-              round: any,
-              matchNum: number,
-              t1: [string, string] | null,
-              t2: [string, string] | null,
-              nextId: string | null = null
-            ): BracketMatch => ({
-              id: nanoid(),
-              poolId: config.poolId,
-              round,
-              matchNumber: matchNum,
-              team1: t1,
-              team2: t2,
-              score1: null,
-              score2: null,
-              twenties1: 0,
-              twenties2: 0,
-              completed: false,
-              winnerId: null,
-              nextMatchId: nextId,
-              sourceMatch1Id: null,
-              sourceMatch2Id: null,
-            });
-
-            if (config.bracketType === 'final') {
-              bracketMatches.push(createMatch('final', 1, teams[0], teams[1]));
-            } else if (config.bracketType === 'semifinals') {
-              const finalMatch = createMatch('final', 3, null, null);
-              const semi1 = createMatch('semifinal', 1, teams[0], teams[3], finalMatch.id);
-              const semi2 = createMatch('semifinal', 2, teams[1], teams[2], finalMatch.id);
-              finalMatch.sourceMatch1Id = semi1.id;
-              finalMatch.sourceMatch2Id = semi2.id;
-              bracketMatches.push(semi1, semi2, finalMatch);
-
-              if (config.includeThirdPlace) {
-                const thirdPlace = createMatch('third_place', 4, null, null);
-                thirdPlace.sourceMatch1Id = semi1.id;
-                thirdPlace.sourceMatch2Id = semi2.id;
-                bracketMatches.push(thirdPlace);
-              }
-            } else if (config.bracketType === 'quarterfinals') {
-              const finalMatch = createMatch('final', 7, null, null);
-              const semi1 = createMatch('semifinal', 5, null, null, finalMatch.id);
-              const semi2 = createMatch('semifinal', 6, null, null, finalMatch.id);
-              finalMatch.sourceMatch1Id = semi1.id;
-              finalMatch.sourceMatch2Id = semi2.id;
-
-              const qf1 = createMatch('quarterfinal', 1, teams[0], teams[7], semi1.id);
-              const qf2 = createMatch('quarterfinal', 2, teams[3], teams[4], semi1.id);
-              semi1.sourceMatch1Id = qf1.id;
-              semi1.sourceMatch2Id = qf2.id;
-
-              const qf3 = createMatch('quarterfinal', 3, teams[1], teams[6], semi2.id);
-              const qf4 = createMatch('quarterfinal', 4, teams[2], teams[5], semi2.id);
-              semi2.sourceMatch1Id = qf3.id;
-              semi2.sourceMatch2Id = qf4.id;
-
-              bracketMatches.push(qf1, qf2, qf3, qf4, semi1, semi2, finalMatch);
-
-              if (config.includeThirdPlace) {
-                const thirdPlace = createMatch('third_place', 8, null, null);
-                thirdPlace.sourceMatch1Id = semi1.id;
-                thirdPlace.sourceMatch2Id = semi2.id;
-                bracketMatches.push(thirdPlace);
-              }
-            }
-          });
+          const bracketMatches = Engine.generateBracketMatches(state.tournament, poolConfigs);
 
           return {
-            tournament: {
-              ...state.tournament,
+            ...dispatchAction(state.tournament, state.actionLog, {
+              type: 'update_finals',
               finalsConfig: {
                 enabled: true,
                 poolConfigs,
@@ -1008,268 +726,61 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
               },
               bracketMatches,
               status: 'finals_active',
-              updatedAt: Date.now(),
-            },
+            }),
             viewMode: 'bracket',
           };
         });
       },
 
-      submitBracketScore: (matchId, score1, score2, twenties1, twenties2) => {
+      submitBracketScore: (matchId, score1, score2, twenties1, twenties2, playerTwenties) => {
         set((state) => {
           if (!state.tournament) return state;
+          if (Engine.validateBracketScore(score1, score2, state.tournament.settings)) return state;
+
+          const newBracketMatches = Engine.applyBracketScore(
+            state.tournament.bracketMatches,
+            matchId,
+            score1,
+            score2,
+            twenties1,
+            twenties2,
+            playerTwenties
+          );
+          if (!newBracketMatches) return state;
 
-          const matchIndex = state.tournament.bracketMatches.findIndex(m => m.id === matchId);
-          if (matchIndex === -1) return state;
-
-          const match = state.tournament.bracketMatches[matchIndex];
-
-          let winnerId: string | null = null;
-          let winningTeam: [string, string] | null = null;
-          let losingTeam: [string, string] | null = null;
-
-          // Determine winner/loser
-          if (score1 > score2) {
-            winningTeam = match.team1;
-            losingTeam = match.team2;
-          } else if (score2 > score1) {
-            winningTeam = match.team2;
-            losingTeam = match.team1;
-          }
-
-          if (winningTeam) {
-            winnerId = [...winningTeam].sort().join('-');
-          }
-
-          // Update Current Match
-          const updatedMatch = { ...match, score1, score2, twenties1, twenties2, completed: true, winnerId };
-
-          let newBracketMatches = [...state.tournament.bracketMatches];
-          newBracketMatches[matchIndex] = updatedMatch;
-
-          // Propagate to Next Match (Winner)
-          if (match.nextMatchId && winningTeam) {
-            const nextIndex = newBracketMatches.findIndex(m => m.id === match.nextMatchId);
-            if (nextIndex !== -1) {
-              const nextMatch = { ...newBracketMatches[nextIndex] };
-              if (nextMatch.sourceMatch1Id === match.id) {
-                nextMatch.team1 = winningTeam;
-              } else if (nextMatch.sourceMatch2Id === match.id) {
-                nextMatch.team2 = winningTeam;
-              }
-              newBracketMatches[nextIndex] = nextMatch;
-            }
-          }
-
-          // Propagate to Third Place Match (Loser)
-          if (losingTeam) {
-            // Find any match that sources this match (and is NOT the nextMatchId, though typically 3rd place is explicit)
-            // Better: Find match with round 'third_place' that sources this match
-            const thirdPlaceIndex = newBracketMatches.findIndex(m =>
-              m.round === 'third_place' && (m.sourceMatch1Id === match.id || m.sourceMatch2Id === match.id)
-            );
-
-            if (thirdPlaceIndex !== -1) {
-              const tpMatch = { ...newBracketMatches[thirdPlaceIndex] };
-              if (tpMatch.sourceMatch1Id === match.id) {
-                tpMatch.team1 = losingTeam;
-              } else if (tpMatch.sourceMatch2Id === match.id) {
-                tpMatch.team2 = losingTeam;
-              }
-              newBracketMatches[thirdPlaceIndex] = tpMatch;
-            }
-          }
-
-          return {
-            tournament: {
-              ...state.tournament,
-              bracketMatches: newBracketMatches,
-              updatedAt: Date.now(),
-            },
-          };
+          return dispatchAction(state.tournament, state.actionLog, {
+            type: 'update_finals',
+            bracketMatches: newBracketMatches,
+            status: state.tournament.status,
+          });
         });
       },
 
-      editBracketScore: (matchId, score1, score2, twenties1, twenties2) => {
-        // Same as submitBracketScore for now
-        get().submitBracketScore(matchId, score1, score2, twenties1, twenties2);
-      },
-
-      getFinalStandings: () => {
+      editBracketScore: (matchId, score1, score2, twenties1, twenties2, playerTwenties) => {
         const state = get();
-        if (!state.tournament || !state.tournament.finalsConfig) return [];
-
-        const standings: FinalStanding[] = [];
-        const swissStandings = state.getStandings(); // Already sorted by Swiss rank
-        const poolSize = state.tournament.settings.poolSize || 8;
-
-        // Helper to find specific pool config
-        const getPoolConfig = (poolId: string) =>
-          state.tournament!.finalsConfig!.poolConfigs.find(c => c.poolId === poolId);
-
-        // Process standings in chunks (Pools)
-        for (let i = 0; i < swissStandings.length; i += poolSize) {
-          const chunk = swissStandings.slice(i, i + poolSize);
-          if (chunk.length === 0) break;
-
-          const poolIndex = Math.floor(i / poolSize);
-          const poolId = `pool-${poolIndex}`;
-          const poolName = `Pool ${String.fromCharCode(65 + poolIndex)}`; // Pool A, B...
-          const poolStartRank = i + 1;
-
-          const config = getPoolConfig(poolId);
-          const poolMatches = state.tournament.bracketMatches.filter(m => m.poolId === poolId);
-
-          // If no bracket or not configured, these players just keep their relative Swiss order
-          // But mapped to the pool's rank range
-          if (!config || config.bracketType === 'none' || poolMatches.length === 0) {
-            chunk.forEach((s, idx) => {
-              standings.push({
-                playerId: s.player.id,
-                playerName: s.player.name,
-                finalPosition: poolStartRank + idx,
-                poolName: poolName,
-                bracketResult: `Swiss Rank ${s.rank}`,
-                swissRank: s.rank
-              });
-            });
-            continue;
-          }
-
-          // Bracket Logic for this Pool
-          const rankedPlayers = new Map<string, { rank: number, desc: string }>();
-          const handledPlayers = new Set<string>();
-
-          // 1. Final
-          const finalMatch = poolMatches.find(m => m.round === 'final');
-          if (finalMatch && finalMatch.completed && finalMatch.score1 !== null && finalMatch.score2 !== null) {
-            const t1 = finalMatch.team1 || [];
-            const t2 = finalMatch.team2 || [];
-            if (finalMatch.score1 > finalMatch.score2) {
-              t1.forEach(p => rankedPlayers.set(p, { rank: 1, desc: 'Champion' }));
-              t2.forEach(p => rankedPlayers.set(p, { rank: 2, desc: 'Runner-up' }));
-            } else {
-              t2.forEach(p => rankedPlayers.set(p, { rank: 1, desc: 'Champion' }));
-              t1.forEach(p => rankedPlayers.set(p, { rank: 2, desc: 'Runner-up' }));
-            }
-            [...t1, ...t2].forEach(p => handledPlayers.add(p));
-          }
-
-          // 2. Third Place
-          const thirdPlace = poolMatches.find(m => m.round === 'third_place');
-          if (thirdPlace && thirdPlace.completed && thirdPlace.score1 !== null && thirdPlace.score2 !== null) {
-            const t1 = thirdPlace.team1 || [];
-            const t2 = thirdPlace.team2 || [];
-            const winnerRank = 3;
-            const loserRank = 4;
-            if (thirdPlace.score1 > thirdPlace.score2) {
-              t1.forEach(p => rankedPlayers.set(p, { rank: winnerRank, desc: '3rd Place' }));
-              t2.forEach(p => rankedPlayers.set(p, { rank: loserRank, desc: '4th Place' }));
-            } else {
-              t2.forEach(p => rankedPlayers.set(p, { rank: winnerRank, desc: '3rd Place' }));
-              t1.forEach(p => rankedPlayers.set(p, { rank: loserRank, desc: '4th Place' }));
-            }
-            [...t1, ...t2].forEach(p => handledPlayers.add(p));
-          }
-
-          // 3. Semis Losers
-          const semis = poolMatches.filter(m => m.round === 'semifinal');
-          semis.forEach(m => {
-            if (m.completed && m.score1 !== null && m.score2 !== null) {
-              const loser = (m.score1 < m.score2) ? m.team1 : m.team2;
-              if (loser) {
-                loser.forEach(p => {
-                  if (!handledPlayers.has(p)) {
-                    rankedPlayers.set(p, { rank: 3, desc: 'Semifinalist' });
-                    handledPlayers.add(p);
-                  }
-                });
-              }
-            }
-          });
-
-          // 4. Quarter Losers
-          const quarters = poolMatches.filter(m => m.round === 'quarterfinal');
-          quarters.forEach(m => {
-            if (m.completed && m.score1 !== null && m.score2 !== null) {
-              const loser = (m.score1 < m.score2) ? m.team1 : m.team2;
-              if (loser) {
-                loser.forEach(p => {
-                  if (!handledPlayers.has(p)) {
-                    rankedPlayers.set(p, { rank: 5, desc: 'Quarterfinalist' });
-                    handledPlayers.add(p);
-                  }
-                });
-              }
-            }
-          });
-
-          // Build final list for this pool
-          const poolResults: { pid: string, rank: number, desc: string, active: boolean, swissRank: number }[] = [];
-
-          // Add Bracket Participants
-          rankedPlayers.forEach((info, pid) => {
-            // Find player in chunk to get swiss rank (or global lookup)
-            const s = swissStandings.find(pl => pl.player.id === pid);
-            poolResults.push({
-              pid,
-              rank: info.rank,
-              desc: info.desc,
-              active: false,
-              swissRank: s?.rank || 999
-            });
-          });
+        if (!state.tournament || state.tournament.status !== 'finals_active') return;
+        if (!Engine.canEditBracketScore(state.tournament.bracketMatches, matchId)) return;
 
-          // Add Remaining Players (from chunk)
-          chunk.forEach(s => {
-            if (!handledPlayers.has(s.player.id)) {
-              let rank = 100;
-              let desc = 'Swiss Rank';
-              let active = false;
-
-              // Check if active in bracket (in progress)
-              const activeMatch = poolMatches.find(m => !m.completed && (m.team1?.includes(s.player.id) || m.team2?.includes(s.player.id)));
-              if (activeMatch) {
-                active = true;
-                desc = 'In Progress';
-                if (activeMatch.round === 'final') rank = 1;
-                else if (activeMatch.round === 'third_place') rank = 3;
-                else rank = 1;
-              }
-
-              poolResults.push({
-                pid: s.player.id,
-                rank,
-                desc,
-                active,
-                swissRank: s.rank
-              });
-            }
-          });
+        get().submitBracketScore(matchId, score1, score2, twenties1, twenties2, playerTwenties);
+      },
 
-          // Sort Pool Results
-          poolResults.sort((a, b) => {
-            // Rank 1..N
-            if (a.rank !== b.rank) return a.rank - b.rank;
-            // Tiebreaker: Swiss Rank
-            return a.swissRank - b.swissRank;
-          });
+      completeFinals: () => {
+        set((state) => {
+          if (!state.tournament || state.tournament.status !== 'finals_active') return state;
 
-          // Assign final positions
-          poolResults.forEach((res, idx) => {
-            const pName = swissStandings.find(pl => pl.player.id === res.pid)?.player.name || 'Unknown';
-            standings.push({
-              playerId: res.pid,
-              playerName: pName,
-              finalPosition: poolStartRank + idx,
-              poolName: poolName,
-              bracketResult: res.desc,
-              swissRank: res.swissRank
-            });
+          const completion = Engine.completeStage(state.tournament);
+          return dispatchAction(state.tournament, state.actionLog, {
+            type: 'complete_tournament',
+            status: 'completed',
+            stages: completion?.stages,
           });
-        }
+        });
+      },
 
-        return standings;
+      getFinalStandings: () => {
+        const state = get();
+        if (!state.tournament) return [];
+        return Engine.getFinalStandings(state.tournament);
       },
 
       getBracketMatchesByPool: (poolId) => {
@@ -1285,6 +796,8 @@ export const useTournamentStore = create<ExtendedTournamentState>()(
         savedTournaments: state.savedTournaments,
         // Don't persist online tournament state - it comes from the server
         tournament: state.onlineMode ? null : state.tournament,
+        actionLog: state.onlineMode ? null : state.actionLog,
+        roundTimer: state.onlineMode ? null : state.roundTimer,
         isHost: state.onlineMode ? true : state.isHost,
       }),
     }
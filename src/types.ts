@@ -11,15 +11,103 @@ export interface Player {
   twenties: number;
   byeCount: number;
   active: boolean;
+  checkedIn?: boolean;          // Present at check-in (only used when check-in is enabled)
+  joinedRound?: number;         // Late entry: first round the player was available for
+  withdrawnAfterRound?: number; // Withdrawn: last round played before leaving (results are kept)
+  registryId?: string;          // Club player registry identity, shared across tournaments
+  seed?: number | null;         // Manual seed for Round 1 seeding (1 = strongest, null = cleared)
+  rating?: number;              // Club rating loaded for Round 1 seeding
 }
 
 export type MatchType = 'doubles' | '1v1' | '2v1' | 'bye';
+
+// doubles: two players a side • singles: every match is 1v1 and every player is their own team
+export type TournamentFormat = 'doubles' | 'singles';
+
+// How Round 1 is paired, using manual seeds then club ratings to order the field
+// random: blind shuffle • balanced: strong players partner weaker ones and top seeds are kept apart
+// accelerated: the top and bottom halves of the field play within their own half
+export type RoundOneSeeding = 'random' | 'balanced' | 'accelerated';
+
+// Player IDs for one side: a doubles pair, or a single player in singles
+export type BracketTeam = [string, string] | [string];
+
+// rotating: new partners every round (Swiss pairs players) • fixed: registered teams play together all event
+export type PartnerMode = 'rotating' | 'fixed';
+
+// A registered team in fixed-partner mode
+export interface FixedTeam {
+  id: string;
+  name: string;
+  playerIds: [string, string];
+}
+// totals: enter each team's match points and 20s • games: enter every game's board points and 20s
+export type ScoreEntryMode = 'totals' | 'games';
+
+// One game of a match in game-by-game score entry
+export interface GameScore {
+  points1: number;                  // Raw board points scored by team1
+  points2: number;                  // Raw board points scored by team2
+  twenties: Record<string, number>; // 20s made in this game, by player ID
+}
+
 export type ByeGameMode = 'byes_only' | '1v1_2v1' | '1v1_1v1bye';
 
+// What a bye is worth
+// tie: half the match points each way • win: every match point • average: the player's own
+// average points from the matches they played up to the bye's round • fixed: fixedPoints for, the rest against
+export type ByeValue = 'tie' | 'win' | 'average' | 'fixed';
+
+// How a bye game (1v1 or 2v1) counts for a player
+// full: like any other match • bye: the result is set aside and the player is credited a bye
+export type ByeGameCounting = 'full' | 'bye';
+
+export interface ByeScoring {
+  value: ByeValue;
+  fixedPoints?: number;           // Points for a 'fixed' bye (default: half of pointsPerMatch)
+  oneVsOne: ByeGameCounting;      // Both players in a 1v1 bye game
+  twoVsOnePair: ByeGameCounting;  // The pair in a 2v1 bye game
+  twoVsOneSolo: ByeGameCounting;  // The solo player in a 2v1 bye game
+  soloWeight?: number;            // 2v1 counted in full: scales the solo player's points for and against (default 1)
+}
+
+// Standings points per match result and what counts as a complete match score
+export interface PointSystem {
+  win: number;
+  tie: number;
+  loss: number;
+  allowPartial: boolean;  // Match scores may total less than pointsPerMatch (e.g. a match called on time)
+  bestOf?: number;        // Matches are best of N games: scores are games won, first to a majority takes it
+}
+
+// How late entrants are credited for the rounds they missed
+// zero_record: start from 0-0-0 • byes: each missed round counts as a bye
+export type LateEntryScoring = 'zero_record' | 'byes';
+
+// Standings tiebreakers, applied in order after Score
+export type Tiebreaker =
+  | 'points_for'
+  | 'points_against'
+  | 'point_differential'
+  | 'buchholz'
+  | 'median_buchholz'
+  | 'head_to_head'
+  | 'twenties'
+  | 'sonneborn_berger'
+  | 'coin_flip';
+
+// Penalties used by the Swiss pairing solver (lower total cost = better round)
+export interface PairingWeights {
+  repeatPartner: number;       // Per previous partnership between teammates
+  repeatOpponent: number;      // Per previous meeting between opposing players
+  scoreGroupDistance: number;  // Per point of Score difference between paired players/teams
+  byeGameRepeat: number;       // Per previous 1v1/2v1 game for a bye game player
+}
+
 export interface Match {
   id: string;
   round: number;
-  team1: [string, string] | [string]; // Player IDs - single player for bye or 1v1
+  team1: [string, string] | [string]; // Player IDs - single player for bye or 1v1 (shoots first in singles)
   team2: [string, string] | [string] | null; // null for bye, single for 1v1, pair for doubles/2v1
   score1: number | null;
   score2: number | null;
@@ -29,6 +117,28 @@ export interface Match {
   completed: boolean;
   isBye: boolean;
   matchType?: MatchType; // Type of match - optional for backwards compatibility
+  scoreStatus?: ScoreStatus;    // Set when players report scores with confirmation required
+  scoreReports?: ScoreReport[]; // Latest report from each team
+  needsAdjudication?: boolean;  // Still unfinished when the round clock ran out - the host decides the result
+  games?: GameScore[];          // Game-by-game detail the match points were converted from (settings.scoreEntry)
+  playerTwenties?: Record<string, number>; // 20s by player ID when entered per player (twenties1/twenties2 are the team sums)
+}
+
+// Dual-confirmation score reporting (settings.scoreConfirmation)
+// pending: one team reported, waiting for the other; confirmed: both teams agreed;
+// disputed: the teams reported different scores and the host must decide
+export type ScoreStatus = 'pending' | 'confirmed' | 'disputed';
+
+export interface ScoreReport {
+  side: 1 | 2;         // Team that reported
+  playerId: string;
+  score1: number;
+  score2: number;
+  twenties1: number;
+  twenties2: number;
+  games?: GameScore[];
+  playerTwenties?: Record<string, number>;
+  reportedAt: number;
 }
 
 export interface Table {
@@ -40,36 +150,124 @@ export interface Table {
 export interface TournamentSettings {
   tableAssignment: boolean;
   playerScoreEntry: boolean;
-  pointsPerMatch: number;
+  pointsPerMatch: number; // Match points split between the two sides (ignored for best-of-N)
+  pointSystem?: PointSystem; // Default: DEFAULT_POINT_SYSTEM (Win=2, Tie=1, Loss=0, full results only)
   poolSize: number;
   finalsEnabled: boolean;
   byeGameMode: ByeGameMode;
+  byeScoring?: ByeScoring; // Default: DEFAULT_BYE_SCORING (byes are ties, bye games count in full)
+  scoreEntry?: ScoreEntryMode; // Default: totals
+  individualTwenties?: boolean; // Doubles: record each player's 20s instead of one total per team
+  format?: TournamentFormat; // Default: doubles
+  partnerMode?: PartnerMode; // Default: rotating
   allowViewerScoreEntry: boolean; // Whether non-host viewers can enter scores (default: false, host-only)
+  tiebreakers?: Tiebreaker[]; // Tiebreak order after Score (default: PF → PA → 20s)
+  pairingWeights?: PairingWeights; // Swiss pairing penalties (default: DEFAULT_PAIRING_WEIGHTS)
+  roundOneSeeding?: RoundOneSeeding; // Default: random
+  checkInEnabled?: boolean; // Players must be checked in to be paired in Round 1
+  lateEntryScoring?: LateEntryScoring; // Default: zero_record
+  scoreConfirmation?: boolean; // Player-reported scores wait for the opposing team to confirm (online only)
+  roundTimeMinutes?: number; // Length of the round clock (default: 30)
+  timerWarningMinutes?: number; // Highlight the clock when this many minutes remain (default: 5, 0 = off)
+  adjudicateOnTimeout?: boolean; // Flag unfinished matches for the host when the clock runs out
+  stages?: StageDefinition[]; // Custom stage pipeline (default: Swiss, then a bracket when finalsEnabled)
 }
 
-export type TournamentStatus = 'setup' | 'active' | 'finals_setup' | 'finals_active' | 'completed';
+// Host-controlled countdown for the current Swiss round
+// Kept outside Tournament (in the live room online, in the store locally) so ticking
+// the clock never touches the action log. Times are server time in online mode.
+export interface RoundTimer {
+  round: number;
+  durationMs: number;        // Full length including extensions
+  remainingMs: number;       // Time left as of startedAt (or now, while paused)
+  startedAt: number | null;  // When the clock was last started, null while paused
+  expired: boolean;          // The clock reached zero (end-of-round handling has run)
+}
 
-// Finals/Bracket mode types
-export type BracketType = 'none' | 'final' | 'semifinals' | 'quarterfinals';
+// active: Swiss rounds • stage_active: a round-robin stage • finals_setup/finals_active: bracket stage
+export type TournamentStatus = 'setup' | 'active' | 'stage_active' | 'finals_setup' | 'finals_active' | 'completed';
 
-export type BracketRound = 'quarterfinal' | 'semifinal' | 'final' | 'third_place';
+// Multi-stage formats
+// An event is a pipeline of stages, e.g. Swiss → round-robin pools → bracket.
+// The Swiss stage plays tournament.matches and the bracket stage plays bracketMatches;
+// round-robin stages keep their own matches.
+export type StageType = 'swiss' | 'round_robin' | 'bracket';
+
+export interface StageDefinition {
+  id: string;
+  type: StageType;
+  name: string;
+  advanceCount: number | null;  // Players who move on to the next stage (null = everyone still active)
+  advancePerPool?: boolean;     // Round robin: advanceCount is taken from each pool
+  poolCount?: number;           // Round robin: number of pools (default: 1)
+}
+
+export interface StagePool {
+  id: string;
+  name: string;                 // "Pool A", "Pool B", etc.
+  teams: BracketTeam[];         // Fixed teams for the stage
+}
+
+// A stage that has started (tournament.stages, in pipeline order)
+export interface TournamentStage {
+  id: string;                   // Matches its StageDefinition
+  type: StageType;
+  name: string;
+  status: 'active' | 'completed';
+  entrants: string[];           // Player IDs in seed order when the stage started
+  pools?: StagePool[];          // Round robin
+  matches?: Match[];            // Round robin games (round = the stage's own round number)
+}
+
+// Finals/Bracket mode types
+// custom: any number of teams (teamCount), top seeds get first-round byes
+export type BracketType = 'none' | 'final' | 'semifinals' | 'quarterfinals' | 'round_of_16' | 'custom';
+
+// Single elimination (default) or double elimination with a losers bracket and grand final
+export type EliminationType = 'single' | 'double';
+
+// What early losers play in a single-elimination bracket
+// consolation: first-round losers play a knockout for the consolation title
+// placement: quarterfinal losers play off for 5th–8th
+export type ConsolationType = 'none' | 'consolation' | 'placement';
+
+export type BracketRound =
+  | 'round_of_32'
+  | 'round_of_16'
+  | 'quarterfinal'
+  | 'semifinal'
+  | 'final'
+  | 'third_place'
+  | 'winners_final'               // Double elimination: final of the winners bracket
+  | `losers_round_${number}`
+  | 'losers_final'
+  | 'grand_final'                 // Winners bracket champion (team1) vs losers bracket champion (team2)
+  | 'grand_final_reset'           // Only played if the losers bracket champion wins the grand final
+  | 'placement_semifinal'
+  | 'fifth_place'
+  | 'seventh_place'
+  | `consolation_round_${number}`
+  | 'consolation_final';
 
 export interface BracketMatch {
   id: string;
   poolId: string;              // Which pool this bracket belongs to
   round: BracketRound;
   matchNumber: number;         // Position in bracket (1, 2, 3, 4...)
-  team1: [string, string] | null;  // Player IDs, null if TBD
-  team2: [string, string] | null;
+  team1: BracketTeam | null;  // Player IDs, null if TBD
+  team2: BracketTeam | null;
   score1: number | null;
   score2: number | null;
   twenties1: number;
   twenties2: number;
+  playerTwenties?: Record<string, number>; // 20s by player ID when entered per player
   completed: boolean;
   winnerId: string | null;     // Team key (sorted player IDs joined with '-')
   nextMatchId: string | null;  // Where winner advances
+  loserNextMatchId?: string | null; // Where the loser goes (losers bracket, third place, placement, consolation)
   sourceMatch1Id: string | null; // Where team1 comes from
   sourceMatch2Id: string | null; // Where team2 comes from
+  skipped?: boolean;           // Grand final reset that wasn't needed
 }
 
 export interface PoolBracketConfig {
@@ -78,6 +276,10 @@ export interface PoolBracketConfig {
   bracketType: BracketType;
   playerIds: string[];         // Players in this pool (from Swiss)
   includeThirdPlace: boolean;  // Whether to include 3rd place match for this pool
+  teamCount?: number;          // Custom bracket size (2-32 teams)
+  elimination?: EliminationType; // Default: single
+  grandFinalReset?: boolean;   // Double elimination: replay the grand final if the losers bracket champion wins it
+  consolation?: ConsolationType; // Single elimination with quarterfinals (default: none)
   seedingPairs?: [number, number][]; // Custom seeding by rank (deprecated in favor of manualTeams)
   manualTeams?: [string, string][]; // Custom teams defined by player IDs
 }
@@ -104,14 +306,122 @@ export interface Tournament {
   pairingLogs?: RoundLog[]; // Optional for backwards compatibility
   finalsConfig?: FinalsConfig; // Finals bracket configuration
   bracketMatches: BracketMatch[]; // Bracket playoff matches
+  stages?: TournamentStage[]; // Stages started so far (optional for backwards compatibility)
+  teams?: FixedTeam[]; // Registered teams (fixed-partner mode)
+}
+
+// Player join tokens as seen by the host (online mode only, never part of Tournament)
+export interface PlayerClaimInfo {
+  playerId: string;
+  token: string;
+  issuedAt: number;
+  deviceLabel: string | null;  // null until a device has used the token
+  claimedAt: number | null;
+  connected: boolean;          // Claiming device is currently connected
+}
+
+// What a co-director may do (the host can always do everything)
+// scores: enter/edit any score, roster: players and tables, rounds: start/pair/complete rounds,
+// finals: configure and generate brackets
+export type DirectorPermission = 'scores' | 'roster' | 'rounds' | 'finals';
+
+export interface CoDirectorInfo {
+  id: string;
+  name: string;
+  secret: string;              // Shared with the co-director as a join link
+  permissions: DirectorPermission[];
+  createdAt: number;
+  connected: boolean;
+}
+
+// Host credentials and co-directors (sent to the host only)
+export interface HostAccessInfo {
+  hostSecret: string;          // Kept in the host's browser; exported as the recovery code
+  handoffCode: string | null;  // One-time code that moves host rights to another device
+  coDirectors: CoDirectorInfo[];
+}
+
+// Action log (event sourcing) types
+// Every mutation is recorded as an action so the tournament can be rebuilt by replay
+export interface ActionActor {
+  name: string;
+  socketId: string | null;    // null in local mode
+}
+
+export type TournamentAction =
+  | { type: 'add_player'; player: Player }
+  | { type: 'remove_player'; playerId: string }
+  | { type: 'add_team'; team: FixedTeam; players: Player[] }
+  | { type: 'remove_team'; teamId: string }
+  | { type: 'update_player'; playerId: string; updates: Partial<Player> }
+  | { type: 'withdraw_player'; playerId: string; afterRound: number }
+  | { type: 'reinstate_player'; playerId: string; joinedRound?: number }
+  | { type: 'add_table'; table: Table }
+  | { type: 'remove_table'; tableId: string }
+  | { type: 'update_table'; tableId: string; name: string }
+  | { type: 'reorder_tables'; tables: Table[] }
+  | { type: 'update_settings'; settings: Partial<TournamentSettings> }
+  | { type: 'update_tournament_name'; name: string }
+  | { type: 'update_total_rounds'; rounds: number }
+  | { type: 'start_tournament'; matches: Match[]; pairingLogs?: RoundLog[]; players?: Player[]; stages?: TournamentStage[] }
+  | { type: 'generate_next_round'; round: number; matches: Match[]; pairingLogs?: RoundLog[]; players?: Player[] }
+  | { type: 'submit_score'; matchId: string; score1: number; score2: number; twenties1: number; twenties2: number; games?: GameScore[]; playerTwenties?: Record<string, number> }
+  | { type: 'edit_score'; matchId: string; score1: number; score2: number; twenties1: number; twenties2: number; games?: GameScore[]; playerTwenties?: Record<string, number> }
+  | { type: 'report_score'; report: ScoreReport; match: Match }
+  | { type: 'flag_unfinished_matches'; round: number; matchIds: string[] }
+  | { type: 'complete_tournament'; status: TournamentStatus; players?: Player[]; stages?: TournamentStage[] }
+  | { type: 'submit_stage_score'; stageId: string; matchId: string; score1: number; score2: number; twenties1: number; twenties2: number; games?: GameScore[]; playerTwenties?: Record<string, number> }
+  | { type: 'report_stage_score'; stageId: string; report: ScoreReport; match: Match }
+  | { type: 'reset_tournament' }
+  | { type: 'update_finals'; finalsConfig?: FinalsConfig; bracketMatches: BracketMatch[]; status: TournamentStatus }
+  | { type: 'manual_update_tournament'; tournament: Tournament };
+
+export type HistoryAction =
+  | { type: 'undo'; targetId: string }
+  | { type: 'redo'; targetId: string };
+
+export interface ActionLogEntry {
+  id: string;
+  timestamp: number;
+  actor: ActionActor;
+  action: TournamentAction | HistoryAction;
+}
+
+// Tournament state with every action before entries[index] applied, so a long
+// log doesn't replay from the start. Undo never reaches back past it.
+export interface ActionLogCheckpoint {
+  index: number;
+  tournament: Tournament;
+}
+
+export interface ActionLog {
+  base: Tournament;           // Tournament state before the first logged action
+  entries: ActionLogEntry[];  // Append-only - undo/redo are entries too
+  checkpoint?: ActionLogCheckpoint;
+}
+
+// Summary of recent actions for the director's undo/redo controls
+export interface ActionHistoryItem {
+  id: string;
+  type: TournamentAction['type'];
+  description: string;
+  actorName: string;
+  timestamp: number;
+  undone: boolean;
+}
+
+export interface ActionHistory {
+  items: ActionHistoryItem[];
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 // Helper types for pairing algorithm
 export interface PlayerStanding {
   player: Player;
   rank: number;
-  score: number; // Challonge-style: Win=2, Tie=1, Loss=0, Bye=2 (same as win)
-  buchholz: number; // Tiebreaker score
+  score: number; // By settings.pointSystem (default Win=2, Tie=1, Loss=0)
+  buchholz: number; // Sum of opponents' scores
 }
 
 export interface TeamPairing {
@@ -170,10 +480,19 @@ export interface RoundLog {
   entries: PairingLogEntry[];
   standingsSnapshot: PlayerSnapshot[];
   finalPairings: MatchPairingLog[];
+  totalCost?: number; // Pairing solver cost for the round (Round 2+)
+  costBreakdown?: PairingCostBreakdown;
+  seeding?: RoundOneSeeding; // How the field was seeded (Round 1)
+}
+
+export interface PairingCostBreakdown {
+  teamFormation: number;
+  matchups: number;
+  byeGames: number;
 }
 
 // View modes
-export type ViewMode = 'setup' | 'schedule' | 'rounds' | 'standings' | 'history' | 'analysis' | 'admin' | 'bracket' | 'finals' | 'finals_config';
+export type ViewMode = 'setup' | 'schedule' | 'rounds' | 'standings' | 'history' | 'analysis' | 'admin' | 'bracket' | 'finals' | 'finals_config' | 'stages';
 
 // Final standings (combining Swiss and bracket results)
 export interface FinalStanding {
@@ -198,6 +517,102 @@ export interface SavedTournamentSummary {
   winner?: string; // Name of winner if completed
 }
 
+// A club-level player identity that carries across tournaments
+export interface RegisteredPlayer {
+  id: string;
+  name: string;
+  aliases: string[];   // Other names they've played under (matched when linking archives)
+  mergedInto?: string; // Duplicate record folded into another player
+  createdAt: number;
+  updatedAt: number;
+}
+
+// An archived tournament a registered player took part in
+export interface RegisteredPlayerResult {
+  code: string;
+  tournamentName: string;
+  archivedAt: number;
+  playerName: string; // Name used in that tournament
+}
+
+// Club rating (Elo) for a registered player, computed from archived tournaments
+export interface ClubRating {
+  registryId: string;
+  rating: number;
+  peak: number;
+  games: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  tournaments: number;
+  lastPlayedAt: number;  // When the last tournament they played was archived
+}
+
+// A club rating with the player's registry name (as served by /api/ratings)
+export interface ClubRatingEntry extends ClubRating {
+  name: string;
+}
+
+// A player's rating before and after one archived tournament
+export interface RatingHistoryEntry {
+  registryId: string;
+  code: string;
+  tournamentName: string;
+  archivedAt: number;
+  ratingBefore: number;
+  ratingAfter: number;
+  games: number;
+}
+
+// Public archive as listed by the archive browser (GET /api/tournaments)
+export interface ArchiveSummary {
+  code: string;
+  name: string;
+  archivedAt: number;
+  expiresAt: number;
+  playerCount: number;
+  status: string;
+}
+
+// Season / league series: archived tournaments whose finishes add up to a season table
+export interface SeasonRules {
+  pointsTable: number[];        // League points by finishing position (index 0 = 1st place)
+  participationPoints: number;  // For playing but finishing below the points table
+  dropWorst: number;            // Each player's lowest N event scores don't count (missed events score 0)
+}
+
+export interface Season extends SeasonRules {
+  id: string;
+  name: string;
+  events: SeasonEvent[];        // Archived tournaments in the season, oldest first
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One season event as listed with the season
+export interface SeasonEvent {
+  code: string;
+  tournamentName: string;
+  archivedAt: number;
+}
+
+// A player's result at one season event
+export interface SeasonEventResult extends SeasonEvent {
+  position: number | null;      // Finishing position, null if they didn't play
+  points: number;
+  dropped: boolean;             // Left out of the total by the drop-worst rule
+}
+
+export interface SeasonStanding {
+  registryId: string;
+  name: string;
+  rank: number;
+  total: number;                // League points after drops
+  played: number;               // Events entered
+  wins: number;                 // Events won
+  results: SeasonEventResult[]; // One per season event, in event order
+}
+
 // Store state
 export interface TournamentState {
   tournament: Tournament | null;
@@ -206,6 +621,8 @@ export interface TournamentState {
   isHost: boolean;
   connectedPlayerId: string | null;
   onlineMode: boolean;
+  actionLog: ActionLog | null; // Local mode action log (online mode keeps it on the server)
+  roundTimer: RoundTimer | null; // Local mode round clock (online mode keeps it on the server)
 
   // Actions
   createTournament: (name: string, totalRounds: number) => void;
@@ -213,9 +630,13 @@ export interface TournamentState {
   updateTotalRounds: (rounds: number) => void;
   updateSettings: (settings: Partial<TournamentSettings>) => void;
 
-  addPlayer: (name: string) => void;
+  addPlayer: (name: string, registryId?: string) => void;
   removePlayer: (playerId: string) => void;
+  addTeam: (player1Name: string, player2Name: string, teamName?: string) => void;
+  removeTeam: (teamId: string) => void;
   updatePlayer: (playerId: string, updates: Partial<Player>) => void;
+  withdrawPlayer: (playerId: string) => void;
+  reinstatePlayer: (playerId: string) => void;
 
   addTable: (name: string) => void;
   removeTable: (tableId: string) => void;
@@ -224,12 +645,27 @@ export interface TournamentState {
 
   startTournament: () => void;
   generateNextRound: () => void;
-  submitScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number) => void;
-  editScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number) => void;
+  submitScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => void;
+  editScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => void;
 
   completeTournament: () => void;
   resetTournament: () => void;
 
+  // Round-robin stages
+  submitStageScore: (stageId: string, matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, games?: GameScore[], playerTwenties?: Record<string, number>) => void;
+  completeStage: () => void;
+
+  // Round clock
+  startRoundTimer: () => void;
+  pauseRoundTimer: () => void;
+  extendRoundTimer: (minutes: number) => void;
+  resetRoundTimer: (minutes?: number) => void;
+  expireRoundTimer: () => void;
+
+  // Undo/redo (replays the action log)
+  undoAction: () => void;
+  redoAction: () => void;
+
   // Tournament history
   saveTournament: () => void;
   loadTournament: (tournamentId: string) => void;
@@ -254,8 +690,9 @@ export interface TournamentState {
   configureFinalsMode: (poolConfigs: PoolBracketConfig[]) => void;
   generateBrackets: () => void;
   generateFinals: (poolConfigs: PoolBracketConfig[]) => void; // Combined action
-  submitBracketScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number) => void;
-  editBracketScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number) => void;
+  submitBracketScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, playerTwenties?: Record<string, number>) => void;
+  editBracketScore: (matchId: string, score1: number, score2: number, twenties1: number, twenties2: number, playerTwenties?: Record<string, number>) => void;
+  completeFinals: () => void;
   getFinalStandings: () => FinalStanding[];
   getBracketMatchesByPool: (poolId: string) => BracketMatch[];
 }
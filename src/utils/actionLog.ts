@@ -0,0 +1,504 @@
+// Append-only action log for tournaments (event sourcing)
+// Shared by the client store (local mode) and the server room manager (online mode)
+
+import { nanoid } from 'nanoid';
+import type {
+  Tournament,
+  TournamentAction,
+  ActionActor,
+  ActionLog,
+  ActionLogEntry,
+  ActionHistory,
+  ActionHistoryItem,
+} from '../types';
+
+export const ACTION_LOG_CONFIG = {
+  MAX_UNDO_DEPTH: 20,   // How many actions the director can step back
+  CHECKPOINT_AFTER: 100, // Replayed actions before older ones are folded into the checkpoint
+};
+
+// Tournament data is plain JSON, so a JSON round-trip gives a safe deep copy
+function cloneTournament(tournament: Tournament): Tournament {
+  return JSON.parse(JSON.stringify(tournament));
+}
+
+function isHistoryEntry(entry: ActionLogEntry): boolean {
+  return entry.action.type === 'undo' || entry.action.type === 'redo';
+}
+
+/**
+ * Start a new log with the given tournament as the replay base
+ */
+export function createActionLog(base: Tournament): ActionLog {
+  return {
+    base: cloneTournament(base),
+    entries: [],
+  };
+}
+
+/**
+ * Apply a single action to a tournament, returning the new tournament.
+ * Must stay deterministic - anything random (pairings, IDs) is generated
+ * by the caller and carried in the action payload.
+ */
+export function applyAction(tournament: Tournament, action: TournamentAction, timestamp: number): Tournament {
+  switch (action.type) {
+    case 'add_player':
+      return {
+        ...tournament,
+        players: [...tournament.players, { ...action.player }],
+        updatedAt: timestamp,
+      };
+
+    case 'remove_player':
+      return {
+        ...tournament,
+        players: tournament.players.filter((p) => p.id !== action.playerId),
+        updatedAt: timestamp,
+      };
+
+    case 'add_team':
+      return {
+        ...tournament,
+        players: [...tournament.players, ...action.players.map((p) => ({ ...p }))],
+        teams: [...(tournament.teams ?? []), { ...action.team }],
+        updatedAt: timestamp,
+      };
+
+    case 'remove_team': {
+      const team = tournament.teams?.find((t) => t.id === action.teamId);
+      if (!team) return tournament;
+      return {
+        ...tournament,
+        players: tournament.players.filter((p) => !team.playerIds.includes(p.id)),
+        teams: tournament.teams!.filter((t) => t.id !== action.teamId),
+        updatedAt: timestamp,
+      };
+    }
+
+    case 'update_player':
+      return {
+        ...tournament,
+        players: tournament.players.map((p) =>
+          p.id === action.playerId ? { ...p, ...action.updates } : p
+        ),
+        updatedAt: timestamp,
+      };
+
+    case 'withdraw_player':
+      return {
+        ...tournament,
+        players: tournament.players.map((p) =>
+          p.id === action.playerId ? { ...p, active: false, withdrawnAfterRound: action.afterRound } : p
+        ),
+        updatedAt: timestamp,
+      };
+
+    case 'reinstate_player':
+      return {
+        ...tournament,
+        players: tournament.players.map((p) =>
+          p.id === action.playerId
+            ? { ...p, active: true, withdrawnAfterRound: undefined, joinedRound: action.joinedRound ?? p.joinedRound }
+            : p
+        ),
+        updatedAt: timestamp,
+      };
+
+    case 'add_table':
+      return {
+        ...tournament,
+        tables: [...tournament.tables, { ...action.table }],
+        updatedAt: timestamp,
+      };
+
+    case 'remove_table':
+      return {
+        ...tournament,
+        tables: tournament.tables
+          .filter((t) => t.id !== action.tableId)
+          .map((t, idx) => ({ ...t, order: idx })),
+        updatedAt: timestamp,
+      };
+
+    case 'update_table':
+      return {
+        ...tournament,
+        tables: tournament.tables.map((t) =>
+          t.id === action.tableId ? { ...t, name: action.name } : t
+        ),
+        updatedAt: timestamp,
+      };
+
+    case 'reorder_tables':
+      return {
+        ...tournament,
+        tables: action.tables.map((t, idx) => ({ ...t, order: idx })),
+        updatedAt: timestamp,
+      };
+
+    case 'update_settings':
+      return {
+        ...tournament,
+        settings: { ...tournament.settings, ...action.settings },
+        updatedAt: timestamp,
+      };
+
+    case 'update_tournament_name':
+      return {
+        ...tournament,
+        name: action.name,
+        updatedAt: timestamp,
+      };
+
+    case 'update_total_rounds':
+      return {
+        ...tournament,
+        totalRounds: action.rounds,
+        updatedAt: timestamp,
+      };
+
+    case 'start_tournament':
+      return {
+        ...tournament,
+        status: 'active',
+        currentRound: 1,
+        players: action.players ? action.players.map((p) => ({ ...p })) : tournament.players,
+        matches: action.matches.map((m) => ({ ...m })),
+        pairingLogs: action.pairingLogs ?? tournament.pairingLogs,
+        stages: action.stages ?? tournament.stages,
+        updatedAt: timestamp,
+      };
+
+    case 'generate_next_round':
+      return {
+        ...tournament,
+        players: action.players ? action.players.map((p) => ({ ...p })) : tournament.players,
+        matches: [...tournament.matches, ...action.matches.map((m) => ({ ...m }))],
+        currentRound: action.round,
+        pairingLogs: action.pairingLogs ?? tournament.pairingLogs,
+        updatedAt: timestamp,
+      };
+
+    case 'submit_score':
+    case 'edit_score':
+      return {
+        ...tournament,
+        matches: tournament.matches.map((m) =>
+          m.id === action.matchId
+            ? {
+              ...m,
+              score1: action.score1,
+              score2: action.score2,
+              twenties1: action.twenties1,
+              twenties2: action.twenties2,
+              games: action.games,
+              playerTwenties: action.playerTwenties,
+              completed: true,
+              // A director's score settles any pending or disputed player reports
+              scoreStatus: undefined,
+              scoreReports: undefined,
+              needsAdjudication: undefined,
+            }
+            : m
+        ),
+        updatedAt: timestamp,
+      };
+
+    case 'report_score':
+      return {
+        ...tournament,
+        matches: tournament.matches.map((m) => (m.id === action.match.id ? { ...action.match } : m)),
+        updatedAt: timestamp,
+      };
+
+    case 'flag_unfinished_matches':
+      return {
+        ...tournament,
+        matches: tournament.matches.map((m) =>
+          action.matchIds.includes(m.id) && !m.completed ? { ...m, needsAdjudication: true } : m
+        ),
+        updatedAt: timestamp,
+      };
+
+    case 'complete_tournament':
+      return {
+        ...tournament,
+        players: action.players ? action.players.map((p) => ({ ...p })) : tournament.players,
+        status: action.status,
+        stages: action.stages ?? tournament.stages,
+        updatedAt: timestamp,
+      };
+
+    case 'submit_stage_score':
+      return {
+        ...tournament,
+        stages: tournament.stages?.map((stage) =>
+          stage.id === action.stageId
+            ? {
+              ...stage,
+              matches: stage.matches?.map((m) =>
+                m.id === action.matchId
+                  ? {
+                    ...m,
+                    score1: action.score1,
+                    score2: action.score2,
+                    twenties1: action.twenties1,
+                    twenties2: action.twenties2,
+                    games: action.games,
+                    playerTwenties: action.playerTwenties,
+                    completed: true,
+                    // A director's score settles any pending or disputed player reports
+                    scoreStatus: undefined,
+                    scoreReports: undefined,
+                  }
+                  : m
+              ),
+            }
+            : stage
+        ),
+        updatedAt: timestamp,
+      };
+
+    case 'report_stage_score':
+      return {
+        ...tournament,
+        stages: tournament.stages?.map((stage) =>
+          stage.id === action.stageId
+            ? { ...stage, matches: stage.matches?.map((m) => (m.id === action.match.id ? { ...action.match } : m)) }
+            : stage
+        ),
+        updatedAt: timestamp,
+      };
+
+    case 'reset_tournament':
+      return {
+        ...tournament,
+        matches: [],
+        currentRound: 0,
+        status: 'setup',
+        stages: undefined,
+        players: tournament.players.map((p) => ({
+          ...p,
+          wins: 0,
+          losses: 0,
+          ties: 0,
+          pointsFor: 0,
+          pointsAgainst: 0,
+          twenties: 0,
+          byeCount: 0,
+        })),
+        updatedAt: timestamp,
+      };
+
+    case 'update_finals':
+      return {
+        ...tournament,
+        finalsConfig: action.finalsConfig ?? tournament.finalsConfig,
+        bracketMatches: action.bracketMatches.map((m) => ({ ...m })),
+        status: action.status,
+        updatedAt: timestamp,
+      };
+
+    case 'manual_update_tournament':
+      // Preserve the room code and id (same as the server's manual update)
+      return {
+        ...cloneTournament(action.tournament),
+        id: tournament.id,
+        shareCode: tournament.shareCode,
+        updatedAt: timestamp,
+      };
+  }
+}
+
+/**
+ * Walk the log and work out which actions are currently in effect.
+ * Undo moves the latest applied action onto the redo stack, redo moves it back,
+ * and any new action clears the redo stack.
+ */
+function resolveEntries(log: ActionLog): { applied: ActionLogEntry[]; redoStack: ActionLogEntry[] } {
+  const applied: ActionLogEntry[] = [];
+  const redoStack: ActionLogEntry[] = [];
+
+  for (const entry of log.entries) {
+    if (entry.action.type === 'undo') {
+      const undone = applied.pop();
+      if (undone) redoStack.push(undone);
+    } else if (entry.action.type === 'redo') {
+      const redone = redoStack.pop();
+      if (redone) applied.push(redone);
+    } else {
+      applied.push(entry);
+      redoStack.length = 0;
+    }
+  }
+
+  return { applied, redoStack };
+}
+
+// Actions in effect that come after the checkpoint (all of them without one)
+function getReplayedEntries(log: ActionLog, applied: ActionLogEntry[]): ActionLogEntry[] {
+  if (!log.checkpoint) return applied;
+  const after = new Set(log.entries.slice(log.checkpoint.index).map((e) => e.id));
+  return applied.filter((entry) => after.has(entry.id));
+}
+
+function replayEntries(start: Tournament, entries: ActionLogEntry[]): Tournament {
+  return entries.reduce(
+    (tournament, entry) => applyAction(tournament, entry.action as TournamentAction, entry.timestamp),
+    cloneTournament(start)
+  );
+}
+
+/**
+ * Rebuild the tournament by replaying every action still in effect over the
+ * checkpoint, or over the base if there isn't one yet
+ */
+export function replayActionLog(log: ActionLog): Tournament {
+  const { applied } = resolveEntries(log);
+  return replayEntries(log.checkpoint?.tournament ?? log.base, getReplayedEntries(log, applied));
+}
+
+/**
+ * Append an action to the log. Once many actions would be replayed, those
+ * older than the undo window are folded into a new checkpoint; the entries
+ * themselves are all kept.
+ */
+export function recordAction(log: ActionLog, action: TournamentAction, actor: ActionActor, timestamp: number = Date.now()): ActionLog {
+  const recorded: ActionLog = {
+    ...log,
+    entries: [...log.entries, { id: nanoid(10), timestamp, actor, action }],
+  };
+
+  // A new action empties the redo stack, so nothing before the window can come back
+  const replayed = getReplayedEntries(recorded, resolveEntries(recorded).applied);
+  if (replayed.length <= ACTION_LOG_CONFIG.CHECKPOINT_AFTER) return recorded;
+
+  const folded = replayed.slice(0, -ACTION_LOG_CONFIG.MAX_UNDO_DEPTH);
+  const kept = replayed[folded.length];
+  return {
+    ...recorded,
+    checkpoint: {
+      index: recorded.entries.indexOf(kept),
+      tournament: replayEntries(recorded.checkpoint?.tournament ?? recorded.base, folded),
+    },
+  };
+}
+
+// Undo steps back at most MAX_UNDO_DEPTH actions, and never past the checkpoint
+function canUndoEntries(log: ActionLog, applied: ActionLogEntry[], redoStack: ActionLogEntry[]): boolean {
+  const target = applied[applied.length - 1];
+  if (!target || redoStack.length >= ACTION_LOG_CONFIG.MAX_UNDO_DEPTH) return false;
+  return !log.checkpoint || log.entries.indexOf(target) >= log.checkpoint.index;
+}
+
+export function canUndo(log: ActionLog): boolean {
+  const { applied, redoStack } = resolveEntries(log);
+  return canUndoEntries(log, applied, redoStack);
+}
+
+export function canRedo(log: ActionLog): boolean {
+  return resolveEntries(log).redoStack.length > 0;
+}
+
+/**
+ * Undo the most recent action still in effect. Returns null if there is nothing to undo.
+ */
+export function undoLastAction(log: ActionLog, actor: ActionActor): ActionLog | null {
+  if (!canUndo(log)) return null;
+  const { applied } = resolveEntries(log);
+  const target = applied[applied.length - 1];
+  return {
+    ...log,
+    entries: [...log.entries, { id: nanoid(10), timestamp: Date.now(), actor, action: { type: 'undo', targetId: target.id } }],
+  };
+}
+
+/**
+ * Redo the most recently undone action. Returns null if there is nothing to redo.
+ */
+export function redoLastAction(log: ActionLog, actor: ActionActor): ActionLog | null {
+  const { redoStack } = resolveEntries(log);
+  const target = redoStack[redoStack.length - 1];
+  if (!target) return null;
+  return {
+    ...log,
+    entries: [...log.entries, { id: nanoid(10), timestamp: Date.now(), actor, action: { type: 'redo', targetId: target.id } }],
+  };
+}
+
+/**
+ * Human-readable description of an action for the history list
+ */
+export function describeAction(action: TournamentAction): string {
+  switch (action.type) {
+    case 'add_player': return `Added player ${action.player.name}`;
+    case 'remove_player': return 'Removed a player';
+    case 'add_team': return `Added team ${action.team.name}`;
+    case 'remove_team': return 'Removed a team';
+    case 'update_player': return 'Updated a player';
+    case 'withdraw_player': return `Withdrew a player after Round ${action.afterRound}`;
+    case 'reinstate_player': return action.joinedRound ? `Reinstated a player from Round ${action.joinedRound}` : 'Reinstated a player';
+    case 'add_table': return `Added table ${action.table.name}`;
+    case 'remove_table': return 'Removed a table';
+    case 'update_table': return `Renamed table to ${action.name}`;
+    case 'reorder_tables': return 'Reordered tables';
+    case 'update_settings': return 'Changed settings';
+    case 'update_tournament_name': return `Renamed tournament to ${action.name}`;
+    case 'update_total_rounds': return `Set total rounds to ${action.rounds}`;
+    case 'start_tournament': return 'Started tournament (Round 1)';
+    case 'generate_next_round': return `Generated Round ${action.round}`;
+    case 'submit_score': return `Submitted score ${action.score1}-${action.score2}`;
+    case 'edit_score': return `Edited score to ${action.score1}-${action.score2}`;
+    case 'report_score':
+      if (action.match.scoreStatus === 'confirmed') return `Confirmed score ${action.report.score1}-${action.report.score2}`;
+      if (action.match.scoreStatus === 'disputed') return `Disputed score (reported ${action.report.score1}-${action.report.score2})`;
+      return `Reported score ${action.report.score1}-${action.report.score2} (awaiting confirmation)`;
+    case 'flag_unfinished_matches':
+      return `Time called in round ${action.round}: ${action.matchIds.length} unfinished match${action.matchIds.length === 1 ? '' : 'es'} flagged`;
+    case 'complete_tournament':
+      if (action.status === 'finals_setup' || action.status === 'stage_active') {
+        const started = action.stages?.[action.stages.length - 1];
+        return started ? `Started ${started.name}` : 'Completed Swiss rounds';
+      }
+      return 'Completed tournament';
+    case 'submit_stage_score': return `Submitted stage score ${action.score1}-${action.score2}`;
+    case 'report_stage_score':
+      if (action.match.scoreStatus === 'confirmed') return `Confirmed stage score ${action.report.score1}-${action.report.score2}`;
+      if (action.match.scoreStatus === 'disputed') return `Disputed stage score (reported ${action.report.score1}-${action.report.score2})`;
+      return `Reported stage score ${action.report.score1}-${action.report.score2} (awaiting confirmation)`;
+    case 'reset_tournament': return 'Reset tournament';
+    case 'update_finals': return 'Updated finals brackets';
+    case 'manual_update_tournament': return 'Manual tournament update';
+  }
+}
+
+/**
+ * Summarize the most recent actions for the undo/redo controls
+ */
+export function getActionHistory(log: ActionLog, limit: number = ACTION_LOG_CONFIG.MAX_UNDO_DEPTH): ActionHistory {
+  const { applied, redoStack } = resolveEntries(log);
+  const appliedIds = new Set(applied.map((e) => e.id));
+
+  const items: ActionHistoryItem[] = log.entries
+    .filter((entry) => !isHistoryEntry(entry))
+    .slice(-limit)
+    .reverse()
+    .map((entry) => {
+      const action = entry.action as TournamentAction;
+      return {
+        id: entry.id,
+        type: action.type,
+        description: describeAction(action),
+        actorName: entry.actor.name,
+        timestamp: entry.timestamp,
+        undone: !appliedIds.has(entry.id),
+      };
+    });
+
+  return {
+    items,
+    canUndo: canUndoEntries(log, applied, redoStack),
+    canRedo: redoStack.length > 0,
+  };
+}
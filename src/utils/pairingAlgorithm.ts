@@ -1,10 +1,46 @@
 import { nanoid } from 'nanoid';
-import type { Player, Match, Table, PartnerHistory, MatchHistory } from '../types';
-import { addRoundLog, type RoundLog, type PairingLogEntry, type PlayerSnapshot, type MatchPairingLog } from './pairingLog.js';
+import type {
+  Player,
+  Match,
+  Table,
+  PairingWeights,
+  LateEntryScoring,
+  FixedTeam,
+  TournamentFormat,
+  TournamentSettings,
+  RoundOneSeeding,
+} from '../types';
+import {
+  addRoundLog,
+  type RoundLog,
+  type PairingLogEntry,
+  type PlayerSnapshot,
+  type MatchPairingLog,
+  type PairingCostBreakdown,
+} from './pairingLog.js';
+import { minCostPerfectMatching } from './weightedMatching.js';
+import { calculatePlayerStats, compareByStandings, getPlayerScore } from '../engine/stats.js';
+import { getByePoints, type ByeSettings } from '../engine/byes.js';
+import {
+  getRoundOneSeeding,
+  getSeedOrder,
+  splitAcceleratedGroups,
+  describeRoundOneSeeding,
+} from '../engine/seeding.js';
+
+// Default Swiss pairing penalties
+// Repeat partners are avoided above all else, then repeat bye games and opponents
+export const DEFAULT_PAIRING_WEIGHTS: PairingWeights = {
+  repeatPartner: 1000,
+  repeatOpponent: 50,
+  scoreGroupDistance: 10,
+  byeGameRepeat: 100,
+};
 
 interface PairingResult {
   matches: Match[];
   byePlayer: Player | null;
+  roundLog: RoundLog | null; // Decision log for this round only
 }
 
 interface TeamPair {
@@ -12,12 +48,26 @@ interface TeamPair {
   player2: Player;
 }
 
+// Settings read while pairing: bye scoring, plus Round 1 seeding
+type PairingSettings = ByeSettings & Partial<Pick<TournamentSettings, 'roundOneSeeding'>>;
+
+// Team matchups for a round
+type TeamMatchup = { team1: TeamPair; team2: TeamPair };
+
+// Standings order used for snapshots, bye selection and Swiss team formation
+type StandingsComparator = (a: Player, b: Player) => number;
+
+// How many times each pair of players has been together, keyed by getTeamKey
+type PairCounts = Map<string, number>;
+
 // Logging state for current round generation
 let currentRoundLog: {
   round: number;
   entries: PairingLogEntry[];
   standingsSnapshot: PlayerSnapshot[];
   finalPairings: MatchPairingLog[];
+  costs: PairingCostBreakdown | null; // Solver costs, Round 2+ only
+  seeding: RoundOneSeeding | null;    // Round 1 only
 } | null = null;
 
 function logEntry(phase: PairingLogEntry['phase'], decision: string, details: string[] = []): void {
@@ -38,8 +88,11 @@ function getPlayerName(player: Player): string {
 
 /**
  * Generate pairings for a round
- * Round 1: Random partners, random matchups
- * Round 2+: Partners based on standings, Swiss matchups
+ * Round 1: Random partners and matchups, or seeded by settings.roundOneSeeding
+ * Round 2+: Partners and matchups from a minimum-cost matching, weighted by pairingWeights
+ * Late entrants (joinedRound) get byes for missed rounds when lateEntryScoring is 'byes'
+ * With fixedTeams, registered teams are paired as units instead (see pairFixedTeams)
+ * In singles format every match is 1v1 (see pairSingles)
  */
 export function generateRoundPairings(
   players: Player[],
@@ -47,9 +100,26 @@ export function generateRoundPairings(
   round: number,
   tables: Table[],
   assignTables: boolean,
-  byeGameMode: 'byes_only' | '1v1_2v1' | '1v1_1v1bye' = 'byes_only'
+  byeGameMode: 'byes_only' | '1v1_2v1' | '1v1_1v1bye' = 'byes_only',
+  compareStandings: StandingsComparator = compareByStandings,
+  weights: PairingWeights = DEFAULT_PAIRING_WEIGHTS,
+  lateEntryScoring: LateEntryScoring = 'zero_record',
+  fixedTeams?: FixedTeam[],
+  format: TournamentFormat = 'doubles',
+  settings?: PairingSettings
 ): PairingResult {
-  const activePlayers = players.filter((p) => p.active);
+  const seeding = getRoundOneSeeding(settings);
+
+  // Late entrants with byes for missed rounds are ranked with those byes included
+  const lateEntryByes = lateEntryScoring === 'byes'
+    ? createLateEntryByes(players, existingMatches, round, settings)
+    : [];
+  const matchesWithLateByes = [...existingMatches, ...lateEntryByes];
+  const lateEntrantIds = new Set(lateEntryByes.map((m) => m.team1[0]));
+
+  const activePlayers = players
+    .filter((p) => p.active)
+    .map((p) => lateEntrantIds.has(p.id) ? { ...p, ...calculatePlayerStats(p.id, matchesWithLateByes, settings) } : p);
   
   // Initialize logging for this round
   currentRoundLog = {
@@ -57,18 +127,15 @@ export function generateRoundPairings(
     entries: [],
     standingsSnapshot: [],
     finalPairings: [],
+    costs: round === 1 ? null : { teamFormation: 0, matchups: 0, byeGames: 0 },
+    seeding: round === 1 ? seeding : null,
   };
   
   // Create standings snapshot for log
-  // Sort by: Score (wins*2 + ties) → PF → PA → 20s
-  const sortedForSnapshot = [...activePlayers].sort((a, b) => {
-    const aScore = a.wins * 2 + a.ties;
-    const bScore = b.wins * 2 + b.ties;
-    if (bScore !== aScore) return bScore - aScore;
-    if (b.pointsFor !== a.pointsFor) return b.pointsFor - a.pointsFor;
-    if (a.pointsAgainst !== b.pointsAgainst) return a.pointsAgainst - b.pointsAgainst; // Lower PA is better
-    return b.twenties - a.twenties;
-  });
+  // Sort by: Score (settings.pointSystem) → tiebreaker chain, or seed order for a seeded Round 1
+  const sortedForSnapshot = round === 1 && seeding !== 'random'
+    ? getSeedOrder(activePlayers)
+    : [...activePlayers].sort(compareStandings);
   
   currentRoundLog.standingsSnapshot = sortedForSnapshot.map((p, idx) => ({
     rank: idx + 1,
@@ -95,12 +162,37 @@ export function generateRoundPairings(
     `Active players: ${activePlayers.length}`,
     `Leftover players: ${leftoverCount}`,
     `Bye game mode: ${byeGameMode}`,
-    round === 1 ? 'Using RANDOM pairing (Round 1)' : 'Using SWISS pairing (Round 2+)',
+    round === 1 ? `Round 1 seeding: ${describeRoundOneSeeding(seeding)}` : 'Using SWISS pairing (Round 2+)',
   ]);
   
+  const lateEntrants = activePlayers.filter((p) => p.joinedRound === round);
+  if (lateEntrants.length > 0) {
+    logEntry('team_formation', `Late entrants joining in Round ${round}`, [
+      ...lateEntrants.map((p) => `${getPlayerName(p)}: ${p.wins}W-${p.losses}L-${p.ties}T`),
+      lateEntryScoring === 'byes'
+        ? `Missed rounds credited as byes (${lateEntryByes.length} total)`
+        : 'Starting from a zero record',
+    ]);
+  }
+
   // Build history from existing matches
-  const partnerHistory = buildPartnerHistory(existingMatches);
-  const matchHistory = buildMatchHistory(existingMatches);
+  const partnerCounts = buildPartnerCounts(matchesWithLateByes);
+  const opponentCounts = buildOpponentCounts(matchesWithLateByes);
+  const byeGameCounts = buildByeGameCounts(matchesWithLateByes);
+
+  if (format === 'singles') {
+    return pairSingles(
+      activePlayers, existingMatches, matchesWithLateByes, lateEntryByes, round,
+      tables, assignTables, compareStandings, opponentCounts, weights, seeding, settings
+    );
+  }
+
+  if (fixedTeams) {
+    return pairFixedTeams(
+      activePlayers, fixedTeams, existingMatches, lateEntryByes, round,
+      tables, assignTables, compareStandings, opponentCounts, weights, seeding, settings
+    );
+  }
 
   // Handle players not divisible by 4
   let playersForRound = [...activePlayers];
@@ -112,11 +204,11 @@ export function generateRoundPairings(
     console.log('DEBUG: Using custom bye game logic');
     if (leftoverCount === 2) {
       // 2 leftover: create 1v1 match
-      const bye1 = selectByePlayer(playersForRound, round);
+      const bye1 = selectByeGamePlayer(playersForRound, round, compareStandings, byeGameCounts, weights);
       byeGamePlayers.push(bye1);
       playersForRound = playersForRound.filter((p) => p.id !== bye1.id);
       
-      const bye2 = selectByePlayer(playersForRound, round);
+      const bye2 = selectByeGamePlayer(playersForRound, round, compareStandings, byeGameCounts, weights);
       byeGamePlayers.push(bye2);
       playersForRound = playersForRound.filter((p) => p.id !== bye2.id);
       
@@ -126,15 +218,15 @@ export function generateRoundPairings(
     } else if (leftoverCount === 3) {
       if (byeGameMode === '1v1_2v1') {
         // 3 leftover: create 2v1 match
-        const bye1 = selectByePlayer(playersForRound, round);
+        const bye1 = selectByeGamePlayer(playersForRound, round, compareStandings, byeGameCounts, weights);
         byeGamePlayers.push(bye1);
         playersForRound = playersForRound.filter((p) => p.id !== bye1.id);
         
-        const bye2 = selectByePlayer(playersForRound, round);
+        const bye2 = selectByeGamePlayer(playersForRound, round, compareStandings, byeGameCounts, weights);
         byeGamePlayers.push(bye2);
         playersForRound = playersForRound.filter((p) => p.id !== bye2.id);
         
-        const bye3 = selectByePlayer(playersForRound, round);
+        const bye3 = selectByeGamePlayer(playersForRound, round, compareStandings, byeGameCounts, weights);
         byeGamePlayers.push(bye3);
         playersForRound = playersForRound.filter((p) => p.id !== bye3.id);
         
@@ -143,15 +235,15 @@ export function generateRoundPairings(
         ]);
       } else {
         // 3 leftover: create 1v1 + 1 bye
-        const bye1 = selectByePlayer(playersForRound, round);
+        const bye1 = selectByeGamePlayer(playersForRound, round, compareStandings, byeGameCounts, weights);
         byeGamePlayers.push(bye1);
         playersForRound = playersForRound.filter((p) => p.id !== bye1.id);
         
-        const bye2 = selectByePlayer(playersForRound, round);
+        const bye2 = selectByeGamePlayer(playersForRound, round, compareStandings, byeGameCounts, weights);
         byeGamePlayers.push(bye2);
         playersForRound = playersForRound.filter((p) => p.id !== bye2.id);
         
-        const bye3 = selectByePlayer(playersForRound, round);
+        const bye3 = selectByePlayer(playersForRound, round, compareStandings);
         byePlayers.push(bye3);
         playersForRound = playersForRound.filter((p) => p.id !== bye3.id);
         
@@ -162,7 +254,7 @@ export function generateRoundPairings(
       }
     } else if (leftoverCount === 1) {
       // Only 1 leftover: regular bye
-      const byePlayer = selectByePlayer(playersForRound, round);
+      const byePlayer = selectByePlayer(playersForRound, round, compareStandings);
       byePlayers.push(byePlayer);
       playersForRound = playersForRound.filter((p) => p.id !== byePlayer.id);
     }
@@ -171,7 +263,7 @@ export function generateRoundPairings(
     // Regular byes mode or leftoverCount === 0
     while (playersForRound.length % 4 !== 0 && playersForRound.length > 0) {
       console.log('DEBUG: Assigning regular bye');
-      const byePlayer = selectByePlayer(playersForRound, round);
+      const byePlayer = selectByePlayer(playersForRound, round, compareStandings);
       byePlayers.push(byePlayer);
       playersForRound = playersForRound.filter((p) => p.id !== byePlayer.id);
     }
@@ -180,11 +272,11 @@ export function generateRoundPairings(
   // Check if we still have enough players for at least one match
   if (playersForRound.length < 4) {
     // Handle edge case: fewer than 4 players remaining
-    const matches: Match[] = [];
+    const matches: Match[] = [...lateEntryByes];
     
     // Add bye matches for all bye players
     byePlayers.forEach((p) => {
-      matches.push(createByeMatch(p, round, existingMatches));
+      matches.push(createByeMatch(p, round, existingMatches, settings));
       currentRoundLog!.finalPairings.push({
         team1: [p.name],
         team2: null,
@@ -195,7 +287,7 @@ export function generateRoundPairings(
     
     // Give remaining players byes too
     playersForRound.forEach((p) => {
-      matches.push(createByeMatch(p, round, existingMatches));
+      matches.push(createByeMatch(p, round, existingMatches, settings));
       currentRoundLog!.finalPairings.push({
         team1: [p.name],
         team2: null,
@@ -204,55 +296,32 @@ export function generateRoundPairings(
       });
     });
     
-    saveRoundLog(activePlayers.length, byePlayers.length + playersForRound.length);
-    return { matches, byePlayer: byePlayers[0] || null };
+    const roundLog = saveRoundLog(activePlayers.length, byePlayers.length + playersForRound.length);
+    return { matches, byePlayer: byePlayers[0] || null, roundLog };
   }
 
-  // Generate teams based on round
-  const teams = round === 1
-    ? generateRandomTeams(playersForRound)
-    : generateSwissTeams(playersForRound, partnerHistory);
-
-  // Generate match pairings
-  const matchPairings = round === 1
-    ? generateRandomMatchups(teams)
-    : generateSwissMatchups(teams, matchHistory, players);
-
-  // Assign tables if enabled
-  const sortedTables = [...tables].sort((a, b) => a.order - b.order);
+  // Generate teams and match pairings based on round
+  let matchPairings: TeamMatchup[];
+  if (round === 1) {
+    matchPairings = seeding === 'random'
+      ? generateRandomMatchups(generateRandomTeams(playersForRound))
+      : generateSeededMatchups(playersForRound, seeding);
+  } else {
+    const teams = generateSwissTeams(playersForRound, partnerCounts, compareStandings, weights, settings);
+    matchPairings = generateSwissMatchups(teams, opponentCounts, weights, settings);
+  }
 
-  // Create match objects and log them
-  const matches: Match[] = matchPairings.map((pairing, idx) => {
-    const tableName = assignTables && sortedTables[idx] ? sortedTables[idx].name : undefined;
-    
-    currentRoundLog!.finalPairings.push({
-      table: tableName,
-      team1: [getPlayerName(pairing.team1.player1), getPlayerName(pairing.team1.player2)],
-      team2: [getPlayerName(pairing.team2.player1), getPlayerName(pairing.team2.player2)],
-      isBye: false,
-      reasoning: round === 1 
-        ? 'Random pairing (Round 1)' 
-        : 'Swiss pairing based on combined team standings',
-    });
-    
-    return {
-      id: nanoid(8),
-      round,
-      team1: [pairing.team1.player1.id, pairing.team1.player2.id],
-      team2: [pairing.team2.player1.id, pairing.team2.player2.id],
-      score1: null,
-      score2: null,
-      twenties1: 0,
-      twenties2: 0,
-      tableId: assignTables && sortedTables[idx] ? sortedTables[idx].id : null,
-      completed: false,
-      isBye: false,
-    };
-  });
+  const matches = createTeamMatches(
+    matchPairings,
+    round,
+    tables,
+    assignTables,
+    round === 1 ? `${seeding === 'random' ? 'Random' : 'Seeded'} pairing (Round 1)` : 'Swiss pairing (minimum-cost matching)'
+  );
 
   // Add bye matches for all bye players
   byePlayers.forEach((p) => {
-    matches.push(createByeMatch(p, round, existingMatches));
+    matches.push(createByeMatch(p, round, existingMatches, settings));
   });
 
   // Add bye game matches (1v1 or 2v1)
@@ -306,24 +375,316 @@ export function generateRoundPairings(
     });
   }
 
-  saveRoundLog(activePlayers.length, byePlayers.length);
-  return { matches, byePlayer: byePlayers[0] || null };
+  // Byes for rounds missed by late entrants
+  matches.push(...lateEntryByes);
+
+  const roundLog = saveRoundLog(activePlayers.length, byePlayers.length);
+  return { matches, byePlayer: byePlayers[0] || null, roundLog };
 }
 
-function saveRoundLog(playerCount: number, byesNeeded: number): void {
+/**
+ * Create doubles match objects for team matchups, assigning tables in order if enabled
+ */
+function createTeamMatches(
+  matchPairings: TeamMatchup[],
+  round: number,
+  tables: Table[],
+  assignTables: boolean,
+  reasoning: string
+): Match[] {
+  const sortedTables = [...tables].sort((a, b) => a.order - b.order);
+
+  return matchPairings.map((pairing, idx) => {
+    const tableName = assignTables && sortedTables[idx] ? sortedTables[idx].name : undefined;
+
+    currentRoundLog?.finalPairings.push({
+      table: tableName,
+      team1: [getPlayerName(pairing.team1.player1), getPlayerName(pairing.team1.player2)],
+      team2: [getPlayerName(pairing.team2.player1), getPlayerName(pairing.team2.player2)],
+      isBye: false,
+      reasoning,
+    });
+
+    return {
+      id: nanoid(8),
+      round,
+      team1: [pairing.team1.player1.id, pairing.team1.player2.id],
+      team2: [pairing.team2.player1.id, pairing.team2.player2.id],
+      score1: null,
+      score2: null,
+      twenties1: 0,
+      twenties2: 0,
+      tableId: assignTables && sortedTables[idx] ? sortedTables[idx].id : null,
+      completed: false,
+      isBye: false,
+    };
+  });
+}
+
+/**
+ * Fixed-partner rounds: registered teams play as units
+ * Only teams with both partners active are paired. An odd team out gets a bye:
+ *   - Round 1: Random
+ *   - Round 2+: Lowest ranked team with the fewest byes
+ * Matchups use the same random (Round 1) and Swiss (Round 2+) matchup logic as rotating partners
+ * Seeded Round 1: teams are ordered by their partners' average seed and the top half plays the bottom half
+ */
+function pairFixedTeams(
+  activePlayers: Player[],
+  fixedTeams: FixedTeam[],
+  existingMatches: Match[],
+  lateEntryByes: Match[],
+  round: number,
+  tables: Table[],
+  assignTables: boolean,
+  compareStandings: StandingsComparator,
+  opponentCounts: PairCounts,
+  weights: PairingWeights,
+  seeding: RoundOneSeeding,
+  settings?: ByeSettings
+): PairingResult {
+  const byId = new Map(activePlayers.map((p) => [p.id, p]));
+  const teams: (TeamPair & { name: string })[] = [];
+  fixedTeams.forEach((t) => {
+    const player1 = byId.get(t.playerIds[0]);
+    const player2 = byId.get(t.playerIds[1]);
+    if (player1 && player2) teams.push({ player1, player2, name: t.name });
+  });
+
+  // Partners share every result, so a team ranks by its first partner
+  teams.sort((a, b) => compareStandings(a.player1, b.player1));
+
   if (currentRoundLog) {
-    const roundLog: RoundLog = {
-      round: currentRoundLog.round,
-      generatedAt: new Date().toISOString(),
-      playerCount,
-      byesNeeded,
-      entries: currentRoundLog.entries,
-      standingsSnapshot: currentRoundLog.standingsSnapshot,
-      finalPairings: currentRoundLog.finalPairings,
+    currentRoundLog.standingsSnapshot = teams.map((t, idx) => ({
+      rank: idx + 1,
+      name: t.name,
+      wins: t.player1.wins,
+      losses: t.player1.losses,
+      ties: t.player1.ties,
+      pointDiff: t.player1.pointsFor - t.player1.pointsAgainst,
+      byeCount: t.player1.byeCount,
+    }));
+  }
+
+  logEntry('team_formation', `Pairing ${teams.length} fixed teams`, [
+    round === 1 ? `Round 1 seeding: ${describeRoundOneSeeding(seeding)}` : 'Using SWISS matchups (Round 2+)',
+    ...(activePlayers.length > teams.length * 2
+      ? [`${activePlayers.length - teams.length * 2} active player(s) without an active partner sit out`]
+      : []),
+  ]);
+
+  let teamsForRound = teams;
+  let byeTeam: TeamPair | null = null;
+
+  if (teams.length % 2 === 1) {
+    if (round === 1) {
+      byeTeam = teams[Math.floor(Math.random() * teams.length)];
+    } else {
+      const minByeCount = Math.min(...teams.map((t) => t.player1.byeCount));
+      byeTeam = [...teams].reverse().find((t) => t.player1.byeCount === minByeCount)!;
+    }
+    teamsForRound = teams.filter((t) => t !== byeTeam);
+
+    const byeName = `${getPlayerName(byeTeam.player1)} + ${getPlayerName(byeTeam.player2)}`;
+    logEntry('bye_selection', `Selected ${byeName} for bye`, [
+      round === 1
+        ? `Randomly selected from ${teams.length} teams`
+        : `Previous byes: ${byeTeam.player1.byeCount} - lowest ranked team with the fewest byes`,
+    ]);
+    currentRoundLog?.finalPairings.push({
+      team1: [getPlayerName(byeTeam.player1), getPlayerName(byeTeam.player2)],
+      team2: null,
+      isBye: true,
+      reasoning: 'Odd number of teams',
+    });
+  }
+
+  let matchPairings: TeamMatchup[];
+  if (round === 1) {
+    matchPairings = seeding === 'random'
+      ? generateRandomMatchups(teamsForRound)
+      : generateSeededTeamMatchups(teamsForRound, seeding);
+  } else {
+    matchPairings = generateSwissMatchups(teamsForRound, opponentCounts, weights, settings);
+  }
+
+  const matches = createTeamMatches(
+    matchPairings,
+    round,
+    tables,
+    assignTables,
+    round === 1 ? `${seeding === 'random' ? 'Random' : 'Seeded'} matchup (Round 1)` : 'Swiss matchup (minimum-cost matching)'
+  );
+
+  if (byeTeam) {
+    matches.push({
+      ...createByeMatch(byeTeam.player1, round, existingMatches, settings),
+      team1: [byeTeam.player1.id, byeTeam.player2.id],
+    });
+  }
+
+  // Byes for rounds missed by late entrants
+  matches.push(...lateEntryByes);
+
+  const roundLog = saveRoundLog(activePlayers.length, byeTeam ? 2 : 0);
+  return { matches, byePlayer: byeTeam?.player1 ?? null, roundLog };
+}
+
+/**
+ * Singles rounds: every match is 1v1
+ * An odd player out gets a regular bye (selectByePlayer)
+ * Round 1: Random opponents, or seeded: the top half of the seeded field plays the bottom half
+ * Round 2+: Minimum-cost matching
+ *   Cost: repeatOpponent × previous meetings + scoreGroupDistance × Score gap
+ * The player who has taken the first shot less often goes first (team1)
+ */
+function pairSingles(
+  activePlayers: Player[],
+  existingMatches: Match[],
+  matchesWithLateByes: Match[],
+  lateEntryByes: Match[],
+  round: number,
+  tables: Table[],
+  assignTables: boolean,
+  compareStandings: StandingsComparator,
+  opponentCounts: PairCounts,
+  weights: PairingWeights,
+  seeding: RoundOneSeeding,
+  settings?: ByeSettings
+): PairingResult {
+  logEntry('match_pairing', `Pairing ${activePlayers.length} players for singles`, [
+    round === 1 ? `Round 1 seeding: ${describeRoundOneSeeding(seeding)}` : 'Using SWISS pairing (Round 2+)',
+  ]);
+
+  let playersForRound = [...activePlayers];
+  let byePlayer: Player | null = null;
+  if (playersForRound.length % 2 === 1) {
+    byePlayer = selectByePlayer(playersForRound, round, compareStandings);
+    playersForRound = playersForRound.filter((p) => p.id !== byePlayer!.id);
+  }
+
+  const pairs: [Player, Player][] = [];
+
+  if (round === 1 && seeding !== 'random') {
+    // Unseeded players are shuffled so they fill their places in random order
+    const ordered = getSeedOrder(shuffleArray(playersForRound));
+    const groups = seeding === 'accelerated' ? splitAcceleratedGroups(ordered, 2) : [ordered];
+    groups.forEach((group) => {
+      foldPairs(group).forEach(([a, b]) => {
+        pairs.push([a, b]);
+        logEntry('match_pairing', `Match: ${getPlayerName(a)} vs ${getPlayerName(b)}`, [
+          `Seeds ${ordered.indexOf(a) + 1} and ${ordered.indexOf(b) + 1}`,
+        ]);
+      });
+    });
+  } else if (round === 1) {
+    const shuffled = shuffleArray(playersForRound);
+    for (let i = 0; i < shuffled.length - 1; i += 2) {
+      pairs.push([shuffled[i], shuffled[i + 1]]);
+    }
+  } else {
+    // Best players at index 0, worst players at end
+    const sorted = [...playersForRound].sort(compareStandings);
+    const matchupCost = (a: Player, b: Player): number =>
+      weights.repeatOpponent * getPairCount(opponentCounts, a.id, b.id) +
+      weights.scoreGroupDistance * Math.abs(getPlayerScore(a, settings) - getPlayerScore(b, settings));
+
+    logEntry('match_pairing', 'Pairing players with minimum-cost matching (Swiss)', [
+      `Repeat opponent penalty: ${weights.repeatOpponent} per previous meeting`,
+      `Score group penalty: ${weights.scoreGroupDistance} per point of Score difference`,
+    ]);
+
+    const { pairs: indexPairs, totalCost } = solvePairing(
+      sorted.length,
+      (i, j) => matchupCost(sorted[i], sorted[j])
+    );
+    if (currentRoundLog?.costs) currentRoundLog.costs.matchups = totalCost;
+
+    for (const [i, j] of indexPairs) {
+      const p1 = sorted[i];
+      const p2 = sorted[j];
+      const meetings = getPairCount(opponentCounts, p1.id, p2.id);
+      pairs.push([p1, p2]);
+
+      logEntry('match_pairing', `Match: ${getPlayerName(p1)} vs ${getPlayerName(p2)}`, [
+        `${getPlayerName(p1)}: Rank ${i + 1}, Score ${getPlayerScore(p1, settings)}`,
+        `${getPlayerName(p2)}: Rank ${j + 1}, Score ${getPlayerScore(p2, settings)}`,
+        meetings > 0
+          ? `⚠️ ${meetings} previous meeting(s)`
+          : '✓ First meeting',
+        `Cost: ${matchupCost(p1, p2)}`,
+      ]);
+    }
+
+    logEntry('match_pairing', `Matchup cost: ${totalCost}`, []);
+  }
+
+  // Balance the first shot: fewest first shots so far, then whoever went second last time
+  const { balance, wentFirstLast } = buildFirstShotHistory(matchesWithLateByes);
+  const firstShotPriority = (p: Player) =>
+    (balance.get(p.id) ?? 0) * 3 + (wentFirstLast.get(p.id) === true ? 1 : wentFirstLast.get(p.id) === false ? -1 : 0);
+
+  const sortedTables = [...tables].sort((a, b) => a.order - b.order);
+
+  const matches: Match[] = pairs.map(([a, b], idx) => {
+    const [first, second] = firstShotPriority(b) < firstShotPriority(a) ? [b, a] : [a, b];
+    const tableName = assignTables && sortedTables[idx] ? sortedTables[idx].name : undefined;
+
+    currentRoundLog?.finalPairings.push({
+      table: tableName,
+      team1: [getPlayerName(first)],
+      team2: [getPlayerName(second)],
+      isBye: false,
+      reasoning: `${round === 1 ? `${seeding === 'random' ? 'Random' : 'Seeded'} pairing (Round 1)` : 'Swiss pairing (minimum-cost matching)'} - ` +
+        `${getPlayerName(first)} shoots first (${balance.get(first.id) ?? 0} vs ${balance.get(second.id) ?? 0} first-shot balance)`,
+    });
+
+    return {
+      id: nanoid(8),
+      round,
+      team1: [first.id],
+      team2: [second.id],
+      score1: null,
+      score2: null,
+      twenties1: 0,
+      twenties2: 0,
+      tableId: assignTables && sortedTables[idx] ? sortedTables[idx].id : null,
+      completed: false,
+      isBye: false,
+      matchType: '1v1',
     };
-    addRoundLog(roundLog);
-    currentRoundLog = null;
+  });
+
+  if (byePlayer) matches.push(createByeMatch(byePlayer, round, existingMatches, settings));
+
+  // Byes for rounds missed by late entrants
+  matches.push(...lateEntryByes);
+
+  const roundLog = saveRoundLog(activePlayers.length, byePlayer ? 1 : 0);
+  return { matches, byePlayer, roundLog };
+}
+
+function saveRoundLog(playerCount: number, byesNeeded: number): RoundLog | null {
+  if (!currentRoundLog) return null;
+
+  const roundLog: RoundLog = {
+    round: currentRoundLog.round,
+    generatedAt: new Date().toISOString(),
+    playerCount,
+    byesNeeded,
+    entries: currentRoundLog.entries,
+    standingsSnapshot: currentRoundLog.standingsSnapshot,
+    finalPairings: currentRoundLog.finalPairings,
+  };
+  if (currentRoundLog.costs) {
+    const { teamFormation, matchups, byeGames } = currentRoundLog.costs;
+    roundLog.totalCost = teamFormation + matchups + byeGames;
+    roundLog.costBreakdown = currentRoundLog.costs;
   }
+  if (currentRoundLog.seeding) roundLog.seeding = currentRoundLog.seeding;
+  addRoundLog(roundLog);
+  currentRoundLog = null;
+  return roundLog;
 }
 
 /**
@@ -333,7 +694,7 @@ function saveRoundLog(playerCount: number, byesNeeded: number): void {
  *   - Give bye to the lowest ranked player who hasn't had a bye yet
  *   - No one gets 2 byes until everyone has had 1
  */
-function selectByePlayer(players: Player[], round: number): Player {
+function selectByePlayer(players: Player[], round: number, compareStandings: StandingsComparator): Player {
   if (round === 1) {
     // Round 1: Completely random
     const randomIndex = Math.floor(Math.random() * players.length);
@@ -346,15 +707,8 @@ function selectByePlayer(players: Player[], round: number): Player {
   
   // Round 2+: Sort by standings (best to worst)
   // Best players at index 0, worst players at end
-  // Sort by: Score (wins*2 + ties) → PF → PA → 20s
-  const sorted = [...players].sort((a, b) => {
-    const aScore = a.wins * 2 + a.ties;
-    const bScore = b.wins * 2 + b.ties;
-    if (bScore !== aScore) return bScore - aScore;
-    if (b.pointsFor !== a.pointsFor) return b.pointsFor - a.pointsFor;
-    if (a.pointsAgainst !== b.pointsAgainst) return a.pointsAgainst - b.pointsAgainst; // Lower PA is better
-    return b.twenties - a.twenties;
-  });
+  // Sort by: Score (settings.pointSystem) → tiebreaker chain
+  const sorted = [...players].sort(compareStandings);
   
   // Find the minimum bye count (no one gets 2 byes until everyone has 1)
   const minByeCount = Math.min(...sorted.map(p => p.byeCount));
@@ -399,11 +753,59 @@ function selectByePlayer(players: Player[], round: number): Player {
   return fallback;
 }
 
+/**
+ * Select player for a 1v1/2v1 bye game
+ * Round 1: Completely random
+ * Round 2+: Cheapest player, where each previous bye game costs byeGameRepeat
+ *   - Equal-cost players: lowest ranked goes first
+ */
+function selectByeGamePlayer(
+  players: Player[],
+  round: number,
+  compareStandings: StandingsComparator,
+  byeGameCounts: Map<string, number>,
+  weights: PairingWeights
+): Player {
+  if (round === 1) {
+    const selected = players[Math.floor(Math.random() * players.length)];
+    logEntry('bye_selection', `Selected ${getPlayerName(selected)} for bye game (Random - Round 1)`, [
+      `Randomly selected from ${players.length} players`,
+    ]);
+    return selected;
+  }
+
+  // Best players at index 0, worst players at end
+  const sorted = [...players].sort(compareStandings);
+
+  // Search from the bottom of standings upward, keeping the first cheapest player
+  let selectedIndex = sorted.length - 1;
+  let selectedCost = Infinity;
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const cost = weights.byeGameRepeat * (byeGameCounts.get(sorted[i].id) ?? 0);
+    if (cost < selectedCost) {
+      selectedIndex = i;
+      selectedCost = cost;
+    }
+  }
+
+  const selected = sorted[selectedIndex];
+  if (currentRoundLog?.costs) currentRoundLog.costs.byeGames += selectedCost;
+
+  logEntry('bye_selection', `Selected ${getPlayerName(selected)} for bye game`, [
+    `Rank: ${selectedIndex + 1} of ${sorted.length} (lower = worse)`,
+    `Previous bye games: ${byeGameCounts.get(selected.id) ?? 0}`,
+    `Cost: ${selectedCost}`,
+    `Reason: Lowest ranked player with the lowest bye game cost`,
+  ]);
+
+  return selected;
+}
+
 /**
  * Create a bye match for a player
- * Awards average points (4) and average 20s from the tournament so far
+ * Scored by the bye policy (settings.byeScoring), with average 20s from the tournament so far
  */
-function createByeMatch(player: Player, round: number, existingMatches: Match[]): Match {
+function createByeMatch(player: Player, round: number, existingMatches: Match[], settings?: ByeSettings): Match {
   // Calculate average 20s per player per match from completed matches
   let averageTwenties = 0;
   
@@ -413,19 +815,22 @@ function createByeMatch(player: Player, round: number, existingMatches: Match[])
       const totalTwenties = completedMatches.reduce((sum, m) => {
         return sum + (m.twenties1 || 0) + (m.twenties2 || 0);
       }, 0);
-      // Each match has 4 players (2 per team), so divide by matches * 4
-      const totalPlayerMatches = completedMatches.length * 4;
+      // Divide by every player in those matches (4 in doubles, 2 in singles)
+      const totalPlayerMatches = completedMatches.reduce((sum, m) => sum + m.team1.length + (m.team2?.length ?? 0), 0);
       averageTwenties = Math.round(totalTwenties / totalPlayerMatches);
     }
   }
 
+  // Stats always score byes from the current policy; the stored score is for display
+  const { pointsFor, pointsAgainst } = getByePoints(player.id, round, existingMatches, settings);
+
   return {
     id: nanoid(8),
     round,
     team1: [player.id],
     team2: null,
-    score1: 4, // 4-4 tie
-    score2: 4, // 4 points against (bye is a tie)
+    score1: pointsFor,
+    score2: pointsAgainst,
     twenties1: averageTwenties,
     twenties2: 0,
     tableId: null,
@@ -434,6 +839,27 @@ function createByeMatch(player: Player, round: number, existingMatches: Match[])
   };
 }
 
+/**
+ * Create byes for the rounds a late entrant missed (before their joinedRound)
+ * Only rounds without a match for the player are filled, so repeated calls are safe
+ */
+function createLateEntryByes(players: Player[], existingMatches: Match[], round: number, settings?: ByeSettings): Match[] {
+  const byes: Match[] = [];
+
+  players.forEach((player) => {
+    if (!player.active || !player.joinedRound || player.joinedRound > round) return;
+
+    for (let r = 1; r < player.joinedRound; r++) {
+      const hasMatch = existingMatches.some(
+        (m) => m.round === r && (m.team1.includes(player.id) || m.team2?.includes(player.id))
+      );
+      if (!hasMatch) byes.push(createByeMatch(player, r, existingMatches, settings));
+    }
+  });
+
+  return byes;
+}
+
 /**
  * Round 1: Generate random team pairings
  */
@@ -453,402 +879,340 @@ function generateRandomTeams(players: Player[]): TeamPair[] {
 
 /**
  * Round 2+: Generate teams based on standings
- * Pair players with similar records, avoiding repeat partners
- * 
- * Algorithm: Use weighted matching to minimize partner repetitions
- * Priority: 1) No repeat partners, 2) Similar standings within constraint
+ * Every possible partnership is costed and the cheapest complete set of teams is chosen
+ *
+ * Cost: repeatPartner × previous partnerships + scoreGroupDistance × Score gap
+ * Among equal-cost sets, players adjacent in standings are paired together
  */
-function generateSwissTeams(players: Player[], partnerHistory: PartnerHistory): TeamPair[] {
-  // Sort players by standings: Score → PF → PA → 20s
-  const sorted = [...players].sort((a, b) => {
-    const aScore = a.wins * 2 + a.ties;
-    const bScore = b.wins * 2 + b.ties;
-    if (bScore !== aScore) return bScore - aScore;
-    if (b.pointsFor !== a.pointsFor) return b.pointsFor - a.pointsFor;
-    if (a.pointsAgainst !== b.pointsAgainst) return a.pointsAgainst - b.pointsAgainst;
-    return b.twenties - a.twenties;
-  });
-
-  logEntry('team_formation', 'Forming teams based on standings (Swiss)', [
-    'Pairing adjacent players in standings',
-    'Avoiding repeat partners when possible',
+function generateSwissTeams(
+  players: Player[],
+  partnerCounts: PairCounts,
+  compareStandings: StandingsComparator,
+  weights: PairingWeights,
+  settings?: ByeSettings
+): TeamPair[] {
+  // Sort players by standings: Score → tiebreaker chain
+  const sorted = [...players].sort(compareStandings);
+
+  logEntry('team_formation', 'Forming teams with minimum-cost matching (Swiss)', [
+    `Repeat partner penalty: ${weights.repeatPartner} per previous partnership`,
+    `Score group penalty: ${weights.scoreGroupDistance} per point of Score difference`,
+    'Equal-cost options prefer players adjacent in standings',
   ]);
 
-  // Build partner count matrix: how many times each pair has partnered
-  const partnerCount: Map<string, number> = new Map();
-  for (const playerId of Object.keys(partnerHistory)) {
-    for (const partnerId of partnerHistory[playerId]) {
-      // Count each partnership (Set means they've been partners at least once)
-      const key = [playerId, partnerId].sort().join('-');
-      partnerCount.set(key, (partnerCount.get(key) || 0) + 1);
-    }
-  }
-  // Divide by 2 since we count each partnership from both sides
-  for (const [key, count] of partnerCount.entries()) {
-    partnerCount.set(key, Math.floor(count / 2) + 1);
-  }
+  const teamCost = (p1: Player, p2: Player): number =>
+    weights.repeatPartner * getPairCount(partnerCounts, p1.id, p2.id) +
+    weights.scoreGroupDistance * Math.abs(getPlayerScore(p1, settings) - getPlayerScore(p2, settings));
 
-  const getPartnershipCount = (p1: string, p2: string): number => {
-    const key = [p1, p2].sort().join('-');
-    return partnerCount.get(key) || 0;
-  };
+  const { pairs, totalCost } = solvePairing(sorted.length, (i, j) => teamCost(sorted[i], sorted[j]));
+  if (currentRoundLog?.costs) currentRoundLog.costs.teamFormation = totalCost;
 
-  // Find the minimum partnership count among all possible pairs
-  const minPartnershipCount = getMinPartnershipCountPossible(sorted, getPartnershipCount);
-
-  logEntry('team_formation', `Minimum partnership threshold`, [
-    `All players can be paired with at least one partner who has ${minPartnershipCount} previous partnerships`,
-  ]);
-
-  // Use backtracking to find a valid pairing that minimizes repeat partners
-  // while still respecting standings as secondary priority
-  const teams = findOptimalPairing(sorted, getPartnershipCount, minPartnershipCount);
-  
-  if (!teams) {
-    // Fallback to greedy if backtracking fails (shouldn't happen)
-    logEntry('team_formation', 'Fallback to greedy pairing', []);
-    return greedyPairing(sorted, partnerHistory);
-  }
+  const teams: TeamPair[] = pairs.map(([i, j]) => ({ player1: sorted[i], player2: sorted[j] }));
 
   // Log the final pairings
-  for (const team of teams) {
-    const p1 = team.player1;
-    const p2 = team.player2;
-    const p1Rank = sorted.findIndex(p => p.id === p1.id) + 1;
-    const p2Rank = sorted.findIndex(p => p.id === p2.id) + 1;
-    const prevPartnerships = getPartnershipCount(p1.id, p2.id);
-    
+  for (const [i, j] of pairs) {
+    const p1 = sorted[i];
+    const p2 = sorted[j];
+    const prevPartnerships = getPairCount(partnerCounts, p1.id, p2.id);
+
     logEntry('team_formation', `Team formed: ${getPlayerName(p1)} + ${getPlayerName(p2)}`, [
-      `${getPlayerName(p1)}: Rank ${p1Rank}, ${p1.wins}W`,
-      `${getPlayerName(p2)}: Rank ${p2Rank}, ${p2.wins}W`,
-      prevPartnerships > 0 
-        ? `⚠️ Previously partnered ${prevPartnerships} time(s)` 
+      `${getPlayerName(p1)}: Rank ${i + 1}, Score ${getPlayerScore(p1, settings)}`,
+      `${getPlayerName(p2)}: Rank ${j + 1}, Score ${getPlayerScore(p2, settings)}`,
+      prevPartnerships > 0
+        ? `⚠️ Previously partnered ${prevPartnerships} time(s)`
         : '✓ First time as partners',
+      `Cost: ${teamCost(p1, p2)}`,
     ]);
   }
 
+  logEntry('team_formation', `Team formation cost: ${totalCost}`, []);
+
   return teams;
 }
 
-/**
- * Find minimum partnership count possible for a complete pairing
- */
-function getMinPartnershipCountPossible(
-  players: Player[], 
-  getPartnershipCount: (p1: string, p2: string) => number
-): number {
-  // Try to find a pairing where no one repeats partners
-  for (let threshold = 0; threshold <= players.length; threshold++) {
-    if (canFindPairingWithThreshold(players, getPartnershipCount, threshold)) {
-      return threshold;
-    }
-  }
-  return players.length; // Fallback
-}
 
 /**
- * Check if we can pair everyone with at most 'threshold' previous partnerships
+ * Round 1: Random match pairings between teams
  */
-function canFindPairingWithThreshold(
-  players: Player[],
-  getPartnershipCount: (p1: string, p2: string) => number,
-  threshold: number
-): boolean {
-  const used = new Set<string>();
-  
-  function backtrack(index: number): boolean {
-    // Find next unused player
-    while (index < players.length && used.has(players[index].id)) {
-      index++;
-    }
-    if (index >= players.length) return true; // All paired
-    
-    const p1 = players[index];
-    used.add(p1.id);
-    
-    // Try to pair with any unused player within threshold
-    for (let j = index + 1; j < players.length; j++) {
-      if (used.has(players[j].id)) continue;
-      
-      const p2 = players[j];
-      if (getPartnershipCount(p1.id, p2.id) <= threshold) {
-        used.add(p2.id);
-        if (backtrack(index + 1)) return true;
-        used.delete(p2.id);
-      }
-    }
-    
-    used.delete(p1.id);
-    return false;
+function generateRandomMatchups(teams: TeamPair[]): TeamMatchup[] {
+  const shuffled = shuffleArray([...teams]);
+  const matchups: TeamMatchup[] = [];
+
+  for (let i = 0; i < shuffled.length - 1; i += 2) {
+    matchups.push({
+      team1: shuffled[i],
+      team2: shuffled[i + 1],
+    });
   }
-  
-  return backtrack(0);
+
+  return matchups;
 }
 
 /**
- * Find optimal pairing minimizing partner repetitions, preferring standings-adjacent pairs
+ * Seeded Round 1 for rotating partners
+ * Within each group of the seeded field, the strongest player partners the weakest,
+ * then the next strongest the next weakest, and neighbouring teams play each other.
+ * So seeds 1 and 2 are opponents, never partners.
+ * Balanced seeding uses the whole field as one group; accelerated splits it into top and bottom halves.
  */
-function findOptimalPairing(
-  players: Player[],
-  getPartnershipCount: (p1: string, p2: string) => number,
-  targetThreshold: number
-): TeamPair[] | null {
-  const teams: TeamPair[] = [];
-  const used = new Set<string>();
-  
-  function backtrack(index: number): boolean {
-    // Find next unused player
-    while (index < players.length && used.has(players[index].id)) {
-      index++;
+function generateSeededMatchups(players: Player[], seeding: RoundOneSeeding): TeamMatchup[] {
+  // Unseeded players are shuffled so they fill their places in random order
+  const ordered = getSeedOrder(shuffleArray(players));
+  const seedOf = (p: Player) => ordered.indexOf(p) + 1;
+  const groups = seeding === 'accelerated' ? splitAcceleratedGroups(ordered, 4) : [ordered];
+  const matchups: TeamMatchup[] = [];
+
+  groups.forEach((group, g) => {
+    if (groups.length > 1) {
+      logEntry('team_formation', `${g === 0 ? 'Top' : 'Bottom'} half: seeds ${seedOf(group[0])}-${seedOf(group[group.length - 1])}`);
     }
-    if (index >= players.length) return true; // All paired
-    
-    const p1 = players[index];
-    used.add(p1.id);
-    
-    // Build candidate list: prefer standings-adjacent, but filter by threshold
-    const candidates: Array<{player: Player, standingsDist: number}> = [];
-    for (let j = index + 1; j < players.length; j++) {
-      if (used.has(players[j].id)) continue;
-      
-      const p2 = players[j];
-      if (getPartnershipCount(p1.id, p2.id) <= targetThreshold) {
-        candidates.push({ player: p2, standingsDist: j - index });
-      }
+
+    const teams: TeamPair[] = [];
+    for (let i = 0; i < group.length / 2; i++) {
+      const team = { player1: group[i], player2: group[group.length - 1 - i] };
+      teams.push(team);
+      logEntry('team_formation', `Team formed: ${getPlayerName(team.player1)} + ${getPlayerName(team.player2)}`, [
+        `${getPlayerName(team.player1)}: ${describeSeed(team.player1, seedOf(team.player1))}`,
+        `${getPlayerName(team.player2)}: ${describeSeed(team.player2, seedOf(team.player2))}`,
+      ]);
     }
-    
-    // Sort by standings distance (prefer adjacent in standings)
-    candidates.sort((a, b) => a.standingsDist - b.standingsDist);
-    
-    // Try each candidate
-    for (const candidate of candidates) {
-      used.add(candidate.player.id);
-      teams.push({ player1: p1, player2: candidate.player });
-      
-      if (backtrack(index + 1)) return true;
-      
-      teams.pop();
-      used.delete(candidate.player.id);
+
+    for (let i = 0; i < teams.length - 1; i += 2) {
+      matchups.push({ team1: teams[i], team2: teams[i + 1] });
     }
-    
-    used.delete(p1.id);
-    return false;
-  }
-  
-  if (backtrack(0)) {
-    return teams;
-  }
-  return null;
+  });
+
+  return matchups;
 }
 
 /**
- * Fallback greedy pairing (original algorithm)
+ * Seeded Round 1 for fixed teams
+ * Teams are ordered by their partners' average seed, then the top half of each group
+ * plays the bottom half (1 vs n/2+1, 2 vs n/2+2, ...)
  */
-function greedyPairing(players: Player[], partnerHistory: PartnerHistory): TeamPair[] {
-  const sorted = [...players].sort((a, b) => {
-    const aScore = a.wins * 2 + a.ties;
-    const bScore = b.wins * 2 + b.ties;
-    if (bScore !== aScore) return bScore - aScore;
-    if (b.pointsFor !== a.pointsFor) return b.pointsFor - a.pointsFor;
-    if (a.pointsAgainst !== b.pointsAgainst) return a.pointsAgainst - b.pointsAgainst;
-    return b.twenties - a.twenties;
+function generateSeededTeamMatchups(teams: TeamPair[], seeding: RoundOneSeeding): TeamMatchup[] {
+  const ordered = getSeedOrder(shuffleArray(teams.flatMap((t) => [t.player1, t.player2])));
+  const averageSeed = (t: TeamPair) => (ordered.indexOf(t.player1) + ordered.indexOf(t.player2)) / 2;
+  const orderedTeams = [...teams].sort((a, b) => averageSeed(a) - averageSeed(b));
+  const groups = seeding === 'accelerated' ? splitAcceleratedGroups(orderedTeams, 2) : [orderedTeams];
+
+  const matchups: TeamMatchup[] = [];
+  groups.forEach((group) => {
+    foldPairs(group).forEach(([team1, team2]) => {
+      matchups.push({ team1, team2 });
+      logEntry('match_pairing', `Match: ${getPlayerName(team1.player1)} + ${getPlayerName(team1.player2)} vs ${getPlayerName(team2.player1)} + ${getPlayerName(team2.player2)}`, [
+        `Team seeds ${orderedTeams.indexOf(team1) + 1} and ${orderedTeams.indexOf(team2) + 1}`,
+      ]);
+    });
   });
-  
-  const teams: TeamPair[] = [];
-  const used = new Set<string>();
-  
-  for (let i = 0; i < sorted.length; i++) {
-    if (used.has(sorted[i].id)) continue;
-    
-    const player1 = sorted[i];
-    let partner: Player | null = null;
-    
-    for (let j = i + 1; j < sorted.length; j++) {
-      if (used.has(sorted[j].id)) continue;
-      
-      const candidate = sorted[j];
-      const hasBeenPartner = partnerHistory[player1.id]?.has(candidate.id) ?? false;
-      
-      if (!hasBeenPartner) {
-        partner = candidate;
-        break;
-      }
-    }
-    
-    if (!partner) {
-      for (let j = i + 1; j < sorted.length; j++) {
-        if (!used.has(sorted[j].id)) {
-          partner = sorted[j];
-          break;
-        }
-      }
-    }
-    
-    if (partner) {
-      teams.push({ player1, player2: partner });
-      used.add(player1.id);
-      used.add(partner.id);
-    }
-  }
-  
-  return teams;
-}
 
+  return matchups;
+}
 
 /**
- * Round 1: Random match pairings between teams
+ * Pair the top half of an ordered list with the bottom half: 1 vs n/2+1, 2 vs n/2+2, ...
  */
-function generateRandomMatchups(teams: TeamPair[]): { team1: TeamPair; team2: TeamPair }[] {
-  const shuffled = shuffleArray([...teams]);
-  const matchups: { team1: TeamPair; team2: TeamPair }[] = [];
-
-  for (let i = 0; i < shuffled.length - 1; i += 2) {
-    matchups.push({
-      team1: shuffled[i],
-      team2: shuffled[i + 1],
-    });
-  }
+function foldPairs<T>(ordered: T[]): [T, T][] {
+  const half = Math.floor(ordered.length / 2);
+  return ordered.slice(0, half).map((item, i): [T, T] => [item, ordered[i + half]]);
+}
 
-  return matchups;
+function describeSeed(player: Player, position: number): string {
+  const basis = [
+    (player.seed ?? null) !== null ? `manual seed ${player.seed}` : null,
+    player.rating !== undefined ? `rating ${player.rating}` : null,
+  ].filter(Boolean);
+  return `Seed ${position}${basis.length > 0 ? ` (${basis.join(', ')})` : ' (unseeded, random)'}`;
 }
 
 /**
  * Round 2+: Swiss-style match pairings
- * Pair teams with similar combined standings, avoiding repeat matchups
+ * Every possible pair of teams is costed and the cheapest set of matchups is chosen
+ *
+ * Cost: repeatOpponent × previous meetings between opposing players
+ *       + scoreGroupDistance × combined Score gap
+ * Among equal-cost sets, teams adjacent by combined standings play each other
  */
 function generateSwissMatchups(
   teams: TeamPair[],
-  matchHistory: MatchHistory,
-  allPlayers: Player[]
-): { team1: TeamPair; team2: TeamPair }[] {
+  opponentCounts: PairCounts,
+  weights: PairingWeights,
+  settings?: ByeSettings
+): TeamMatchup[] {
   // Calculate combined standings for each team
   const teamsWithRank = teams.map((team) => {
-    const p1 = allPlayers.find((p) => p.id === team.player1.id) ?? team.player1;
-    const p2 = allPlayers.find((p) => p.id === team.player2.id) ?? team.player2;
-    
-    const combinedWins = p1.wins + p2.wins;
-    const combinedDiff = (p1.pointsFor - p1.pointsAgainst) + (p2.pointsFor - p2.pointsAgainst);
-    
+    const p1 = team.player1;
+    const p2 = team.player2;
+
     return {
       team,
-      combinedWins,
-      combinedDiff,
-      teamKey: getTeamKey(team.player1.id, team.player2.id),
-      displayName: `${getPlayerName(team.player1)} + ${getPlayerName(team.player2)}`,
+      combinedScore: getPlayerScore(p1, settings) + getPlayerScore(p2, settings),
+      combinedDiff: (p1.pointsFor - p1.pointsAgainst) + (p2.pointsFor - p2.pointsAgainst),
+      displayName: `${getPlayerName(p1)} + ${getPlayerName(p2)}`,
     };
   });
 
   // Sort by combined standings
   teamsWithRank.sort((a, b) => {
-    if (b.combinedWins !== a.combinedWins) return b.combinedWins - a.combinedWins;
+    if (b.combinedScore !== a.combinedScore) return b.combinedScore - a.combinedScore;
     return b.combinedDiff - a.combinedDiff;
   });
 
-  logEntry('match_pairing', 'Pairing teams by combined standings (Swiss)', [
-    'Teams sorted by combined wins, then combined point differential',
-    'Avoiding repeat matchups when possible',
+  logEntry('match_pairing', 'Pairing teams with minimum-cost matching (Swiss)', [
+    'Teams sorted by combined Score, then combined point differential',
+    `Repeat opponent penalty: ${weights.repeatOpponent} per previous meeting between opposing players`,
+    `Score group penalty: ${weights.scoreGroupDistance} per point of combined Score difference`,
   ]);
 
-  const matchups: { team1: TeamPair; team2: TeamPair }[] = [];
-  const used = new Set<string>();
-
-  // Pair adjacent teams, checking for valid matchups
-  for (let i = 0; i < teamsWithRank.length; i++) {
-    if (used.has(teamsWithRank[i].teamKey)) continue;
+  const previousMeetings = (a: TeamPair, b: TeamPair): number => {
+    let count = 0;
+    for (const x of [a.player1, a.player2]) {
+      for (const y of [b.player1, b.player2]) {
+        count += getPairCount(opponentCounts, x.id, y.id);
+      }
+    }
+    return count;
+  };
 
-    const team1Data = teamsWithRank[i];
-    let opponent: typeof team1Data | null = null;
-    let usedFallback = false;
+  const matchupCost = (a: typeof teamsWithRank[number], b: typeof teamsWithRank[number]): number =>
+    weights.repeatOpponent * previousMeetings(a.team, b.team) +
+    weights.scoreGroupDistance * Math.abs(a.combinedScore - b.combinedScore);
 
-    // Find the next available team that hasn't played this team before
-    for (let j = i + 1; j < teamsWithRank.length; j++) {
-      if (used.has(teamsWithRank[j].teamKey)) continue;
+  const { pairs, totalCost } = solvePairing(
+    teamsWithRank.length,
+    (i, j) => matchupCost(teamsWithRank[i], teamsWithRank[j])
+  );
+  if (currentRoundLog?.costs) currentRoundLog.costs.matchups = totalCost;
 
-      const candidate = teamsWithRank[j];
-      const hasPlayed = matchHistory[team1Data.teamKey]?.has(candidate.teamKey) ?? false;
+  const matchups: TeamMatchup[] = [];
 
-      if (!hasPlayed) {
-        opponent = candidate;
-        break;
-      }
-    }
+  for (const [i, j] of pairs) {
+    const team1Data = teamsWithRank[i];
+    const opponent = teamsWithRank[j];
+    const meetings = previousMeetings(team1Data.team, opponent.team);
 
-    // If no valid opponent found, take the next available
-    if (!opponent) {
-      usedFallback = true;
-      for (let j = i + 1; j < teamsWithRank.length; j++) {
-        if (!used.has(teamsWithRank[j].teamKey)) {
-          opponent = teamsWithRank[j];
-          break;
-        }
-      }
-    }
+    matchups.push({
+      team1: team1Data.team,
+      team2: opponent.team,
+    });
 
-    if (opponent) {
-      matchups.push({
-        team1: team1Data.team,
-        team2: opponent.team,
-      });
-      used.add(team1Data.teamKey);
-      used.add(opponent.teamKey);
-      
-      logEntry('match_pairing', `Match: ${team1Data.displayName} vs ${opponent.displayName}`, [
-        `Team 1: ${team1Data.combinedWins} combined wins, ${team1Data.combinedDiff >= 0 ? '+' : ''}${team1Data.combinedDiff} diff`,
-        `Team 2: ${opponent.combinedWins} combined wins, ${opponent.combinedDiff >= 0 ? '+' : ''}${opponent.combinedDiff} diff`,
-        usedFallback ? '⚠️ Repeat matchup (no other valid opponents)' : '✓ First time playing each other',
-      ]);
-    }
+    logEntry('match_pairing', `Match: ${team1Data.displayName} vs ${opponent.displayName}`, [
+      `Team 1: Score ${team1Data.combinedScore}, ${team1Data.combinedDiff >= 0 ? '+' : ''}${team1Data.combinedDiff} diff`,
+      `Team 2: Score ${opponent.combinedScore}, ${opponent.combinedDiff >= 0 ? '+' : ''}${opponent.combinedDiff} diff`,
+      meetings > 0
+        ? `⚠️ ${meetings} previous meeting(s) between these opponents`
+        : '✓ No previous meetings between these opponents',
+      `Cost: ${matchupCost(team1Data, opponent)}`,
+    ]);
   }
 
+  logEntry('match_pairing', `Matchup cost: ${totalCost}`, []);
+
   return matchups;
 }
 
 /**
- * Build partner history from existing matches
+ * Minimum-cost pairing of items sorted best to worst
+ * Penalties always dominate; standings distance only breaks ties between equal-cost options
  */
-function buildPartnerHistory(matches: Match[]): PartnerHistory {
-  const history: PartnerHistory = {};
+function solvePairing(
+  count: number,
+  penalty: (i: number, j: number) => number
+): { pairs: [number, number][]; totalCost: number } {
+  const scale = count * count; // Larger than any possible sum of standings distances
+  const { pairs } = minCostPerfectMatching(
+    count,
+    (i, j) => Math.round(penalty(i, j)) * scale + Math.abs(i - j)
+  );
+  const totalCost = pairs.reduce((sum, [i, j]) => sum + Math.round(penalty(i, j)), 0);
+  return { pairs, totalCost };
+}
+
+/**
+ * First-shot history from 1v1 games: balance is first shots minus second shots,
+ * wentFirstLast is whether the player shot first in their latest 1v1 game
+ */
+function buildFirstShotHistory(matches: Match[]): {
+  balance: Map<string, number>;
+  wentFirstLast: Map<string, boolean>;
+} {
+  const balance = new Map<string, number>();
+  const wentFirstLast = new Map<string, boolean>();
+
+  [...matches]
+    .filter((m) => !m.isBye && m.team1.length === 1 && m.team2?.length === 1)
+    .sort((a, b) => a.round - b.round)
+    .forEach((m) => {
+      const first = m.team1[0];
+      const second = m.team2![0];
+      balance.set(first, (balance.get(first) ?? 0) + 1);
+      balance.set(second, (balance.get(second) ?? 0) - 1);
+      wentFirstLast.set(first, true);
+      wentFirstLast.set(second, false);
+    });
+
+  return { balance, wentFirstLast };
+}
+
+/**
+ * Count how often each pair of players has been partners
+ */
+function buildPartnerCounts(matches: Match[]): PairCounts {
+  const counts: PairCounts = new Map();
 
   matches.forEach((match) => {
-    if (!match.isBye && match.team1.length === 2) {
-      const [p1, p2] = match.team1 as [string, string];
-      if (!history[p1]) history[p1] = new Set();
-      if (!history[p2]) history[p2] = new Set();
-      history[p1].add(p2);
-      history[p2].add(p1);
-    }
-    if (match.team2 && match.team2.length === 2) {
-      const [p1, p2] = match.team2 as [string, string];
-      if (!history[p1]) history[p1] = new Set();
-      if (!history[p2]) history[p2] = new Set();
-      history[p1].add(p2);
-      history[p2].add(p1);
+    if (match.isBye) return;
+    for (const team of [match.team1, match.team2]) {
+      if (team && team.length === 2) {
+        incrementPairCount(counts, team[0], team[1]!);
+      }
     }
   });
 
-  return history;
+  return counts;
 }
 
 /**
- * Build match history from existing matches
+ * Count how often each pair of players has been on opposite sides of a match
  */
-function buildMatchHistory(matches: Match[]): MatchHistory {
-  const history: MatchHistory = {};
+function buildOpponentCounts(matches: Match[]): PairCounts {
+  const counts: PairCounts = new Map();
 
   matches.forEach((match) => {
-    if (!match.isBye && match.team2 && match.team1.length === 2) {
-      const team1Key = getTeamKey(match.team1[0], match.team1[1]!);
-      const team2Key = getTeamKey(match.team2[0], match.team2[1]!);
+    if (match.isBye || !match.team2) return;
+    for (const p1 of match.team1) {
+      for (const p2 of match.team2) {
+        if (p1 && p2) incrementPairCount(counts, p1, p2);
+      }
+    }
+  });
+
+  return counts;
+}
 
-      if (!history[team1Key]) history[team1Key] = new Set();
-      if (!history[team2Key]) history[team2Key] = new Set();
+/**
+ * Count how many 1v1/2v1 bye games each player has played
+ */
+function buildByeGameCounts(matches: Match[]): Map<string, number> {
+  const counts = new Map<string, number>();
 
-      history[team1Key].add(team2Key);
-      history[team2Key].add(team1Key);
+  matches.forEach((match) => {
+    if (match.matchType !== '1v1' && match.matchType !== '2v1') return;
+    for (const playerId of [...match.team1, ...(match.team2 ?? [])]) {
+      if (playerId) counts.set(playerId, (counts.get(playerId) ?? 0) + 1);
     }
   });
 
-  return history;
+  return counts;
+}
+
+function incrementPairCount(counts: PairCounts, p1: string, p2: string): void {
+  const key = getTeamKey(p1, p2);
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+function getPairCount(counts: PairCounts, p1: string, p2: string): number {
+  return counts.get(getTeamKey(p1, p2)) ?? 0;
 }
 
 /**
@@ -1,5 +1,8 @@
 // Pairing decision log for Swiss tournament transparency
 
+import type { RoundOneSeeding } from '../types';
+import { describeRoundOneSeeding } from '../engine/seeding.js';
+
 export interface PairingLogEntry {
   timestamp: string;
   round: number;
@@ -16,6 +19,15 @@ export interface RoundLog {
   entries: PairingLogEntry[];
   standingsSnapshot: PlayerSnapshot[];
   finalPairings: MatchPairingLog[];
+  totalCost?: number; // Pairing solver cost for the round (Round 2+)
+  costBreakdown?: PairingCostBreakdown;
+  seeding?: RoundOneSeeding; // How the field was seeded (Round 1)
+}
+
+export interface PairingCostBreakdown {
+  teamFormation: number;
+  matchups: number;
+  byeGames: number;
 }
 
 export interface PlayerSnapshot {
@@ -68,8 +80,10 @@ export function generateLogText(logs?: RoundLog[]): string {
   text += '─────────────────────────────────────────────────────────────────\n';
   text += `
 ROUND 1:
-  • Partners: Randomly assigned
-  • Matchups: Randomly assigned
+  • Random (default): partners and matchups randomly assigned
+  • Balanced: field ordered by manual seed, then club rating
+    - Strongest partners weakest, neighbouring teams play each other
+  • Accelerated: as balanced, within the top and bottom halves of the field
   • Byes: Randomly selected (if player count not divisible by 4)
 
 ROUND 2+:
@@ -78,10 +92,12 @@ ROUND 2+:
     - PF = Points For (higher is better)
     - PA = Points Against (lower is better)
     - 20s = Twenty count (higher is better)
-  • Partners: Adjacent players in standings paired together
-    - Avoids repeat partners when possible
-  • Matchups: Teams with similar combined standings play each other
-    - Avoids repeat team matchups when possible
+  • Partners and matchups chosen by a minimum-cost matching solver
+    - Repeat partners, repeat opponents, Score gaps and repeat bye games
+      each add a configurable penalty
+    - Among equal-cost options, players adjacent in standings are preferred
+  • Partners: Every possible team is costed, lowest-cost set of teams wins
+  • Matchups: Every possible pair of teams is costed the same way
   • Byes: 
     - Given to lowest ranked player without a bye
     - No one gets 2 byes until everyone has had 1
@@ -100,6 +116,17 @@ SCORING:
     text += `ROUND ${roundLog.round}\n`;
     text += `Generated: ${roundLog.generatedAt}\n`;
     text += `Players: ${roundLog.playerCount} | Byes needed: ${roundLog.byesNeeded}\n`;
+    if (roundLog.seeding) {
+      text += `Seeding: ${describeRoundOneSeeding(roundLog.seeding)}\n`;
+    }
+    if (roundLog.totalCost !== undefined) {
+      const breakdown = roundLog.costBreakdown;
+      text += `Pairing cost: ${roundLog.totalCost}`;
+      if (breakdown) {
+        text += ` (teams ${breakdown.teamFormation}, matchups ${breakdown.matchups}, bye games ${breakdown.byeGames})`;
+      }
+      text += '\n';
+    }
     text += '═══════════════════════════════════════════════════════════════\n\n';
 
     // Standings snapshot
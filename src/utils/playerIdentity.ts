@@ -0,0 +1,118 @@
+// Per-device identity for online tournaments
+// The host issues each player a join token (link/QR); the browser keeps it so the
+// player can reconnect as themselves without anyone else being able to.
+// Host and co-director secrets are kept the same way.
+
+const DEVICE_ID_KEY = 'swiss-device-id';
+const TOKEN_KEY_PREFIX = 'swiss-player-token:';
+const HOST_SECRET_KEY_PREFIX = 'swiss-host-secret:';
+const DIRECTOR_SECRET_KEY_PREFIX = 'swiss-director-secret:';
+
+function randomId(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Stable ID for this browser, created on first use
+ */
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = randomId();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+/**
+ * Short device description shown to the host, e.g. "iPhone • Safari"
+ */
+export function getDeviceLabel(): string {
+  const ua = navigator.userAgent;
+
+  const device = /iPhone/.test(ua) ? 'iPhone'
+    : /iPad/.test(ua) ? 'iPad'
+    : /Android/.test(ua) ? 'Android'
+    : /Mac OS X/.test(ua) ? 'Mac'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'Unknown device';
+
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : null;
+
+  return browser ? `${device} • ${browser}` : device;
+}
+
+export function getPlayerToken(roomCode: string): string | null {
+  return localStorage.getItem(TOKEN_KEY_PREFIX + roomCode.toUpperCase());
+}
+
+export function savePlayerToken(roomCode: string, token: string): void {
+  localStorage.setItem(TOKEN_KEY_PREFIX + roomCode.toUpperCase(), token);
+}
+
+export function clearPlayerToken(roomCode: string): void {
+  localStorage.removeItem(TOKEN_KEY_PREFIX + roomCode.toUpperCase());
+}
+
+/**
+ * Join link for a specific player (opened by the player to claim their identity)
+ */
+export function getPlayerJoinUrl(roomCode: string, token: string): string {
+  return `${window.location.origin}/join/${roomCode}?token=${encodeURIComponent(token)}`;
+}
+
+export function getHostSecret(roomCode: string): string | null {
+  return localStorage.getItem(HOST_SECRET_KEY_PREFIX + roomCode.toUpperCase());
+}
+
+export function saveHostSecret(roomCode: string, secret: string): void {
+  localStorage.setItem(HOST_SECRET_KEY_PREFIX + roomCode.toUpperCase(), secret);
+}
+
+export function clearHostSecret(roomCode: string): void {
+  localStorage.removeItem(HOST_SECRET_KEY_PREFIX + roomCode.toUpperCase());
+}
+
+export function getDirectorSecret(roomCode: string): string | null {
+  return localStorage.getItem(DIRECTOR_SECRET_KEY_PREFIX + roomCode.toUpperCase());
+}
+
+export function saveDirectorSecret(roomCode: string, secret: string): void {
+  localStorage.setItem(DIRECTOR_SECRET_KEY_PREFIX + roomCode.toUpperCase(), secret);
+}
+
+export function clearDirectorSecret(roomCode: string): void {
+  localStorage.removeItem(DIRECTOR_SECRET_KEY_PREFIX + roomCode.toUpperCase());
+}
+
+/**
+ * Recovery code the host writes down to regain host rights on any device,
+ * e.g. "ABC234-k3J9..."
+ */
+export function formatRecoveryCode(roomCode: string, hostSecret: string): string {
+  return `${roomCode.toUpperCase()}-${hostSecret}`;
+}
+
+export function parseRecoveryCode(text: string): { roomCode: string; hostSecret: string } | null {
+  const match = text.trim().match(/^([A-Za-z0-9]{6})-([A-Za-z0-9_-]{16,})$/);
+  if (!match) return null;
+  return { roomCode: match[1].toUpperCase(), hostSecret: match[2] };
+}
+
+/**
+ * Link that moves host rights to whichever device opens it (single use)
+ */
+export function getHostHandoffUrl(roomCode: string, handoffCode: string): string {
+  return `${window.location.origin}/join/${roomCode}?host=${encodeURIComponent(handoffCode)}`;
+}
+
+export function getDirectorJoinUrl(roomCode: string, directorSecret: string): string {
+  return `${window.location.origin}/join/${roomCode}?director=${encodeURIComponent(directorSecret)}`;
+}